@@ -1,7 +1,67 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import Visualizer from './components/Visualizer';
 import Controls from './components/Controls';
+import Playlist from './components/Playlist';
+import NowPlaying from './components/NowPlaying';
+import WaveformOverview from './components/WaveformOverview';
+import SectionTimeline from './components/SectionTimeline';
+import OutputControls from './components/OutputControls';
+import { useOutputControl } from './output/useOutputControl';
+import { useCleanMode } from './output/useCleanMode';
+import SceneSelector from './components/SceneSelector';
+import PresetManager from './components/PresetManager';
+import ParameterPanel from './components/ParameterPanel';
+import PostFxPanel from './components/PostFxPanel';
+import SpectrumPanel from './components/SpectrumPanel';
+import AudioFxPanel from './components/AudioFxPanel';
+import ExportPanel from './components/ExportPanel';
+import DeckPanel, { MixSettings } from './components/DeckPanel';
+import SessionPanel from './components/SessionPanel';
+import PerfHud from './components/PerfHud';
+import QualityControls from './components/QualityControls';
+import MidiPanel from './components/MidiPanel';
+import CameraPanel from './components/CameraPanel';
+import PlaygroundPanel from './components/PlaygroundPanel';
+import LibraryPanel from './components/LibraryPanel';
+import LyricsPanel from './components/LyricsPanel';
+import { SceneParamDef, defaultSceneParams, getScene, listScenes } from './scenes';
+import { hasSharedPreset, isPresetFile } from './presets';
+import { usePresets } from './presets/usePresets';
+import { useSession } from './session/useSession';
+import { createPerfMonitor } from './perf/monitor';
+import { useQuality } from './quality/useQuality';
+import { TIER_SETTINGS } from './quality/tiers';
+import { useReducedMotion } from './quality/useReducedMotion';
+import { usePlaylist } from './playlist/usePlaylist';
+import { useTrackInfo } from './playlist/trackInfo';
+import {
+  InputSourceKind,
+  SourceRouter,
+  createSourceRouter,
+  listInputDevices,
+  openDisplayAudio,
+  openMicrophone
+} from './audio/sources';
+import { configureAnalyser } from './audio/analysis';
+import { FxChain, applyPlayback, createFxChain } from './audio/fxChain';
+import { fxTrackKey, useAudioFx } from './audio/useAudioFx';
+import { DeckBlend, DeckIndex, DeckMixer, createDeckMixer } from './audio/decks';
+import { POSTFX_PASSES } from './postfx/chain';
+import { SEEK_STEP, VOLUME_STEP, describeKeys } from './input/shortcuts';
+import { ActionHandlers, useShortcuts } from './input/useShortcuts';
+import { MidiParam } from './input/midi';
+import { useMidi } from './input/useMidi';
+import { createCameraHandle } from './camera/handle';
+import { createIdbBackend } from './library/backend';
+import { LibraryTrack, createLibrary, resumePosition } from './library/library';
+import { useLibrary } from './library/useLibrary';
+import { RestoredSession, useLastSession } from './library/useLastSession';
+import { createPlayhead } from './audio/playhead';
+import { isLrcFile } from './lyrics/lrc';
+import { downloadLrc, useLyrics } from './lyrics/useLyrics';
+import { createPlaygroundHandle } from './playground/handle';
+import { useHitSounds } from './playground/useHitSounds';
 
 const formatTime = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
@@ -9,119 +69,653 @@ const formatTime = (seconds: number) => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+// How often the auto-mix watches the active deck for its mix point
+const AUTO_MIX_POLL_MS = 100;
+
+const otherDeck = (deck: DeckIndex): DeckIndex => (deck === 0 ? 1 : 0);
+
 const App: React.FC = () => {
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const playlist = usePlaylist();
+  const audioUrl = playlist.current?.url ?? null;
+  const trackInfo = useTrackInfo(playlist.state.entries, playlist.current);
+  const currentInfo = playlist.current ? trackInfo[playlist.current.id] ?? null : null;
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(0.7);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [source, setSource] = useState<InputSourceKind>('file');
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [inputDeviceId, setInputDeviceId] = useState<string | null>(null);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [perfMonitor] = useState(() => createPerfMonitor());
+  const [cameraHandle] = useState(() => createCameraHandle());
+  const [libraryStore] = useState(() => createLibrary(createIdbBackend()));
+  const library = useLibrary(libraryStore);
+  const [playhead] = useState(() => createPlayhead());
+  const [analysisWorker, setAnalysisWorker] = useState(false);
+  const [followSections, setFollowSections] = useState(true);
+  // Interactive physics playground; its settings live in the preset
+  const [interactive, setInteractive] = useState(false);
+  const [playgroundHandle] = useState(() => createPlaygroundHandle());
+  const [bodyCount, setBodyCount] = useState(0);
+  const presets = usePresets();
+  const { preset } = presets;
+  const activeScene = getScene(preset.sceneId);
+  const session = useSession({ preset, setPreset: presets.setPreset, isPlaying: isPlaying || source !== 'file' });
+  const audioFx = useAudioFx(source === 'file' && playlist.current ? fxTrackKey(playlist.current.file) : null);
+  const motion = useReducedMotion();
+  // Hides the whole overlay for a clean output; playback keeps running
+  const [panelsHidden, setPanelsHidden] = useState(false);
+  const clean = useCleanMode();
 
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Two decks, each an <audio> element with its own source node, crossfaded by the mixer
+  const deckRefs = useRef<[HTMLAudioElement | null, HTMLAudioElement | null]>([null, null]);
+  const deckSourcesRef = useRef<MediaElementAudioSourceNode[]>([]);
+  const mixerRef = useRef<DeckMixer | null>(null);
+  const deckBlendRef = useRef<DeckBlend | null>(null);
   const analyzerRef = useRef<AnalyserNode | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const routerRef = useRef<SourceRouter | null>(null);
+  const fxChainRef = useRef<FxChain | null>(null);
+  const fxRef = useRef(audioFx.fx);
+  fxRef.current = audioFx.fx;
+  const spectrumRef = useRef(preset.spectrum);
+  spectrumRef.current = preset.spectrum;
+  // Whether the next loaded track should start playing on its own
+  const autoPlayRef = useRef(false);
+  // Where the next loaded track should start, when resuming it from the library or the last session
+  const pendingSeekRef = useRef<{ entryId: string; time: number } | null>(null);
+  // Library track last counted as played, so pausing and resuming does not count again
+  const countedRef = useRef<string | null>(null);
 
-  const handleFileUpload = (file: File) => {
-    const url = URL.createObjectURL(file);
-    setAudioUrl(url);
-    setIsPlaying(false);
-    setCurrentTime(0);
-  };
+  const [active, setActive] = useState<DeckIndex>(0);
+  const activeRef = useRef<DeckIndex>(0);
+  const [deckIds, setDeckIds] = useState<[string | null, string | null]>([null, null]);
+  const deckIdsRef = useRef(deckIds);
+  deckIdsRef.current = deckIds;
+  const [mix, setMix] = useState<MixSettings>({ auto: false, length: 6, curve: 'equalPower' });
+  const mixRef = useRef(mix);
+  mixRef.current = mix;
+  const [faderPosition, setFaderPosition] = useState(0);
+  // The outgoing deck while an automatic crossfade runs
+  const [fadingDeck, setFadingDeck] = useState<DeckIndex | null>(null);
+  const fadingDeckRef = useRef<DeckIndex | null>(null);
+  const fadeTimerRef = useRef<number | null>(null);
 
-  const setupAudio = useCallback(() => {
-    if (!audioRef.current) return;
+  const activeDeck = () => deckRefs.current[activeRef.current];
+  const deckUrl = (deck: DeckIndex) =>
+    playlist.state.entries.find(e => e.id === deckIds[deck])?.url ?? undefined;
+  const preloadId = source === 'file' ? playlist.nextId(true) : null;
+  const currentKey = playlist.current ? fxTrackKey(playlist.current.file) : null;
+  const lyrics = useLyrics(source === 'file' ? currentKey : null, currentInfo?.metadata ?? null);
+  const shownLyrics = lyrics.shown ? lyrics.lyrics : null;
+  const shownStructure = followSections && source === 'file' ? currentInfo?.structure ?? null : null;
+  // What the projector output needs to draw the same scene; while it is connected this canvas pauses
+  const outputState = useMemo(
+    () => ({ preset, isPlaying: session.visualizer.isPlaying, reducedMotion: motion.reduced, lyrics: shownLyrics, structure: shownStructure }),
+    [preset, session.visualizer.isPlaying, motion.reduced, shownLyrics, shownStructure]
+  );
+  const output = useOutputControl({ state: outputState, analyzer: analyzerRef, decks: deckBlendRef, playhead });
+  const quality = useQuality(perfMonitor, isPlaying || source !== 'file', output.status === 'connected');
 
+  const handleFileUpload = (files: File[]) => {
+    playlist.add(files);
+    library.importFiles(files);
+  };
+
+  // One AudioContext and analyser for the app's lifetime; inputs are switched by the router
+  const ensureAudioGraph = useCallback(() => {
     if (!audioContextRef.current) {
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
+      analyzerRef.current = audioContextRef.current.createAnalyser();
+      configureAnalyser(analyzerRef.current, spectrumRef.current);
+      // Sources feed the FX chain; the analyser taps it before or after processing
+      fxChainRef.current = createFxChain(audioContextRef.current);
+      fxChainRef.current.setTap(analyzerRef.current, fxRef.current.tap);
+      fxChainRef.current.apply(fxRef.current);
+      routerRef.current = createSourceRouter(audioContextRef.current, fxChainRef.current.input, fxChainRef.current.output);
 
-    const ctx = audioContextRef.current;
-    
-    if (!sourceRef.current) {
-      sourceRef.current = ctx.createMediaElementSource(audioRef.current);
-      analyzerRef.current = ctx.createAnalyser();
-      analyzerRef.current.fftSize = 128; 
-      sourceRef.current.connect(analyzerRef.current);
-      analyzerRef.current.connect(ctx.destination);
+      const mixer = createDeckMixer(audioContextRef.current, mixRef.current.curve);
+      mixer.setPosition(activeRef.current);
+      mixer.decks.forEach(deck => configureAnalyser(deck.analyser, spectrumRef.current));
+      mixerRef.current = mixer;
+      // Live inputs bypass the decks, so there is nothing to blend while one is routed
+      deckBlendRef.current = {
+        analysers: [mixer.decks[0].analyser, mixer.decks[1].analyser],
+        weights: () => (routerRef.current?.kind === 'file' ? mixer.blendWeights() : null),
+      };
     }
 
+    const ctx = audioContextRef.current;
     if (ctx.state === 'suspended') {
       ctx.resume();
     }
+    return ctx;
   }, []);
 
+  const hitSounds = useHitSounds({
+    handle: playgroundHandle,
+    settings: preset.playground,
+    context: audioContextRef,
+    ensureContext: ensureAudioGraph,
+  });
+  useEffect(() => playgroundHandle.onCount(setBodyCount), [playgroundHandle]);
+
+  const toggleInteractive = () => {
+    // Collision sounds need the audio graph, which otherwise waits for the first track
+    if (!interactive) ensureAudioGraph();
+    setInteractive(on => !on);
+  };
+
+  const setupAudio = useCallback(() => {
+    const elements = deckRefs.current;
+    if (!elements[0] || !elements[1]) return;
+
+    const ctx = ensureAudioGraph();
+
+    if (deckSourcesRef.current.length === 0 && mixerRef.current) {
+      const mixer = mixerRef.current;
+      deckSourcesRef.current = elements.map((element, i) => {
+        const node = ctx.createMediaElementSource(element!);
+        node.connect(mixer.decks[i].input);
+        return node;
+      });
+      routerRef.current?.routeElement(mixer.output);
+    }
+  }, [ensureAudioGraph]);
+
+  const setFading = (deck: DeckIndex | null) => {
+    fadingDeckRef.current = deck;
+    setFadingDeck(deck);
+  };
+
+  const makeActive = (deck: DeckIndex) => {
+    activeRef.current = deck;
+    setActive(deck);
+  };
+
+  // Ends any transition: the idle deck stops and the fader rests on the active one
+  const finishFade = () => {
+    if (fadeTimerRef.current !== null) {
+      window.clearTimeout(fadeTimerRef.current);
+      fadeTimerRef.current = null;
+    }
+    deckRefs.current[otherDeck(activeRef.current)]?.pause();
+    mixerRef.current?.setPosition(activeRef.current);
+    setFaderPosition(activeRef.current);
+    setFading(null);
+  };
+
+  const stopDecks = () => {
+    finishFade();
+    deckRefs.current.forEach(element => element?.pause());
+    setIsPlaying(false);
+  };
+
+  // Hands the active deck's track to the transport once its metadata is known
+  const startDeck = (element: HTMLAudioElement) => {
+    setDuration(element.duration);
+    const resume = pendingSeekRef.current;
+    pendingSeekRef.current = null;
+    if (resume && resume.entryId === deckIdsRef.current[activeRef.current]) {
+      element.currentTime = resume.time;
+      setCurrentTime(resume.time);
+    }
+    if (autoPlayRef.current) {
+      autoPlayRef.current = false;
+      setupAudio();
+      element.play();
+      setIsPlaying(true);
+    }
+  };
+
+  /** Starts the preloaded idle deck and crossfades into it over `seconds` (0 cuts gaplessly). */
+  const mixTo = (seconds: number) => {
+    const from = activeRef.current;
+    const to = otherDeck(from);
+    const nextId = deckIdsRef.current[to];
+    const element = deckRefs.current[to];
+    if (!nextId || !element || fadingDeckRef.current !== null) return;
+
+    setupAudio();
+    const mixer = mixerRef.current;
+    if (!mixer) return;
+    element.currentTime = 0;
+    element.play();
+    mixer.fadeTo(to, seconds);
+    makeActive(to);
+    setFading(from);
+    fadeTimerRef.current = window.setTimeout(finishFade, seconds * 1000);
+
+    setDuration(element.duration || 0);
+    setCurrentTime(0);
+    setIsPlaying(true);
+    autoPlayRef.current = false;
+    playlist.select(nextId);
+  };
+
+  // Dragging toward the idle deck starts it; reaching the far end hands over to it
+  const handleCrossfader = (position: number) => {
+    const from = activeRef.current;
+    const to = otherDeck(from);
+    const idle = deckRefs.current[to];
+    const nextId = deckIdsRef.current[to];
+    const mixer = mixerRef.current;
+    if (!isPlaying || !idle || !nextId || !mixer || fadingDeckRef.current !== null) return;
+
+    if (position === from) {
+      idle.pause();
+      idle.currentTime = 0;
+    } else if (idle.paused) {
+      idle.currentTime = 0;
+      idle.play();
+    }
+    mixer.setPosition(position);
+    setFaderPosition(position);
+
+    if (position === to) {
+      deckRefs.current[from]?.pause();
+      makeActive(to);
+      setDuration(idle.duration || 0);
+      setCurrentTime(idle.currentTime);
+      playlist.select(nextId);
+    }
+  };
+
+  const refreshInputDevices = useCallback(() => {
+    listInputDevices().then(setInputDevices).catch(() => setInputDevices([]));
+  }, []);
+
+  const handleSelectSource = async (kind: InputSourceKind, deviceId?: string) => {
+    setSourceError(null);
+
+    if (kind === 'file') {
+      routerRef.current?.routeElement(null);
+      setSource('file');
+      return;
+    }
+
+    // Create the context inside the click so it is allowed to start
+    ensureAudioGraph();
+    try {
+      const stream = kind === 'microphone' ? await openMicrophone(deviceId) : await openDisplayAudio();
+      stopDecks();
+      routerRef.current?.routeStream(stream, kind, () => setSource('file'));
+      setSource(kind);
+
+      if (kind === 'microphone') {
+        setInputDeviceId(stream.getAudioTracks()[0]?.getSettings().deviceId ?? deviceId ?? null);
+        // Device labels only become readable after permission is granted
+        refreshInputDevices();
+      }
+    } catch (err) {
+      setSourceError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   const togglePlay = () => {
-    if (!audioRef.current) return;
-    
+    const element = activeDeck();
+    if (!element) return;
+
     if (isPlaying) {
-      audioRef.current.pause();
-    } else {
-      setupAudio();
-      audioRef.current.play();
+      stopDecks();
+      return;
     }
-    setIsPlaying(!isPlaying);
+    setupAudio();
+    element.play();
+    setIsPlaying(true);
   };
 
   const handleVolumeChange = (newVolume: number) => {
     setVolume(newVolume);
-    if (audioRef.current) {
-      audioRef.current.volume = newVolume;
-    }
+    deckRefs.current.forEach(element => {
+      if (element) element.volume = newVolume;
+    });
   };
 
   const handleSeek = (time: number) => {
-    if (audioRef.current) {
-      audioRef.current.currentTime = time;
+    const element = activeDeck();
+    if (element) {
+      element.currentTime = time;
       setCurrentTime(time);
-      
+      session.noteSeek(time);
+
       // Auto-play on seek if not already playing
       if (!isPlaying) {
         setupAudio();
-        audioRef.current.play();
+        element.play();
         setIsPlaying(true);
       }
     }
   };
 
-  const handleEject = () => {
-    if (audioUrl) {
-      URL.revokeObjectURL(audioUrl);
+  const restartTrack = () => {
+    const element = activeDeck();
+    if (!element) return;
+    element.currentTime = 0;
+    setCurrentTime(0);
+    if (isPlaying) element.play();
+  };
+
+  const goToTrack = (id: string | null, autoPlay: boolean) => {
+    if (!id) return;
+    // Picking a track to play while the mic or a capture is live goes back to the file player
+    const leavingLive = autoPlay && source !== 'file';
+    if (leavingLive) handleSelectSource('file');
+    if (id === playlist.current?.id) {
+      if (leavingLive) handleSeek(0);
+      else restartTrack();
+      return;
     }
-    setAudioUrl(null);
-    setIsPlaying(false);
+    autoPlayRef.current = autoPlay;
+    playlist.select(id);
+    setIsPlaying(autoPlay);
+    setCurrentTime(0);
+  };
+
+  const handleNext = () => goToTrack(playlist.nextId(false), isPlaying);
+
+  const handlePrevious = () => {
+    // Like most players: a few seconds in, "previous" restarts the current track
+    if (currentTime > 3) {
+      restartTrack();
+      return;
+    }
+    goToTrack(playlist.previousId(), isPlaying);
+  };
+
+  const handleRemove = (id: string) => {
+    if (fadingDeckRef.current !== null && deckIdsRef.current[fadingDeckRef.current] === id) {
+      finishFade();
+    }
+    if (id === playlist.current?.id) {
+      autoPlayRef.current = isPlaying;
+      setCurrentTime(0);
+    }
+    playlist.remove(id);
+  };
+
+  const onEnded = (deck: DeckIndex) => {
+    if (deck !== activeRef.current) return;
+    const nextId = playlist.nextId(true);
+    if (!nextId) {
+      setIsPlaying(false);
+      return;
+    }
+    const element = activeDeck();
+    if (nextId === playlist.current?.id && element) {
+      element.currentTime = 0;
+      element.play();
+      return;
+    }
+    goToTrack(nextId, true);
+  };
+
+  const handleEject = () => {
+    stopDecks();
+    playlist.clear();
     setCurrentTime(0);
     setDuration(0);
   };
 
-  const onTimeUpdate = () => {
-    if (audioRef.current) {
-      setCurrentTime(audioRef.current.currentTime);
+  const onTimeUpdate = (deck: DeckIndex) => {
+    const element = deckRefs.current[deck];
+    if (element && deck === activeRef.current) {
+      setCurrentTime(element.currentTime);
+      playhead.update(element.currentTime, !element.paused, element.playbackRate);
+    }
+  };
+
+  const onLoadedMetadata = (deck: DeckIndex) => {
+    const element = deckRefs.current[deck];
+    if (!element) return;
+    element.volume = volume;
+    applyPlayback(element, fxRef.current);
+    const entry = playlist.state.entries.find(e => e.id === deckIdsRef.current[deck]);
+    if (entry && isFinite(element.duration)) {
+      libraryStore.noteDuration(fxTrackKey(entry.file), element.duration).catch(() => {});
     }
+    if (deck === activeRef.current) startDeck(element);
+  };
+
+  /** Queues a library track unless it is queued already; plays it, resuming where it was left, if asked. */
+  const openFromLibrary = async (track: LibraryTrack, play: boolean) => {
+    let id = playlist.state.entries.find(e => fxTrackKey(e.file) === track.id)?.id;
+    if (!id) {
+      const file = await libraryStore.file(track.id);
+      if (!file) {
+        library.refresh();
+        return;
+      }
+      id = playlist.add([file])[0].id;
+    }
+    if (!play) return;
+    const position = resumePosition((await libraryStore.track(track.id)) ?? track);
+    pendingSeekRef.current = position > 0 ? { entryId: id, time: position } : null;
+    goToTrack(id, true);
+  };
+
+  // Brings back the queue, position, volume and visuals of the last visit, without starting playback
+  const handleRestore = (restored: RestoredSession) => {
+    handleVolumeChange(restored.volume);
+    if (restored.preset && !hasSharedPreset()) presets.setPreset(restored.preset);
+    // Files added before the library answered win over the saved queue
+    if (playlist.state.entries.length > 0 || restored.queue.length === 0) return;
+    const entries = playlist.add(restored.queue.map(item => item.file));
+    const index = restored.queue.findIndex(item => item.id === restored.currentId);
+    if (index < 0) return;
+    pendingSeekRef.current = { entryId: entries[index].id, time: restored.position };
+    playlist.select(entries[index].id);
+  };
+
+  useLastSession(
+    libraryStore,
+    {
+      queue: playlist.state.entries.map(e => fxTrackKey(e.file)),
+      currentId: currentKey,
+      position: Math.round(currentTime * 10) / 10,
+      volume,
+      preset,
+    },
+    handleRestore
+  );
+
+  const seekBy = (offset: number) => {
+    const element = activeDeck();
+    if (!element || source !== 'file' || !duration) return;
+    const time = Math.min(duration, Math.max(0, element.currentTime + offset));
+    element.currentTime = time;
+    setCurrentTime(time);
+    session.noteSeek(time);
+  };
+
+  const stepScene = (offset: number) => {
+    const scenes = listScenes();
+    if (scenes.length === 0) return;
+    const index = scenes.findIndex(s => s.id === preset.sceneId);
+    presets.selectScene(scenes[(index + offset + scenes.length) % scenes.length].id);
   };
 
-  const onLoadedMetadata = () => {
-    if (audioRef.current) {
-      setDuration(audioRef.current.duration);
-      audioRef.current.volume = volume;
+  const canMix = isPlaying && source === 'file' && !!deckIds[otherDeck(active)];
+
+  // Shared by the keyboard and MIDI pads
+  const actions: ActionHandlers = {
+    togglePlay: () => source === 'file' && audioUrl && togglePlay(),
+    seekBack: () => seekBy(-SEEK_STEP),
+    seekForward: () => seekBy(SEEK_STEP),
+    volumeUp: () => handleVolumeChange(Math.min(1, Math.round((volume + VOLUME_STEP) * 100) / 100)),
+    volumeDown: () => handleVolumeChange(Math.max(0, Math.round((volume - VOLUME_STEP) * 100) / 100)),
+    previousTrack: () => source === 'file' && handlePrevious(),
+    nextTrack: () => source === 'file' && handleNext(),
+    previousScene: () => stepScene(-1),
+    nextScene: () => stepScene(1),
+    mixNext: () => canMix && fadingDeck === null && mixTo(mix.length),
+    togglePanels: () => setPanelsHidden(hidden => !hidden),
+    toggleCleanMode: clean.toggle,
+    toggleReducedMotion: motion.toggle,
+  };
+  useShortcuts(actions);
+
+  // Knob targets: transport, the active scene's live parameters and the post-effect strengths
+  const midiParams: MidiParam[] = [
+    { id: 'volume', label: 'Volume', min: 0, max: 1 },
+    { id: 'crossfader', label: 'Crossfader', min: 0, max: 1 },
+    ...(activeScene?.params ?? [])
+      .filter((p): p is Extract<SceneParamDef, { type: 'number' }> => p.type === 'number' && !p.structural)
+      .map(p => ({ id: `scene:${p.key}`, label: `Scene ${p.label}`, min: p.min, max: p.max, step: p.step })),
+    ...POSTFX_PASSES.map(pass => ({ id: `postfx:${pass.id}`, label: `${pass.label} Amount`, min: 0, max: 1 })),
+  ];
+
+  const handleMidiParam = (id: string, value: number) => {
+    if (id === 'volume') handleVolumeChange(value);
+    else if (id === 'crossfader') handleCrossfader(value);
+    else if (id.startsWith('scene:') && activeScene) presets.setSceneParam(activeScene.id, id.slice('scene:'.length), value);
+    else if (id.startsWith('postfx:')) {
+      const passId = id.slice('postfx:'.length);
+      presets.setPostFx(preset.postfx.map(pass => (pass.id === passId ? { ...pass, amount: value } : pass)));
     }
   };
 
+  const midi = useMidi({ params: midiParams, onAction: (action) => actions[action]?.(), onParam: handleMidiParam });
+
+  // Presets and lyrics can be dropped anywhere; audio drops are handled by Controls
+  const handleDrop = (e: React.DragEvent) => {
+    const files = Array.from(e.dataTransfer.files);
+    const presetFile = files.find(isPresetFile);
+    const lrcFile = currentKey && source === 'file' ? files.find(isLrcFile) : undefined;
+    if (!presetFile && !lrcFile) return;
+    e.preventDefault();
+    if (presetFile) presets.importFile(presetFile);
+    if (lrcFile) lyrics.importFile(lrcFile);
+  };
+
+  useEffect(() => {
+    refreshInputDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshInputDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshInputDevices);
+  }, [refreshInputDevices]);
+
+  useEffect(() => {
+    if (analyzerRef.current) configureAnalyser(analyzerRef.current, preset.spectrum);
+    mixerRef.current?.decks.forEach(deck => configureAnalyser(deck.analyser, preset.spectrum));
+  }, [preset.spectrum]);
+
+  useEffect(() => {
+    fxChainRef.current?.apply(audioFx.fx);
+    deckRefs.current.forEach(element => element && applyPlayback(element, audioFx.fx));
+  }, [audioFx.fx]);
+
+  useEffect(() => {
+    mixerRef.current?.setCurve(mix.curve);
+  }, [mix.curve]);
+
+  useEffect(() => {
+    if (!isPlaying || source !== 'file' || !currentKey || countedRef.current === currentKey) return;
+    countedRef.current = currentKey;
+    libraryStore.notePlayed(currentKey).then(library.refresh, () => {});
+  }, [isPlaying, source, currentKey]);
+
+  // Puts the selected track on a deck: the idle one if it is already preloaded there, else the active one
+  useEffect(() => {
+    const id = playlist.current?.id ?? null;
+    if (deckIdsRef.current[activeRef.current] === id) return;
+    finishFade();
+
+    const next = otherDeck(activeRef.current);
+    const element = deckRefs.current[next];
+    if (id && deckIdsRef.current[next] === id && element) {
+      activeDeck()?.pause();
+      makeActive(next);
+      mixerRef.current?.setPosition(next);
+      setFaderPosition(next);
+      element.currentTime = 0;
+      // Otherwise onLoadedMetadata starts it once it has loaded
+      if (element.readyState >= HTMLMediaElement.HAVE_METADATA) startDeck(element);
+      return;
+    }
+
+    const deck = activeRef.current;
+    setDeckIds(ids => (deck === 0 ? [id, ids[1]] : [ids[0], id]));
+  }, [playlist.current?.id]);
+
+  // Preloads the track that follows on the idle deck, so the switch to it is gapless
+  useEffect(() => {
+    if (fadingDeck !== null) return;
+    const idle = otherDeck(active);
+    const id = preloadId !== playlist.current?.id ? preloadId : null;
+    if (deckIdsRef.current[idle] === id || !deckRefs.current[idle]?.paused) return;
+    setDeckIds(ids => (idle === 0 ? [id, ids[1]] : [ids[0], id]));
+  }, [preloadId, active, fadingDeck, playlist.current?.id]);
+
+  // Auto-mix: starts the crossfade `length` seconds before the active track ends
   useEffect(() => {
+    if (!isPlaying || !mix.auto || source !== 'file' || fadingDeck !== null) return;
+    let mixTimer: number | null = null;
+    const poll = window.setInterval(() => {
+      const element = activeDeck();
+      if (!element || !isFinite(element.duration) || !deckIdsRef.current[otherDeck(activeRef.current)]) return;
+      const remaining = (element.duration - element.currentTime) / (element.playbackRate || 1);
+      if (remaining > mix.length + AUTO_MIX_POLL_MS / 1000) return;
+      window.clearInterval(poll);
+      mixTimer = window.setTimeout(() => mixTo(mix.length), Math.max(0, remaining - mix.length) * 1000);
+    }, AUTO_MIX_POLL_MS);
     return () => {
-      if (audioUrl) URL.revokeObjectURL(audioUrl);
+      window.clearInterval(poll);
+      if (mixTimer !== null) window.clearTimeout(mixTimer);
+    };
+  }, [isPlaying, mix.auto, mix.length, source, fadingDeck]);
+
+  // Follows the crossfader while a scheduled fade moves it
+  useEffect(() => {
+    if (fadingDeck === null) return;
+    const timer = window.setInterval(() => {
+      if (mixerRef.current) setFaderPosition(mixerRef.current.position());
+    }, AUTO_MIX_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [fadingDeck]);
+
+  useEffect(() => {
+    return () => {
+      if (fadeTimerRef.current !== null) window.clearTimeout(fadeTimerRef.current);
+      routerRef.current?.dispose();
+      mixerRef.current?.dispose();
+      fxChainRef.current?.dispose();
       if (audioContextRef.current) audioContextRef.current.close();
     };
-  }, [audioUrl]);
+  }, []);
 
   return (
-    <div className="relative w-full h-screen bg-[#050505] overflow-hidden select-none">
+    <div
+      className={`relative w-full h-screen bg-[#050505] overflow-hidden select-none ${motion.reduced ? 'reduce-motion' : ''} ${clean.clean ? 'cursor-none' : ''}`}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
+    >
       {/* 3D Visualizer Canvas (Background) */}
       <div className="absolute inset-0 z-0">
-        <Visualizer analyzer={analyzerRef.current} isPlaying={isPlaying} />
+        <Visualizer
+          key={session.mountKey}
+          analyzer={analyzerRef.current}
+          decks={deckBlendRef.current}
+          preset={preset}
+          perf={perfMonitor}
+          analysisWorker={analysisWorker}
+          quality={quality.settings}
+          paused={quality.paused}
+          reducedMotion={motion.reduced}
+          camera={cameraHandle}
+          lyrics={shownLyrics}
+          playhead={playhead}
+          structure={shownStructure}
+          interactive={interactive}
+          playground={playgroundHandle}
+          {...session.visualizer}
+        />
       </div>
 
       {/* Interface Overlay (Frontend) */}
-      <div className="absolute inset-0 flex flex-col justify-between p-8 pointer-events-none z-10">
+      <div
+        className={`absolute inset-0 flex-col justify-between p-8 pointer-events-none z-10 ${panelsHidden || clean.clean ? 'hidden' : 'flex'}`}
+      >
         <header className="flex items-center space-x-4">
           <div className="w-10 h-10 border-2 border-cyan-500 rounded-sm flex items-center justify-center rotate-45 shadow-[0_0_15px_rgba(6,182,212,0.8)]">
             <div className="w-4 h-4 bg-cyan-400 animate-pulse -rotate-45" />
@@ -136,6 +730,174 @@ const App: React.FC = () => {
           </div>
         </header>
 
+        <div className="absolute top-28 left-8 pointer-events-auto">
+          <SceneSelector scenes={listScenes()} activeId={preset.sceneId} onSelect={presets.selectScene} />
+          <div className="mt-6">
+            <PresetManager
+              preset={preset}
+              saved={presets.saved}
+              error={presets.error}
+              onRename={presets.rename}
+              onSave={presets.save}
+              onLoad={presets.load}
+              onDelete={presets.remove}
+              onImport={presets.importFile}
+              onDismissError={presets.dismissError}
+            />
+          </div>
+          <div className="mt-6">
+            <ExportPanel
+              file={source === 'file' ? playlist.current?.file ?? null : null}
+              analysis={preset.spectrum}
+              onStart={stopDecks}
+              renderScene={(offline) => (
+                <Visualizer
+                  analyzer={null}
+                  isPlaying
+                  preset={preset}
+                  seed={session.seed}
+                  quality={TIER_SETTINGS.ultra}
+                  offline={offline}
+                />
+              )}
+            />
+          </div>
+          <div className="mt-6">
+            <SessionPanel
+              mode={session.mode}
+              seed={session.seed}
+              fixedStep={session.fixedStep}
+              progress={session.progress}
+              error={session.error}
+              onSeedChange={session.changeSeed}
+              onToggleFixedStep={session.toggleFixedStep}
+              onRecord={session.startRecording}
+              onStopRecording={session.stopRecording}
+              onReplay={(file) => {
+                stopDecks();
+                session.loadReplay(file);
+              }}
+              onStopReplay={session.stopReplay}
+              onDismissError={session.dismissError}
+            />
+          </div>
+          <div className="mt-6">
+            <LibraryPanel
+              tracks={library.tracks}
+              storage={library.storage}
+              importing={library.importing}
+              error={library.error}
+              onPlay={(track) => openFromLibrary(track, true)}
+              onQueue={(track) => openFromLibrary(track, false)}
+              onRemove={library.remove}
+              onClear={library.clear}
+              onDismissError={library.dismissError}
+            />
+          </div>
+        </div>
+
+        {playlist.state.entries.length > 0 && (
+          <div className="absolute top-8 right-8 pointer-events-auto">
+            <Playlist
+              queue={playlist.state}
+              titles={Object.fromEntries(
+                Object.entries(trackInfo).map(([id, info]) => [id, info.metadata.title ?? ''])
+              )}
+              onSelect={(id) => goToTrack(id, true)}
+              onRemove={handleRemove}
+              onMove={playlist.move}
+              onToggleShuffle={playlist.toggleShuffle}
+              onCycleRepeat={playlist.cycleRepeat}
+            />
+          </div>
+        )}
+
+        <div className="absolute bottom-56 right-8 pointer-events-auto space-y-4">
+          <DeckPanel
+            names={[0, 1].map(deck => playlist.state.entries.find(e => e.id === deckIds[deck])?.name ?? null) as [string | null, string | null]}
+            active={active}
+            position={faderPosition}
+            mixing={fadingDeck !== null}
+            canMix={canMix}
+            settings={mix}
+            onPositionChange={handleCrossfader}
+            onSettingsChange={setMix}
+            onMix={() => mixTo(mix.length)}
+          />
+          <MidiPanel
+            status={midi.status}
+            error={midi.error}
+            inputs={midi.inputs}
+            bindings={midi.bindings}
+            learning={midi.learning}
+            params={midiParams}
+            onEnable={midi.enable}
+            onLearn={midi.learn}
+            onUnbind={midi.unbind}
+            onClear={midi.clear}
+          />
+          <AudioFxPanel
+            fx={audioFx.fx}
+            analyser={analyzerRef.current}
+            sampleRate={audioContextRef.current?.sampleRate ?? 48000}
+            perTrack={source === 'file'}
+            onChange={audioFx.update}
+            onReset={audioFx.reset}
+          />
+          <LyricsPanel
+            lyrics={lyrics.lyrics}
+            source={lyrics.source}
+            time={currentTime}
+            canImport={source === 'file' && !!currentKey}
+            shown={lyrics.shown}
+            error={lyrics.error}
+            onImport={lyrics.importFile}
+            onExport={() => lyrics.lyrics && downloadLrc(lyrics.lyrics, playlist.current?.name ?? 'lyrics')}
+            onReset={lyrics.reset}
+            onToggleShown={lyrics.toggleShown}
+            onOffsetChange={lyrics.setOffset}
+            onShiftLine={lyrics.shiftLine}
+            onDismissError={lyrics.dismissError}
+          />
+          <CameraPanel
+            camera={preset.camera}
+            onChange={presets.setCamera}
+            onCapture={cameraHandle.capture}
+            onGoTo={(pose) => {
+              cameraHandle.goTo(pose);
+              output.goTo(pose);
+            }}
+          />
+          <PlaygroundPanel
+            enabled={interactive}
+            onToggle={toggleInteractive}
+            settings={preset.playground}
+            onChange={presets.setPlayground}
+            gravity={preset.environment.gravity[1]}
+            onGravityChange={(y) =>
+              presets.setEnvironment({ gravity: [preset.environment.gravity[0], y, preset.environment.gravity[2]] })
+            }
+            bodyCount={bodyCount}
+            onSpawn={playgroundHandle.spawn}
+            onClear={playgroundHandle.clear}
+            sampleName={hitSounds.sampleName}
+            onLoadSample={hitSounds.loadSample}
+            error={hitSounds.error}
+            onDismissError={hitSounds.dismissError}
+          />
+          <SpectrumPanel spectrum={preset.spectrum} onChange={presets.setSpectrum} />
+          <PostFxPanel passes={preset.postfx} active={quality.settings.postProcessing} onChange={presets.setPostFx} />
+          {activeScene && (
+            <ParameterPanel
+              scene={activeScene}
+              params={preset.sceneParams[activeScene.id] ?? defaultSceneParams(activeScene)}
+              routes={preset.modulation.filter(route => route.sceneId === activeScene.id)}
+              onParamChange={(key, value) => presets.setSceneParam(activeScene.id, key, value)}
+              onRouteChange={(param, route) => presets.setRoute(activeScene.id, param, route)}
+            />
+          )}
+        </div>
+
         {/* Unified Bottom Interface */}
         <div className="absolute bottom-0 left-0 w-full p-8 pointer-events-auto bg-gradient-to-t from-black via-black/80 to-transparent">
           <div className="max-w-5xl mx-auto flex flex-col items-center space-y-6">
@@ -144,16 +906,25 @@ const App: React.FC = () => {
             <Controls 
               onUpload={handleFileUpload} 
               onTogglePlay={togglePlay} 
+              onNext={handleNext}
+              onPrevious={handlePrevious}
               isPlaying={isPlaying} 
               hasAudio={!!audioUrl}
               volume={volume}
               onVolumeChange={handleVolumeChange}
               onEject={handleEject}
+              source={source}
+              inputDevices={inputDevices}
+              inputDeviceId={inputDeviceId}
+              sourceError={sourceError}
+              onSelectSource={handleSelectSource}
             />
 
             {/* Progress Bar Container */}
-            {audioUrl && (
+            {audioUrl && source === 'file' && (
               <div className="w-full space-y-3">
+                <NowPlaying metadata={currentInfo?.metadata ?? null} fallbackTitle={playlist.current?.name ?? ''} />
+
                 <div className="flex justify-between items-end text-[10px] font-mono text-cyan-500/80 uppercase tracking-[0.3em]">
                   <div className="flex items-baseline space-x-3">
                     <span className="text-sm text-cyan-400 font-bold">{formatTime(currentTime)}</span>
@@ -162,8 +933,28 @@ const App: React.FC = () => {
                   </div>
                   <div className="hidden sm:block opacity-40 animate-pulse uppercase">Sync_Buffer: {Math.round((currentTime / duration) * 100 || 0)}%</div>
                 </div>
+
+                {/* Song sections found by the offline analysis */}
+                {currentInfo?.structure && currentInfo.structure.sections.length > 0 && (
+                  <SectionTimeline
+                    structure={currentInfo.structure}
+                    time={currentTime}
+                    duration={duration}
+                    following={followSections}
+                    onSeek={handleSeek}
+                    onToggleFollowing={() => setFollowSections(on => !on)}
+                  />
+                )}
                 
-                <div className="relative group h-2 w-full bg-white/5 rounded-full overflow-hidden cursor-pointer border border-white/5">
+                <div className={`relative group w-full cursor-pointer ${currentInfo?.waveform ? 'h-12' : 'h-2'}`}>
+                  {/* Waveform overview behind the seek bar */}
+                  {currentInfo?.waveform && (
+                    <WaveformOverview
+                      waveform={currentInfo.waveform}
+                      progress={currentTime / (duration || 1)}
+                      className="absolute top-0 left-0 w-full h-10"
+                    />
+                  )}
                   <input
                     type="range"
                     min="0"
@@ -171,27 +962,37 @@ const App: React.FC = () => {
                     step="0.01"
                     value={currentTime}
                     onChange={(e) => handleSeek(parseFloat(e.target.value))}
-                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
-                  />
-                  <div 
-                    className="absolute top-0 left-0 h-full bg-gradient-to-r from-cyan-600 via-pink-500 to-cyan-400 shadow-[0_0_20px_rgba(6,182,212,0.8)] transition-all duration-100 z-10"
-                    style={{ width: `${(currentTime / (duration || 1)) * 100}%` }}
+                    aria-label="Seek"
+                    aria-valuetext={`${formatTime(currentTime)} of ${formatTime(duration)}`}
+                    title={`Seek (${describeKeys('seekBack')} / ${describeKeys('seekForward')})`}
+                    className="peer absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
                   />
-                  <div className="absolute inset-0 bg-cyan-400/5 z-0" />
+                  <div className="absolute bottom-0 left-0 h-2 w-full bg-white/5 rounded-full overflow-hidden border border-white/5 peer-focus-visible:ring-1 peer-focus-visible:ring-cyan-400">
+                    <div 
+                      className="absolute top-0 left-0 h-full bg-gradient-to-r from-cyan-600 via-pink-500 to-cyan-400 shadow-[0_0_20px_rgba(6,182,212,0.8)] transition-all duration-100 z-10"
+                      style={{ width: `${(currentTime / (duration || 1)) * 100}%` }}
+                    />
+                    <div className="absolute inset-0 bg-cyan-400/5 z-0" />
+                  </div>
                 </div>
               </div>
             )}
             
-            {audioUrl && (
-              <audio 
-                ref={audioRef} 
-                src={audioUrl} 
-                onEnded={() => setIsPlaying(false)}
-                onTimeUpdate={onTimeUpdate}
-                onLoadedMetadata={onLoadedMetadata}
+            {/* Both decks stay mounted so each MediaElementSource stays bound to the same element across tracks */}
+            {([0, 1] as const).map(deck => (
+              <audio
+                key={deck}
+                ref={(el) => {
+                  deckRefs.current[deck] = el;
+                }}
+                src={deckUrl(deck)}
+                preload="auto"
+                onEnded={() => onEnded(deck)}
+                onTimeUpdate={() => onTimeUpdate(deck)}
+                onLoadedMetadata={() => onLoadedMetadata(deck)}
                 className="hidden"
               />
-            )}
+            ))}
           </div>
         </div>
 
@@ -203,8 +1004,39 @@ const App: React.FC = () => {
             <p>PHYSICS_ENGINE: CANNON_JS</p>
           </div>
           <div className="text-right space-y-1 hidden sm:block">
-            <p>RENDER_BUFFER: 60FPS</p>
-            <p>GEOMETRY_COMPLEXITY: LOW</p>
+            <PerfHud
+              monitor={perfMonitor}
+              analysisWorker={analysisWorker}
+              onToggleAnalysisWorker={() => setAnalysisWorker(on => !on)}
+            />
+            <QualityControls
+              mode={quality.mode}
+              tier={quality.tier}
+              lowPower={quality.lowPower}
+              paused={quality.paused}
+              onCycleMode={quality.cycleMode}
+              onToggleLowPower={quality.toggleLowPower}
+            />
+            <OutputControls
+              supported={output.supported}
+              status={output.status}
+              error={output.error}
+              clean={clean.clean}
+              onOpen={output.open}
+              onClose={output.close}
+              onToggleClean={clean.toggle}
+              onDismissError={output.dismissError}
+            />
+            <p>
+              <button
+                onClick={motion.toggle}
+                aria-pressed={motion.reduced}
+                className="pointer-events-auto uppercase hover:text-cyan-400"
+                title={`Tone down flashing effects (${describeKeys('toggleReducedMotion')})`}
+              >
+                REDUCED_MOTION: {motion.reduced ? 'ON' : 'OFF'}{motion.fromSystem ? ' (OS)' : ''}
+              </button>
+            </p>
           </div>
         </footer>
       </div>
@@ -0,0 +1,100 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { AudioData } from '../types';
+import { AudioSampler, createAudioSampler, createEmptyAudioData } from './analysis';
+import { createWorkerSampler } from './workerSampler';
+import { BeatListener, BeatTracker, BeatTrackerOptions, createBeatTracker } from './beat';
+import { BandOptions, DEFAULT_BAND_OPTIONS, createBandProcessor } from './bands';
+import { DeckBlend, withDeckBlend } from './decks';
+
+interface AudioEngine {
+  data: React.MutableRefObject<AudioData>;
+  beat: BeatTracker;
+  bands: BandOptions;
+}
+
+const AudioDataContext = createContext<AudioEngine | null>(null);
+
+interface AudioDataProviderProps {
+  analyzer: AnalyserNode | null;
+  /** Replaces the analyser, e.g. with precomputed analysis during video export. */
+  sampler?: AudioSampler | null;
+  /** Run feature extraction in a Web Worker (one frame of latency). */
+  worker?: boolean;
+  /** Blend the two decks' features while they crossfade. */
+  decks?: DeckBlend | null;
+  beatOptions?: Partial<BeatTrackerOptions>;
+  /** How scenes group the spectrum into bars (see useBands). */
+  bands?: BandOptions;
+  children: React.ReactNode;
+}
+
+/**
+ * Samples the analyser once per frame (before any other useFrame callback)
+ * and exposes the snapshot to the scene through a ref, so reading it never
+ * triggers a React render. The same frame's spectral flux feeds the beat tracker.
+ */
+export const AudioDataProvider: React.FC<AudioDataProviderProps> = ({
+  analyzer,
+  sampler: override,
+  worker = false,
+  decks = null,
+  beatOptions,
+  bands = DEFAULT_BAND_OPTIONS,
+  children
+}) => {
+  const dataRef = useRef<AudioData>(createEmptyAudioData());
+  const sampler = useMemo(() => {
+    if (override) return override;
+    if (!analyzer) return null;
+    return withDeckBlend(worker ? createWorkerSampler(analyzer) : createAudioSampler(analyzer), decks);
+  }, [analyzer, override, worker, decks]);
+  // 自行建立的 sampler 才由這裡釋放
+  useEffect(() => (sampler && sampler !== override ? () => sampler.dispose?.() : undefined), [sampler, override]);
+  // 選項變更時重建 tracker (呼叫端需保持物件參考穩定)
+  const beat = useMemo(() => createBeatTracker(beatOptions), [beatOptions]);
+  const engine = useMemo(() => ({ data: dataRef, beat, bands }), [beat, bands]);
+
+  useFrame(() => {
+    if (!sampler) return;
+    dataRef.current = sampler.sample();
+    beat.process(dataRef.current.spectralFlux, sampler.currentTime());
+  }, -2);
+
+  return <AudioDataContext.Provider value={engine}>{children}</AudioDataContext.Provider>;
+};
+
+const useAudioEngine = () => {
+  const engine = useContext(AudioDataContext);
+  if (!engine) throw new Error('Audio hooks must be used inside an AudioDataProvider');
+  return engine;
+};
+
+export const useAudioData = () => useAudioEngine().data;
+
+export const useBeatTracker = () => useAudioEngine().beat;
+
+/**
+ * `count` band levels (0..1) mapped from the current spectrum with the
+ * provider's band options. Call `read(delta)` once per frame inside useFrame;
+ * each caller keeps its own normalisation state.
+ */
+export const useBands = (count: number) => {
+  const { data, bands } = useAudioEngine();
+  return useMemo(() => {
+    const processor = createBandProcessor(count, bands);
+    return {
+      levels: processor.levels,
+      read: (delta: number) => processor.process(data.current.frequencyData, data.current.sampleRate, delta),
+    };
+  }, [count, bands, data]);
+};
+
+/** Subscribes to beat events for the lifetime of the component. */
+export const useBeat = (listener: BeatListener) => {
+  const beat = useBeatTracker();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => beat.subscribe(event => listenerRef.current(event)), [beat]);
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSpectrum, bandEnergy, binWidth, timeDomainRms } from './analysis';
+
+const SAMPLE_RATE = 44100;
+const BINS = 1024;
+
+/** A byte spectrum that is `level` inside minHz..maxHz and silent elsewhere. */
+const spectrumWith = (minHz: number, maxHz: number, level = 255) => {
+  const data = new Uint8Array(BINS);
+  const width = binWidth(BINS, SAMPLE_RATE);
+  for (let i = 0; i < BINS; i++) if (i * width >= minHz && i * width < maxHz) data[i] = level;
+  return data;
+};
+
+describe('bandEnergy', () => {
+  it('averages only the bins inside the range', () => {
+    const data = spectrumWith(20, 250);
+    expect(bandEnergy(data, SAMPLE_RATE, 20, 250)).toBeGreaterThan(0.9);
+    expect(bandEnergy(data, SAMPLE_RATE, 4000, 20000)).toBe(0);
+  });
+
+  it('uses at least one bin for ranges narrower than a bin', () => {
+    const data = new Uint8Array(8).fill(51);
+    expect(bandEnergy(data, SAMPLE_RATE, 100, 101)).toBeCloseTo(0.2);
+    expect(bandEnergy(data, SAMPLE_RATE, 40000, 50000)).toBeCloseTo(0.2);
+  });
+
+  it('is zero for an empty spectrum', () => {
+    expect(bandEnergy(new Uint8Array(0), SAMPLE_RATE, 20, 250)).toBe(0);
+  });
+});
+
+describe('timeDomainRms', () => {
+  it('is zero for silence and one for a full-scale square wave', () => {
+    expect(timeDomainRms(new Uint8Array(256).fill(128))).toBe(0);
+    const square = Uint8Array.from({ length: 256 }, (_, i) => (i % 2 ? 0 : 255));
+    expect(timeDomainRms(square)).toBeCloseTo(1, 1);
+  });
+});
+
+describe('analyzeSpectrum', () => {
+  it('splits energy into bass, mid and treble', () => {
+    const bass = analyzeSpectrum(spectrumWith(20, 250), null, SAMPLE_RATE);
+    expect(bass.bassIntensity).toBeGreaterThan(0.9);
+    // 邊界上的頻段會被相鄰兩個頻帶共用
+    expect(bass.midIntensity).toBeLessThan(0.05);
+    expect(bass.trebleIntensity).toBe(0);
+
+    const treble = analyzeSpectrum(spectrumWith(4000, 20000), null, SAMPLE_RATE);
+    expect(treble.trebleIntensity).toBeGreaterThan(0.9);
+    expect(treble.bassIntensity).toBe(0);
+    expect(treble.midIntensity).toBeLessThan(0.05);
+  });
+
+  it('places the spectral centroid at the centre of a single band', () => {
+    const { spectralCentroid } = analyzeSpectrum(spectrumWith(1000, 2000), null, SAMPLE_RATE);
+    expect(spectralCentroid).toBeGreaterThan(1400);
+    expect(spectralCentroid).toBeLessThan(1600);
+  });
+
+  it('counts only rising bins as spectral flux', () => {
+    const loud = spectrumWith(20, 20000);
+    const quiet = new Uint8Array(BINS);
+    expect(analyzeSpectrum(loud, null, SAMPLE_RATE).spectralFlux).toBe(0);
+    expect(analyzeSpectrum(loud, quiet, SAMPLE_RATE).spectralFlux).toBeGreaterThan(0.9);
+    expect(analyzeSpectrum(quiet, loud, SAMPLE_RATE).spectralFlux).toBe(0);
+  });
+
+  it('ignores a previous frame of a different size', () => {
+    const { spectralFlux } = analyzeSpectrum(spectrumWith(20, 20000), new Uint8Array(16), SAMPLE_RATE);
+    expect(spectralFlux).toBe(0);
+  });
+
+  it('measures RMS on the waveform when one is given', () => {
+    const spectrum = spectrumWith(20, 20000);
+    const silence = new Uint8Array(BINS * 2).fill(128);
+    expect(analyzeSpectrum(spectrum, null, SAMPLE_RATE).rms).toBeGreaterThan(0.9);
+    expect(analyzeSpectrum(spectrum, null, SAMPLE_RATE, silence).rms).toBe(0);
+  });
+
+  it('returns an empty snapshot for an empty spectrum', () => {
+    const data = analyzeSpectrum(new Uint8Array(0), null, SAMPLE_RATE);
+    expect(data.averageFrequency).toBe(0);
+    expect(data.sampleRate).toBe(SAMPLE_RATE);
+  });
+});
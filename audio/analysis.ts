@@ -0,0 +1,153 @@
+import { AudioData } from '../types';
+
+// Frequency ranges (Hz) used for the band intensities
+export const BAND_RANGES = {
+  bass: [20, 250],
+  mid: [250, 4000],
+  treble: [4000, 20000],
+} as const;
+
+/** The AnalyserNode settings that shape frequencyData; shared by the live and offline analysers. */
+export interface AnalyserSettings {
+  fftSize: number;
+  smoothingTimeConstant: number;
+  minDecibels: number;
+  maxDecibels: number;
+}
+
+export const configureAnalyser = (analyser: AnalyserNode, settings: AnalyserSettings) => {
+  analyser.fftSize = settings.fftSize;
+  analyser.smoothingTimeConstant = settings.smoothingTimeConstant;
+  // minDecibels 必須一直小於 maxDecibels，依方向決定設定順序以免中途拋錯
+  if (settings.minDecibels >= analyser.maxDecibels) {
+    analyser.maxDecibels = settings.maxDecibels;
+    analyser.minDecibels = settings.minDecibels;
+  } else {
+    analyser.minDecibels = settings.minDecibels;
+    analyser.maxDecibels = settings.maxDecibels;
+  }
+};
+
+export const createEmptyAudioData = (binCount = 64, sampleRate = 44100): AudioData => ({
+  frequencyData: new Uint8Array(binCount),
+  timeDomainData: new Uint8Array(binCount * 2).fill(128),
+  averageFrequency: 0,
+  bassIntensity: 0,
+  midIntensity: 0,
+  trebleIntensity: 0,
+  rms: 0,
+  spectralCentroid: 0,
+  spectralFlux: 0,
+  sampleRate,
+});
+
+/** Width in Hz of one analyser bin (fftSize is always twice the bin count). */
+export const binWidth = (binCount: number, sampleRate: number) => sampleRate / (binCount * 2);
+
+/** Mean normalised magnitude of the bins whose centre falls in [minHz, maxHz). Always uses at least one bin. */
+export const bandEnergy = (data: Uint8Array, sampleRate: number, minHz: number, maxHz: number) => {
+  if (data.length === 0) return 0;
+  const width = binWidth(data.length, sampleRate);
+  let start = Math.max(0, Math.floor(minHz / width));
+  let end = Math.min(data.length, Math.ceil(maxHz / width));
+  if (start >= data.length) start = data.length - 1;
+  if (end <= start) end = start + 1;
+
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += data[i];
+  return sum / (end - start) / 255;
+};
+
+/** RMS of byte time-domain samples (128 is silence). */
+export const timeDomainRms = (data: Uint8Array) => {
+  if (data.length === 0) return 0;
+  let sumSquares = 0;
+  for (let i = 0; i < data.length; i++) {
+    const v = (data[i] - 128) / 128;
+    sumSquares += v * v;
+  }
+  return Math.sqrt(sumSquares / data.length);
+};
+
+/**
+ * Pure feature extraction over one frame of byte frequency data.
+ * `previous` is the previous frame's buffer (same length) and is only used for spectral flux.
+ * When `timeDomainData` is given, RMS is measured on the waveform instead of the spectrum.
+ */
+export const analyzeSpectrum = (
+  frequencyData: Uint8Array,
+  previous: Uint8Array | null,
+  sampleRate: number,
+  timeDomainData?: Uint8Array
+): AudioData => {
+  const n = frequencyData.length;
+  if (n === 0) return createEmptyAudioData(0, sampleRate);
+
+  const width = binWidth(n, sampleRate);
+  let sum = 0;
+  let sumSquares = 0;
+  let weighted = 0;
+  let flux = 0;
+
+  for (let i = 0; i < n; i++) {
+    const m = frequencyData[i] / 255;
+    sum += m;
+    sumSquares += m * m;
+    weighted += m * i * width;
+    if (previous && previous.length === n) {
+      const diff = m - previous[i] / 255;
+      if (diff > 0) flux += diff;
+    }
+  }
+
+  return {
+    frequencyData,
+    timeDomainData: timeDomainData ?? new Uint8Array(n * 2).fill(128),
+    averageFrequency: sum / n,
+    bassIntensity: bandEnergy(frequencyData, sampleRate, BAND_RANGES.bass[0], BAND_RANGES.bass[1]),
+    midIntensity: bandEnergy(frequencyData, sampleRate, BAND_RANGES.mid[0], BAND_RANGES.mid[1]),
+    trebleIntensity: bandEnergy(frequencyData, sampleRate, BAND_RANGES.treble[0], BAND_RANGES.treble[1]),
+    rms: timeDomainData ? timeDomainRms(timeDomainData) : Math.sqrt(sumSquares / n),
+    spectralCentroid: sum > 0 ? weighted / sum : 0,
+    spectralFlux: flux / n,
+    sampleRate,
+  };
+};
+
+export interface AudioSampler {
+  /** Reads the analyser once and returns the new snapshot. */
+  sample: () => AudioData;
+  /** Audio clock in seconds, the time base for beat tracking. */
+  currentTime: () => number;
+  /** Releases anything the sampler started, such as a worker. */
+  dispose?: () => void;
+}
+
+/**
+ * Owns the two frame buffers for an AnalyserNode so that the whole scene
+ * shares a single analyser read per frame.
+ */
+export const createAudioSampler = (analyzer: AnalyserNode): AudioSampler => {
+  let current = new Uint8Array(analyzer.frequencyBinCount);
+  let previous = new Uint8Array(analyzer.frequencyBinCount);
+  let waveform = new Uint8Array(analyzer.fftSize);
+  let hasPrevious = false;
+
+  return {
+    sample: () => {
+      if (current.length !== analyzer.frequencyBinCount) {
+        current = new Uint8Array(analyzer.frequencyBinCount);
+        previous = new Uint8Array(analyzer.frequencyBinCount);
+        waveform = new Uint8Array(analyzer.fftSize);
+        hasPrevious = false;
+      }
+      [previous, current] = [current, previous];
+      analyzer.getByteFrequencyData(current);
+      analyzer.getByteTimeDomainData(waveform);
+      const data = analyzeSpectrum(current, hasPrevious ? previous : null, analyzer.context.sampleRate, waveform);
+      hasPrevious = true;
+      return data;
+    },
+    currentTime: () => analyzer.context.currentTime,
+  };
+};
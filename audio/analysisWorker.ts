@@ -0,0 +1,21 @@
+// Feature extraction off the main thread: receives one analyser read per
+// frame, returns the AudioData snapshot and hands the buffers back.
+import { analyzeSpectrum } from './analysis';
+import type { AnalysisRequest, AnalysisResponse } from './workerSampler';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<AnalysisRequest>) => void) | null;
+  postMessage: (message: AnalysisResponse, transfer: Transferable[]) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+// 保留上一幀頻譜的副本供 spectral flux 使用
+let previous: Uint8Array | null = null;
+
+scope.onmessage = ({ data: { id, frequency, waveform, sampleRate } }) => {
+  const hasPrevious = previous !== null && previous.length === frequency.length;
+  const data = analyzeSpectrum(frequency, hasPrevious ? previous : null, sampleRate, waveform);
+  if (!hasPrevious) previous = new Uint8Array(frequency.length);
+  previous!.set(frequency);
+  scope.postMessage({ id, data }, [frequency.buffer, waveform.buffer]);
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { BAND_SCALES, DEFAULT_BAND_OPTIONS, bandEdges, createBandMap, createBandProcessor, mapBands } from './bands';
+
+const SAMPLE_RATE = 48000;
+
+describe('bandEdges', () => {
+  it.each(BAND_SCALES.map(s => s.id))('%s bands rise without gaps and stay inside the range', scale => {
+    const { lo, hi } = bandEdges(scale, 24, 20, 20000);
+    for (let i = 0; i < 24; i++) {
+      expect(hi[i]).toBeGreaterThan(lo[i]);
+      expect(lo[i]).toBeGreaterThanOrEqual(20 - 1e-6);
+      expect(hi[i]).toBeLessThanOrEqual(20000 + 1e-6);
+      if (i > 0) {
+        expect(lo[i]).toBeGreaterThanOrEqual(lo[i - 1]);
+        // 八度刻度合併頻帶時相鄰輸出可能重疊，但不會留下空隙
+        expect(lo[i]).toBeLessThanOrEqual(hi[i - 1] + 1e-6);
+      }
+    }
+  });
+
+  it.each(['linear', 'log', 'mel', 'bark'] as const)('%s bands tile minHz..maxHz exactly', scale => {
+    const { lo, hi } = bandEdges(scale, 24, 20, 20000);
+    expect(lo[0]).toBeCloseTo(20, 6);
+    expect(hi[23]).toBeCloseTo(20000, 6);
+    for (let i = 1; i < 24; i++) expect(lo[i]).toBeCloseTo(hi[i - 1], 6);
+  });
+
+  it('spaces linear bands evenly in Hz and log bands evenly in octaves', () => {
+    const linear = bandEdges('linear', 4, 0, 400);
+    expect(Array.from(linear.lo)).toEqual([0, 100, 200, 300]);
+    const log = bandEdges('log', 3, 100, 800);
+    for (let i = 0; i < 3; i++) expect(log.hi[i] / log.lo[i]).toBeCloseTo(2, 6);
+  });
+
+  it('puts mel edges at their perceptual spacing', () => {
+    const { lo, hi } = bandEdges('mel', 2, 0, 8000);
+    const mel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+    expect(mel(hi[0])).toBeCloseTo(mel(8000) / 2, 6);
+    expect(lo[1]).toBeCloseTo(hi[0], 6);
+  });
+
+  it('uses nominal third-octave bands centred on 1 kHz', () => {
+    // 1/3 八度的自然頻帶數，輸出數相同時一對一
+    const { lo, hi } = bandEdges('octave3', 10, 1000 * 2 ** (-0.5 / 3), 1000 * 2 ** (9.5 / 3));
+    for (let i = 0; i < 10; i++) {
+      expect(Math.sqrt(lo[i] * hi[i])).toBeCloseTo(1000 * 2 ** (i / 3), 3);
+    }
+  });
+
+  it('merges or shares octave bands when the count differs', () => {
+    const fewer = bandEdges('octave6', 4, 100, 10000);
+    const more = bandEdges('octave3', 64, 100, 10000);
+    expect(fewer.hi[3]).toBeLessThanOrEqual(10000);
+    expect(more.lo[1]).toBe(more.lo[0]);
+    expect(more.hi[63]).toBeLessThanOrEqual(10000);
+  });
+
+  it('returns empty edges for an empty range', () => {
+    const { lo, hi } = bandEdges('log', 4, 500, 500);
+    expect(Array.from(lo)).toEqual([0, 0, 0, 0]);
+    expect(Array.from(hi)).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('mapBands', () => {
+  it('takes the loudest bin of wide bands', () => {
+    const map = createBandMap(2, 8, 16, { ...DEFAULT_BAND_OPTIONS, scale: 'linear', minHz: 0, maxHz: 8 });
+    const data = Uint8Array.from([0, 255, 0, 0, 0, 0, 51, 0]);
+    const [low, high] = mapBands(data, map);
+    expect(low).toBe(1);
+    expect(high).toBeCloseTo(0.2, 6);
+  });
+
+  it('interpolates bands narrower than a bin', () => {
+    const map = createBandMap(16, 4, 8, { ...DEFAULT_BAND_OPTIONS, scale: 'linear', minHz: 0, maxHz: 4 });
+    const levels = mapBands(Uint8Array.from([0, 255, 0, 0]), map);
+    expect(Math.max(...levels)).toBeGreaterThan(0.5);
+    expect(Math.max(...levels)).toBeLessThanOrEqual(1);
+    // 相鄰輸出不會完全重複同一個頻段
+    expect(new Set(levels).size).toBeGreaterThan(4);
+  });
+
+  it('clamps maxHz to Nyquist', () => {
+    const map = createBandMap(8, 64, 8000, { ...DEFAULT_BAND_OPTIONS, maxHz: 20000 });
+    expect(map.end[7]).toBeLessThanOrEqual(64);
+  });
+});
+
+describe('createBandProcessor', () => {
+  const quiet = () => {
+    const data = new Uint8Array(512);
+    data.fill(40, 0, 40);
+    data.fill(10, 40);
+    return data;
+  };
+
+  it('raises the loudest band to full height with auto gain', () => {
+    const bands = createBandProcessor(16, { ...DEFAULT_BAND_OPTIONS, autoGain: true });
+    const levels = bands.process(quiet(), SAMPLE_RATE, 1 / 60);
+    expect(Math.max(...levels)).toBeCloseTo(1, 6);
+  });
+
+  it('flattens the spectral tilt when normalizing', () => {
+    const raw = createBandProcessor(16, { ...DEFAULT_BAND_OPTIONS, autoGain: false });
+    const flat = createBandProcessor(16, { ...DEFAULT_BAND_OPTIONS, autoGain: false, normalize: true });
+    const data = Uint8Array.from({ length: 512 }, (_, i) => Math.max(60, 255 - i));
+    const before = raw.process(data, SAMPLE_RATE, 1 / 60);
+    const spreadBefore = Math.max(...before) - Math.min(...before);
+    const after = flat.process(data, SAMPLE_RATE, 1 / 60);
+    expect(Math.max(...after) - Math.min(...after)).toBeLessThan(spreadBefore);
+    for (const level of after) expect(level).toBeCloseTo(1, 6);
+  });
+
+  it('rebuilds the bin map when the analyser size changes', () => {
+    const bands = createBandProcessor(8, { ...DEFAULT_BAND_OPTIONS, autoGain: false });
+    const small = bands.process(new Uint8Array(64).fill(255), SAMPLE_RATE, 1 / 60).slice();
+    const large = bands.process(new Uint8Array(4096).fill(255), SAMPLE_RATE, 1 / 60);
+    expect(Array.from(small)).toEqual(Array.from(large));
+  });
+
+  it('clears levels on reset', () => {
+    const bands = createBandProcessor(8, DEFAULT_BAND_OPTIONS);
+    bands.process(quiet(), SAMPLE_RATE, 1 / 60);
+    bands.reset();
+    expect(Array.from(bands.levels)).toEqual(new Array(8).fill(0));
+  });
+});
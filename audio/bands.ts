@@ -0,0 +1,185 @@
+export type BandScale = 'linear' | 'log' | 'mel' | 'bark' | 'octave3' | 'octave6';
+
+export const BAND_SCALES: { id: BandScale; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'log', label: 'Log' },
+  { id: 'mel', label: 'Mel' },
+  { id: 'bark', label: 'Bark' },
+  { id: 'octave3', label: '1/3 Oct' },
+  { id: 'octave6', label: '1/6 Oct' },
+];
+
+export interface BandOptions {
+  scale: BandScale;
+  minHz: number;
+  maxHz: number;
+  /** Divide each band by its own slowly decaying peak, flattening the spectral tilt. */
+  normalize: boolean;
+  /** Scale all bands together so the loudest recent band reaches full height. */
+  autoGain: boolean;
+}
+
+export const DEFAULT_BAND_OPTIONS: BandOptions = {
+  scale: 'log',
+  minHz: 20,
+  maxHz: 20000,
+  normalize: false,
+  autoGain: true,
+};
+
+// 頻率與各感知刻度之間的轉換
+const WARPS: Record<'linear' | 'log' | 'mel' | 'bark', { to: (hz: number) => number; from: (v: number) => number }> = {
+  linear: { to: hz => hz, from: v => v },
+  log: { to: hz => Math.log(hz), from: v => Math.exp(v) },
+  mel: { to: hz => 2595 * Math.log10(1 + hz / 700), from: v => 700 * (Math.pow(10, v / 2595) - 1) },
+  // Traunmüller (1990)
+  bark: { to: hz => (26.81 * hz) / (1960 + hz) - 0.53, from: v => (1960 * (v + 0.53)) / (26.28 - v) },
+};
+
+const OCTAVE_FRACTIONS: Record<'octave3' | 'octave6', number> = { octave3: 3, octave6: 6 };
+
+/**
+ * Lower and upper edge in Hz of each of `count` bands covering minHz..maxHz.
+ * Warped scales space the edges evenly on that scale. Fractional-octave
+ * scales use the nominal bands centred on 1 kHz · 2^(k/N); when `count`
+ * differs from the number of such bands, neighbouring outputs share or merge
+ * bands so the whole range is always covered.
+ */
+export const bandEdges = (scale: BandScale, count: number, minHz: number, maxHz: number) => {
+  const lo = new Float64Array(count);
+  const hi = new Float64Array(count);
+  if (count <= 0 || maxHz <= minHz) return { lo, hi };
+
+  if (scale === 'octave3' || scale === 'octave6') {
+    const n = OCTAVE_FRACTIONS[scale];
+    const first = Math.ceil(n * Math.log2(minHz / 1000));
+    const last = Math.max(first, Math.floor(n * Math.log2(maxHz / 1000)));
+    const natural = last - first + 1;
+    const edge = (k: number) => 1000 * Math.pow(2, (k - 0.5) / n);
+    for (let i = 0; i < count; i++) {
+      // 輸出少於自然頻帶時合併相鄰頻帶，多於時相鄰輸出共用
+      const from = first + Math.floor((i * natural) / count);
+      const to = Math.max(from, first + Math.ceil(((i + 1) * natural) / count) - 1);
+      lo[i] = Math.max(minHz, edge(from));
+      hi[i] = Math.min(maxHz, edge(to + 1));
+    }
+    return { lo, hi };
+  }
+
+  const warp = WARPS[scale];
+  const start = warp.to(minHz);
+  const span = warp.to(maxHz) - start;
+  for (let i = 0; i < count; i++) {
+    lo[i] = warp.from(start + (span * i) / count);
+    hi[i] = warp.from(start + (span * (i + 1)) / count);
+  }
+  return { lo, hi };
+};
+
+/** Which analyser bins feed each band, precomputed for one bin count and sample rate. */
+export interface BandMap {
+  count: number;
+  binCount: number;
+  sampleRate: number;
+  /** First and one-past-last bin of each band; equal when the band is narrower than a bin. */
+  start: Int32Array;
+  end: Int32Array;
+  /** Fractional bin at the band centre, used to interpolate narrow bands. */
+  position: Float32Array;
+}
+
+export const createBandMap = (count: number, binCount: number, sampleRate: number, options: BandOptions): BandMap => {
+  const { lo, hi } = bandEdges(options.scale, count, options.minHz, Math.min(options.maxHz, sampleRate / 2));
+  // 第 k 個頻段的中心頻率為 k × binHz
+  const binHz = sampleRate / (binCount * 2);
+  const start = new Int32Array(count);
+  const end = new Int32Array(count);
+  const position = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const from = lo[i] / binHz;
+    const to = hi[i] / binHz;
+    position[i] = Math.min(binCount - 1, (from + to) / 2);
+    const first = Math.max(0, Math.ceil(from - 0.5));
+    const last = Math.min(binCount, Math.ceil(to - 0.5));
+    start[i] = first;
+    end[i] = last > first ? last : first;
+  }
+  return { count, binCount, sampleRate, start, end, position };
+};
+
+/**
+ * Groups byte spectrum bins into bands, 0..1 each. A band takes the loudest
+ * of its bins, so narrow peaks survive in wide treble bands; bands narrower
+ * than one bin interpolate between the two nearest bins instead of repeating one.
+ */
+export const mapBands = (data: Uint8Array, map: BandMap, out = new Float32Array(map.count)) => {
+  const n = Math.min(data.length, map.binCount);
+  if (n === 0) return out.fill(0);
+  for (let i = 0; i < map.count; i++) {
+    const start = map.start[i];
+    const end = Math.min(n, map.end[i]);
+    if (end > start) {
+      let peak = 0;
+      for (let k = start; k < end; k++) if (data[k] > peak) peak = data[k];
+      out[i] = peak / 255;
+    } else {
+      const p = Math.min(n - 1, map.position[i]);
+      const k = Math.floor(p);
+      const next = Math.min(n - 1, k + 1);
+      out[i] = (data[k] + (data[next] - data[k]) * (p - k)) / 255;
+    }
+  }
+  return out;
+};
+
+// 峰值追蹤的釋放時間 (秒) 與下限，避免安靜段落把雜訊放大到滿格
+const NORMALIZE_RELEASE = 4;
+const AUTO_GAIN_RELEASE = 8;
+const PEAK_FLOOR = 0.15;
+
+/**
+ * Band levels for a fixed number of outputs (bars, rings…). The bin mapping
+ * is rebuilt whenever the analyser's size or sample rate changes, so callers
+ * can feed whatever spectrum the current frame has.
+ */
+export const createBandProcessor = (count: number, options: BandOptions) => {
+  const levels = new Float32Array(count);
+  const peaks = new Float32Array(count).fill(PEAK_FLOOR);
+  let gainPeak = PEAK_FLOOR;
+  let map: BandMap | null = null;
+
+  return {
+    levels,
+    /** Maps one frame of spectrum; `dt` in seconds drives the peak release. */
+    process: (data: Uint8Array, sampleRate: number, dt: number) => {
+      if (!map || map.binCount !== data.length || map.sampleRate !== sampleRate) {
+        map = createBandMap(count, data.length, sampleRate, options);
+      }
+      mapBands(data, map, levels);
+
+      if (options.normalize) {
+        const decay = Math.exp(-dt / NORMALIZE_RELEASE);
+        for (let i = 0; i < count; i++) {
+          peaks[i] = Math.max(levels[i], peaks[i] * decay, PEAK_FLOOR);
+          levels[i] /= peaks[i];
+        }
+      }
+
+      if (options.autoGain) {
+        let loudest = 0;
+        for (let i = 0; i < count; i++) if (levels[i] > loudest) loudest = levels[i];
+        gainPeak = Math.max(loudest, gainPeak * Math.exp(-dt / AUTO_GAIN_RELEASE), PEAK_FLOOR);
+        for (let i = 0; i < count; i++) levels[i] = Math.min(1, levels[i] / gainPeak);
+      }
+      return levels;
+    },
+    reset: () => {
+      peaks.fill(PEAK_FLOOR);
+      gainPeak = PEAK_FLOOR;
+      levels.fill(0);
+    },
+  };
+};
+
+export type BandProcessor = ReturnType<typeof createBandProcessor>;
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { BeatEvent } from '../types';
+import { analyzeBeats, createBeatTracker, estimateTempo, foldIntervalToBpm } from './beat';
+
+const SAMPLE_RATE = 22050;
+
+/** Short decaying noise bursts every beat, like a metronome. */
+const clickTrack = (bpm: number, seconds: number, offset = 0.1) => {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const period = 60 / bpm;
+  const length = Math.round(0.01 * SAMPLE_RATE);
+  // 固定種子的雜訊，讓每次結果一致
+  let seed = 1;
+  const noise = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 2 - 1;
+  for (let t = offset; t < seconds; t += period) {
+    const start = Math.round(t * SAMPLE_RATE);
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      samples[start + i] = noise() * Math.exp(-i / (length / 4));
+    }
+  }
+  return samples;
+};
+
+describe('foldIntervalToBpm', () => {
+  it('folds intervals into the tempo range by octaves', () => {
+    expect(foldIntervalToBpm(0.5, 70, 180)).toBe(120);
+    expect(foldIntervalToBpm(1, 70, 180)).toBe(120);
+    expect(foldIntervalToBpm(0.25, 70, 180)).toBe(120);
+    expect(foldIntervalToBpm(0, 70, 180)).toBe(0);
+  });
+});
+
+describe('estimateTempo', () => {
+  it('finds the period of evenly spaced onsets', () => {
+    const onsets = Array.from({ length: 8 }, (_, i) => i * 0.6);
+    const { bpm, confidence } = estimateTempo(onsets, 70, 180);
+    expect(bpm).toBeCloseTo(100, 5);
+    expect(confidence).toBe(1);
+  });
+
+  it('tolerates a missing onset', () => {
+    const onsets = [0, 0.5, 1, 2, 2.5, 3, 3.5];
+    expect(estimateTempo(onsets, 70, 180).bpm).toBeCloseTo(120, 5);
+  });
+
+  it('has no tempo without onset pairs', () => {
+    expect(estimateTempo([1], 70, 180)).toEqual({ bpm: 0, confidence: 0 });
+  });
+});
+
+describe('createBeatTracker', () => {
+  it('emits beats on flux spikes and counts downbeats', () => {
+    const tracker = createBeatTracker({ historySize: 20 });
+    const beats: BeatEvent[] = [];
+    for (let frame = 0; frame < 600; frame++) {
+      const time = frame / 60;
+      const beat = tracker.process(frame % 30 === 0 ? 1 : 0.01, time);
+      if (beat) beats.push(beat);
+    }
+    expect(beats.length).toBeGreaterThan(15);
+    expect(tracker.getState(10).bpm).toBeCloseTo(120, 0);
+    for (const beat of beats) expect(beat.isDownbeat).toBe(beat.beatIndex % 4 === 0);
+  });
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const tracker = createBeatTracker({ historySize: 10 });
+    let heard = 0;
+    const unsubscribe = tracker.subscribe(() => heard++);
+    for (let frame = 0; frame < 120; frame++) tracker.process(frame % 30 === 0 ? 1 : 0.01, frame / 60);
+    const before = heard;
+    unsubscribe();
+    for (let frame = 120; frame < 240; frame++) tracker.process(frame % 30 === 0 ? 1 : 0.01, frame / 60);
+    expect(before).toBeGreaterThan(0);
+    expect(heard).toBe(before);
+  });
+
+  it('forgets the tempo on reset', () => {
+    const tracker = createBeatTracker({ historySize: 10 });
+    for (let frame = 0; frame < 300; frame++) tracker.process(frame % 30 === 0 ? 1 : 0.01, frame / 60);
+    tracker.reset();
+    expect(tracker.getState(5)).toMatchObject({ bpm: 0, beatCount: 0, phase: 0 });
+  });
+});
+
+describe('analyzeBeats', () => {
+  it.each([90, 120, 150])('detects %i BPM on a synthetic click track', bpm => {
+    const result = analyzeBeats(clickTrack(bpm, 12), SAMPLE_RATE);
+    expect(result.bpm).toBeGreaterThan(bpm * 0.97);
+    expect(result.bpm).toBeLessThan(bpm * 1.03);
+    expect(result.confidence).toBeGreaterThan(0.8);
+  });
+
+  it('places beats on the clicks', () => {
+    const bpm = 120;
+    const { beats } = analyzeBeats(clickTrack(bpm, 8, 0.1), SAMPLE_RATE);
+    expect(beats.length).toBeGreaterThan(10);
+    for (const beat of beats) {
+      const offGrid = (beat.time - 0.1) % (60 / bpm);
+      // 一個 hop 加半個分析窗以內
+      expect(Math.min(offGrid, 60 / bpm - offGrid)).toBeLessThan(0.06);
+    }
+  });
+
+  it('finds nothing in silence', () => {
+    const result = analyzeBeats(new Float32Array(SAMPLE_RATE * 4), SAMPLE_RATE);
+    expect(result.beats).toEqual([]);
+    expect(result.bpm).toBe(0);
+  });
+});
@@ -0,0 +1,225 @@
+import { BeatEvent, BeatState } from '../types';
+import { hannWindow, magnitudeSpectrum } from './fft';
+
+export interface BeatTrackerOptions {
+  /** Number of flux frames kept for the adaptive threshold. */
+  historySize: number;
+  /** How many standard deviations above the local mean an onset must reach. */
+  sensitivity: number;
+  /** Absolute floor so silence and noise never register as onsets. */
+  minFlux: number;
+  /** Shortest time (s) allowed between two onsets. */
+  minInterval: number;
+  minBpm: number;
+  maxBpm: number;
+  beatsPerBar: number;
+  /** Onsets further than this fraction of a beat from the tempo grid are not emitted as beats. */
+  phaseTolerance: number;
+}
+
+export const DEFAULT_BEAT_OPTIONS: BeatTrackerOptions = {
+  historySize: 43,
+  sensitivity: 1.5,
+  minFlux: 1e-4,
+  minInterval: 0.25,
+  minBpm: 70,
+  maxBpm: 180,
+  beatsPerBar: 4,
+  phaseTolerance: 0.2,
+};
+
+// 節奏估計只看最近這段時間內的 onset
+const TEMPO_WINDOW = 8;
+const TEMPO_TOLERANCE = 0.04;
+
+export type BeatListener = (event: BeatEvent) => void;
+
+export interface BeatTracker {
+  /** Feeds one spectral flux value observed at `time` (s). Returns the beat if one was emitted. */
+  process: (flux: number, time: number) => BeatEvent | null;
+  getState: (time: number) => BeatState;
+  subscribe: (listener: BeatListener) => () => void;
+  reset: () => void;
+}
+
+const createEmptyState = (): BeatState => ({
+  bpm: 0,
+  confidence: 0,
+  phase: 0,
+  beatCount: 0,
+  lastBeatTime: -Infinity,
+});
+
+/** Folds an inter-onset interval into the [minBpm, maxBpm] range. Returns 0 for unusable intervals. */
+export const foldIntervalToBpm = (interval: number, minBpm: number, maxBpm: number) => {
+  if (interval <= 0) return 0;
+  let bpm = 60 / interval;
+  while (bpm < minBpm) bpm *= 2;
+  while (bpm > maxBpm) bpm /= 2;
+  return bpm >= minBpm ? bpm : 0;
+};
+
+/**
+ * Takes each consecutive inter-onset interval (folded into range) as a candidate
+ * beat period and scores it by how many recent onset pairs sit on a whole
+ * multiple of it. Confidence is the fraction of pairs that agree with the winner.
+ */
+export const estimateTempo = (onsets: number[], minBpm: number, maxBpm: number) => {
+  const pairs: number[] = [];
+  const candidates: number[] = [];
+  for (let i = 0; i < onsets.length; i++) {
+    for (let j = i + 1; j < onsets.length && j <= i + 4; j++) {
+      const interval = onsets[j] - onsets[i];
+      pairs.push(interval);
+      if (j === i + 1) {
+        const bpm = foldIntervalToBpm(interval, minBpm, maxBpm);
+        if (bpm > 0) candidates.push(60 / bpm);
+      }
+    }
+  }
+  if (candidates.length === 0) return { bpm: 0, confidence: 0 };
+
+  let bestPeriod = 0;
+  let bestScore = 0;
+  for (const candidate of candidates) {
+    let sum = 0;
+    let score = 0;
+    for (const interval of pairs) {
+      const multiple = Math.round(interval / candidate);
+      if (multiple >= 1 && Math.abs(interval - multiple * candidate) <= multiple * candidate * TEMPO_TOLERANCE) {
+        sum += interval / multiple;
+        score++;
+      }
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestPeriod = sum / score;
+    }
+  }
+
+  return { bpm: 60 / bestPeriod, confidence: bestScore / pairs.length };
+};
+
+/**
+ * Onset detection over spectral flux with an adaptive (mean + k·σ) threshold,
+ * plus tempo and phase tracking from the recent onset history.
+ */
+export const createBeatTracker = (overrides: Partial<BeatTrackerOptions> = {}): BeatTracker => {
+  const options = { ...DEFAULT_BEAT_OPTIONS, ...overrides };
+  const listeners = new Set<BeatListener>();
+  let history: number[] = [];
+  let onsets: number[] = [];
+  let lastOnset = -Infinity;
+  let state = createEmptyState();
+
+  const phaseAt = (time: number) => {
+    if (state.bpm <= 0 || !isFinite(state.lastBeatTime)) return 0;
+    const period = 60 / state.bpm;
+    const elapsed = (time - state.lastBeatTime) / period;
+    return elapsed - Math.floor(elapsed);
+  };
+
+  const process = (flux: number, time: number): BeatEvent | null => {
+    let mean = 0;
+    for (const f of history) mean += f;
+    mean = history.length ? mean / history.length : 0;
+    let variance = 0;
+    for (const f of history) variance += (f - mean) ** 2;
+    const std = history.length ? Math.sqrt(variance / history.length) : 0;
+    const threshold = Math.max(mean + options.sensitivity * std, options.minFlux);
+
+    history.push(flux);
+    if (history.length > options.historySize) history.shift();
+
+    // 需要足夠的歷史才能建立自適應門檻
+    if (history.length < Math.min(8, options.historySize)) return null;
+    if (flux <= threshold || time - lastOnset < options.minInterval) return null;
+
+    lastOnset = time;
+    onsets.push(time);
+    onsets = onsets.filter(t => time - t <= TEMPO_WINDOW);
+
+    const tempo = estimateTempo(onsets, options.minBpm, options.maxBpm);
+    const phase = phaseAt(time);
+    const onGrid =
+      state.bpm <= 0 || phase <= options.phaseTolerance || phase >= 1 - options.phaseTolerance;
+    // 超過兩拍沒有對上網格時，視為失步並以此 onset 重新對齊
+    const lost = state.bpm > 0 && time - state.lastBeatTime > (60 / state.bpm) * 2;
+
+    state = { ...state, bpm: tempo.bpm, confidence: tempo.confidence };
+    if (!onGrid && !lost) return null;
+
+    const event: BeatEvent = {
+      time,
+      strength: Math.min(1, (flux - threshold) / Math.max(threshold, options.minFlux)),
+      confidence: tempo.confidence,
+      bpm: tempo.bpm,
+      beatIndex: state.beatCount,
+      isDownbeat: state.beatCount % options.beatsPerBar === 0,
+    };
+    state = { ...state, beatCount: state.beatCount + 1, lastBeatTime: time };
+    listeners.forEach(listener => listener(event));
+    return event;
+  };
+
+  return {
+    process,
+    getState: (time: number) => ({ ...state, phase: phaseAt(time) }),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    reset: () => {
+      history = [];
+      onsets = [];
+      lastOnset = -Infinity;
+      state = createEmptyState();
+    },
+  };
+};
+
+export interface OfflineBeatResult {
+  bpm: number;
+  confidence: number;
+  beats: BeatEvent[];
+}
+
+/**
+ * Runs the same tracker over raw PCM (e.g. a channel from an OfflineAudioContext
+ * render or a synthetic click track) so detected tempo can be checked headless.
+ */
+export const analyzeBeats = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: Partial<BeatTrackerOptions> = {},
+  frameSize = 1024,
+  hopSize = 512
+): OfflineBeatResult => {
+  const tracker = createBeatTracker({
+    // 以 hop 對應的幀率換算約一秒的歷史
+    historySize: Math.round(sampleRate / hopSize),
+    ...options,
+  });
+  const window = hannWindow(frameSize);
+  const beats: BeatEvent[] = [];
+  let previous: Float32Array | null = null;
+
+  for (let offset = 0; offset + frameSize <= samples.length; offset += hopSize) {
+    const spectrum = magnitudeSpectrum(samples, offset, window);
+    let flux = 0;
+    if (previous) {
+      for (let i = 0; i < spectrum.length; i++) {
+        const diff = spectrum[i] - previous[i];
+        if (diff > 0) flux += diff;
+      }
+      flux /= spectrum.length;
+    }
+    previous = spectrum;
+
+    const beat = tracker.process(flux, (offset + frameSize / 2) / sampleRate);
+    if (beat) beats.push(beat);
+  }
+
+  const state = tracker.getState(samples.length / sampleRate);
+  return { bpm: state.bpm, confidence: state.confidence, beats };
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { AudioSampler, analyzeSpectrum } from './analysis';
+import { CROSSFADE_CURVES, createDeckSampler, crossfadeGains, fadePosition } from './decks';
+
+describe('crossfadeGains', () => {
+  it.each(CROSSFADE_CURVES.map(c => c.id))('%s plays only one deck at either end', curve => {
+    const [a0, b0] = crossfadeGains(0, curve);
+    const [a1, b1] = crossfadeGains(1, curve);
+    expect(a0).toBeCloseTo(1, 9);
+    expect(b0).toBeCloseTo(0, 9);
+    expect(a1).toBeCloseTo(0, 9);
+    expect(b1).toBeCloseTo(1, 9);
+  });
+
+  it('keeps the summed power constant for equal power', () => {
+    for (let x = 0; x <= 1; x += 0.05) {
+      const [a, b] = crossfadeGains(x, 'equalPower');
+      expect(a * a + b * b).toBeCloseTo(1, 9);
+    }
+    const [a, b] = crossfadeGains(0.5, 'equalPower');
+    expect(a).toBeCloseTo(Math.SQRT1_2, 9);
+    expect(b).toBeCloseTo(Math.SQRT1_2, 9);
+  });
+
+  it('keeps the summed amplitude constant for linear', () => {
+    for (let x = 0; x <= 1; x += 0.05) {
+      const [a, b] = crossfadeGains(x, 'linear');
+      expect(a + b).toBeCloseTo(1, 9);
+    }
+  });
+
+  it('switches over at the midpoint for cut', () => {
+    expect(crossfadeGains(0.49, 'cut')).toEqual([1, 0]);
+    expect(crossfadeGains(0.5, 'cut')).toEqual([0, 1]);
+  });
+
+  it('clamps positions outside 0..1', () => {
+    expect(crossfadeGains(-2, 'linear')).toEqual([1, 0]);
+    expect(crossfadeGains(3, 'linear')).toEqual([0, 1]);
+  });
+});
+
+describe('fadePosition', () => {
+  const fade = { from: 0, to: 1, start: 10, duration: 4 };
+
+  it('moves linearly between the start and the end of the fade', () => {
+    expect(fadePosition(fade, 9)).toBe(0);
+    expect(fadePosition(fade, 11)).toBe(0.25);
+    expect(fadePosition(fade, 14)).toBe(1);
+    expect(fadePosition(fade, 20)).toBe(1);
+  });
+
+  it('jumps straight to the target without a duration', () => {
+    expect(fadePosition({ ...fade, duration: 0 }, 0)).toBe(1);
+  });
+});
+
+describe('createDeckSampler', () => {
+  /** Counts reads; every bin is `level`. */
+  const fakeSampler = (level: number) => {
+    let reads = 0;
+    const sampler: AudioSampler = {
+      sample: () => {
+        reads++;
+        return analyzeSpectrum(new Uint8Array(16).fill(level), null, 48000, new Uint8Array(32).fill(128));
+      },
+      currentTime: () => 1,
+    };
+    return { sampler, reads: () => reads };
+  };
+
+  it('reads only the master while one deck is audible', () => {
+    const master = fakeSampler(10);
+    const a = fakeSampler(200);
+    const b = fakeSampler(100);
+    const sampler = createDeckSampler(master.sampler, [a.sampler, b.sampler], () => null);
+    for (let i = 0; i < 5; i++) expect(sampler.sample().frequencyData[0]).toBe(10);
+    expect(master.reads()).toBe(5);
+    expect(a.reads()).toBe(0);
+    expect(b.reads()).toBe(0);
+  });
+
+  it('blends the decks by their gains while both are audible', () => {
+    const a = fakeSampler(200);
+    const b = fakeSampler(100);
+    const sampler = createDeckSampler(fakeSampler(10).sampler, [a.sampler, b.sampler], () => [0.75, 0.25]);
+    const data = sampler.sample();
+    expect(data.frequencyData[0]).toBe(175);
+    expect(data.averageFrequency).toBeCloseTo((200 * 0.75 + 100 * 0.25) / 255, 6);
+    expect(a.reads()).toBe(1);
+    expect(b.reads()).toBe(1);
+  });
+
+  it('starts sampling the decks when a fade begins', () => {
+    let weights: [number, number] | null = null;
+    const a = fakeSampler(200);
+    const sampler = createDeckSampler(fakeSampler(10).sampler, [a.sampler, fakeSampler(100).sampler], () => weights);
+    sampler.sample();
+    sampler.sample();
+    weights = [0.5, 0.5];
+    expect(sampler.sample().frequencyData[0]).toBe(150);
+    weights = null;
+    expect(sampler.sample().frequencyData[0]).toBe(10);
+    expect(a.reads()).toBe(1);
+  });
+});
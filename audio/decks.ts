@@ -0,0 +1,227 @@
+import { AudioData } from '../types';
+import { AudioSampler, createAudioSampler } from './analysis';
+
+export type DeckIndex = 0 | 1;
+export type CrossfadeCurve = 'linear' | 'equalPower' | 'cut';
+
+export const CROSSFADE_CURVES: { id: CrossfadeCurve; label: string }[] = [
+  { id: 'equalPower', label: 'Equal Power' },
+  { id: 'linear', label: 'Linear' },
+  { id: 'cut', label: 'Cut' },
+];
+
+export const MIX_LENGTH_LIMITS = [0, 20] as const;
+
+/**
+ * Gains of deck A and deck B at a crossfader position (0 = only A, 1 = only B).
+ * Equal power keeps the summed loudness steady through the middle; cut
+ * switches over halfway.
+ */
+export const crossfadeGains = (position: number, curve: CrossfadeCurve): [number, number] => {
+  const x = Math.min(1, Math.max(0, position));
+  switch (curve) {
+    case 'linear':
+      return [1 - x, x];
+    case 'equalPower':
+      return [Math.cos((x * Math.PI) / 2), Math.sin((x * Math.PI) / 2)];
+    case 'cut':
+      return x < 0.5 ? [1, 0] : [0, 1];
+  }
+};
+
+/** A scheduled move of the crossfader, in audio-clock seconds. */
+export interface Fade {
+  from: number;
+  to: number;
+  start: number;
+  duration: number;
+}
+
+export const fadePosition = (fade: Fade, time: number) => {
+  if (fade.duration <= 0 || time >= fade.start + fade.duration) return fade.to;
+  if (time <= fade.start) return fade.from;
+  return fade.from + (fade.to - fade.from) * ((time - fade.start) / fade.duration);
+};
+
+// 排程增益曲線的取樣點數
+const CURVE_STEPS = 64;
+// 兩台都低於此增益時不算在淡化中
+const AUDIBLE_GAIN = 0.01;
+
+/**
+ * Two decks into one bus. Each deck has an input for its source, an analyser
+ * reading it before the fader, and a fader gain driven by the crossfader.
+ * Only gain and analyser nodes are used, so the whole mixer also runs inside
+ * an OfflineAudioContext.
+ */
+export const createDeckMixer = (ctx: BaseAudioContext, curve: CrossfadeCurve = 'equalPower') => {
+  const output = ctx.createGain();
+  const decks = ([0, 1] as const).map(() => {
+    const input = ctx.createGain();
+    const analyser = ctx.createAnalyser();
+    const fader = ctx.createGain();
+    input.connect(analyser);
+    input.connect(fader);
+    fader.connect(output);
+    return { input, analyser, fader };
+  }) as [Deck, Deck];
+
+  let fade: Fade = { from: 0, to: 0, start: 0, duration: 0 };
+  let currentCurve = curve;
+
+  const position = () => fadePosition(fade, ctx.currentTime);
+
+  const setGains = (at: number, value: number) => {
+    const gains = crossfadeGains(value, currentCurve);
+    decks.forEach((deck, i) => {
+      deck.fader.gain.cancelScheduledValues(0);
+      deck.fader.gain.setValueAtTime(gains[i], at);
+    });
+  };
+
+  setGains(0, 0);
+
+  return {
+    decks,
+    /** Bus carrying the mixed decks; route it on to the effects and speakers. */
+    output,
+    position,
+    /** True while a scheduled fade is still moving. */
+    fading: () => {
+      const now = ctx.currentTime;
+      return fade.duration > 0 && now >= fade.start && now < fade.start + fade.duration;
+    },
+    setCurve: (next: CrossfadeCurve) => {
+      currentCurve = next;
+      if (fade.duration === 0 || ctx.currentTime >= fade.start + fade.duration) setGains(ctx.currentTime, position());
+    },
+    /** Jumps the crossfader, cancelling any fade in progress. */
+    setPosition: (value: number) => {
+      const now = ctx.currentTime;
+      fade = { from: value, to: value, start: now, duration: 0 };
+      setGains(now, value);
+    },
+    /** Moves the crossfader from where it is now to `target` over `seconds`, starting at `at`. */
+    fadeTo: (target: number, seconds: number, at = ctx.currentTime) => {
+      const from = fadePosition(fade, at);
+      fade = { from, to: target, start: at, duration: Math.max(0, seconds) };
+      if (fade.duration === 0 || currentCurve === 'cut') {
+        // cut 曲線在中點切換
+        decks.forEach(deck => deck.fader.gain.cancelScheduledValues(0));
+        const switchAt = at + fade.duration / 2;
+        const [a, b] = crossfadeGains(from, currentCurve);
+        const [ta, tb] = crossfadeGains(target, currentCurve);
+        decks[0].fader.gain.setValueAtTime(a, at);
+        decks[1].fader.gain.setValueAtTime(b, at);
+        decks[0].fader.gain.setValueAtTime(ta, switchAt);
+        decks[1].fader.gain.setValueAtTime(tb, switchAt);
+        return;
+      }
+      decks.forEach((deck, i) => {
+        const values = new Float32Array(CURVE_STEPS);
+        for (let k = 0; k < CURVE_STEPS; k++) {
+          values[k] = crossfadeGains(from + ((target - from) * k) / (CURVE_STEPS - 1), currentCurve)[i];
+        }
+        deck.fader.gain.cancelScheduledValues(0);
+        deck.fader.gain.setValueCurveAtTime(values, at, fade.duration);
+      });
+    },
+    /** Current deck gains, or null when only one deck is audible. */
+    blendWeights: (): [number, number] | null => {
+      const gains = crossfadeGains(position(), currentCurve);
+      return gains[0] > AUDIBLE_GAIN && gains[1] > AUDIBLE_GAIN ? gains : null;
+    },
+    dispose: () => {
+      output.disconnect();
+      decks.forEach(deck => {
+        deck.input.disconnect();
+        deck.fader.disconnect();
+      });
+    },
+  };
+};
+
+export interface Deck {
+  input: GainNode;
+  analyser: AnalyserNode;
+  fader: GainNode;
+}
+
+export type DeckMixer = ReturnType<typeof createDeckMixer>;
+
+/** What the visualizer needs to blend the decks: their analysers and the live fader gains. */
+export interface DeckBlend {
+  analysers: [AnalyserNode, AnalyserNode];
+  weights: () => [number, number] | null;
+}
+
+const blendBytes = (a: Uint8Array, b: Uint8Array, wa: number, wb: number, out: Uint8Array) => {
+  for (let i = 0; i < out.length; i++) out[i] = Math.round(a[i] * wa + b[i] * wb);
+  return out;
+};
+
+/**
+ * Serves the mixed signal's analysis while one deck plays, and a weighted
+ * blend of both decks' features while they overlap, so the outgoing track's
+ * beats and spectrum fade out of the scene along with its audio. The deck
+ * analysers are only read while both decks are audible.
+ */
+export const createDeckSampler = (
+  master: AudioSampler,
+  decks: [AudioSampler, AudioSampler],
+  weights: () => [number, number] | null
+): AudioSampler => {
+  let frequency = new Uint8Array(0);
+  let waveform = new Uint8Array(0);
+  let blending = false;
+
+  return {
+    sample: () => {
+      const mixed = master.sample();
+      const w = weights();
+      if (!w) {
+        blending = false;
+        return mixed;
+      }
+      const a = decks[0].sample();
+      const b = decks[1].sample();
+      // 閒置期間各台的上一幀已過時，開始混合的第一幀沿用主訊號的 flux
+      const resumed = !blending;
+      blending = true;
+      if (a.frequencyData.length !== b.frequencyData.length || a.timeDomainData.length !== b.timeDomainData.length) {
+        return mixed;
+      }
+
+      const total = w[0] + w[1];
+      const wa = w[0] / total;
+      const wb = w[1] / total;
+      if (frequency.length !== a.frequencyData.length) frequency = new Uint8Array(a.frequencyData.length);
+      if (waveform.length !== a.timeDomainData.length) waveform = new Uint8Array(a.timeDomainData.length);
+      const mix = (key: Exclude<keyof AudioData, 'frequencyData' | 'timeDomainData'>) => a[key] * wa + b[key] * wb;
+
+      return {
+        frequencyData: blendBytes(a.frequencyData, b.frequencyData, wa, wb, frequency),
+        timeDomainData: blendBytes(a.timeDomainData, b.timeDomainData, wa, wb, waveform),
+        averageFrequency: mix('averageFrequency'),
+        bassIntensity: mix('bassIntensity'),
+        midIntensity: mix('midIntensity'),
+        trebleIntensity: mix('trebleIntensity'),
+        rms: mix('rms'),
+        spectralCentroid: mix('spectralCentroid'),
+        spectralFlux: resumed ? mixed.spectralFlux : mix('spectralFlux'),
+        sampleRate: a.sampleRate,
+      };
+    },
+    currentTime: master.currentTime,
+    dispose: () => {
+      master.dispose?.();
+      decks.forEach(deck => deck.dispose?.());
+    },
+  };
+};
+
+/** Wraps a sampler of the mixed signal with deck blending. */
+export const withDeckBlend = (master: AudioSampler, blend: DeckBlend | null) =>
+  blend
+    ? createDeckSampler(master, blend.analysers.map(createAudioSampler) as [AudioSampler, AudioSampler], blend.weights)
+    : master;
@@ -0,0 +1,63 @@
+// Minimal radix-2 FFT so offline analysis can run without a browser audio graph
+
+export const isPowerOfTwo = (n: number) => n > 0 && (n & (n - 1)) === 0;
+
+/** In-place complex FFT. `re` and `im` must have the same power-of-two length. */
+export const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  if (!isPowerOfTwo(n) || im.length !== n) {
+    throw new Error(`fft: length must be a power of two, got ${n}`);
+  }
+
+  // 位元反轉排列
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(step * k);
+        const wi = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+export const hannWindow = (size: number) => {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  return w;
+};
+
+/**
+ * Windowed magnitude spectrum of `samples[offset .. offset + window.length]`,
+ * normalised so a full-scale sine peaks near 1. Returns window.length / 2 bins.
+ */
+export const magnitudeSpectrum = (samples: Float32Array, offset: number, window: Float32Array) => {
+  const size = window.length;
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  for (let i = 0; i < size; i++) re[i] = (samples[offset + i] ?? 0) * window[i];
+  fft(re, im);
+
+  const bins = new Float32Array(size / 2);
+  const scale = 4 / size;
+  for (let i = 0; i < bins.length; i++) bins[i] = Math.hypot(re[i], im[i]) * scale;
+  return bins;
+};
@@ -0,0 +1,196 @@
+export type AnalyserTap = 'pre' | 'post';
+
+export interface EqBand {
+  frequency: number;
+  /** Boost or cut in dB. */
+  gain: number;
+  q: number;
+}
+
+/**
+ * Processing between the input and the speakers, in signal order:
+ * high-pass → EQ → low-pass → compressor → limiter. Playback rate is applied
+ * on the media element itself and only affects the file player.
+ */
+export interface AudioFxSettings {
+  /** Whether the analyser sees the raw input or the processed signal. */
+  tap: AnalyserTap;
+  highpass: { bypass: boolean; frequency: number };
+  eq: { bypass: boolean; bands: EqBand[] };
+  lowpass: { bypass: boolean; frequency: number };
+  compressor: {
+    bypass: boolean;
+    threshold: number;
+    ratio: number;
+    knee: number;
+    attack: number;
+    release: number;
+    /** Gain after the compressor, dB. */
+    makeup: number;
+  };
+  limiter: { bypass: boolean; ceiling: number };
+  playback: { bypass: boolean; rate: number; preservePitch: boolean };
+}
+
+export type FxStageId = Exclude<keyof AudioFxSettings, 'tap'>;
+
+export const FX_STAGES: { id: FxStageId; label: string }[] = [
+  { id: 'highpass', label: 'High-Pass' },
+  { id: 'eq', label: 'EQ' },
+  { id: 'lowpass', label: 'Low-Pass' },
+  { id: 'compressor', label: 'Compressor' },
+  { id: 'limiter', label: 'Limiter' },
+  { id: 'playback', label: 'Rate' },
+];
+
+export const EQ_BAND_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+export const FX_LIMITS = {
+  frequency: [20, 20000],
+  gain: [-18, 18],
+  q: [0.1, 18],
+  threshold: [-60, 0],
+  ratio: [1, 20],
+  knee: [0, 40],
+  attack: [0, 1],
+  release: [0, 1],
+  makeup: [0, 24],
+  ceiling: [-24, 0],
+  rate: [0.5, 2],
+} as const;
+
+// Butterworth：高低通濾波器不共振
+export const FILTER_Q = Math.SQRT1_2;
+
+export const createDefaultFx = (): AudioFxSettings => ({
+  tap: 'post',
+  highpass: { bypass: true, frequency: 30 },
+  eq: { bypass: false, bands: EQ_BAND_FREQUENCIES.map(frequency => ({ frequency, gain: 0, q: 1.4 })) },
+  lowpass: { bypass: true, frequency: 18000 },
+  compressor: { bypass: true, threshold: -24, ratio: 4, knee: 6, attack: 0.01, release: 0.25, makeup: 0 },
+  limiter: { bypass: true, ceiling: -1 },
+  playback: { bypass: false, rate: 1, preservePitch: true },
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const num = (value: unknown, fallback: number, [min, max]: readonly [number, number]) =>
+  typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const bool = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+
+/**
+ * Settings read back from storage. Anything missing or malformed falls back to
+ * the default and numbers are clamped, so an old or hand-edited entry still
+ * loads instead of silencing the track.
+ */
+export const sanitizeFx = (raw: unknown): AudioFxSettings => {
+  const fx = createDefaultFx();
+  if (!isRecord(raw)) return fx;
+  const section = (key: FxStageId) => (isRecord(raw[key]) ? raw[key] : {}) as Record<string, unknown>;
+
+  if (raw.tap === 'pre' || raw.tap === 'post') fx.tap = raw.tap;
+
+  const hp = section('highpass');
+  fx.highpass = { bypass: bool(hp.bypass, fx.highpass.bypass), frequency: num(hp.frequency, fx.highpass.frequency, FX_LIMITS.frequency) };
+  const lp = section('lowpass');
+  fx.lowpass = { bypass: bool(lp.bypass, fx.lowpass.bypass), frequency: num(lp.frequency, fx.lowpass.frequency, FX_LIMITS.frequency) };
+
+  const eq = section('eq');
+  const bands = Array.isArray(eq.bands) ? eq.bands : [];
+  fx.eq = {
+    bypass: bool(eq.bypass, fx.eq.bypass),
+    // 頻段數固定為 10，缺的補預設
+    bands: fx.eq.bands.map((band, i) => {
+      const stored = isRecord(bands[i]) ? bands[i] : {};
+      return {
+        frequency: num(stored.frequency, band.frequency, FX_LIMITS.frequency),
+        gain: num(stored.gain, band.gain, FX_LIMITS.gain),
+        q: num(stored.q, band.q, FX_LIMITS.q),
+      };
+    }),
+  };
+
+  const comp = section('compressor');
+  const c = fx.compressor;
+  fx.compressor = {
+    bypass: bool(comp.bypass, c.bypass),
+    threshold: num(comp.threshold, c.threshold, FX_LIMITS.threshold),
+    ratio: num(comp.ratio, c.ratio, FX_LIMITS.ratio),
+    knee: num(comp.knee, c.knee, FX_LIMITS.knee),
+    attack: num(comp.attack, c.attack, FX_LIMITS.attack),
+    release: num(comp.release, c.release, FX_LIMITS.release),
+    makeup: num(comp.makeup, c.makeup, FX_LIMITS.makeup),
+  };
+
+  const lim = section('limiter');
+  fx.limiter = { bypass: bool(lim.bypass, fx.limiter.bypass), ceiling: num(lim.ceiling, fx.limiter.ceiling, FX_LIMITS.ceiling) };
+
+  const pb = section('playback');
+  fx.playback = {
+    bypass: bool(pb.bypass, fx.playback.bypass),
+    rate: num(pb.rate, fx.playback.rate, FX_LIMITS.rate),
+    preservePitch: bool(pb.preservePitch, fx.playback.preservePitch),
+  };
+  return fx;
+};
+
+/** Effective element playback rate: 1 while the stage is bypassed. */
+export const playbackRateOf = (fx: AudioFxSettings) => (fx.playback.bypass ? 1 : fx.playback.rate);
+
+type BiquadKind = 'peaking' | 'lowpass' | 'highpass';
+
+// RBJ Audio EQ Cookbook 係數，與 BiquadFilterNode 的定義一致
+const biquad = (kind: BiquadKind, frequency: number, q: number, gain: number, sampleRate: number) => {
+  const w0 = (2 * Math.PI * Math.min(frequency, sampleRate / 2 - 1)) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  switch (kind) {
+    case 'peaking': {
+      const a = Math.pow(10, gain / 40);
+      return { b: [1 + alpha * a, -2 * cos, 1 - alpha * a], a: [1 + alpha / a, -2 * cos, 1 - alpha / a] };
+    }
+    case 'lowpass':
+      return { b: [(1 - cos) / 2, 1 - cos, (1 - cos) / 2], a: [1 + alpha, -2 * cos, 1 - alpha] };
+    case 'highpass':
+      return { b: [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2], a: [1 + alpha, -2 * cos, 1 - alpha] };
+  }
+};
+
+const magnitudeDb = ({ b, a }: { b: number[]; a: number[] }, w: number) => {
+  const c1 = Math.cos(w);
+  const s1 = Math.sin(w);
+  const c2 = Math.cos(2 * w);
+  const s2 = Math.sin(2 * w);
+  const nr = b[0] + b[1] * c1 + b[2] * c2;
+  const ni = -(b[1] * s1 + b[2] * s2);
+  const dr = a[0] + a[1] * c1 + a[2] * c2;
+  const di = -(a[1] * s1 + a[2] * s2);
+  return 10 * Math.log10((nr * nr + ni * ni) / (dr * dr + di * di) || 1e-12);
+};
+
+/**
+ * Combined magnitude response in dB of the filter stages (high-pass, EQ,
+ * low-pass) at each frequency. Bypassed stages contribute nothing; dynamics
+ * and playback rate are level-dependent and not part of the curve.
+ */
+export const fxResponse = (fx: AudioFxSettings, frequencies: ArrayLike<number>, sampleRate: number) => {
+  const filters = [];
+  if (!fx.highpass.bypass) filters.push(biquad('highpass', fx.highpass.frequency, FILTER_Q, 0, sampleRate));
+  if (!fx.eq.bypass) {
+    for (const band of fx.eq.bands) {
+      if (band.gain !== 0) filters.push(biquad('peaking', band.frequency, band.q, band.gain, sampleRate));
+    }
+  }
+  if (!fx.lowpass.bypass) filters.push(biquad('lowpass', fx.lowpass.frequency, FILTER_Q, 0, sampleRate));
+
+  const response = new Float32Array(frequencies.length);
+  for (let i = 0; i < frequencies.length; i++) {
+    const w = (2 * Math.PI * frequencies[i]) / sampleRate;
+    let db = 0;
+    for (const filter of filters) db += magnitudeDb(filter, w);
+    response[i] = db;
+  }
+  return response;
+};
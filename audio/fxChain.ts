@@ -0,0 +1,149 @@
+import { AnalyserTap, AudioFxSettings, FILTER_Q, createDefaultFx, playbackRateOf } from './fx';
+
+// 參數變化以短時間常數逼近，避免拖動滑桿時出現爆音
+const RAMP_SECONDS = 0.02;
+
+// Web Audio 的高低通 Q 以 dB 表示
+const FILTER_Q_DB = 20 * Math.log10(FILTER_Q);
+
+type Stage = { bypassed: (fx: AudioFxSettings) => boolean; head: AudioNode; tail: AudioNode };
+
+/**
+ * The insertable processing chain. Sources connect to `input`; `output`
+ * carries the processed signal to the speakers. Bypassed stages are wired
+ * around rather than set to neutral values, so they cost nothing.
+ */
+export const createFxChain = (ctx: AudioContext) => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+
+  const highpass = ctx.createBiquadFilter();
+  highpass.type = 'highpass';
+  highpass.Q.value = FILTER_Q_DB;
+  const lowpass = ctx.createBiquadFilter();
+  lowpass.type = 'lowpass';
+  lowpass.Q.value = FILTER_Q_DB;
+
+  const bands = createDefaultFx().eq.bands.map(() => {
+    const band = ctx.createBiquadFilter();
+    band.type = 'peaking';
+    return band;
+  });
+  bands.slice(1).forEach((band, i) => bands[i].connect(band));
+
+  const compressor = ctx.createDynamicsCompressor();
+  const makeup = ctx.createGain();
+  compressor.connect(makeup);
+
+  // 限幅器：硬膝、最大壓縮比、極短起音的壓縮器
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.001;
+  limiter.release.value = 0.1;
+
+  const stages: Stage[] = [
+    { bypassed: fx => fx.highpass.bypass, head: highpass, tail: highpass },
+    { bypassed: fx => fx.eq.bypass, head: bands[0], tail: bands[bands.length - 1] },
+    { bypassed: fx => fx.lowpass.bypass, head: lowpass, tail: lowpass },
+    { bypassed: fx => fx.compressor.bypass, head: compressor, tail: makeup },
+    { bypassed: fx => fx.limiter.bypass, head: limiter, tail: limiter },
+  ];
+
+  let analyser: AnalyserNode | null = null;
+  let tap: AnalyserTap = 'post';
+  let wiring = '';
+
+  const ramp = (param: AudioParam, value: number) => param.setTargetAtTime(value, ctx.currentTime, RAMP_SECONDS);
+
+  const connectTap = () => {
+    if (!analyser) return;
+    (tap === 'pre' ? input : output).connect(analyser);
+  };
+
+  const disconnectTap = () => {
+    if (!analyser) return;
+    try {
+      (tap === 'pre' ? input : output).disconnect(analyser);
+    } catch {
+      // 尚未連上
+    }
+  };
+
+  const rewire = (fx: AudioFxSettings) => {
+    const active = stages.filter(stage => !stage.bypassed(fx));
+    const key = stages.map(stage => (stage.bypassed(fx) ? 0 : 1)).join('');
+    if (key === wiring) return;
+    wiring = key;
+
+    // input 的所有連線都會被斷開，pre 分接要重新接上
+    input.disconnect();
+    stages.forEach(stage => stage.tail.disconnect());
+    let previous: AudioNode = input;
+    for (const stage of active) {
+      previous.connect(stage.head);
+      previous = stage.tail;
+    }
+    previous.connect(output);
+    if (tap === 'pre') connectTap();
+  };
+
+  return {
+    input,
+    output,
+
+    /** Feeds `node` from before or after the processing; replaces any previous tap. */
+    setTap: (node: AnalyserNode, at: AnalyserTap) => {
+      disconnectTap();
+      analyser = node;
+      tap = at;
+      connectTap();
+    },
+
+    apply: (fx: AudioFxSettings) => {
+      ramp(highpass.frequency, fx.highpass.frequency);
+      ramp(lowpass.frequency, fx.lowpass.frequency);
+      fx.eq.bands.forEach((settings, i) => {
+        const band = bands[i];
+        if (!band) return;
+        ramp(band.frequency, settings.frequency);
+        ramp(band.gain, settings.gain);
+        ramp(band.Q, settings.q);
+      });
+
+      const c = fx.compressor;
+      ramp(compressor.threshold, c.threshold);
+      ramp(compressor.ratio, c.ratio);
+      ramp(compressor.knee, c.knee);
+      ramp(compressor.attack, c.attack);
+      ramp(compressor.release, c.release);
+      ramp(makeup.gain, Math.pow(10, c.makeup / 20));
+      ramp(limiter.threshold, fx.limiter.ceiling);
+
+      rewire(fx);
+      if (analyser && fx.tap !== tap) {
+        disconnectTap();
+        tap = fx.tap;
+        connectTap();
+      }
+    },
+
+    dispose: () => {
+      input.disconnect();
+      output.disconnect();
+      stages.forEach(stage => stage.tail.disconnect());
+      bands.forEach(band => band.disconnect());
+      compressor.disconnect();
+    },
+  };
+};
+
+export type FxChain = ReturnType<typeof createFxChain>;
+
+/** Playback rate and pitch handling live on the media element, not in the graph. */
+export const applyPlayback = (element: HTMLMediaElement, fx: AudioFxSettings) => {
+  const rate = playbackRateOf(fx);
+  element.defaultPlaybackRate = rate;
+  element.playbackRate = rate;
+  element.preservesPitch = fx.playback.preservePitch;
+};
@@ -0,0 +1,27 @@
+// 兩次 timeupdate 之間最多外插多久，避免分頁卡住後文字跑過頭
+const MAX_EXTRAPOLATION = 0.5;
+
+/**
+ * Playback time for things drawn every frame. The media element only reports
+ * its time a few times a second (timeupdate), so while playing the time is
+ * carried forward from the last report.
+ */
+export const createPlayhead = () => {
+  let time = 0;
+  let at = 0;
+  let playing = false;
+  let rate = 1;
+
+  return {
+    /** Fed from the active deck's timeupdate events. */
+    update: (currentTime: number, isPlaying: boolean, playbackRate = 1) => {
+      time = currentTime;
+      at = performance.now();
+      playing = isPlaying;
+      rate = playbackRate;
+    },
+    now: () => (playing ? time + Math.min(MAX_EXTRAPOLATION, (performance.now() - at) / 1000) * rate : time),
+  };
+};
+
+export type Playhead = ReturnType<typeof createPlayhead>;
@@ -0,0 +1,117 @@
+export type InputSourceKind = 'file' | 'microphone' | 'display';
+
+// 即時輸入關閉瀏覽器的語音處理，避免壓縮或降噪影響頻譜
+const RAW_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+};
+
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+};
+
+export const openMicrophone = (deviceId?: string) =>
+  navigator.mediaDevices.getUserMedia({
+    audio: deviceId ? { ...RAW_AUDIO_CONSTRAINTS, deviceId: { exact: deviceId } } : RAW_AUDIO_CONSTRAINTS,
+  });
+
+/** Tab/system audio capture. Browsers require a video track in the request, so it is dropped right away. */
+export const openDisplayAudio = async () => {
+  const stream = await navigator.mediaDevices.getDisplayMedia({ audio: RAW_AUDIO_CONSTRAINTS, video: true });
+  stream.getVideoTracks().forEach(track => {
+    track.stop();
+    stream.removeTrack(track);
+  });
+  if (stream.getAudioTracks().length === 0) {
+    throw new Error('No audio was shared. Tick "Share audio" in the capture dialog.');
+  }
+  return stream;
+};
+
+export interface SourceRouter {
+  readonly kind: InputSourceKind;
+  /** Routes the file player (its source or deck bus) into the input and `output` out to the speakers. Pass null to keep the known one. */
+  routeElement: (source: AudioNode | null) => void;
+  /**
+   * Routes a live stream into the input only. `output` is taken off the
+   * destination, so a microphone next to the speakers cannot feed back.
+   * `onEnded` fires if the stream stops on its own (e.g. the user ends a tab share).
+   */
+  routeStream: (stream: MediaStream, kind: Exclude<InputSourceKind, 'file'>, onEnded?: () => void) => void;
+  dispose: () => void;
+}
+
+/**
+ * Switches what feeds `input` inside one long-lived AudioContext. `output` is
+ * where the signal leaves for the speakers: the input itself, or the end of a
+ * processing chain hanging off it. Element sources can only be created once
+ * per element, so the file player is kept and just disconnected while a live
+ * source is active.
+ */
+export const createSourceRouter = (ctx: AudioContext, input: AudioNode, output: AudioNode = input): SourceRouter => {
+  let kind: InputSourceKind = 'file';
+  let element: AudioNode | null = null;
+  let stream: MediaStream | null = null;
+  let streamNode: MediaStreamAudioSourceNode | null = null;
+  let monitoring = false;
+
+  const setMonitoring = (on: boolean) => {
+    if (on === monitoring) return;
+    monitoring = on;
+    if (on) output.connect(ctx.destination);
+    else output.disconnect(ctx.destination);
+  };
+
+  const releaseStream = () => {
+    streamNode?.disconnect();
+    stream?.getTracks().forEach(track => track.stop());
+    streamNode = null;
+    stream = null;
+  };
+
+  const connectElement = () => {
+    if (!element) return;
+    element.connect(input);
+    setMonitoring(true);
+  };
+
+  return {
+    get kind() {
+      return kind;
+    },
+    routeElement: (source) => {
+      releaseStream();
+      element?.disconnect();
+      element = source ?? element;
+      kind = 'file';
+      connectElement();
+    },
+    routeStream: (next, nextKind, onEnded) => {
+      releaseStream();
+      element?.disconnect();
+      setMonitoring(false);
+      stream = next;
+      streamNode = ctx.createMediaStreamSource(next);
+      streamNode.connect(input);
+      kind = nextKind;
+
+      const track = next.getAudioTracks()[0];
+      track?.addEventListener('ended', () => {
+        if (stream !== next) return;
+        releaseStream();
+        kind = 'file';
+        connectElement();
+        onEnded?.();
+      });
+    },
+    dispose: () => {
+      releaseStream();
+      element?.disconnect();
+      setMonitoring(false);
+      element = null;
+    },
+  };
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeStructure, extractFeatures, mixToMono, pickBoundaries, sectionAt } from './structure';
+
+const SAMPLE_RATE = 8000;
+const C_MAJOR = [261.63, 329.63, 392];
+const F_SHARP_MAJOR = [369.99, 466.16, 554.37];
+
+interface Part {
+  seconds: number;
+  chord: number[];
+  /** Peak amplitude at the start and at the end of the part. */
+  gain: [number, number];
+}
+
+/** Sustained chords, one per part, with a linear gain ramp inside each part. */
+const render = (parts: Part[]) => {
+  const total = parts.reduce((sum, p) => sum + p.seconds, 0);
+  const out = new Float32Array(Math.round(total * SAMPLE_RATE));
+  let offset = 0;
+  for (const { seconds, chord, gain } of parts) {
+    const length = Math.round(seconds * SAMPLE_RATE);
+    for (let i = 0; i < length; i++) {
+      const t = (offset + i) / SAMPLE_RATE;
+      const amp = gain[0] + ((gain[1] - gain[0]) * i) / length;
+      let value = 0;
+      for (const hz of chord) value += Math.sin(2 * Math.PI * hz * t);
+      out[offset + i] = (amp * value) / chord.length;
+    }
+    offset += length;
+  }
+  return out;
+};
+
+const boundaries = (sections: { start: number }[]) => sections.slice(1).map(s => s.start);
+
+describe('mixToMono', () => {
+  it('averages the channels and passes mono through', () => {
+    const mono = Float32Array.from([0.5, -1]);
+    expect(mixToMono([mono])).toBe(mono);
+    expect(Array.from(mixToMono([mono, Float32Array.from([0.5, 1])]))).toEqual([0.5, 0]);
+  });
+});
+
+describe('extractFeatures', () => {
+  it('puts a chord in its pitch classes and drops the partial block', () => {
+    const features = extractFeatures(render([{ seconds: 2.25, chord: C_MAJOR, gain: [0.5, 0.5] }]), SAMPLE_RATE, 0.5);
+    expect(features.blocks).toBe(4);
+    const chroma = Array.from(features.chroma.subarray(12, 24));
+    const strongest = chroma
+      .map((value, k) => [value, k])
+      .sort((a, b) => b[0] - a[0])
+      .slice(0, 3)
+      .map(([, k]) => k);
+    expect(strongest.sort((a, b) => a - b)).toEqual([0, 4, 7]);
+  });
+
+  it('measures loudness in dB and leaves silent chroma at zero', () => {
+    const features = extractFeatures(new Float32Array(SAMPLE_RATE), SAMPLE_RATE, 0.5);
+    expect(features.loudness[0]).toBeCloseTo(-100, 3);
+    expect(Array.from(features.chroma.subarray(0, 12))).toEqual(new Array(12).fill(0));
+  });
+});
+
+describe('pickBoundaries', () => {
+  it('keeps the strongest peaks at least minGap apart and away from the ends', () => {
+    const novelty = new Float32Array(60);
+    novelty[2] = 1;
+    novelty[20] = 0.8;
+    novelty[24] = 0.9;
+    novelty[40] = 0.7;
+    expect(pickBoundaries(novelty, 8)).toEqual([24, 40]);
+  });
+
+  it('ignores weak novelty', () => {
+    const novelty = new Float32Array(60).fill(0.01);
+    novelty[30] = 0.05;
+    expect(pickBoundaries(novelty, 8)).toEqual([]);
+    expect(pickBoundaries(new Float32Array(0), 8)).toEqual([]);
+  });
+});
+
+describe('analyzeStructure', () => {
+  it('splits where the harmony and loudness change and labels the ends', () => {
+    const track = render([
+      { seconds: 20, chord: C_MAJOR, gain: [0.05, 0.05] },
+      { seconds: 20, chord: F_SHARP_MAJOR, gain: [0.6, 0.6] },
+      { seconds: 20, chord: C_MAJOR, gain: [0.05, 0.05] },
+    ]);
+    const { duration, sections } = analyzeStructure([track, track], SAMPLE_RATE);
+    expect(duration).toBe(60);
+    expect(sections).toHaveLength(3);
+    boundaries(sections).forEach((time, i) => expect(Math.abs(time - (i + 1) * 20)).toBeLessThanOrEqual(1));
+    expect(sections.map(s => s.level)).toEqual(['low', 'high', 'low']);
+    expect(sections.map(s => s.kind)).toEqual(['intro', 'drop', 'outro']);
+    expect(sections[1].energy).toBe(1);
+  });
+
+  it('tells a build from a breakdown', () => {
+    const track = render([
+      { seconds: 16, chord: C_MAJOR, gain: [0.1, 0.1] },
+      { seconds: 16, chord: F_SHARP_MAJOR, gain: [0.05, 0.3] },
+      { seconds: 16, chord: C_MAJOR, gain: [0.8, 0.8] },
+      { seconds: 16, chord: F_SHARP_MAJOR, gain: [0.15, 0.15] },
+      { seconds: 16, chord: C_MAJOR, gain: [0.8, 0.8] },
+      { seconds: 16, chord: F_SHARP_MAJOR, gain: [0.05, 0.05] },
+    ]);
+    const { sections } = analyzeStructure([track], SAMPLE_RATE);
+    boundaries(sections).forEach((time, i) => expect(Math.abs(time - (i + 1) * 16)).toBeLessThanOrEqual(1));
+    expect(sections.map(s => s.kind)).toEqual(['intro', 'build', 'drop', 'breakdown', 'drop', 'outro']);
+  });
+
+  it('covers the track back to back', () => {
+    const track = render([
+      { seconds: 18.3, chord: C_MAJOR, gain: [0.1, 0.1] },
+      { seconds: 18, chord: F_SHARP_MAJOR, gain: [0.5, 0.5] },
+    ]);
+    const { duration, sections } = analyzeStructure([track], SAMPLE_RATE);
+    expect(sections[0].start).toBe(0);
+    expect(sections[sections.length - 1].end).toBeCloseTo(duration, 9);
+    for (let i = 1; i < sections.length; i++) expect(sections[i].start).toBe(sections[i - 1].end);
+  });
+
+  it('calls an even track a single main section', () => {
+    const track = render([{ seconds: 40, chord: C_MAJOR, gain: [0.3, 0.3] }]);
+    const { sections } = analyzeStructure([track], SAMPLE_RATE);
+    expect(sections).toEqual([{ start: 0, end: 40, energy: 0.5, level: 'mid', kind: 'main' }]);
+  });
+
+  it('returns no sections for audio shorter than a block', () => {
+    expect(analyzeStructure([new Float32Array(100)], SAMPLE_RATE)).toEqual({ duration: 100 / SAMPLE_RATE, sections: [] });
+  });
+});
+
+describe('sectionAt', () => {
+  const structure = {
+    duration: 30,
+    sections: [
+      { start: 0, end: 10, energy: 0, level: 'low' as const, kind: 'intro' as const },
+      { start: 10, end: 20, energy: 1, level: 'high' as const, kind: 'drop' as const },
+      { start: 20, end: 30, energy: 0, level: 'low' as const, kind: 'outro' as const },
+    ],
+  };
+
+  it('finds the section playing at a time', () => {
+    expect(sectionAt(structure, 0)).toBe(0);
+    expect(sectionAt(structure, 9.99)).toBe(0);
+    expect(sectionAt(structure, 10)).toBe(1);
+    expect(sectionAt(structure, 30)).toBe(2);
+  });
+
+  it('returns -1 outside the track', () => {
+    expect(sectionAt(structure, -1)).toBe(-1);
+    expect(sectionAt(structure, 31)).toBe(-1);
+    expect(sectionAt({ duration: 0, sections: [] }, 0)).toBe(-1);
+  });
+});
@@ -0,0 +1,305 @@
+// Song structure from a decoded track: where sections start and how loud each one is
+import { hannWindow, magnitudeSpectrum } from './fft';
+
+export type EnergyLevel = 'low' | 'mid' | 'high';
+export type SectionKind = 'intro' | 'build' | 'drop' | 'breakdown' | 'main' | 'outro';
+
+export interface Section {
+  /** Seconds. */
+  start: number;
+  end: number;
+  /** Loudness relative to the other sections: 0 for the quietest, 1 for the loudest. */
+  energy: number;
+  level: EnergyLevel;
+  kind: SectionKind;
+}
+
+export interface SongStructure {
+  duration: number;
+  /** Back to back from 0 to `duration`. */
+  sections: Section[];
+}
+
+export interface StructureOptions {
+  /** Seconds of audio per feature block. */
+  blockLength: number;
+  /** Seconds compared on each side of a candidate boundary. */
+  kernelLength: number;
+  /** Shortest section, in seconds. */
+  minSection: number;
+}
+
+export const DEFAULT_STRUCTURE_OPTIONS: StructureOptions = { blockLength: 0.5, kernelLength: 8, minSection: 8 };
+
+export const SECTION_KINDS: { id: SectionKind; label: string }[] = [
+  { id: 'intro', label: 'Intro' },
+  { id: 'build', label: 'Build' },
+  { id: 'drop', label: 'Drop' },
+  { id: 'breakdown', label: 'Breakdown' },
+  { id: 'main', label: 'Main' },
+  { id: 'outro', label: 'Outro' },
+];
+
+const FFT_SIZE = 4096;
+const FRAMES_PER_BLOCK = 2;
+// 半音類別的頻率範圍：太低的 bin 解析度不足，太高的多是泛音與打擊樂
+const CHROMA_MIN_HZ = 55;
+const CHROMA_MAX_HZ = 5000;
+/** Share of the similarity that comes from harmony; the rest comes from loudness. */
+const CHROMA_WEIGHT = 0.5;
+/** Loudness difference (dB) at which two blocks count as 1/e alike. */
+const ENERGY_SCALE_DB = 6;
+/** Blocks on each side that a novelty peak must top. */
+const PEAK_RADIUS = 4;
+const MIN_NOVELTY = 0.1;
+/** Sections closer than this in loudness (dB) all count as the same level. */
+const MIN_RANGE_DB = 4;
+/** Energy step between neighbours that makes a drop or a breakdown. */
+const ENERGY_STEP = 0.25;
+/** Rise (dB) from the first to the last third of a section that makes it a build. */
+const BUILD_RISE_DB = 3;
+
+export interface StructureFeatures {
+  blocks: number;
+  /** 12 pitch-class energies per block, scaled to unit length (all zero in silence). */
+  chroma: Float32Array;
+  /** Mean power per block, in dB. */
+  loudness: Float32Array;
+}
+
+export const mixToMono = (channels: Float32Array[]) => {
+  if (channels.length === 1) return channels[0];
+  const length = channels[0]?.length ?? 0;
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+};
+
+// 每個頻譜 bin 對應的半音類別 (C = 0)，範圍外為 -1
+const pitchClasses = (sampleRate: number, bins: number) => {
+  const classes = new Int8Array(bins).fill(-1);
+  for (let i = 1; i < bins; i++) {
+    const hz = (i * sampleRate) / FFT_SIZE;
+    if (hz < CHROMA_MIN_HZ || hz > CHROMA_MAX_HZ) continue;
+    const midi = Math.round(12 * Math.log2(hz / 440) + 69);
+    classes[i] = ((midi % 12) + 12) % 12;
+  }
+  return classes;
+};
+
+/** Chroma and loudness per block of `blockLength` seconds; a trailing partial block is dropped. */
+export const extractFeatures = (mono: Float32Array, sampleRate: number, blockLength: number): StructureFeatures => {
+  const blockSamples = Math.max(1, Math.round(blockLength * sampleRate));
+  const blocks = Math.floor(mono.length / blockSamples);
+  const chroma = new Float32Array(blocks * 12);
+  const loudness = new Float32Array(blocks);
+  const window = hannWindow(FFT_SIZE);
+  const classes = pitchClasses(sampleRate, FFT_SIZE / 2);
+
+  for (let b = 0; b < blocks; b++) {
+    const start = b * blockSamples;
+    const vector = chroma.subarray(b * 12, b * 12 + 12);
+
+    for (let f = 0; f < FRAMES_PER_BLOCK; f++) {
+      // 分析窗以區塊內的等分點為中心
+      const center = start + Math.round(((f + 0.5) * blockSamples) / FRAMES_PER_BLOCK);
+      const spectrum = magnitudeSpectrum(mono, center - FFT_SIZE / 2, window);
+      for (let i = 0; i < spectrum.length; i++) {
+        if (classes[i] >= 0) vector[classes[i]] += spectrum[i] * spectrum[i];
+      }
+    }
+
+    let norm = 0;
+    for (let k = 0; k < 12; k++) norm += vector[k] * vector[k];
+    norm = Math.sqrt(norm);
+    if (norm > 1e-9) for (let k = 0; k < 12; k++) vector[k] /= norm;
+    else vector.fill(0);
+
+    let power = 0;
+    for (let i = start; i < start + blockSamples; i++) power += mono[i] * mono[i];
+    loudness[b] = 10 * Math.log10(power / blockSamples + 1e-10);
+  }
+
+  return { blocks, chroma, loudness };
+};
+
+/** How alike two blocks are, 0..1: cosine of their chroma blended with closeness in loudness. */
+export const blockSimilarity = (features: StructureFeatures, i: number, j: number) => {
+  const { chroma, loudness } = features;
+  let dot = 0;
+  let normI = 0;
+  let normJ = 0;
+  for (let k = 0; k < 12; k++) {
+    dot += chroma[i * 12 + k] * chroma[j * 12 + k];
+    normI += chroma[i * 12 + k];
+    normJ += chroma[j * 12 + k];
+  }
+  // 兩段都是靜音時視為相同
+  const harmony = normI === 0 && normJ === 0 ? 1 : dot;
+  const energy = Math.exp(-Math.abs(loudness[i] - loudness[j]) / ENERGY_SCALE_DB);
+  return CHROMA_WEIGHT * harmony + (1 - CHROMA_WEIGHT) * energy;
+};
+
+/**
+ * Novelty per block (Foote): a checkerboard kernel slid along the diagonal of
+ * the self-similarity matrix. Each value is the Gaussian-weighted similarity
+ * within the `half` blocks on either side minus the similarity across them,
+ * so it peaks where the track stops resembling what came before.
+ */
+export const noveltyCurve = (features: StructureFeatures, half: number) => {
+  const { blocks } = features;
+  const novelty = new Float32Array(blocks);
+  const sigma = half / 2;
+  const taper = Float32Array.from({ length: half * 2 }, (_, a) => Math.exp(-((a - half + 0.5) ** 2) / (2 * sigma * sigma)));
+
+  for (let i = 0; i < blocks; i++) {
+    let same = 0;
+    let sameWeight = 0;
+    let cross = 0;
+    let crossWeight = 0;
+    for (let a = -half; a < half; a++) {
+      const x = i + a;
+      if (x < 0 || x >= blocks) continue;
+      // 矩陣對稱，只算對角線以上的一半
+      for (let b = a + 1; b < half; b++) {
+        const y = i + b;
+        if (y >= blocks) break;
+        const weight = taper[a + half] * taper[b + half];
+        const similarity = blockSimilarity(features, x, y);
+        if (a < 0 === b < 0) {
+          same += weight * similarity;
+          sameWeight += weight;
+        } else {
+          cross += weight * similarity;
+          crossWeight += weight;
+        }
+      }
+    }
+    // 邊界附近缺一側時沒有可比較的內容
+    novelty[i] = sameWeight > 0 && crossWeight > 0 ? same / sameWeight - cross / crossWeight : 0;
+  }
+  return novelty;
+};
+
+/**
+ * Block indices where new sections start: local novelty peaks above an
+ * adaptive threshold, strongest first, at least `minGap` blocks from each
+ * other and from both ends of the track.
+ */
+export const pickBoundaries = (novelty: Float32Array, minGap: number) => {
+  const n = novelty.length;
+  if (n === 0) return [];
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += novelty[i];
+  mean /= n;
+  let variance = 0;
+  for (let i = 0; i < n; i++) variance += (novelty[i] - mean) ** 2;
+  const threshold = Math.max(MIN_NOVELTY, mean + Math.sqrt(variance / n));
+
+  const candidates: number[] = [];
+  for (let i = minGap; i <= n - minGap; i++) {
+    if (novelty[i] < threshold) continue;
+    let peak = true;
+    for (let j = Math.max(0, i - PEAK_RADIUS); j <= Math.min(n - 1, i + PEAK_RADIUS) && peak; j++) {
+      // 平頂時取最前面的一點
+      if (novelty[j] > novelty[i] || (j < i && novelty[j] === novelty[i])) peak = false;
+    }
+    if (peak) candidates.push(i);
+  }
+
+  const chosen: number[] = [];
+  for (const i of candidates.sort((a, b) => novelty[b] - novelty[a])) {
+    if (chosen.every(c => Math.abs(c - i) >= minGap)) chosen.push(i);
+  }
+  return chosen.sort((a, b) => a - b);
+};
+
+const meanDb = (loudness: Float32Array, from: number, to: number) => {
+  let power = 0;
+  for (let i = from; i < to; i++) power += Math.pow(10, loudness[i] / 10);
+  return 10 * Math.log10(power / Math.max(1, to - from) + 1e-10);
+};
+
+const levelOf = (energy: number): EnergyLevel => (energy < 1 / 3 ? 'low' : energy > 2 / 3 ? 'high' : 'mid');
+
+/**
+ * Names sections from their energy and their neighbours': quiet ends are the
+ * intro and outro, a jump up is a drop, a fall is a breakdown, and a section
+ * that rises into a loud one is a build.
+ */
+const labelSections = (sections: Omit<Section, 'kind'>[], rises: number[]): Section[] =>
+  sections.map((section, i) => {
+    const prev = sections[i - 1];
+    const next = sections[i + 1];
+    const last = sections.length - 1;
+    let kind: SectionKind = 'main';
+    if (section.level === 'high') {
+      if (prev && prev.energy <= section.energy - ENERGY_STEP) kind = 'drop';
+    } else if (i === 0 && last > 0) {
+      kind = next.level === 'high' && rises[i] >= BUILD_RISE_DB ? 'build' : 'intro';
+    } else if (i === last && last > 0) {
+      kind = 'outro';
+    } else if (next && next.level === 'high' && rises[i] >= BUILD_RISE_DB) {
+      kind = 'build';
+    } else if (prev && prev.energy >= section.energy + ENERGY_STEP) {
+      kind = 'breakdown';
+    }
+    return { ...section, kind };
+  });
+
+/**
+ * Splits a decoded track into sections (self-similarity novelty on chroma and
+ * loudness) and labels each with its energy level and a likely role.
+ */
+export const analyzeStructure = (
+  channels: Float32Array[],
+  sampleRate: number,
+  options: Partial<StructureOptions> = {}
+): SongStructure => {
+  const { blockLength, kernelLength, minSection } = { ...DEFAULT_STRUCTURE_OPTIONS, ...options };
+  const mono = mixToMono(channels);
+  const duration = sampleRate > 0 ? mono.length / sampleRate : 0;
+  const features = extractFeatures(mono, sampleRate, blockLength);
+  const { blocks, loudness } = features;
+  if (blocks === 0) return { duration, sections: [] };
+
+  const novelty = noveltyCurve(features, Math.max(2, Math.round(kernelLength / blockLength)));
+  const minGap = Math.max(1, Math.round(minSection / blockLength));
+  const edges = [0, ...pickBoundaries(novelty, minGap), blocks];
+
+  const levels = edges.slice(0, -1).map((from, i) => meanDb(loudness, from, edges[i + 1]));
+  const quietest = Math.min(...levels);
+  const range = Math.max(...levels) - quietest;
+  const rises = edges.slice(0, -1).map((from, i) => {
+    const third = Math.max(1, Math.floor((edges[i + 1] - from) / 3));
+    return meanDb(loudness, edges[i + 1] - third, edges[i + 1]) - meanDb(loudness, from, from + third);
+  });
+
+  const sections = levels.map((db, i) => {
+    const energy = range < MIN_RANGE_DB ? 0.5 : (db - quietest) / range;
+    return {
+      start: edges[i] * blockLength,
+      end: i === levels.length - 1 ? duration : edges[i + 1] * blockLength,
+      energy,
+      level: levelOf(energy),
+    };
+  });
+
+  return { duration, sections: labelSections(sections, rises) };
+};
+
+/** Index of the section playing at `time` (seconds), or -1 outside the track. */
+export const sectionAt = (structure: SongStructure, time: number) => {
+  const { sections } = structure;
+  let lo = 0;
+  let hi = sections.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (time < sections[mid].start) hi = mid - 1;
+    else if (time >= sections[mid].end && mid < sections.length - 1) lo = mid + 1;
+    else return time <= sections[mid].end ? mid : -1;
+  }
+  return -1;
+};
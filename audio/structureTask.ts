@@ -0,0 +1,55 @@
+import { SongStructure, analyzeStructure, mixToMono } from './structure';
+import { isWorkerAnalysisSupported } from './workerSampler';
+
+export interface StructureRequest {
+  id: number;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface StructureResponse {
+  id: number;
+  structure: SongStructure | null;
+  error: string | null;
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (structure: SongStructure) => void; reject: (err: Error) => void }>();
+
+// 所有曲目共用一個 worker，依序分析
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./structureWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = ({ data }: MessageEvent<StructureResponse>) => {
+    const task = pending.get(data.id);
+    pending.delete(data.id);
+    if (data.structure) task?.resolve(data.structure);
+    else task?.reject(new Error(data.error ?? 'Structure analysis failed'));
+  };
+  // worker 本身載入失敗時，讓等待中的分析全部失敗，下次重建
+  worker.onerror = event => {
+    pending.forEach(task => task.reject(new Error(event.message || 'Structure worker failed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+/**
+ * Runs analyzeStructure in a Web Worker so a long track does not stall the
+ * UI. The mono mixdown is transferred, never copied. Falls back to the main
+ * thread where workers are unavailable.
+ */
+export const analyzeStructureOffThread = (channels: Float32Array[], sampleRate: number): Promise<SongStructure> => {
+  if (!isWorkerAnalysisSupported()) return Promise.resolve(analyzeStructure(channels, sampleRate));
+
+  // 單聲道時也要複製：傳送會 detach 掉解碼結果的緩衝
+  const samples = channels.length === 1 ? channels[0].slice() : mixToMono(channels);
+  const request: StructureRequest = { id: nextId++, samples, sampleRate };
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { resolve, reject });
+    getWorker().postMessage(request, [samples.buffer]);
+  });
+};
@@ -0,0 +1,18 @@
+// Song structure analysis off the main thread: receives the mixed-down track and returns its sections.
+import { analyzeStructure } from './structure';
+import type { StructureRequest, StructureResponse } from './structureTask';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<StructureRequest>) => void) | null;
+  postMessage: (message: StructureResponse) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = ({ data: { id, samples, sampleRate } }) => {
+  try {
+    scope.postMessage({ id, structure: analyzeStructure([samples], sampleRate), error: null });
+  } catch (err) {
+    scope.postMessage({ id, structure: null, error: err instanceof Error ? err.message : String(err) });
+  }
+};
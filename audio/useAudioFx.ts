@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AudioFxSettings, createDefaultFx, sanitizeFx } from './fx';
+
+const STORAGE_KEY = 'cyberpulse.audioFx';
+// 最多記住的曲目數，超過時丟掉最久沒動過的
+const MAX_STORED_TRACKS = 200;
+
+/** Identifies a file across sessions; queue entry ids are regenerated on every add. */
+export const fxTrackKey = (file: File) => `${file.name}:${file.size}`;
+
+const loadStore = (): Record<string, unknown> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const loadTrackFx = (key: string | null) => {
+  if (!key) return createDefaultFx();
+  const stored = loadStore()[key];
+  return stored === undefined ? createDefaultFx() : sanitizeFx(stored);
+};
+
+const storeTrackFx = (key: string, fx: AudioFxSettings) => {
+  const store = loadStore();
+  // 重新插入讓這首排到最後，物件鍵順序即最近使用順序
+  delete store[key];
+  store[key] = fx;
+  const keys = Object.keys(store);
+  keys.slice(0, Math.max(0, keys.length - MAX_STORED_TRACKS)).forEach(k => delete store[k]);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    console.warn('Could not save the audio effects for this track', err);
+  }
+};
+
+/**
+ * Audio effect settings for the current track. Switching tracks loads that
+ * track's saved settings (or the defaults); edits are saved under the track.
+ * Live inputs pass a null key: edits apply but are not remembered.
+ */
+export const useAudioFx = (trackKey: string | null) => {
+  const [fx, setFx] = useState<AudioFxSettings>(() => loadTrackFx(trackKey));
+
+  useEffect(() => {
+    setFx(loadTrackFx(trackKey));
+  }, [trackKey]);
+
+  const update = useCallback(
+    (next: AudioFxSettings) => {
+      setFx(next);
+      if (trackKey) storeTrackFx(trackKey, next);
+    },
+    [trackKey]
+  );
+
+  return {
+    fx,
+    update,
+    reset: useCallback(() => update(createDefaultFx()), [update]),
+  };
+};
@@ -0,0 +1,45 @@
+export interface WaveformOverview {
+  /** Peak absolute amplitude per bucket, 0..1. */
+  peaks: Float32Array;
+  /** RMS amplitude per bucket, 0..1. */
+  rms: Float32Array;
+  duration: number;
+}
+
+/** Reduces decoded channels to `buckets` peak/RMS pairs (channels are averaged). */
+export const computeWaveform = (channels: Float32Array[], sampleRate: number, buckets: number): WaveformOverview => {
+  const length = channels[0]?.length ?? 0;
+  const peaks = new Float32Array(buckets);
+  const rms = new Float32Array(buckets);
+  const samplesPerBucket = length / buckets;
+
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * samplesPerBucket);
+    const end = Math.min(length, Math.floor((b + 1) * samplesPerBucket));
+    let peak = 0;
+    let sumSquares = 0;
+    for (let i = start; i < end; i++) {
+      let sample = 0;
+      for (const channel of channels) sample += channel[i];
+      sample /= channels.length;
+      const abs = Math.abs(sample);
+      if (abs > peak) peak = abs;
+      sumSquares += sample * sample;
+    }
+    peaks[b] = Math.min(1, peak);
+    rms[b] = end > start ? Math.sqrt(sumSquares / (end - start)) : 0;
+  }
+
+  return { peaks, rms, duration: sampleRate > 0 ? length / sampleRate : 0 };
+};
+
+export const channelsOf = (buffer: AudioBuffer) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+/**
+ * Decodes a whole file off the live graph. An OfflineAudioContext is used so
+ * decoding needs no user gesture and never touches the playing context.
+ * Note that the ArrayBuffer is detached afterwards.
+ */
+export const decodeAudioFile = (data: ArrayBuffer, sampleRate = 44100) =>
+  new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data);
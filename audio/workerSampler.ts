@@ -0,0 +1,78 @@
+import { AudioData } from '../types';
+import { AudioSampler, createAudioSampler, createEmptyAudioData } from './analysis';
+
+export interface AnalysisRequest {
+  id: number;
+  frequency: Uint8Array;
+  waveform: Uint8Array;
+  sampleRate: number;
+}
+
+export interface AnalysisResponse {
+  id: number;
+  data: AudioData;
+}
+
+interface Buffers {
+  frequency: Uint8Array;
+  waveform: Uint8Array;
+}
+
+export const isWorkerAnalysisSupported = () => typeof Worker !== 'undefined';
+
+/**
+ * Like createAudioSampler, but feature extraction runs in a Web Worker. Only
+ * the analyser read stays on the main thread; its buffers are transferred,
+ * never copied. Results arrive one frame late, and while the worker is busy
+ * the scene keeps the last snapshot instead of queueing work.
+ * Falls back to the main-thread sampler where workers are unavailable.
+ */
+export const createWorkerSampler = (analyzer: AnalyserNode): AudioSampler => {
+  if (!isWorkerAnalysisSupported()) return createAudioSampler(analyzer);
+
+  const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+  const allocate = (): Buffers => ({
+    frequency: new Uint8Array(analyzer.frequencyBinCount),
+    waveform: new Uint8Array(analyzer.fftSize),
+  });
+
+  // 兩組緩衝輪流使用：一組在 worker，一組是場景正在讀的快照
+  let spare: Buffers | null = allocate();
+  let latest: AudioData = createEmptyAudioData(analyzer.frequencyBinCount, analyzer.context.sampleRate);
+  let received: AudioData | null = null;
+  let inFlight = false;
+  let nextId = 0;
+
+  worker.onmessage = ({ data }: MessageEvent<AnalysisResponse>) => {
+    received = data.data;
+    inFlight = false;
+  };
+
+  return {
+    sample: () => {
+      if (received) {
+        spare = { frequency: latest.frequencyData, waveform: latest.timeDomainData };
+        latest = received;
+        received = null;
+      }
+
+      if (!inFlight) {
+        // fftSize 改變後舊緩衝作廢
+        if (!spare || spare.frequency.length !== analyzer.frequencyBinCount || spare.waveform.length !== analyzer.fftSize) {
+          spare = allocate();
+        }
+        const { frequency, waveform } = spare;
+        spare = null;
+        analyzer.getByteFrequencyData(frequency);
+        analyzer.getByteTimeDomainData(waveform);
+        const request: AnalysisRequest = { id: nextId++, frequency, waveform, sampleRate: analyzer.context.sampleRate };
+        worker.postMessage(request, [frequency.buffer, waveform.buffer]);
+        inFlight = true;
+      }
+
+      return latest;
+    },
+    currentTime: () => analyzer.context.currentTime,
+    dispose: () => worker.terminate(),
+  };
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useAudioData, useBeat } from '../audio/AudioDataContext';
+import { Vec3 } from '../presets/schema';
+import { CameraSettings, Pose, createDirector, poseOf, shakeOffset } from './director';
+import { CameraHandle } from './handle';
+import { useCameraFocus } from './CameraFocus';
+import { useSectionChange } from '../sections/SectionContext';
+
+interface CameraDirectorProps {
+  settings: CameraSettings;
+  /** Keeps the director off whatever the settings say, e.g. while a replay poses the camera. */
+  disabled?: boolean;
+  handle?: CameraHandle | null;
+  /** Reduced motion: no shake. */
+  calm?: boolean;
+}
+
+/** The parts of OrbitControls the director uses. */
+interface OrbitLike {
+  target: THREE.Vector3;
+  addEventListener: (type: string, listener: () => void) => void;
+  removeEventListener: (type: string, listener: () => void) => void;
+}
+
+// 使用者放開後多久才交回導演 (秒)
+const MANUAL_HOLD = 4;
+// shake = 1 且低音滿格時的位移量
+const SHAKE_MAX = 0.6;
+// 跟隨目標的平滑速率 (1/秒)，避免球被節拍彈開時鏡頭猛甩
+const FOLLOW_RATE = 4;
+
+const ORIGIN = new THREE.Vector3();
+const round = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Moves the default camera for the shot sequence: beat-counted cuts and
+ * spline dollies between viewpoints, bass-driven shake and optional
+ * following of the scene's focus point. Runs after the orbit controls have
+ * updated, so its pose is the one rendered. Dragging the view hands control
+ * to the orbit controls; a few seconds after the user lets go the director
+ * glides back to the current shot.
+ */
+const CameraDirector: React.FC<CameraDirectorProps> = ({ settings, disabled = false, handle = null, calm = false }) => {
+  const camera = useThree(state => state.camera) as THREE.PerspectiveCamera;
+  const controls = useThree(state => state.controls) as unknown as OrbitLike | null;
+  const audio = useAudioData();
+  const focus = useCameraFocus();
+  const director = useMemo(() => createDirector(settings), []);
+
+  const active = settings.mode === 'director' && !disabled;
+  const latest = useRef({ settings, active, calm });
+  latest.current = { settings, active, calm };
+
+  const time = useRef(0);
+  const started = useRef(false);
+  // 手動模式下只執行「前往視角」的單次移動
+  const flying = useRef(false);
+  const manual = useRef<{ dragging: boolean; releasedAt: number | null }>({ dragging: false, releasedAt: null });
+  const aim = useMemo(() => new THREE.Vector3(), []);
+  const aiming = useRef(false);
+  const shake = useMemo(() => new THREE.Vector3(), []);
+
+  useEffect(() => {
+    director.configure(settings);
+  }, [director, settings]);
+
+  const currentPose = (): Pose => ({
+    position: camera.position.clone(),
+    target: (controls?.target ?? ORIGIN).clone(),
+    fov: camera.fov,
+  });
+
+  useEffect(() => {
+    if (!controls) return;
+    const onStart = () => {
+      manual.current.dragging = true;
+      flying.current = false;
+    };
+    const onEnd = () => {
+      manual.current.dragging = false;
+      manual.current.releasedAt = latest.current.active ? time.current : null;
+    };
+    controls.addEventListener('start', onStart);
+    controls.addEventListener('end', onEnd);
+    return () => {
+      controls.removeEventListener('start', onStart);
+      controls.removeEventListener('end', onEnd);
+    };
+  }, [controls]);
+
+  useEffect(
+    () =>
+      handle?.attach(() => ({
+        position: camera.position.toArray().map(round) as Vec3,
+        target: (controls?.target ?? ORIGIN).toArray().map(round) as Vec3,
+        fov: round(camera.fov),
+      })),
+    [handle, camera, controls]
+  );
+
+  useBeat(beat => {
+    if (latest.current.active) director.beat(beat, time.current);
+  });
+
+  useSectionChange(() => {
+    if (latest.current.active) director.section(time.current);
+  });
+
+  useFrame((_, delta) => {
+    time.current += delta;
+    const t = time.current;
+    const { settings, active, calm } = latest.current;
+
+    const request = handle?.take();
+    if (request) {
+      director.goTo(currentPose(), poseOf({ name: '', ...request }), t);
+      manual.current.releasedAt = null;
+      flying.current = true;
+    }
+
+    if (active) {
+      if (!started.current) {
+        director.start(currentPose(), t);
+        started.current = true;
+      }
+    } else {
+      started.current = false;
+      if (!flying.current || !director.moving(t)) {
+        flying.current = false;
+        return;
+      }
+    }
+
+    if (manual.current.dragging) return;
+    if (manual.current.releasedAt !== null) {
+      if (t - manual.current.releasedAt < MANUAL_HOLD) return;
+      manual.current.releasedAt = null;
+      director.resume(currentPose(), t);
+    }
+
+    const pose = director.pose(t);
+    if (!pose) return;
+
+    const focusPoint = focus.current?.current;
+    if (settings.follow && focusPoint) {
+      const k = 1 - Math.exp(-delta * FOLLOW_RATE);
+      if (!aiming.current) aim.copy(pose.target);
+      aim.lerp(shake.set(focusPoint[0], focusPoint[1], focusPoint[2]), k);
+      aiming.current = true;
+    } else {
+      aim.copy(pose.target);
+      aiming.current = false;
+    }
+
+    camera.position.copy(pose.position);
+    const amplitude = calm ? 0 : settings.shake * SHAKE_MAX * audio.current.bassIntensity * audio.current.bassIntensity;
+    if (amplitude > 0) camera.position.add(shakeOffset(t, amplitude, shake));
+    if (camera.fov !== pose.fov) {
+      camera.fov = pose.fov;
+      camera.updateProjectionMatrix();
+    }
+    controls?.target.copy(aim);
+    camera.lookAt(aim);
+  });
+
+  return null;
+};
+
+export default CameraDirector;
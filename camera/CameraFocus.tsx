@@ -0,0 +1,26 @@
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
+
+/** The point of interest a scene offers the camera, e.g. the pulse ball's physics position. */
+export interface CameraFocus {
+  current: React.MutableRefObject<number[]> | null;
+}
+
+const FocusContext = createContext<CameraFocus>({ current: null });
+
+export const CameraFocusProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const focus = useMemo<CameraFocus>(() => ({ current: null }), []);
+  return <FocusContext.Provider value={focus}>{children}</FocusContext.Provider>;
+};
+
+export const useCameraFocus = () => useContext(FocusContext);
+
+/** Offers `position` as the focus while the calling component is mounted; the newest scene wins. */
+export const usePublishFocus = (position: React.MutableRefObject<number[]>) => {
+  const focus = useCameraFocus();
+  useEffect(() => {
+    focus.current = position;
+    return () => {
+      if (focus.current === position) focus.current = null;
+    };
+  }, [focus, position]);
+};
@@ -0,0 +1,226 @@
+import * as THREE from 'three';
+import { BeatEvent } from '../types';
+import { Vec3 } from '../presets/schema';
+
+/** A named camera placement. */
+export interface Viewpoint {
+  name: string;
+  position: Vec3;
+  target: Vec3;
+  fov: number;
+}
+
+export type ShotMove = 'cut' | 'dolly';
+/** What the director counts to decide when a shot is over. */
+export type ShotSync = 'beat' | 'bar' | 'phrase' | 'section';
+
+/** One entry of the shot sequence: go to `viewpoint` by `move` and stay for `hold` sync units. */
+export interface Shot {
+  viewpoint: string;
+  move: ShotMove;
+  hold: number;
+}
+
+export interface CameraSettings {
+  /** Manual leaves the camera to the orbit controls; the director runs the shot sequence. */
+  mode: 'manual' | 'director';
+  viewpoints: Viewpoint[];
+  /** Played in order and looped. */
+  shots: Shot[];
+  sync: ShotSync;
+  /** Length of dolly moves in seconds. */
+  dollyTime: number;
+  /** Bass-driven shake, 0..1. */
+  shake: number;
+  /** Aim at the scene's focus point (the pulse ball) instead of the viewpoint's target. */
+  follow: boolean;
+}
+
+export const SHOT_MOVES: { id: ShotMove; label: string }[] = [
+  { id: 'cut', label: 'Cut' },
+  { id: 'dolly', label: 'Dolly' },
+];
+
+export const SHOT_SYNCS: { id: ShotSync; label: string }[] = [
+  { id: 'beat', label: 'Beats' },
+  { id: 'bar', label: 'Bars' },
+  { id: 'phrase', label: 'Phrases' },
+  { id: 'section', label: 'Sections' },
+];
+
+/** Bars per phrase for the 'phrase' sync. */
+export const PHRASE_BARS = 4;
+
+/** The view the app has always opened with. */
+export const DEFAULT_VIEWPOINT: Viewpoint = { name: 'Wide', position: [0, 15, 20], target: [0, 0, 0], fov: 50 };
+
+export const createDefaultCamera = (): CameraSettings => ({
+  mode: 'manual',
+  viewpoints: [
+    { ...DEFAULT_VIEWPOINT, position: [...DEFAULT_VIEWPOINT.position], target: [...DEFAULT_VIEWPOINT.target] },
+    { name: 'Low', position: [0, 2.5, 13], target: [0, 3, 0], fov: 60 },
+    { name: 'Top', position: [0, 30, 0.1], target: [0, 0, 0], fov: 45 },
+    { name: 'Side', position: [18, 6, 6], target: [0, 2, 0], fov: 55 },
+  ],
+  shots: [
+    { viewpoint: 'Wide', move: 'dolly', hold: 2 },
+    { viewpoint: 'Low', move: 'cut', hold: 2 },
+    { viewpoint: 'Side', move: 'dolly', hold: 2 },
+    { viewpoint: 'Top', move: 'cut', hold: 1 },
+  ],
+  sync: 'bar',
+  dollyTime: 2.5,
+  shake: 0.3,
+  follow: false,
+});
+
+export interface Pose {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  fov: number;
+}
+
+export const poseOf = (viewpoint: Viewpoint): Pose => ({
+  position: new THREE.Vector3(...viewpoint.position),
+  target: new THREE.Vector3(...viewpoint.target),
+  fov: viewpoint.fov,
+});
+
+const clonePose = (pose: Pose): Pose => ({ position: pose.position.clone(), target: pose.target.clone(), fov: pose.fov });
+
+const smootherstep = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+// 路徑中點往外推、往上抬的比例，讓移動沿弧線繞過場景而不是穿過中心
+const ARC_OUT = 0.35;
+const ARC_UP = 0.2;
+
+/**
+ * A dolly from one pose to another along a Catmull-Rom spline through a
+ * lifted midpoint, eased in and out. Returns the pose at t = 0..1.
+ */
+export const travelPath = (from: Pose, to: Pose) => {
+  const mid = from.position.clone().lerp(to.position, 0.5);
+  const distance = from.position.distanceTo(to.position);
+  const outward = new THREE.Vector3(mid.x, 0, mid.z);
+  if (outward.lengthSq() > 1e-6) mid.addScaledVector(outward.normalize(), distance * ARC_OUT);
+  mid.y += distance * ARC_UP;
+  const curve = new THREE.CatmullRomCurve3([from.position.clone(), mid, to.position.clone()], false, 'centripetal');
+  const out: Pose = { position: new THREE.Vector3(), target: new THREE.Vector3(), fov: from.fov };
+
+  return (t: number): Pose => {
+    const k = smootherstep(Math.min(1, Math.max(0, t)));
+    // 距離為 0 時 centripetal 曲線退化，直接停在終點
+    if (distance < 1e-6) out.position.copy(to.position);
+    else curve.getPoint(k, out.position);
+    out.target.lerpVectors(from.target, to.target, k);
+    out.fov = from.fov + (to.fov - from.fov) * k;
+    return out;
+  };
+};
+
+/** Sum of incommensurate sines per axis: smooth, deterministic and never repeating visibly. */
+export const shakeOffset = (time: number, amplitude: number, out = new THREE.Vector3()) =>
+  out.set(
+    (Math.sin(time * 23.1) * 0.6 + Math.sin(time * 37.7 + 1.3) * 0.4) * amplitude,
+    (Math.sin(time * 29.3 + 2.1) * 0.6 + Math.sin(time * 41.9 + 0.7) * 0.4) * amplitude,
+    (Math.sin(time * 19.7 + 4.2) * 0.6 + Math.sin(time * 31.3 + 3.3) * 0.4) * amplitude * 0.5
+  );
+
+/** Whether a beat completes one unit of the given sync. */
+export const countsAsUnit = (beat: Pick<BeatEvent, 'beatIndex' | 'isDownbeat'>, sync: ShotSync, beatsPerBar = 4) => {
+  if (sync === 'beat') return true;
+  // 段落同步由段落邊界計數，不看節拍
+  if (sync === 'section') return false;
+  if (!beat.isDownbeat) return false;
+  return sync === 'bar' || Math.round(beat.beatIndex / beatsPerBar) % PHRASE_BARS === 0;
+};
+
+interface Move {
+  path: (t: number) => Pose;
+  start: number;
+  duration: number;
+}
+
+/**
+ * Runs the shot sequence. Beats (or section boundaries) are counted in sync
+ * units; when the current shot has held long enough the director cuts or
+ * dollies to the next shot whose viewpoint exists. Times are the caller's clock in seconds, so the
+ * same beats and frame times always give the same camera.
+ */
+export const createDirector = (initial: CameraSettings) => {
+  let settings = initial;
+  let index = -1;
+  let units = 0;
+  let rest: Pose | null = null;
+  let move: Move | null = null;
+
+  const viewpoint = (name: string) => settings.viewpoints.find(v => v.name === name) ?? null;
+
+  const moveTo = (from: Pose | null, to: Pose, kind: ShotMove, time: number, duration = settings.dollyTime) => {
+    rest = clonePose(to);
+    move = from && kind === 'dolly' && duration > 0 ? { path: travelPath(clonePose(from), rest), start: time, duration } : null;
+  };
+
+  const pose = (time: number): Pose | null => {
+    if (move) {
+      const t = (time - move.start) / move.duration;
+      if (t < 1) return move.path(t);
+      move = null;
+    }
+    return rest;
+  };
+
+  /** Moves on to the next shot with a usable viewpoint; stays put if there is none. */
+  const advance = (time: number, from: Pose | null = pose(time)) => {
+    const count = settings.shots.length;
+    for (let step = 1; step <= count; step++) {
+      const next = (index + step + count) % count;
+      const shot = settings.shots[next];
+      const target = viewpoint(shot.viewpoint);
+      if (!target) continue;
+      index = next;
+      units = 0;
+      moveTo(from, poseOf(target), shot.move, time);
+      return;
+    }
+  };
+
+  const count = (time: number) => {
+    units++;
+    const shot = settings.shots[index];
+    if (!shot || units >= Math.max(1, shot.hold)) advance(time);
+  };
+
+  return {
+    configure: (next: CameraSettings) => {
+      settings = next;
+      if (index >= settings.shots.length) index = -1;
+    },
+    /** Starts the sequence from its first shot, dollying there from `from`. */
+    start: (from: Pose, time: number) => {
+      index = -1;
+      advance(time, from);
+      // 第一個鏡頭一律平移進場，避免從手動視角硬切
+      if (rest) moveTo(from, rest, 'dolly', time);
+    },
+    beat: (event: Pick<BeatEvent, 'beatIndex' | 'isDownbeat'>, time: number) => {
+      if (settings.shots.length === 0 || !countsAsUnit(event, settings.sync)) return;
+      count(time);
+    },
+    /** A song section boundary went by; one unit of the 'section' sync. */
+    section: (time: number) => {
+      if (settings.shots.length > 0 && settings.sync === 'section') count(time);
+    },
+    /** Dollies to an arbitrary pose and holds it until the next shot change. */
+    goTo: (from: Pose, to: Pose, time: number) => moveTo(from, to, 'dolly', time),
+    /** After manual control: glides from where the user left the camera back to the current shot. */
+    resume: (from: Pose, time: number) => {
+      if (rest) moveTo(from, rest, 'dolly', time);
+    },
+    /** True while a dolly is under way. */
+    moving: (time: number) => !!move && time - move.start < move.duration,
+    pose,
+  };
+};
+
+export type Director = ReturnType<typeof createDirector>;
@@ -0,0 +1,34 @@
+import { Viewpoint } from './director';
+
+type ViewpointPose = Omit<Viewpoint, 'name'>;
+
+/**
+ * Lets the UI outside the canvas read the camera (to save a viewpoint) and
+ * send it somewhere. The director inside the canvas attaches the reader and
+ * picks requests up on its next frame.
+ */
+export const createCameraHandle = () => {
+  let reader: (() => ViewpointPose) | null = null;
+  let request: ViewpointPose | null = null;
+
+  return {
+    attach: (read: () => ViewpointPose) => {
+      reader = read;
+      return () => {
+        if (reader === read) reader = null;
+      };
+    },
+    /** The live camera pose, or null while no canvas is mounted. */
+    capture: (): ViewpointPose | null => reader?.() ?? null,
+    goTo: (pose: ViewpointPose) => {
+      request = pose;
+    },
+    take: () => {
+      const next = request;
+      request = null;
+      return next;
+    },
+  };
+};
+
+export type CameraHandle = ReturnType<typeof createCameraHandle>;
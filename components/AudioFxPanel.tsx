@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { AudioFxSettings, FX_LIMITS, FX_STAGES, FxStageId } from '../audio/fx';
+import EqCurve, { frequencyToX, xToFrequency } from './EqCurve';
+
+interface AudioFxPanelProps {
+  fx: AudioFxSettings;
+  analyser: AnalyserNode | null;
+  sampleRate: number;
+  /** False for live inputs: settings apply but are not saved with a track. */
+  perTrack: boolean;
+  onChange: (fx: AudioFxSettings) => void;
+  onReset: () => void;
+}
+
+const sliderClass = 'w-full h-1 accent-cyan-400 cursor-pointer';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  range: readonly [number, number];
+  step?: number;
+  unit?: string;
+  /** Frequency slider on a log scale. */
+  log?: boolean;
+  onChange: (value: number) => void;
+}
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 10000 ? 0 : 1)}k` : `${Math.round(hz)}`);
+
+const Slider: React.FC<SliderProps> = ({ label, value, range, step = 0.01, unit = '', log, onChange }) => (
+  <label className="block">
+    <span className="flex justify-between text-gray-600">
+      {label} <span className="text-cyan-300">{log ? formatHz(value) : value.toFixed(step < 0.1 ? 2 : 1)}{unit}</span>
+    </span>
+    {log ? (
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.001}
+        value={frequencyToX(value)}
+        onChange={(e) => onChange(Math.round(xToFrequency(parseFloat(e.target.value))))}
+        className={sliderClass}
+      />
+    ) : (
+      <input
+        type="range"
+        min={range[0]}
+        max={range[1]}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className={sliderClass}
+      />
+    )}
+  </label>
+);
+
+const AudioFxPanel: React.FC<AudioFxPanelProps> = ({ fx, analyser, sampleRate, perTrack, onChange, onReset }) => {
+  const [open, setOpen] = useState(false);
+  const [band, setBand] = useState(0);
+
+  const setStage = <K extends FxStageId>(id: K, values: Partial<AudioFxSettings[K]>) =>
+    onChange({ ...fx, [id]: { ...fx[id], ...values } });
+
+  const setBandValue = (key: 'frequency' | 'gain' | 'q', value: number) =>
+    setStage('eq', { bands: fx.eq.bands.map((b, i) => (i === band ? { ...b, [key]: value } : b)) });
+
+  const selected = fx.eq.bands[band];
+  const active = FX_STAGES.filter(stage => !fx[stage.id].bypass).length;
+
+  const stageControls = (id: FxStageId) => {
+    switch (id) {
+      case 'highpass':
+      case 'lowpass':
+        return (
+          <Slider label="Freq" unit="Hz" log value={fx[id].frequency} range={FX_LIMITS.frequency} onChange={(v) => setStage(id, { frequency: v })} />
+        );
+      case 'eq':
+        return (
+          <>
+            <div className="flex justify-between">
+              {fx.eq.bands.map((b, i) => (
+                <button
+                  key={i}
+                  onClick={() => setBand(i)}
+                  title={`${formatHz(b.frequency)}Hz ${b.gain > 0 ? '+' : ''}${b.gain.toFixed(1)}dB`}
+                  className={`w-4 py-0.5 rounded-sm ${i === band ? 'bg-cyan-500/30 text-cyan-300' : b.gain !== 0 ? 'text-pink-400' : 'text-gray-600 hover:text-cyan-400'}`}
+                >
+                  {i + 1}
+                </button>
+              ))}
+            </div>
+            <Slider label="Freq" unit="Hz" log value={selected.frequency} range={FX_LIMITS.frequency} onChange={(v) => setBandValue('frequency', v)} />
+            <Slider label="Gain" unit="dB" step={0.5} value={selected.gain} range={FX_LIMITS.gain} onChange={(v) => setBandValue('gain', v)} />
+            <Slider label="Q" value={selected.q} range={FX_LIMITS.q} onChange={(v) => setBandValue('q', v)} />
+            <button
+              onClick={() => setStage('eq', { bands: fx.eq.bands.map(b => ({ ...b, gain: 0 })) })}
+              className="text-gray-600 hover:text-cyan-400"
+            >
+              Flatten
+            </button>
+          </>
+        );
+      case 'compressor': {
+        const c = fx.compressor;
+        return (
+          <>
+            <Slider label="Threshold" unit="dB" step={0.5} value={c.threshold} range={FX_LIMITS.threshold} onChange={(v) => setStage('compressor', { threshold: v })} />
+            <Slider label="Ratio" step={0.5} value={c.ratio} range={FX_LIMITS.ratio} onChange={(v) => setStage('compressor', { ratio: v })} />
+            <Slider label="Knee" unit="dB" step={0.5} value={c.knee} range={FX_LIMITS.knee} onChange={(v) => setStage('compressor', { knee: v })} />
+            <Slider label="Attack" unit="s" step={0.001} value={c.attack} range={FX_LIMITS.attack} onChange={(v) => setStage('compressor', { attack: v })} />
+            <Slider label="Release" unit="s" step={0.01} value={c.release} range={FX_LIMITS.release} onChange={(v) => setStage('compressor', { release: v })} />
+            <Slider label="Makeup" unit="dB" step={0.5} value={c.makeup} range={FX_LIMITS.makeup} onChange={(v) => setStage('compressor', { makeup: v })} />
+          </>
+        );
+      }
+      case 'limiter':
+        return (
+          <Slider label="Ceiling" unit="dB" step={0.5} value={fx.limiter.ceiling} range={FX_LIMITS.ceiling} onChange={(v) => setStage('limiter', { ceiling: v })} />
+        );
+      case 'playback':
+        return (
+          <>
+            <Slider label="Rate" unit="x" value={fx.playback.rate} range={FX_LIMITS.rate} onChange={(v) => setStage('playback', { rate: v })} />
+            <label className="flex items-center space-x-2 text-gray-600">
+              <input
+                type="checkbox"
+                checked={fx.playback.preservePitch}
+                onChange={(e) => setStage('playback', { preservePitch: e.target.checked })}
+                className="accent-cyan-400"
+              />
+              <span>Keep Pitch</span>
+            </label>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} className="text-cyan-800 hover:text-cyan-500">
+        Audio_FX {open ? '▾' : '▸'}
+        <span className="ml-2 text-gray-600">{active} on</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 max-h-[40vh] overflow-y-auto pr-1 bg-black/40 border border-white/5 rounded p-2">
+          <EqCurve
+            fx={fx}
+            analyser={analyser}
+            sampleRate={sampleRate}
+            selectedBand={fx.eq.bypass ? null : band}
+            className="w-full h-16 bg-black/40 rounded-sm"
+          />
+
+          <div className="flex justify-between items-center text-gray-600">
+            <span>Analyser</span>
+            <span className="flex space-x-1">
+              {(['pre', 'post'] as const).map(tap => (
+                <button
+                  key={tap}
+                  onClick={() => onChange({ ...fx, tap })}
+                  className={fx.tap === tap ? 'text-cyan-300' : 'hover:text-cyan-400'}
+                >
+                  {tap}_FX
+                </button>
+              ))}
+            </span>
+          </div>
+
+          {FX_STAGES.map(stage => (
+            <div key={stage.id} className={fx[stage.id].bypass ? 'opacity-50' : ''}>
+              <label className="flex items-center space-x-2 text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={!fx[stage.id].bypass}
+                  onChange={(e) => setStage(stage.id, { bypass: !e.target.checked })}
+                  className="accent-cyan-400"
+                />
+                <span>{stage.label}</span>
+              </label>
+              {!fx[stage.id].bypass && (
+                <div className="mt-1 ml-2 pl-2 border-l border-cyan-500/20 space-y-1">{stageControls(stage.id)}</div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex justify-between items-center text-gray-700">
+            <span>{perTrack ? 'Saved per track' : 'Live input: not saved'}</span>
+            <button onClick={onReset} className="text-gray-600 hover:text-cyan-400">Reset</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioFxPanel;
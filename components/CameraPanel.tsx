@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { CameraSettings, SHOT_MOVES, SHOT_SYNCS, Shot, ShotMove, ShotSync, Viewpoint } from '../camera/director';
+import { NUMBER_LIMITS } from '../presets/schema';
+
+interface CameraPanelProps {
+  camera: CameraSettings;
+  onChange: (values: Partial<CameraSettings>) => void;
+  /** Reads the live camera for "Save View"; null when there is no canvas. */
+  onCapture: () => Omit<Viewpoint, 'name'> | null;
+  onGoTo: (viewpoint: Viewpoint) => void;
+}
+
+const sliderClass = 'w-full h-1 accent-cyan-400 cursor-pointer';
+const selectClass = 'bg-black/60 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none';
+
+const CameraPanel: React.FC<CameraPanelProps> = ({ camera, onChange, onCapture, onGoTo }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const saveView = () => {
+    const pose = onCapture();
+    const trimmed = name.trim() || `View ${camera.viewpoints.length + 1}`;
+    if (!pose) return;
+    // 同名時覆寫位置，引用它的鏡頭跟著更新
+    const exists = camera.viewpoints.some(v => v.name === trimmed);
+    onChange({
+      viewpoints: exists
+        ? camera.viewpoints.map(v => (v.name === trimmed ? { name: trimmed, ...pose } : v))
+        : [...camera.viewpoints, { name: trimmed, ...pose }],
+    });
+    setName('');
+  };
+
+  const removeView = (viewName: string) =>
+    onChange({
+      viewpoints: camera.viewpoints.filter(v => v.name !== viewName),
+      shots: camera.shots.filter(s => s.viewpoint !== viewName),
+    });
+
+  const setShot = (index: number, values: Partial<Shot>) =>
+    onChange({ shots: camera.shots.map((shot, i) => (i === index ? { ...shot, ...values } : shot)) });
+
+  const moveShot = (index: number, offset: -1 | 1) => {
+    const to = index + offset;
+    if (to < 0 || to >= camera.shots.length) return;
+    const shots = [...camera.shots];
+    [shots[index], shots[to]] = [shots[to], shots[index]];
+    onChange({ shots });
+  };
+
+  const [minHold, maxHold] = NUMBER_LIMITS['camera.hold'];
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} aria-expanded={open} className="text-cyan-800 hover:text-cyan-500">
+        Camera {open ? '▾' : '▸'}
+        <span className="ml-2 text-gray-600">{camera.mode}{camera.mode === 'director' ? ` · ${camera.shots.length} shots` : ''}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 bg-black/40 border border-white/5 rounded p-2">
+          <div className="flex rounded border border-white/5 overflow-hidden" role="group" aria-label="Camera mode">
+            {(['manual', 'director'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => onChange({ mode })}
+                aria-pressed={camera.mode === mode}
+                className={`flex-1 py-1 ${camera.mode === mode ? 'bg-cyan-500/15 text-cyan-300' : 'text-gray-600 hover:text-cyan-500'}`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex justify-between items-center text-gray-500">
+            <span>Shot Length In</span>
+            <select value={camera.sync} onChange={(e) => onChange({ sync: e.target.value as ShotSync })} className={selectClass}>
+              {SHOT_SYNCS.map(sync => (
+                <option key={sync.id} value={sync.id}>{sync.label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="block">
+            <span className="flex justify-between text-gray-500">
+              Dolly <span className="text-cyan-300">{camera.dollyTime.toFixed(1)}s</span>
+            </span>
+            <input
+              type="range"
+              min={NUMBER_LIMITS['camera.dollyTime'][0]}
+              max={NUMBER_LIMITS['camera.dollyTime'][1]}
+              step={0.1}
+              value={camera.dollyTime}
+              onChange={(e) => onChange({ dollyTime: parseFloat(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+          <label className="block">
+            <span className="flex justify-between text-gray-500">
+              Bass Shake <span className="text-cyan-300">{camera.shake.toFixed(2)}</span>
+            </span>
+            <input
+              type="range"
+              min={NUMBER_LIMITS['camera.shake'][0]}
+              max={NUMBER_LIMITS['camera.shake'][1]}
+              step={0.01}
+              value={camera.shake}
+              onChange={(e) => onChange({ shake: parseFloat(e.target.value) })}
+              className={sliderClass}
+            />
+          </label>
+          <label className="flex items-center space-x-2 text-gray-500">
+            <input
+              type="checkbox"
+              checked={camera.follow}
+              onChange={(e) => onChange({ follow: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            <span>Follow Pulse Ball</span>
+          </label>
+
+          <div className="pt-1 border-t border-white/5 space-y-1">
+            <span className="text-gray-600">Viewpoints</span>
+            {camera.viewpoints.map(view => (
+              <div key={view.name} className="flex justify-between items-center">
+                <span className="truncate normal-case tracking-normal text-gray-400">{view.name}</span>
+                <span className="flex items-center space-x-2 shrink-0">
+                  <button onClick={() => onGoTo(view)} className="text-cyan-600 hover:text-cyan-300">Go</button>
+                  <button onClick={() => removeView(view.name)} aria-label={`Delete ${view.name}`} className="text-gray-600 hover:text-pink-400">
+                    ×
+                  </button>
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center space-x-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && saveView()}
+                placeholder="Name"
+                aria-label="Viewpoint name"
+                className="flex-1 min-w-0 bg-black/60 border border-white/5 rounded px-1 text-cyan-300 normal-case focus:outline-none"
+              />
+              <button onClick={saveView} className="text-cyan-400 hover:text-cyan-200 shrink-0">Save View</button>
+            </div>
+          </div>
+
+          <div className="pt-1 border-t border-white/5 space-y-1">
+            <span className="text-gray-600">Shots</span>
+            {camera.shots.map((shot, i) => (
+              <div key={i} className="flex items-center space-x-1">
+                <select
+                  value={shot.viewpoint}
+                  onChange={(e) => setShot(i, { viewpoint: e.target.value })}
+                  aria-label={`Shot ${i + 1} viewpoint`}
+                  className={`${selectClass} flex-1 min-w-0`}
+                >
+                  {camera.viewpoints.map(view => (
+                    <option key={view.name} value={view.name}>{view.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={shot.move}
+                  onChange={(e) => setShot(i, { move: e.target.value as ShotMove })}
+                  aria-label={`Shot ${i + 1} move`}
+                  className={selectClass}
+                >
+                  {SHOT_MOVES.map(move => (
+                    <option key={move.id} value={move.id}>{move.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={minHold}
+                  max={maxHold}
+                  value={shot.hold}
+                  onChange={(e) => setShot(i, { hold: Math.min(maxHold, Math.max(minHold, parseInt(e.target.value, 10) || minHold)) })}
+                  aria-label={`Shot ${i + 1} length`}
+                  className="w-8 bg-black/60 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none"
+                />
+                <button onClick={() => moveShot(i, -1)} disabled={i === 0} title="Earlier" className="text-gray-500 hover:text-cyan-400 disabled:opacity-20">↑</button>
+                <button onClick={() => moveShot(i, 1)} disabled={i === camera.shots.length - 1} title="Later" className="text-gray-500 hover:text-cyan-400 disabled:opacity-20">↓</button>
+                <button
+                  onClick={() => onChange({ shots: camera.shots.filter((_, j) => j !== i) })}
+                  aria-label={`Remove shot ${i + 1}`}
+                  className="text-gray-600 hover:text-pink-400"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onChange({ shots: [...camera.shots, { viewpoint: camera.viewpoints[0].name, move: 'cut', hold: 1 }] })}
+              disabled={camera.viewpoints.length === 0}
+              className="text-cyan-600 hover:text-cyan-300 disabled:text-gray-700"
+            >
+              + Shot
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraPanel;
@@ -1,66 +1,150 @@
 
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { filesFromDataTransfer, filesFromList } from '../playlist/files';
+import { InputSourceKind } from '../audio/sources';
+import SourceSelector from './SourceSelector';
+import { ariaKeys, describeKeys } from '../input/shortcuts';
 
 interface ControlsProps {
-  onUpload: (file: File) => void;
+  onUpload: (files: File[]) => void;
   onTogglePlay: () => void;
+  onNext: () => void;
+  onPrevious: () => void;
   isPlaying: boolean;
   hasAudio: boolean;
   volume: number;
   onVolumeChange: (vol: number) => void;
   onEject: () => void;
+  source: InputSourceKind;
+  inputDevices: MediaDeviceInfo[];
+  inputDeviceId: string | null;
+  sourceError: string | null;
+  onSelectSource: (kind: InputSourceKind, deviceId?: string) => void;
 }
 
+// 鍵盤聚焦時才顯示的外框
+const focusRing = 'focus:outline-none focus-visible:ring-1 focus-visible:ring-cyan-400 rounded';
+
 const Controls: React.FC<ControlsProps> = ({ 
   onUpload, 
   onTogglePlay, 
+  onNext,
+  onPrevious,
   isPlaying, 
   hasAudio,
   volume,
   onVolumeChange,
-  onEject
+  onEject,
+  source,
+  inputDevices,
+  inputDeviceId,
+  sourceError,
+  onSelectSource
 }) => {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // webkitdirectory 不在 React 的屬性型別中，直接設定在 DOM 上
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [hasAudio]);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onUpload(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      onUpload(filesFromList(e.target.files));
     }
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    onUpload(await filesFromDataTransfer(e.dataTransfer));
   };
 
   return (
-    <div className="flex flex-col items-center space-y-6 w-full max-w-sm bg-black/40 backdrop-blur-xl p-5 rounded-2xl border border-white/5 shadow-2xl">
-      {!hasAudio ? (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`flex flex-col items-center space-y-6 w-full max-w-sm bg-black/40 backdrop-blur-xl p-5 rounded-2xl border shadow-2xl transition-colors ${
+        isDragging ? 'border-cyan-400/60' : 'border-white/5'
+      }`}
+    >
+      <SourceSelector
+        source={source}
+        devices={inputDevices}
+        deviceId={inputDeviceId}
+        error={sourceError}
+        onSelect={onSelectSource}
+      />
+
+      {source !== 'file' ? (
+        <div className="w-full flex items-center justify-between font-mono text-[10px] uppercase tracking-widest">
+          <div className="flex items-center space-x-2 text-cyan-400" role="status">
+            <span aria-hidden="true" className="w-2 h-2 rounded-full bg-pink-500 animate-pulse shadow-[0_0_10px_rgba(236,72,153,0.8)]" />
+            <span>Live_Input</span>
+          </div>
+          <span className="text-cyan-800 truncate max-w-[10rem]">
+            {source === 'display'
+              ? 'Tab_Capture'
+              : inputDevices.find(d => d.deviceId === inputDeviceId)?.label || 'Default_Input'}
+          </span>
+        </div>
+      ) : !hasAudio ? (
         <div className="group relative w-full">
+          {/* sr-only 而非 hidden，檔案選擇仍可用鍵盤聚焦 */}
           <input
             type="file"
             accept="audio/*"
+            multiple
             onChange={handleFileChange}
-            className="hidden"
+            className="sr-only peer/files"
             id="audio-upload"
           />
+          <input
+            ref={folderInputRef}
+            type="file"
+            onChange={handleFileChange}
+            className="sr-only peer/folder"
+            id="audio-folder-upload"
+            aria-label="Load a folder of audio files"
+          />
           <label
             htmlFor="audio-upload"
-            className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-cyan-800 rounded-lg cursor-pointer bg-black/20 backdrop-blur-sm transition-all hover:border-cyan-400 hover:bg-cyan-950/20 group-hover:scale-[1.01] relative z-10"
+            className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-cyan-800 rounded-lg cursor-pointer bg-black/20 backdrop-blur-sm transition-all hover:border-cyan-400 hover:bg-cyan-950/20 group-hover:scale-[1.01] peer-focus-visible/files:border-cyan-400 relative z-10"
           >
             <div className="flex flex-col items-center justify-center pt-5 pb-6">
-              <svg className="w-8 h-8 mb-3 text-cyan-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <svg aria-hidden="true" className="w-8 h-8 mb-3 text-cyan-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
               </svg>
               <p className="mb-2 text-sm text-cyan-500 font-mono tracking-tight uppercase">
                 <span className="font-semibold text-cyan-300">Sync Audio</span>
               </p>
-              <p className="text-[10px] text-cyan-900 font-mono uppercase">Drag/Select Module</p>
+              <p className="text-[10px] text-cyan-900 font-mono uppercase">Drag/Select Modules</p>
             </div>
           </label>
+          <label
+            htmlFor="audio-folder-upload"
+            className="absolute bottom-2 right-3 z-20 font-mono text-[8px] text-cyan-700 uppercase tracking-widest cursor-pointer hover:text-cyan-400 peer-focus-visible/folder:text-cyan-400"
+          >
+            + Folder
+          </label>
           <div className="absolute -inset-1 bg-cyan-500/10 rounded-lg blur opacity-0 group-hover:opacity-100 transition duration-500 pointer-events-none z-0"></div>
         </div>
       ) : (
         <div className="w-full flex items-center justify-between space-x-6">
           {/* Volume Control */}
           <div className="flex items-center space-x-3 group">
-            <svg className="w-4 h-4 text-cyan-500/60 group-hover:text-cyan-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <svg aria-hidden="true" className="w-4 h-4 text-cyan-500/60 group-hover:text-cyan-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
             </svg>
-            <div className="relative w-20 h-1 bg-white/5 rounded-full overflow-hidden">
+            <div className="relative w-20 h-1 bg-white/5 rounded-full overflow-hidden has-[:focus-visible]:ring-1 has-[:focus-visible]:ring-cyan-400">
               <input
                 type="range"
                 min="0"
@@ -68,6 +152,9 @@ const Controls: React.FC<ControlsProps> = ({
                 step="0.01"
                 value={volume}
                 onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
+                aria-label="Volume"
+                aria-valuetext={`${Math.round(volume * 100)}%`}
+                title={`Volume (${describeKeys('volumeUp')} / ${describeKeys('volumeDown')})`}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
               />
               <div 
@@ -77,41 +164,94 @@ const Controls: React.FC<ControlsProps> = ({
             </div>
           </div>
 
-          {/* Play Button */}
-          <button
-            onClick={onTogglePlay}
-            className={`relative group flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-500 ${
-              isPlaying 
-              ? 'border-pink-500/50 bg-pink-500/5 shadow-[0_0_25px_rgba(236,72,153,0.2)] scale-110' 
-              : 'border-cyan-500/50 bg-cyan-500/5 shadow-[0_0_20px_rgba(6,182,212,0.1)]'
-            }`}
-          >
-            <div className={`absolute -inset-2 rounded-full blur-xl opacity-0 group-hover:opacity-40 transition duration-500 pointer-events-none ${
-              isPlaying ? 'bg-pink-500' : 'bg-cyan-400'
-            }`}></div>
+          {/* Transport */}
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={onPrevious}
+              aria-label="Previous track"
+              aria-keyshortcuts={ariaKeys('previousTrack')}
+              title={`Previous (${describeKeys('previousTrack')})`}
+              className={`p-1.5 text-cyan-500/60 hover:text-cyan-300 transition-colors ${focusRing}`}
+            >
+              <svg aria-hidden="true" className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path d="M4 4a1 1 0 011 1v4.2l8.4-5.04A1 1 0 0115 5v10a1 1 0 01-1.6.84L5 10.8V15a1 1 0 11-2 0V5a1 1 0 011-1z" />
+              </svg>
+            </button>
+
+            {/* Play Button */}
+            <button
+              onClick={onTogglePlay}
+              aria-label={isPlaying ? 'Pause' : 'Play'}
+              aria-keyshortcuts={ariaKeys('togglePlay')}
+              title={`${isPlaying ? 'Pause' : 'Play'} (${describeKeys('togglePlay')})`}
+              className={`relative group flex items-center justify-center w-14 h-14 rounded-full border transition-all duration-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300 ${
+                isPlaying 
+                ? 'border-pink-500/50 bg-pink-500/5 shadow-[0_0_25px_rgba(236,72,153,0.2)] scale-110' 
+                : 'border-cyan-500/50 bg-cyan-500/5 shadow-[0_0_20px_rgba(6,182,212,0.1)]'
+              }`}
+            >
+              <div className={`absolute -inset-2 rounded-full blur-xl opacity-0 group-hover:opacity-40 transition duration-500 pointer-events-none ${
+                isPlaying ? 'bg-pink-500' : 'bg-cyan-400'
+              }`}></div>
             
-            {isPlaying ? (
-              <svg className="w-5 h-5 text-pink-500 relative z-10" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+              {isPlaying ? (
+                <svg aria-hidden="true" className="w-5 h-5 text-pink-500 relative z-10" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+              ) : (
+                <svg aria-hidden="true" className="w-5 h-5 text-cyan-500 relative z-10 ml-0.5" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                </svg>
+              )}
+            </button>
+
+            <button
+              onClick={onNext}
+              aria-label="Next track"
+              aria-keyshortcuts={ariaKeys('nextTrack')}
+              title={`Next (${describeKeys('nextTrack')})`}
+              className={`p-1.5 text-cyan-500/60 hover:text-cyan-300 transition-colors ${focusRing}`}
+            >
+              <svg aria-hidden="true" className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                <path d="M16 4a1 1 0 00-1 1v4.2L6.6 4.16A1 1 0 005 5v10a1 1 0 001.6.84L15 10.8V15a1 1 0 102 0V5a1 1 0 00-1-1z" />
               </svg>
-            ) : (
-              <svg className="w-5 h-5 text-cyan-500 relative z-10 ml-0.5" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+            </button>
+          </div>
+
+          {/* Add to queue */}
+          <label
+            htmlFor="audio-queue-upload"
+            className="group flex flex-col items-center space-y-1 cursor-pointer"
+          >
+            <input
+              type="file"
+              accept="audio/*"
+              multiple
+              onChange={handleFileChange}
+              className="sr-only peer"
+              id="audio-queue-upload"
+              aria-label="Add tracks to the queue"
+            />
+            <div className="p-2 border border-cyan-500/20 rounded hover:bg-cyan-500/10 transition-colors peer-focus-visible:ring-1 peer-focus-visible:ring-cyan-400">
+              <svg aria-hidden="true" className="w-3.5 h-3.5 text-cyan-500/60 group-hover:text-cyan-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" />
               </svg>
-            )}
-          </button>
+            </div>
+            <span aria-hidden="true" className="font-mono text-[7px] text-cyan-500/40 uppercase tracking-tighter">Queue_Mod</span>
+          </label>
 
           {/* Reset Button (Eject) */}
           <button
             onClick={onEject}
-            className="group flex flex-col items-center space-y-1 transition-colors"
+            aria-label="Eject and clear the queue"
+            className={`group flex flex-col items-center space-y-1 transition-colors ${focusRing}`}
           >
             <div className="p-2 border border-pink-500/20 rounded hover:bg-pink-500/10 transition-colors">
-              <svg className="w-3.5 h-3.5 text-pink-500/60 group-hover:text-pink-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <svg aria-hidden="true" className="w-3.5 h-3.5 text-pink-500/60 group-hover:text-pink-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
               </svg>
             </div>
-            <span className="font-mono text-[7px] text-pink-500/40 uppercase tracking-tighter">Eject_Mod</span>
+            <span aria-hidden="true" className="font-mono text-[7px] text-pink-500/40 uppercase tracking-tighter">Eject_Mod</span>
           </button>
         </div>
       )}
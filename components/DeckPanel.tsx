@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { CROSSFADE_CURVES, CrossfadeCurve, DeckIndex, MIX_LENGTH_LIMITS } from '../audio/decks';
+
+export interface MixSettings {
+  /** Start mixing into the next track `length` seconds before the current one ends. */
+  auto: boolean;
+  /** Crossfade length in seconds; 0 is a gapless cut. */
+  length: number;
+  curve: CrossfadeCurve;
+}
+
+interface DeckPanelProps {
+  /** Track name loaded on each deck, or null. */
+  names: [string | null, string | null];
+  active: DeckIndex;
+  /** Crossfader position, 0 = deck A, 1 = deck B. */
+  position: number;
+  mixing: boolean;
+  canMix: boolean;
+  settings: MixSettings;
+  onPositionChange: (position: number) => void;
+  onSettingsChange: (settings: MixSettings) => void;
+  onMix: () => void;
+}
+
+const sliderClass = 'w-full h-1 accent-cyan-400 cursor-pointer';
+const selectClass = 'bg-black/60 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none';
+
+const DECK_LABELS = ['A', 'B'];
+
+const DeckPanel: React.FC<DeckPanelProps> = ({
+  names,
+  active,
+  position,
+  mixing,
+  canMix,
+  settings,
+  onPositionChange,
+  onSettingsChange,
+  onMix
+}) => {
+  const [open, setOpen] = useState(false);
+  const set = <K extends keyof MixSettings>(key: K, value: MixSettings[K]) => onSettingsChange({ ...settings, [key]: value });
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} className="text-cyan-800 hover:text-cyan-500">
+        Decks {open ? '▾' : '▸'}
+        <span className="ml-2 text-gray-600">{mixing ? 'mixing' : `deck ${DECK_LABELS[active]}`}{settings.auto ? ' · auto' : ''}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 bg-black/40 border border-white/5 rounded p-2">
+          {names.map((name, i) => (
+            <div key={i} className="flex items-center space-x-2">
+              <span className={i === active ? 'text-cyan-300' : 'text-gray-600'}>{DECK_LABELS[i]}</span>
+              <span className={`truncate normal-case tracking-normal ${i === active ? 'text-white' : 'text-gray-500'}`}>
+                {name ?? '—'}
+              </span>
+            </div>
+          ))}
+
+          <label className="block">
+            <span className="flex justify-between text-gray-600">
+              <span>A</span> Crossfader <span>B</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={position}
+              disabled={mixing}
+              onChange={(e) => onPositionChange(parseFloat(e.target.value))}
+              className={sliderClass}
+            />
+          </label>
+
+          <div className="flex justify-between items-center text-gray-600">
+            <span>Curve</span>
+            <select
+              value={settings.curve}
+              onChange={(e) => set('curve', e.target.value as CrossfadeCurve)}
+              className={selectClass}
+            >
+              {CROSSFADE_CURVES.map(curve => (
+                <option key={curve.id} value={curve.id}>{curve.label}</option>
+              ))}
+            </select>
+          </div>
+          <label className="block">
+            <span className="flex justify-between text-gray-600">
+              Length <span className="text-cyan-300">{settings.length === 0 ? 'Gapless' : `${settings.length.toFixed(1)}s`}</span>
+            </span>
+            <input
+              type="range"
+              min={MIX_LENGTH_LIMITS[0]}
+              max={MIX_LENGTH_LIMITS[1]}
+              step={0.5}
+              value={settings.length}
+              onChange={(e) => set('length', parseFloat(e.target.value))}
+              className={sliderClass}
+            />
+          </label>
+
+          <div className="flex justify-between items-center">
+            <label className="flex items-center space-x-2 text-gray-500">
+              <input
+                type="checkbox"
+                checked={settings.auto}
+                onChange={(e) => set('auto', e.target.checked)}
+                className="accent-cyan-400"
+              />
+              <span>Auto Mix</span>
+            </label>
+            <button
+              onClick={onMix}
+              disabled={!canMix || mixing}
+              className="text-cyan-400 hover:text-cyan-200 disabled:text-gray-700"
+            >
+              Mix Next ▸
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeckPanel;
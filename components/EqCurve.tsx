@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { AudioFxSettings, FX_LIMITS, fxResponse } from '../audio/fx';
+
+interface EqCurveProps {
+  fx: AudioFxSettings;
+  /** Live spectrum drawn behind the curve; null before the audio graph exists. */
+  analyser: AnalyserNode | null;
+  sampleRate: number;
+  /** Band to mark on the curve, or null. */
+  selectedBand: number | null;
+  className?: string;
+}
+
+const [MIN_HZ, MAX_HZ] = FX_LIMITS.frequency;
+const DB_RANGE = 24;
+const CURVE_POINTS = 160;
+
+/** Log-frequency position, 0..1. */
+export const frequencyToX = (hz: number) =>
+  Math.log(Math.min(MAX_HZ, Math.max(MIN_HZ, hz)) / MIN_HZ) / Math.log(MAX_HZ / MIN_HZ);
+
+export const xToFrequency = (x: number) => MIN_HZ * Math.pow(MAX_HZ / MIN_HZ, Math.min(1, Math.max(0, x)));
+
+const EqCurve: React.FC<EqCurveProps> = ({ fx, analyser, sampleRate, selectedBand, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sizeRef = useRef({ width: 0, height: 0 });
+
+  const frequencies = useMemo(
+    () => Float32Array.from({ length: CURVE_POINTS }, (_, i) => xToFrequency(i / (CURVE_POINTS - 1))),
+    []
+  );
+  const response = useMemo(() => fxResponse(fx, frequencies, sampleRate), [fx, frequencies, sampleRate]);
+
+  const draw = (spectrum: Uint8Array | null) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { width, height } = sizeRef.current;
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    // 頻譜：線性頻段畫在對數頻率軸上
+    if (spectrum) {
+      const binHz = sampleRate / 2 / spectrum.length;
+      ctx.fillStyle = 'rgba(6, 182, 212, 0.25)';
+      for (let i = 1; i < spectrum.length; i++) {
+        const x0 = frequencyToX(i * binHz) * width;
+        const x1 = frequencyToX((i + 1) * binHz) * width;
+        const h = (spectrum[i] / 255) * height;
+        ctx.fillRect(x0, height - h, Math.max(1, x1 - x0 - 0.5), h);
+      }
+    }
+
+    const mid = height / 2;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.beginPath();
+    ctx.moveTo(0, mid);
+    ctx.lineTo(width, mid);
+    ctx.stroke();
+
+    ctx.strokeStyle = fx.eq.bypass ? 'rgba(236, 72, 153, 0.4)' : 'rgba(236, 72, 153, 0.9)';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let i = 0; i < response.length; i++) {
+      const x = (i / (response.length - 1)) * width;
+      const db = Math.min(DB_RANGE, Math.max(-DB_RANGE, response[i]));
+      const y = mid - (db / DB_RANGE) * mid;
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    }
+    ctx.stroke();
+
+    const band = selectedBand !== null ? fx.eq.bands[selectedBand] : null;
+    if (band) {
+      ctx.fillStyle = 'rgba(103, 232, 249, 0.9)';
+      ctx.beginPath();
+      ctx.arc(frequencyToX(band.frequency) * width, mid - (band.gain / DB_RANGE) * mid, 2.5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      sizeRef.current = { width: entry.contentRect.width, height: entry.contentRect.height };
+      drawRef.current(null);
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!analyser) {
+      drawRef.current(null);
+      return;
+    }
+    let spectrum = new Uint8Array(0);
+    let frame = requestAnimationFrame(function loop() {
+      if (spectrum.length !== analyser.frequencyBinCount) spectrum = new Uint8Array(analyser.frequencyBinCount);
+      analyser.getByteFrequencyData(spectrum);
+      drawRef.current(spectrum);
+      frame = requestAnimationFrame(loop);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  // 沒有分析器時只在設定變動時重畫
+  useEffect(() => {
+    if (!analyser) draw(null);
+  }, [response, selectedBand]);
+
+  return <canvas ref={canvasRef} className={className ?? 'w-full h-full'} />;
+};
+
+export default EqCurve;
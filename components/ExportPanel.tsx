@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { decodeAudioFile } from '../audio/waveform';
+import { AnalysisOptions, createTrackSampler, precomputeAnalysis } from '../offline/analysis';
+import { EXPORT_SAMPLE_RATE, encodeVideo, isExportSupported } from '../offline/encode';
+import { FrameDriver, OfflineRender } from '../offline/OfflineDriver';
+import { EXPORT_PRESETS } from '../offline/schedule';
+
+interface ExportPanelProps {
+  /** Track to export; null when nothing exportable is loaded. */
+  file: File | null;
+  /** Must match the live analyser so the export looks like playback. */
+  analysis: AnalysisOptions;
+  /** Renders the visualizer for the given offline session. */
+  renderScene: (offline: OfflineRender) => React.ReactNode;
+  onStart?: () => void;
+}
+
+type Phase =
+  | { kind: 'idle' }
+  | { kind: 'analysing'; progress: number }
+  | { kind: 'rendering'; frame: number; frames: number }
+  | { kind: 'done'; url: string; name: string }
+  | { kind: 'error'; message: string };
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ file, analysis, renderScene, onStart }) => {
+  const [open, setOpen] = useState(false);
+  const [presetId, setPresetId] = useState('1080p60');
+  const [phase, setPhase] = useState<Phase>({ kind: 'idle' });
+  const [session, setSession] = useState<OfflineRender | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const settings = (EXPORT_PRESETS.find(p => p.id === presetId) ?? EXPORT_PRESETS[0]).settings;
+  const busy = phase.kind === 'analysing' || phase.kind === 'rendering';
+
+  // Release the previous video when a new one replaces it or the panel unmounts
+  const doneUrl = phase.kind === 'done' ? phase.url : null;
+  useEffect(() => () => {
+    if (doneUrl) URL.revokeObjectURL(doneUrl);
+  }, [doneUrl]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const start = async () => {
+    if (!file || busy) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    onStart?.();
+
+    try {
+      setPhase({ kind: 'analysing', progress: 0 });
+      const audio = await decodeAudioFile(await file.arrayBuffer(), EXPORT_SAMPLE_RATE);
+      let shown = 0;
+      const track = await precomputeAnalysis(audio, settings.fps, analysis, fraction => {
+        // Only re-render when the visible percentage changes
+        if (Math.floor(fraction * 100) === shown) return;
+        shown = Math.floor(fraction * 100);
+        setPhase({ kind: 'analysing', progress: fraction });
+      });
+      if (controller.signal.aborted) throw new DOMException('Export cancelled', 'AbortError');
+
+      const sampler = createTrackSampler(track);
+      const driver = await new Promise<FrameDriver>(resolve =>
+        setSession({ sampler, fps: settings.fps, onReady: resolve })
+      );
+
+      const blob = await encodeVideo({
+        audio,
+        settings,
+        frames: track.frameCount,
+        driver,
+        prepareFrame: sampler.seek,
+        onProgress: frame => setPhase({ kind: 'rendering', frame, frames: track.frameCount }),
+        signal: controller.signal,
+      });
+      setPhase({ kind: 'done', url: URL.createObjectURL(blob), name: `${baseName(file.name)}.webm` });
+    } catch (err) {
+      if (controller.signal.aborted) setPhase({ kind: 'idle' });
+      else setPhase({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setSession(null);
+      abortRef.current = null;
+    }
+  };
+
+  const progress =
+    phase.kind === 'analysing' ? phase.progress : phase.kind === 'rendering' ? phase.frame / phase.frames : 0;
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} className="text-cyan-800 hover:text-cyan-500">
+        Video_Export {open ? '▾' : '▸'}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 bg-black/40 border border-white/5 rounded p-2">
+          {!isExportSupported() ? (
+            <p className="normal-case tracking-normal text-pink-500">This browser has no WebCodecs support.</p>
+          ) : (
+            <>
+              <div className="flex justify-between items-center">
+                <select
+                  value={presetId}
+                  disabled={busy}
+                  onChange={(e) => setPresetId(e.target.value)}
+                  className="bg-black/60 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none"
+                >
+                  {EXPORT_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                  ))}
+                </select>
+                {busy ? (
+                  <button onClick={() => abortRef.current?.abort()} className="text-pink-500 hover:text-pink-400">
+                    Cancel
+                  </button>
+                ) : (
+                  <button
+                    onClick={start}
+                    disabled={!file}
+                    className="text-gray-500 hover:text-cyan-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                  >
+                    Render
+                  </button>
+                )}
+              </div>
+
+              {!file && <p className="text-gray-700">Load a track to export</p>}
+
+              {busy && (
+                <div>
+                  <div className="flex justify-between text-gray-600">
+                    <span>{phase.kind === 'analysing' ? 'Analysing' : 'Rendering'}</span>
+                    <span className="text-cyan-300">
+                      {phase.kind === 'rendering' ? `${phase.frame}/${phase.frames}` : `${Math.round(progress * 100)}%`}
+                    </span>
+                  </div>
+                  <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-cyan-600 to-pink-500" style={{ width: `${progress * 100}%` }} />
+                  </div>
+                </div>
+              )}
+
+              {phase.kind === 'done' && (
+                <a href={phase.url} download={phase.name} className="block text-cyan-400 hover:text-cyan-300 truncate">
+                  ⇩ {phase.name}
+                </a>
+              )}
+
+              {phase.kind === 'error' && (
+                <p className="normal-case tracking-normal text-pink-500 whitespace-pre-wrap">{phase.message}</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Off-screen canvas at the exact export resolution */}
+      {session && (
+        <div
+          aria-hidden
+          className="fixed top-0 pointer-events-none"
+          style={{ left: -100000, width: settings.width, height: settings.height }}
+        >
+          {renderScene(session)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StorageEstimate } from '../library/backend';
+import { LIBRARY_SORTS, LibrarySort, LibraryTrack, resumePosition, searchTracks, sortTracks, trackTitle } from '../library/library';
+
+interface LibraryPanelProps {
+  tracks: LibraryTrack[];
+  storage: StorageEstimate | null;
+  importing: boolean;
+  error: string | null;
+  onPlay: (track: LibraryTrack) => void;
+  onQueue: (track: LibraryTrack) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onDismissError: () => void;
+}
+
+const selectClass = 'bg-black/60 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none';
+// 清空資料庫需要在這段時間內再按一次確認
+const CONFIRM_MS = 3000;
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+};
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({
+  tracks,
+  storage,
+  importing,
+  error,
+  onPlay,
+  onQueue,
+  onRemove,
+  onClear,
+  onDismissError
+}) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<LibrarySort>('added');
+  const [confirming, setConfirming] = useState(false);
+
+  const shown = useMemo(() => sortTracks(searchTracks(tracks, query), sort), [tracks, query, sort]);
+
+  useEffect(() => {
+    if (!confirming) return;
+    const timer = window.setTimeout(() => setConfirming(false), CONFIRM_MS);
+    return () => window.clearTimeout(timer);
+  }, [confirming]);
+
+  const handleClear = () => {
+    if (!confirming) {
+      setConfirming(true);
+      return;
+    }
+    setConfirming(false);
+    onClear();
+  };
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} aria-expanded={open} className="text-cyan-800 hover:text-cyan-500">
+        Library {open ? '▾' : '▸'}
+        <span className="ml-2 text-gray-600">{importing ? 'importing…' : `${tracks.length} tracks`}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 bg-black/40 border border-white/5 rounded p-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search"
+            aria-label="Search the library"
+            className="w-full bg-black/60 border border-white/5 rounded px-1 text-cyan-300 normal-case tracking-normal focus:outline-none"
+          />
+          <div className="flex justify-between items-center text-gray-500">
+            <span>Sort</span>
+            <select value={sort} onChange={(e) => setSort(e.target.value as LibrarySort)} className={selectClass}>
+              {LIBRARY_SORTS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {shown.length > 0 ? (
+            <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+              {shown.map(track => {
+                const resume = resumePosition(track);
+                return (
+                  <li key={track.id} className="group flex items-center space-x-1">
+                    <button
+                      onClick={() => onPlay(track)}
+                      title={resume ? `Resume at ${formatTime(resume)}` : 'Play'}
+                      className="flex-1 min-w-0 text-left normal-case tracking-normal text-gray-400 hover:text-cyan-300"
+                    >
+                      <span className="block truncate">{trackTitle(track)}</span>
+                      {track.metadata.artist && <span className="block truncate text-gray-600">{track.metadata.artist}</span>}
+                    </button>
+                    {resume > 0 && <span className="text-cyan-700 shrink-0">{formatTime(resume)}</span>}
+                    <button
+                      onClick={() => onQueue(track)}
+                      aria-label={`Queue ${trackTitle(track)}`}
+                      className="text-gray-600 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-cyan-400"
+                    >
+                      +
+                    </button>
+                    <button
+                      onClick={() => onRemove(track.id)}
+                      aria-label={`Remove ${trackTitle(track)} from the library`}
+                      className="text-pink-500/40 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-pink-400"
+                    >
+                      ×
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-gray-700 normal-case tracking-normal">
+              {tracks.length === 0 ? 'Uploaded tracks are kept here across reloads.' : 'No matches.'}
+            </p>
+          )}
+
+          <div className="flex justify-between items-center pt-1 border-t border-white/5 text-gray-600">
+            <span>{storage ? `${formatBytes(storage.usage)} / ${formatBytes(storage.quota)}` : ''}</span>
+            <button
+              onClick={handleClear}
+              disabled={tracks.length === 0}
+              className={`disabled:opacity-30 ${confirming ? 'text-pink-400' : 'hover:text-pink-400'}`}
+            >
+              {confirming ? 'Confirm Clear' : 'Clear Library'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Shown while collapsed too: imports from the upload button land here */}
+      {error && (
+        <button
+          onClick={onDismissError}
+          className="mt-2 block w-full text-left whitespace-pre-wrap normal-case tracking-normal text-pink-500 border border-pink-500/20 rounded p-2 bg-pink-500/5"
+        >
+          {error}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LibraryPanel;
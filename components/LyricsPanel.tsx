@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Lyrics, formatLrcTime, lyricPosition } from '../lyrics/lrc';
+import { LyricsSource } from '../lyrics/useLyrics';
+
+interface LyricsPanelProps {
+  lyrics: Lyrics | null;
+  source: LyricsSource | null;
+  /** Playback time of the current track, in seconds. */
+  time: number;
+  /** False while there is no track to attach lyrics to. */
+  canImport: boolean;
+  shown: boolean;
+  error: string | null;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onReset: () => void;
+  onToggleShown: () => void;
+  onOffsetChange: (offset: number) => void;
+  onShiftLine: (index: number, seconds: number) => void;
+  onDismissError: () => void;
+}
+
+const OFFSET_STEPS = [-250, -50, 50, 250];
+const LINE_STEP = 0.1;
+const SOURCE_LABELS: Record<LyricsSource, string> = { file: 'LRC', tags: 'Tags' };
+
+const LyricsPanel: React.FC<LyricsPanelProps> = ({
+  lyrics,
+  source,
+  time,
+  canImport,
+  shown,
+  error,
+  onImport,
+  onExport,
+  onReset,
+  onToggleShown,
+  onOffsetChange,
+  onShiftLine,
+  onDismissError
+}) => {
+  const [open, setOpen] = useState(false);
+
+  const position = lyrics ? lyricPosition(lyrics, time) : null;
+  const current = position && position.line >= 0 ? position.line : null;
+  // 間奏或開頭時調整即將出現的那一行
+  const next = lyrics ? lyrics.lines.findIndex(l => l.time > time + lyrics.offset / 1000) : -1;
+  const editing = current ?? (next >= 0 ? next : null);
+  const line = lyrics && editing !== null ? lyrics.lines[editing] : null;
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} aria-expanded={open} className="text-cyan-800 hover:text-cyan-500">
+        Lyrics {open ? '▾' : '▸'}
+        <span className="ml-2 text-gray-600">
+          {source ? `${SOURCE_LABELS[source]} · ${lyrics!.lines.length} lines` : 'none'}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 bg-black/40 border border-white/5 rounded p-2">
+          <div className="flex justify-between text-gray-600">
+            <label className={canImport ? 'cursor-pointer hover:text-cyan-400' : 'opacity-30'}>
+              Import .lrc
+              <input
+                type="file"
+                accept=".lrc,text/plain"
+                disabled={!canImport}
+                className="sr-only"
+                onChange={(e) => {
+                  if (e.target.files?.[0]) onImport(e.target.files[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <button onClick={onExport} disabled={!lyrics} className="hover:text-cyan-400 disabled:opacity-30">Export</button>
+            <button
+              onClick={onReset}
+              disabled={source !== 'file'}
+              title="Forget the imported lyrics and use the track's tags"
+              className="hover:text-pink-400 disabled:opacity-30"
+            >
+              Reset
+            </button>
+          </div>
+
+          <label className="flex items-center space-x-2 text-gray-500">
+            <input type="checkbox" checked={shown} onChange={onToggleShown} className="accent-cyan-400" />
+            <span>Show In Scene</span>
+          </label>
+
+          {lyrics && (
+            <>
+              <div className="space-y-1">
+                <div className="flex justify-between text-gray-500">
+                  <span>Offset</span>
+                  <button
+                    onClick={() => onOffsetChange(0)}
+                    title="Reset offset"
+                    className="text-cyan-300 hover:text-cyan-100"
+                  >
+                    {lyrics.offset > 0 ? '+' : ''}{lyrics.offset} ms
+                  </button>
+                </div>
+                <div className="flex justify-between" role="group" aria-label="Nudge lyrics offset">
+                  {OFFSET_STEPS.map(step => (
+                    <button
+                      key={step}
+                      onClick={() => onOffsetChange(lyrics.offset + step)}
+                      title={step > 0 ? 'Show lyrics earlier' : 'Show lyrics later'}
+                      className="px-1 text-gray-500 hover:text-cyan-400"
+                    >
+                      {step > 0 ? '+' : ''}{step}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="pt-1 border-t border-white/5 space-y-1">
+                <span className="text-gray-600">{current !== null ? 'Current Line' : 'Next Line'}</span>
+                {line && editing !== null ? (
+                  <>
+                    <p className="normal-case tracking-normal text-gray-400 truncate" title={line.text}>
+                      <span className="text-cyan-700 mr-1">{formatLrcTime(line.time)}</span>
+                      {line.text}
+                    </p>
+                    <div className="flex justify-between text-gray-500">
+                      <button onClick={() => onShiftLine(editing, -LINE_STEP)} className="hover:text-cyan-400">
+                        ◂ {LINE_STEP}s
+                      </button>
+                      <button
+                        onClick={() => onShiftLine(editing, time + lyrics.offset / 1000 - line.time)}
+                        title="Start this line at the current playback time"
+                        className="hover:text-cyan-400"
+                      >
+                        Start Now
+                      </button>
+                      <button onClick={() => onShiftLine(editing, LINE_STEP)} className="hover:text-cyan-400">
+                        {LINE_STEP}s ▸
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-gray-700 normal-case tracking-normal">Past the last line.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <button
+          onClick={onDismissError}
+          className="mt-2 block w-full text-left whitespace-pre-wrap normal-case tracking-normal text-pink-500 border border-pink-500/20 rounded p-2 bg-pink-500/5"
+        >
+          {error}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LyricsPanel;
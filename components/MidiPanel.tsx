@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ACTIONS } from '../input/shortcuts';
+import { MidiBinding, MidiParam, MidiTarget, describeControl, targetKey } from '../input/midi';
+import { MidiStatus } from '../input/useMidi';
+
+interface MidiPanelProps {
+  status: MidiStatus;
+  error: string | null;
+  inputs: string[];
+  bindings: MidiBinding[];
+  learning: MidiTarget | null;
+  params: MidiParam[];
+  onEnable: () => void;
+  onLearn: (target: MidiTarget | null) => void;
+  onUnbind: (target: MidiTarget) => void;
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<MidiStatus, string> = {
+  off: 'off',
+  unsupported: 'n/a',
+  pending: 'waiting',
+  ready: 'on',
+  denied: 'blocked',
+};
+
+const MidiPanel: React.FC<MidiPanelProps> = ({
+  status,
+  error,
+  inputs,
+  bindings,
+  learning,
+  params,
+  onEnable,
+  onLearn,
+  onUnbind,
+  onClear
+}) => {
+  const [open, setOpen] = useState(false);
+  const targets: { target: MidiTarget; label: string }[] = [
+    ...ACTIONS.map(action => ({ target: { type: 'action', action: action.id } as MidiTarget, label: action.label })),
+    ...params.map(param => ({ target: { type: 'param', id: param.id } as MidiTarget, label: param.label })),
+  ];
+  const learningKey = learning ? targetKey(learning) : null;
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        className="text-cyan-800 hover:text-cyan-500 focus:outline-none focus-visible:text-cyan-400"
+      >
+        MIDI {open ? '▾' : '▸'}
+        <span className="ml-2 text-gray-600">{STATUS_LABELS[status]} · {bindings.length} mapped</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 bg-black/40 border border-white/5 rounded p-2">
+          {status === 'unsupported' && <p className="text-gray-600">Web MIDI is not available in this browser</p>}
+          {(status === 'off' || status === 'denied') && (
+            <button onClick={onEnable} className="text-cyan-400 hover:text-cyan-200">
+              Enable MIDI ▸
+            </button>
+          )}
+          {error && <p className="text-pink-500 normal-case tracking-normal">{error}</p>}
+          {status === 'ready' && (
+            <p className="text-gray-600 truncate">{inputs.length > 0 ? inputs.join(', ') : 'No devices connected'}</p>
+          )}
+
+          {learning && (
+            <p className="text-pink-400" role="status">
+              Move a knob or hit a pad… <button onClick={() => onLearn(null)} className="underline">Cancel</button>
+            </p>
+          )}
+
+          <ul className="max-h-48 overflow-y-auto space-y-1 pr-1">
+            {targets.map(({ target, label }) => {
+              const key = targetKey(target);
+              const binding = bindings.find(b => targetKey(b.target) === key);
+              const isLearning = learningKey === key;
+              return (
+                <li key={key} className="flex items-center justify-between space-x-2">
+                  <span className="truncate text-gray-500">{label}</span>
+                  <span className="flex items-center space-x-2 shrink-0">
+                    <span className={binding ? 'text-cyan-300' : 'text-gray-700'}>
+                      {binding ? describeControl(binding.control) : '—'}
+                    </span>
+                    <button
+                      onClick={() => onLearn(target)}
+                      disabled={status !== 'ready'}
+                      aria-pressed={isLearning}
+                      aria-label={`Learn ${label}`}
+                      className={`${isLearning ? 'text-pink-400' : 'text-cyan-700 hover:text-cyan-400'} disabled:text-gray-800`}
+                    >
+                      {isLearning ? '…' : 'Learn'}
+                    </button>
+                    {binding && (
+                      <button
+                        onClick={() => onUnbind(target)}
+                        aria-label={`Unmap ${label}`}
+                        className="text-gray-600 hover:text-pink-400"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+
+          {bindings.length > 0 && (
+            <button onClick={onClear} className="text-gray-600 hover:text-pink-400">
+              Clear Mapping
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MidiPanel;
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { TrackMetadata } from '../types';
+
+interface NowPlayingProps {
+  metadata: TrackMetadata | null;
+  fallbackTitle: string;
+}
+
+const NowPlaying: React.FC<NowPlayingProps> = ({ metadata, fallbackTitle }) => {
+  const [coverUrl, setCoverUrl] = useState<string | null>(null);
+  const cover = metadata?.cover;
+
+  // 封面的 object URL 跟著曲目建立與釋放
+  useEffect(() => {
+    if (!cover) {
+      setCoverUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([cover.data], { type: cover.mimeType }));
+    setCoverUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [cover]);
+
+  const subtitle = [metadata?.artist, metadata?.album].filter(Boolean).join(' // ');
+
+  return (
+    <div className="flex items-center space-x-3 min-w-0">
+      <div className="w-10 h-10 shrink-0 rounded-sm border border-cyan-500/30 bg-cyan-950/30 overflow-hidden shadow-[0_0_12px_rgba(6,182,212,0.3)]">
+        {coverUrl && <img src={coverUrl} alt="" className="w-full h-full object-cover" />}
+      </div>
+      <div className="min-w-0 font-mono uppercase">
+        <p className="text-xs text-white font-bold tracking-wider truncate">{metadata?.title || fallbackTitle}</p>
+        <p className="text-[9px] text-cyan-700 tracking-widest truncate">
+          {subtitle || 'Unknown_Source'}
+          {metadata?.bpm ? <span className="ml-2 text-pink-500/70">{Math.round(metadata.bpm)} BPM</span> : null}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default NowPlaying;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { OutputStatus } from '../output/useOutputControl';
+import { describeKeys } from '../input/shortcuts';
+
+interface OutputControlsProps {
+  supported: boolean;
+  status: OutputStatus;
+  error: string | null;
+  clean: boolean;
+  onOpen: () => void;
+  onClose: () => void;
+  onToggleClean: () => void;
+  onDismissError: () => void;
+}
+
+const STATUS_LABELS: Record<OutputStatus, string> = { closed: 'OFF', waiting: 'CONNECTING', connected: 'LIVE' };
+
+const OutputControls: React.FC<OutputControlsProps> = ({
+  supported,
+  status,
+  error,
+  clean,
+  onOpen,
+  onClose,
+  onToggleClean,
+  onDismissError
+}) => (
+  <>
+    <p>
+      <button
+        onClick={status === 'closed' ? onOpen : onClose}
+        disabled={!supported}
+        aria-pressed={status !== 'closed'}
+        className={`pointer-events-auto uppercase hover:text-cyan-400 disabled:opacity-30 ${status === 'connected' ? 'text-cyan-500' : ''}`}
+        title={
+          supported
+            ? 'Pop the visuals out into a second window for a projector; this window keeps the controls'
+            : 'This browser cannot link windows'
+        }
+      >
+        PROJECTOR_OUTPUT: {STATUS_LABELS[status]}
+      </button>
+    </p>
+    <p>
+      <button
+        onClick={onToggleClean}
+        aria-pressed={clean}
+        className="pointer-events-auto uppercase hover:text-cyan-400"
+        title={`Full screen with every panel hidden (${describeKeys('toggleCleanMode')}, Esc to leave)`}
+      >
+        CLEAN_MODE: {clean ? 'ON' : 'OFF'}
+      </button>
+    </p>
+    {error && (
+      <p>
+        <button onClick={onDismissError} className="pointer-events-auto normal-case tracking-normal text-pink-500 text-right">
+          {error}
+        </button>
+      </p>
+    )}
+  </>
+);
+
+export default OutputControls;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { SceneDefinition, SceneParamDef, SceneParamValue, SceneParams } from '../scenes';
+import { MOD_CURVES, MOD_SOURCES, ModRoute, ModSource, ROUTE_LIMITS, createRoute, isModulatable } from '../modulation/matrix';
+
+interface ParameterPanelProps {
+  scene: SceneDefinition;
+  params: SceneParams;
+  /** Routes belonging to this scene. */
+  routes: ModRoute[];
+  onParamChange: (key: string, value: SceneParamValue) => void;
+  onRouteChange: (param: string, route: ModRoute | null) => void;
+}
+
+const sliderClass = 'w-full h-1 accent-cyan-400 cursor-pointer';
+const selectClass = 'bg-black/60 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none';
+
+interface RouteEditorProps {
+  route: ModRoute;
+  onChange: (route: ModRoute) => void;
+}
+
+const RouteEditor: React.FC<RouteEditorProps> = ({ route, onChange }) => {
+  const set = <K extends keyof ModRoute>(key: K, value: ModRoute[K]) => onChange({ ...route, [key]: value });
+  const usesRate = route.source === 'lfo' || route.source === 'envelope';
+
+  return (
+    <div className="mt-1 ml-2 pl-2 border-l border-pink-500/30 space-y-1">
+      <div className="flex space-x-2">
+        <select
+          value={route.source}
+          onChange={(e) => set('source', e.target.value as ModSource)}
+          className={selectClass}
+        >
+          {MOD_SOURCES.map(source => (
+            <option key={source.id} value={source.id}>{source.label}</option>
+          ))}
+        </select>
+        <select
+          value={route.curve}
+          onChange={(e) => set('curve', e.target.value as ModRoute['curve'])}
+          className={selectClass}
+        >
+          {MOD_CURVES.map(curve => (
+            <option key={curve} value={curve}>{curve}</option>
+          ))}
+        </select>
+      </div>
+      <label className="block">
+        <span className="flex justify-between text-gray-600">
+          Depth <span className="text-pink-400">{route.depth.toFixed(2)}</span>
+        </span>
+        <input
+          type="range"
+          min={ROUTE_LIMITS.depth[0]}
+          max={ROUTE_LIMITS.depth[1]}
+          step={0.01}
+          value={route.depth}
+          onChange={(e) => set('depth', parseFloat(e.target.value))}
+          className={sliderClass}
+        />
+      </label>
+      <label className="block">
+        <span className="flex justify-between text-gray-600">
+          Smooth <span className="text-pink-400">{route.smoothing.toFixed(2)}</span>
+        </span>
+        <input
+          type="range"
+          min={ROUTE_LIMITS.smoothing[0]}
+          max={ROUTE_LIMITS.smoothing[1]}
+          step={0.01}
+          value={route.smoothing}
+          onChange={(e) => set('smoothing', parseFloat(e.target.value))}
+          className={sliderClass}
+        />
+      </label>
+      {usesRate && (
+        <label className="block">
+          <span className="flex justify-between text-gray-600">
+            {route.source === 'lfo' ? 'Rate Hz' : 'Release s'}
+            <span className="text-pink-400">{route.rate.toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={ROUTE_LIMITS.rate[0]}
+            max={route.source === 'lfo' ? ROUTE_LIMITS.rate[1] : 2}
+            step={0.01}
+            value={route.rate}
+            onChange={(e) => set('rate', parseFloat(e.target.value))}
+            className={sliderClass}
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+interface ParamRowProps {
+  def: SceneParamDef;
+  value: SceneParamValue;
+  route?: ModRoute;
+  onChange: (value: SceneParamValue) => void;
+  onToggleRoute: () => void;
+  onRouteChange: (route: ModRoute) => void;
+}
+
+const ParamRow: React.FC<ParamRowProps> = ({ def, value, route, onChange, onToggleRoute, onRouteChange }) => {
+  if (def.type === 'boolean') {
+    return (
+      <label className="flex justify-between items-center text-gray-500">
+        {def.label}
+        <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} className="accent-cyan-400" />
+      </label>
+    );
+  }
+
+  if (def.type === 'color') {
+    return (
+      <label className="flex justify-between items-center text-gray-500">
+        {def.label}
+        <input
+          type="color"
+          value={typeof value === 'string' ? value : def.default}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-6 h-4 bg-transparent border-0 cursor-pointer"
+        />
+      </label>
+    );
+  }
+
+  const numeric = typeof value === 'number' ? value : def.default;
+  return (
+    <div>
+      <div className="flex justify-between items-center text-gray-500">
+        <span>{def.label}</span>
+        <span className="flex items-center space-x-2">
+          <span className="text-cyan-300">{numeric.toFixed(def.step < 1 ? 2 : 0)}</span>
+          {isModulatable(def) && (
+            <button
+              onClick={onToggleRoute}
+              title={route ? 'Remove modulation' : 'Modulate'}
+              className={route ? 'text-pink-400' : 'text-gray-700 hover:text-pink-400'}
+            >
+              ~
+            </button>
+          )}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={def.min}
+        max={def.max}
+        step={def.step}
+        value={numeric}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className={sliderClass}
+      />
+      {route && <RouteEditor route={route} onChange={onRouteChange} />}
+    </div>
+  );
+};
+
+const ParameterPanel: React.FC<ParameterPanelProps> = ({ scene, params, routes, onParamChange, onRouteChange }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} className="text-cyan-800 hover:text-cyan-500">
+        Param_Mod {open ? '▾' : '▸'}
+        {routes.length > 0 && <span className="ml-2 text-pink-500">{routes.length} routed</span>}
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 max-h-[50vh] overflow-y-auto pr-1 bg-black/40 border border-white/5 rounded p-2">
+          {scene.params.map(def => {
+            const route = routes.find(r => r.param === def.key);
+            return (
+              <ParamRow
+                key={def.key}
+                def={def}
+                value={params[def.key] ?? def.default}
+                route={route}
+                onChange={(value) => onParamChange(def.key, value)}
+                onToggleRoute={() => onRouteChange(def.key, route ? null : createRoute(scene.id, def.key))}
+                onRouteChange={(next) => onRouteChange(def.key, next)}
+              />
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParameterPanel;
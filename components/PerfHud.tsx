@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { PerfMonitor, PerfStats } from '../perf/monitor';
+
+interface PerfHudProps {
+  monitor: PerfMonitor;
+  analysisWorker: boolean;
+  onToggleAnalysisWorker: () => void;
+}
+
+// How often the HUD re-reads the monitor
+const REFRESH_MS = 500;
+
+const formatCount = (n: number) => (n >= 1000 ? `${(n / 1000).toFixed(1)}K` : String(n));
+
+const PerfHud: React.FC<PerfHudProps> = ({ monitor, analysisWorker, onToggleAnalysisWorker }) => {
+  const [stats, setStats] = useState<PerfStats>(monitor.stats);
+
+  useEffect(() => {
+    const id = setInterval(() => setStats(monitor.stats()), REFRESH_MS);
+    return () => clearInterval(id);
+  }, [monitor]);
+
+  // Below ~50 fps the animation visibly stutters
+  const slow = stats.fps > 0 && stats.fps < 50;
+
+  return (
+    <>
+      <p className={slow ? 'text-pink-500' : ''}>
+        RENDER_BUFFER: {Math.round(stats.fps)}FPS · {stats.frameMs.toFixed(1)}MS
+      </p>
+      <p>
+        FRAME_WORST: {stats.worstMs.toFixed(1)}MS · CPU: {stats.cpuMs.toFixed(1)}MS
+      </p>
+      <p>
+        DRAW_CALLS: {stats.drawCalls} · TRIS: {formatCount(stats.triangles)}
+      </p>
+      <button onClick={onToggleAnalysisWorker} className="pointer-events-auto uppercase hover:text-cyan-400">
+        ANALYSIS: {analysisWorker ? 'WORKER' : 'MAIN_THREAD'}
+      </button>
+    </>
+  );
+};
+
+export default PerfHud;
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import {
+  BODY_SHAPES,
+  BodyShape,
+  FIELD_KINDS,
+  FieldKind,
+  HIT_QUANTIZE,
+  HIT_SOUNDS,
+  HitQuantize,
+  HitSound,
+  PlaygroundSettings
+} from '../playground/playground';
+import { NUMBER_LIMITS } from '../presets/schema';
+
+interface PlaygroundPanelProps {
+  /** Interactive mode: grab and fling, click the floor to spawn. */
+  enabled: boolean;
+  onToggle: () => void;
+  settings: PlaygroundSettings;
+  onChange: (values: Partial<PlaygroundSettings>) => void;
+  /** Vertical gravity of the physics world, m/s². */
+  gravity: number;
+  onGravityChange: (gravity: number) => void;
+  bodyCount: number;
+  onSpawn: (shape: BodyShape) => void;
+  onClear: () => void;
+  /** Name of the loaded hit sample, if any. */
+  sampleName: string | null;
+  onLoadSample: (file: File) => void;
+  error: string | null;
+  onDismissError: () => void;
+}
+
+const sliderClass = 'w-full h-1 accent-cyan-400 cursor-pointer';
+const selectClass = 'bg-black/60 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  limits: readonly [number, number];
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const Slider = ({ label, value, limits, step, format, onChange }: SliderProps) => (
+  <label className="block">
+    <span className="flex justify-between text-gray-500">
+      {label} <span className="text-cyan-300">{format(value)}</span>
+    </span>
+    <input
+      type="range"
+      min={limits[0]}
+      max={limits[1]}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className={sliderClass}
+    />
+  </label>
+);
+
+const PlaygroundPanel: React.FC<PlaygroundPanelProps> = ({
+  enabled,
+  onToggle,
+  settings,
+  onChange,
+  gravity,
+  onGravityChange,
+  bodyCount,
+  onSpawn,
+  onClear,
+  sampleName,
+  onLoadSample,
+  error,
+  onDismissError
+}) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} aria-expanded={open} className="text-cyan-800 hover:text-cyan-500">
+        Playground {open ? '▾' : '▸'}
+        <span className="ml-2 text-gray-600">{enabled ? `on · ${bodyCount} bodies` : 'off'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 bg-black/40 border border-white/5 rounded p-2">
+          <button
+            onClick={onToggle}
+            aria-pressed={enabled}
+            title="Grab and fling bodies with the pointer; click the floor to spawn"
+            className={`w-full py-1 rounded border border-white/5 ${enabled ? 'bg-cyan-500/15 text-cyan-300' : 'text-gray-600 hover:text-cyan-500'}`}
+          >
+            Interactive {enabled ? 'On' : 'Off'}
+          </button>
+
+          <div className={`space-y-2 ${enabled ? '' : 'opacity-40'}`}>
+            <div className="flex justify-between items-center text-gray-500">
+              <span>Spawn</span>
+              <span className="flex items-center space-x-2">
+                {BODY_SHAPES.map(shape => (
+                  <button
+                    key={shape.id}
+                    onClick={() => onSpawn(shape.id)}
+                    disabled={!enabled}
+                    className="text-cyan-600 hover:text-cyan-300 disabled:opacity-30"
+                  >
+                    {shape.label}
+                  </button>
+                ))}
+              </span>
+            </div>
+            <div className="flex justify-between items-center text-gray-500">
+              <span>Click Spawns</span>
+              <select value={settings.shape} onChange={(e) => onChange({ shape: e.target.value as BodyShape })} className={selectClass}>
+                {BODY_SHAPES.map(shape => (
+                  <option key={shape.id} value={shape.id}>{shape.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex justify-between items-center text-gray-500">
+              <span>{bodyCount} / {settings.maxBodies} bodies</span>
+              <button onClick={onClear} disabled={!enabled || bodyCount === 0} className="hover:text-pink-400 disabled:opacity-30">
+                Clear
+              </button>
+            </div>
+          </div>
+
+          <Slider
+            label="Max Bodies"
+            value={settings.maxBodies}
+            limits={NUMBER_LIMITS['playground.maxBodies']}
+            step={1}
+            format={(v) => v.toFixed(0)}
+            onChange={(maxBodies) => onChange({ maxBodies })}
+          />
+          <label className="flex items-center space-x-2 text-gray-500">
+            <input
+              type="checkbox"
+              checked={settings.rideBars}
+              onChange={(e) => onChange({ rideBars: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            <span>Ride The Bars</span>
+          </label>
+          <Slider
+            label="Gravity"
+            value={gravity}
+            limits={NUMBER_LIMITS['environment.gravity']}
+            step={0.1}
+            format={(v) => v.toFixed(1)}
+            onChange={onGravityChange}
+          />
+
+          <div className="pt-1 border-t border-white/5 space-y-2">
+            <div className="flex justify-between items-center text-gray-500">
+              <span>Field</span>
+              <select value={settings.field} onChange={(e) => onChange({ field: e.target.value as FieldKind })} className={selectClass}>
+                {FIELD_KINDS.map(kind => (
+                  <option key={kind.id} value={kind.id}>{kind.label}</option>
+                ))}
+              </select>
+            </div>
+            {settings.field !== 'off' && (
+              <>
+                <Slider
+                  label="Strength"
+                  value={settings.fieldStrength}
+                  limits={NUMBER_LIMITS['playground.fieldStrength']}
+                  step={0.5}
+                  format={(v) => v.toFixed(1)}
+                  onChange={(fieldStrength) => onChange({ fieldStrength })}
+                />
+                <Slider
+                  label="Bass Pulse"
+                  value={settings.fieldBass}
+                  limits={NUMBER_LIMITS['playground.fieldBass']}
+                  step={0.01}
+                  format={(v) => v.toFixed(2)}
+                  onChange={(fieldBass) => onChange({ fieldBass })}
+                />
+              </>
+            )}
+          </div>
+
+          <div className="pt-1 border-t border-white/5 space-y-2">
+            <div className="flex justify-between items-center text-gray-500">
+              <span>Hit Sound</span>
+              <select value={settings.sound} onChange={(e) => onChange({ sound: e.target.value as HitSound })} className={selectClass}>
+                {HIT_SOUNDS.map(sound => (
+                  <option key={sound.id} value={sound.id}>{sound.label}</option>
+                ))}
+              </select>
+            </div>
+            {settings.sound !== 'off' && (
+              <>
+                <Slider
+                  label="Volume"
+                  value={settings.volume}
+                  limits={NUMBER_LIMITS['playground.volume']}
+                  step={0.01}
+                  format={(v) => `${Math.round(v * 100)}%`}
+                  onChange={(volume) => onChange({ volume })}
+                />
+                <div className="flex justify-between items-center text-gray-500">
+                  <span>Snap To</span>
+                  <select
+                    value={settings.quantize}
+                    onChange={(e) => onChange({ quantize: e.target.value as HitQuantize })}
+                    title="Delay hits to the next beat subdivision of the detected tempo"
+                    className={selectClass}
+                  >
+                    {HIT_QUANTIZE.map(q => (
+                      <option key={q.id} value={q.id}>{q.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+            {settings.sound === 'sample' && (
+              <div className="flex justify-between items-center text-gray-600">
+                <span className="truncate normal-case tracking-normal">{sampleName ?? 'No sample · using synth'}</span>
+                <label className="cursor-pointer hover:text-cyan-400 shrink-0 ml-2">
+                  Load
+                  <input
+                    type="file"
+                    accept="audio/*"
+                    className="sr-only"
+                    onChange={(e) => {
+                      if (e.target.files?.[0]) onLoadSample(e.target.files[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+            )}
+            {error && (
+              <button
+                onClick={onDismissError}
+                className="block w-full text-left whitespace-pre-wrap normal-case tracking-normal text-pink-500 border border-pink-500/20 rounded p-2 bg-pink-500/5"
+              >
+                {error}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaygroundPanel;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { QueueState } from '../playlist/queue';
+
+interface PlaylistProps {
+  queue: QueueState;
+  /** Tag titles by entry id, where known. */
+  titles: Record<string, string>;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
+}
+
+const REPEAT_LABELS = { off: 'Repeat_Off', all: 'Repeat_All', one: 'Repeat_One' } as const;
+
+const Playlist: React.FC<PlaylistProps> = ({
+  queue,
+  titles,
+  onSelect,
+  onRemove,
+  onMove,
+  onToggleShuffle,
+  onCycleRepeat
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  return (
+    <div className="w-72 max-h-[50vh] flex flex-col bg-black/40 backdrop-blur-xl rounded-2xl border border-white/5 shadow-2xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/5 font-mono text-[9px] uppercase tracking-widest">
+        <span className="text-cyan-500/80">Queue [{queue.entries.length}]</span>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={onToggleShuffle}
+            className={queue.shuffle ? 'text-pink-400' : 'text-gray-600 hover:text-cyan-400'}
+          >
+            Shuffle
+          </button>
+          <button
+            onClick={onCycleRepeat}
+            className={queue.repeat !== 'off' ? 'text-pink-400' : 'text-gray-600 hover:text-cyan-400'}
+          >
+            {REPEAT_LABELS[queue.repeat]}
+          </button>
+        </div>
+      </div>
+
+      <ol className="overflow-y-auto py-1">
+        {queue.entries.map((entry, index) => {
+          const isCurrent = entry.id === queue.currentId;
+          return (
+            <li
+              key={entry.id}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                if (dragIndex !== null) onMove(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`group flex items-center px-4 py-1.5 font-mono text-[10px] cursor-grab ${
+                isCurrent ? 'text-cyan-300 bg-cyan-500/10' : 'text-gray-500 hover:bg-white/5'
+              } ${dragIndex === index ? 'opacity-40' : ''}`}
+            >
+              <span className="w-6 text-gray-700">{(index + 1).toString().padStart(2, '0')}</span>
+              <button onClick={() => onSelect(entry.id)} className="flex-1 truncate text-left">
+                {titles[entry.id] || entry.name}
+              </button>
+              <button
+                onClick={() => onRemove(entry.id)}
+                className="ml-2 text-pink-500/40 opacity-0 group-hover:opacity-100 hover:text-pink-400"
+              >
+                ×
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default Playlist;
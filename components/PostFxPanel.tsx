@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { AudioFeature } from '../modulation/matrix';
+import { POSTFX_LIMITS, POSTFX_PASSES, POSTFX_SOURCES, PostFxPass, movePass } from '../postfx/chain';
+
+interface PostFxPanelProps {
+  passes: PostFxPass[];
+  /** False when the quality tier skips post-processing. */
+  active: boolean;
+  onChange: (passes: PostFxPass[]) => void;
+}
+
+const sliderClass = 'w-full h-1 accent-cyan-400 cursor-pointer';
+const selectClass = 'bg-black/60 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none';
+
+interface PassRowProps {
+  pass: PostFxPass;
+  first: boolean;
+  last: boolean;
+  onChange: (pass: PostFxPass) => void;
+  onMove: (offset: -1 | 1) => void;
+}
+
+const PassRow: React.FC<PassRowProps> = ({ pass, first, last, onChange, onMove }) => {
+  const set = <K extends keyof PostFxPass>(key: K, value: PostFxPass[K]) => onChange({ ...pass, [key]: value });
+  const label = POSTFX_PASSES.find(p => p.id === pass.id)?.label ?? pass.id;
+
+  return (
+    <div className={pass.enabled ? '' : 'opacity-50'}>
+      <div className="flex justify-between items-center text-gray-500">
+        <label className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            checked={pass.enabled}
+            onChange={(e) => set('enabled', e.target.checked)}
+            className="accent-cyan-400"
+          />
+          <span>{label}</span>
+        </label>
+        <span className="flex items-center space-x-1">
+          <button onClick={() => onMove(-1)} disabled={first} title="Earlier in the chain" className="hover:text-cyan-400 disabled:opacity-20">
+            ↑
+          </button>
+          <button onClick={() => onMove(1)} disabled={last} title="Later in the chain" className="hover:text-cyan-400 disabled:opacity-20">
+            ↓
+          </button>
+        </span>
+      </div>
+
+      {pass.enabled && (
+        <div className="mt-1 ml-2 pl-2 border-l border-cyan-500/20 space-y-1">
+          <label className="block">
+            <span className="flex justify-between text-gray-600">
+              Amount <span className="text-cyan-300">{pass.amount.toFixed(2)}</span>
+            </span>
+            <input
+              type="range"
+              min={POSTFX_LIMITS.amount[0]}
+              max={POSTFX_LIMITS.amount[1]}
+              step={0.01}
+              value={pass.amount}
+              onChange={(e) => set('amount', parseFloat(e.target.value))}
+              className={sliderClass}
+            />
+          </label>
+          <div className="flex justify-between items-center text-gray-600">
+            <span>Driven by</span>
+            <select
+              value={pass.source ?? ''}
+              onChange={(e) => set('source', (e.target.value || null) as AudioFeature | null)}
+              className={selectClass}
+            >
+              <option value="">None</option>
+              {POSTFX_SOURCES.map(source => (
+                <option key={source.id} value={source.id}>{source.label}</option>
+              ))}
+            </select>
+          </div>
+          {pass.source && (
+            <label className="block">
+              <span className="flex justify-between text-gray-600">
+                Depth <span className="text-pink-400">{pass.depth.toFixed(2)}</span>
+              </span>
+              <input
+                type="range"
+                min={POSTFX_LIMITS.depth[0]}
+                max={POSTFX_LIMITS.depth[1]}
+                step={0.01}
+                value={pass.depth}
+                onChange={(e) => set('depth', parseFloat(e.target.value))}
+                className={sliderClass}
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PostFxPanel: React.FC<PostFxPanelProps> = ({ passes, active, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const enabled = passes.filter(p => p.enabled).length;
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} className="text-cyan-800 hover:text-cyan-500">
+        Post_FX {open ? '▾' : '▸'}
+        <span className="ml-2 text-gray-600">{active ? `${enabled} on` : 'off (quality)'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 max-h-[40vh] overflow-y-auto pr-1 bg-black/40 border border-white/5 rounded p-2">
+          {passes.map((pass, i) => (
+            <PassRow
+              key={pass.id}
+              pass={pass}
+              first={i === 0}
+              last={i === passes.length - 1}
+              onChange={(next) => onChange(passes.map(p => (p.id === next.id ? next : p)))}
+              onMove={(offset) => onChange(movePass(passes, pass.id, offset))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostFxPanel;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Preset, createShareUrl, downloadPreset } from '../presets';
+
+interface PresetManagerProps {
+  preset: Preset;
+  saved: Preset[];
+  error: string | null;
+  onRename: (name: string) => void;
+  onSave: () => void;
+  onLoad: (preset: Preset) => void;
+  onDelete: (name: string) => void;
+  onImport: (file: File) => void;
+  onDismissError: () => void;
+}
+
+const PresetManager: React.FC<PresetManagerProps> = ({
+  preset,
+  saved,
+  error,
+  onRename,
+  onSave,
+  onLoad,
+  onDelete,
+  onImport,
+  onDismissError
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleShare = async () => {
+    await navigator.clipboard.writeText(createShareUrl(preset));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="w-56 space-y-2 font-mono text-[9px] uppercase tracking-widest">
+      <span className="text-cyan-800">Preset_Bank</span>
+
+      <input
+        value={preset.name}
+        onChange={(e) => onRename(e.target.value)}
+        className="w-full bg-black/40 border border-white/5 rounded px-2 py-1 text-cyan-300 normal-case tracking-normal focus:outline-none focus:border-cyan-500/50"
+      />
+
+      <div className="flex justify-between text-gray-600">
+        <button onClick={onSave} className="hover:text-cyan-400">Save</button>
+        <button onClick={() => downloadPreset(preset)} className="hover:text-cyan-400">Export</button>
+        <label className="cursor-pointer hover:text-cyan-400">
+          Import
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.[0]) onImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button onClick={handleShare} className="hover:text-cyan-400">{copied ? 'Copied' : 'Share'}</button>
+      </div>
+
+      {saved.length > 0 && (
+        <ul className="space-y-0.5 max-h-32 overflow-y-auto">
+          {saved.map(item => (
+            <li key={item.name} className="group flex justify-between">
+              <button
+                onClick={() => onLoad(item)}
+                className={`truncate text-left ${item.name === preset.name ? 'text-cyan-300' : 'text-gray-600 hover:text-cyan-500'}`}
+              >
+                {item.name}
+              </button>
+              <button
+                onClick={() => onDelete(item.name)}
+                className="text-pink-500/40 opacity-0 group-hover:opacity-100 hover:text-pink-400"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <button
+          onClick={onDismissError}
+          className="block w-full text-left whitespace-pre-wrap normal-case tracking-normal text-pink-500 border border-pink-500/20 rounded p-2 bg-pink-500/5"
+        >
+          {error}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PresetManager;
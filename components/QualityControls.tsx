@@ -0,0 +1,32 @@
+import React from 'react';
+import { QualityMode, QualityTier } from '../quality/tiers';
+
+interface QualityControlsProps {
+  mode: QualityMode;
+  tier: QualityTier;
+  lowPower: boolean;
+  paused: boolean;
+  onCycleMode: () => void;
+  onToggleLowPower: () => void;
+}
+
+const QualityControls: React.FC<QualityControlsProps> = ({ mode, tier, lowPower, paused, onCycleMode, onToggleLowPower }) => (
+  <>
+    <p>
+      <button onClick={onCycleMode} className="pointer-events-auto uppercase hover:text-cyan-400" title="Cycle quality: auto, low, medium, high, ultra">
+        GEOMETRY_COMPLEXITY: {tier}{mode === 'auto' ? ' (AUTO)' : ''}
+      </button>
+    </p>
+    <p>
+      <button
+        onClick={onToggleLowPower}
+        className="pointer-events-auto uppercase hover:text-cyan-400"
+        title="Stop rendering while playback is stopped"
+      >
+        LOW_POWER: {lowPower ? 'ON' : 'OFF'}{paused ? ' · PAUSED' : ''}
+      </button>
+    </p>
+  </>
+);
+
+export default QualityControls;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { SceneDefinition } from '../scenes';
+
+interface SceneSelectorProps {
+  scenes: SceneDefinition[];
+  activeId: string;
+  onSelect: (id: string) => void;
+}
+
+const SceneSelector: React.FC<SceneSelectorProps> = ({ scenes, activeId, onSelect }) => {
+  return (
+    <div className="flex flex-col space-y-1 font-mono text-[9px] uppercase tracking-widest">
+      <span className="text-cyan-800 mb-1">Scene_Matrix</span>
+      {scenes.map((scene, i) => (
+        <button
+          key={scene.id}
+          onClick={() => onSelect(scene.id)}
+          className={`text-left transition-colors ${
+            scene.id === activeId ? 'text-cyan-300' : 'text-gray-600 hover:text-cyan-500'
+          }`}
+        >
+          <span className="opacity-40 mr-2">{(i + 1).toString().padStart(2, '0')}</span>
+          {scene.name.replace(/\s+/g, '_')}
+          {scene.id === activeId && <span className="ml-2 text-pink-500 animate-pulse">◀</span>}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SceneSelector;
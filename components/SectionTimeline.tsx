@@ -0,0 +1,78 @@
+import React from 'react';
+import { EnergyLevel, SECTION_KINDS, SongStructure } from '../audio/structure';
+
+interface SectionTimelineProps {
+  structure: SongStructure;
+  /** Playback time, in seconds. */
+  time: number;
+  /** Media duration; the decoded length can differ slightly. */
+  duration: number;
+  /** Whether the scenes follow the sections. */
+  following: boolean;
+  onSeek: (time: number) => void;
+  onToggleFollowing: () => void;
+}
+
+const LEVEL_CLASSES: Record<EnergyLevel, string> = {
+  low: 'bg-cyan-900/40 text-cyan-700',
+  mid: 'bg-cyan-600/30 text-cyan-400',
+  high: 'bg-pink-500/40 text-pink-300',
+};
+
+// 太窄的段落不顯示名稱
+const MIN_LABEL_FRACTION = 0.06;
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const kindLabel = (id: string) => SECTION_KINDS.find(k => k.id === id)?.label ?? id;
+
+/** The track's sections as a strip above the seek bar; clicking one jumps to its start. */
+const SectionTimeline: React.FC<SectionTimelineProps> = ({
+  structure,
+  time,
+  duration,
+  following,
+  onSeek,
+  onToggleFollowing
+}) => {
+  const total = duration || structure.duration || 1;
+
+  return (
+    <div className="flex items-center space-x-2 font-mono text-[8px] uppercase tracking-widest">
+      <div className="relative flex-1 h-3 flex rounded-sm overflow-hidden" role="group" aria-label="Song sections">
+        {structure.sections.map((section, i) => {
+          const width = (Math.min(section.end, total) - section.start) / total;
+          if (width <= 0) return null;
+          const current = time >= section.start && time < section.end;
+          const label = kindLabel(section.kind);
+          return (
+            <button
+              key={i}
+              onClick={() => onSeek(section.start)}
+              title={`${label} · ${section.level} energy · ${formatTime(section.start)}–${formatTime(section.end)}`}
+              aria-label={`${label}, ${section.level} energy, from ${formatTime(section.start)}`}
+              aria-current={current || undefined}
+              className={`h-full border-r border-black/60 last:border-r-0 truncate px-1 text-left ${LEVEL_CLASSES[section.level]} ${
+                current ? 'brightness-150' : 'opacity-70 hover:opacity-100'
+              }`}
+              style={{ width: `${width * 100}%` }}
+            >
+              {width >= MIN_LABEL_FRACTION ? label : ''}
+            </button>
+          );
+        })}
+      </div>
+      <button
+        onClick={onToggleFollowing}
+        aria-pressed={following}
+        title="Let section changes drive scene colours, the pulse ball and section-synced modulation"
+        className={following ? 'text-cyan-400 hover:text-cyan-200' : 'text-gray-600 hover:text-cyan-400'}
+      >
+        Follow {following ? 'On' : 'Off'}
+      </button>
+    </div>
+  );
+};
+
+export default SectionTimeline;
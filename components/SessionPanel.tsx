@@ -0,0 +1,116 @@
+import React from 'react';
+import { SessionMode } from '../session/useSession';
+
+interface SessionPanelProps {
+  mode: SessionMode;
+  seed: number;
+  fixedStep: boolean;
+  progress: { frame: number; frames: number };
+  error: string | null;
+  onSeedChange: (seed: number) => void;
+  onToggleFixedStep: () => void;
+  onRecord: () => void;
+  onStopRecording: () => void;
+  onReplay: (file: File) => void;
+  onStopReplay: () => void;
+  onDismissError: () => void;
+}
+
+const SessionPanel: React.FC<SessionPanelProps> = ({
+  mode,
+  seed,
+  fixedStep,
+  progress,
+  error,
+  onSeedChange,
+  onToggleFixedStep,
+  onRecord,
+  onStopRecording,
+  onReplay,
+  onStopReplay,
+  onDismissError
+}) => {
+  const live = mode === 'live';
+
+  return (
+    <div className="w-56 space-y-2 font-mono text-[9px] uppercase tracking-widest">
+      <span className="text-cyan-800">Session</span>
+
+      <div className="flex justify-between items-center text-gray-600">
+        <label className="flex items-center space-x-2">
+          <span>Seed</span>
+          <input
+            type="number"
+            min={0}
+            value={seed}
+            disabled={!live}
+            onChange={(e) => onSeedChange(Math.max(0, Math.floor(Number(e.target.value) || 0)) >>> 0)}
+            className="w-20 bg-black/40 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none focus:border-cyan-500/50 disabled:opacity-50"
+          />
+        </label>
+        <button
+          onClick={onToggleFixedStep}
+          disabled={!live}
+          className={`disabled:opacity-30 ${fixedStep || !live ? 'text-cyan-400' : 'hover:text-cyan-400'}`}
+        >
+          Fixed_Step
+        </button>
+      </div>
+
+      <div className="flex justify-between text-gray-600">
+        {mode === 'recording' ? (
+          <button onClick={onStopRecording} className="text-pink-500 animate-pulse hover:text-pink-400">
+            ● Stop &amp; Save
+          </button>
+        ) : (
+          <button onClick={onRecord} disabled={!live} className="hover:text-cyan-400 disabled:opacity-30">
+            ● Rec
+          </button>
+        )}
+        {mode === 'replaying' ? (
+          <button onClick={onStopReplay} className="text-pink-500 hover:text-pink-400">Stop</button>
+        ) : (
+          <label className={live ? 'cursor-pointer hover:text-cyan-400' : 'opacity-30'}>
+            Replay
+            <input
+              type="file"
+              accept=".json,application/json"
+              disabled={!live}
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files?.[0]) onReplay(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+
+      {mode === 'replaying' && (
+        <div>
+          <div className="flex justify-between text-gray-600">
+            <span>Replaying</span>
+            <span className="text-cyan-300">{progress.frame}/{progress.frames}</span>
+          </div>
+          <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-cyan-600 to-pink-500"
+              style={{ width: `${(progress.frame / (progress.frames || 1)) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <button
+          onClick={onDismissError}
+          className="block w-full text-left whitespace-pre-wrap normal-case tracking-normal text-pink-500 border border-pink-500/20 rounded p-2 bg-pink-500/5"
+        >
+          {error}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { InputSourceKind } from '../audio/sources';
+
+interface SourceSelectorProps {
+  source: InputSourceKind;
+  devices: MediaDeviceInfo[];
+  deviceId: string | null;
+  error: string | null;
+  onSelect: (kind: InputSourceKind, deviceId?: string) => void;
+}
+
+const SOURCE_LABELS: Record<InputSourceKind, string> = {
+  file: 'File',
+  microphone: 'Mic/Line',
+  display: 'Tab/System',
+};
+
+const SourceSelector: React.FC<SourceSelectorProps> = ({ source, devices, deviceId, error, onSelect }) => {
+  return (
+    <div className="w-full space-y-2">
+      <div
+        role="group"
+        aria-label="Input source"
+        className="flex w-full rounded-md border border-white/5 overflow-hidden font-mono text-[9px] uppercase tracking-widest"
+      >
+        {(Object.keys(SOURCE_LABELS) as InputSourceKind[]).map(kind => (
+          <button
+            key={kind}
+            onClick={() => onSelect(kind, kind === 'microphone' ? deviceId ?? undefined : undefined)}
+            aria-pressed={source === kind}
+            className={`flex-1 py-1.5 transition-colors focus:outline-none focus-visible:bg-cyan-500/25 ${
+              source === kind ? 'bg-cyan-500/15 text-cyan-300' : 'text-gray-600 hover:text-cyan-500'
+            }`}
+          >
+            {SOURCE_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      {source === 'microphone' && devices.length > 1 && (
+        <select
+          value={deviceId ?? ''}
+          onChange={(e) => onSelect('microphone', e.target.value)}
+          aria-label="Input device"
+          className="w-full bg-black/60 border border-white/5 rounded px-2 py-1 font-mono text-[9px] text-cyan-400 uppercase"
+        >
+          {devices.map((device, i) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `Input_${i + 1}`}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {error && <p role="alert" className="font-mono text-[9px] text-pink-500 uppercase tracking-tight">{error}</p>}
+    </div>
+  );
+};
+
+export default SourceSelector;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { BAND_SCALES, BandScale } from '../audio/bands';
+import { FFT_SIZES, NUMBER_LIMITS, SpectrumSettings } from '../presets/schema';
+
+interface SpectrumPanelProps {
+  spectrum: SpectrumSettings;
+  onChange: (values: Partial<SpectrumSettings>) => void;
+}
+
+const sliderClass = 'w-full h-1 accent-cyan-400 cursor-pointer';
+const selectClass = 'bg-black/60 border border-white/5 rounded px-1 text-cyan-300 focus:outline-none';
+
+type NumericKey = 'smoothingTimeConstant' | 'minDecibels' | 'maxDecibels' | 'minHz' | 'maxHz';
+
+const SLIDERS: { key: NumericKey; label: string; step: number }[] = [
+  { key: 'smoothingTimeConstant', label: 'Smoothing', step: 0.01 },
+  { key: 'minDecibels', label: 'Floor dB', step: 1 },
+  { key: 'maxDecibels', label: 'Ceiling dB', step: 1 },
+  { key: 'minHz', label: 'Low Hz', step: 10 },
+  { key: 'maxHz', label: 'High Hz', step: 100 },
+];
+
+const SpectrumPanel: React.FC<SpectrumPanelProps> = ({ spectrum, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  // 分貝與頻率範圍的上下限不可交錯，拖過頭時停在另一端前
+  const setNumber = (key: NumericKey, value: number) => {
+    if (key === 'minDecibels' && value >= spectrum.maxDecibels) value = spectrum.maxDecibels - 1;
+    if (key === 'maxDecibels' && value <= spectrum.minDecibels) value = spectrum.minDecibels + 1;
+    if (key === 'minHz' && value >= spectrum.maxHz) return;
+    if (key === 'maxHz' && value <= spectrum.minHz) return;
+    onChange({ [key]: value });
+  };
+
+  return (
+    <div className="w-56 font-mono text-[9px] uppercase tracking-widest">
+      <button onClick={() => setOpen(o => !o)} className="text-cyan-800 hover:text-cyan-500">
+        Spectrum {open ? '▾' : '▸'}
+        <span className="ml-2 text-gray-600">{spectrum.fftSize / 2} bins · {spectrum.scale}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2 bg-black/40 border border-white/5 rounded p-2">
+          <div className="flex justify-between items-center text-gray-500">
+            <span>FFT Size</span>
+            <select
+              value={spectrum.fftSize}
+              onChange={(e) => onChange({ fftSize: parseInt(e.target.value, 10) })}
+              className={selectClass}
+            >
+              {FFT_SIZES.map(size => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-between items-center text-gray-500">
+            <span>Band Scale</span>
+            <select
+              value={spectrum.scale}
+              onChange={(e) => onChange({ scale: e.target.value as BandScale })}
+              className={selectClass}
+            >
+              {BAND_SCALES.map(scale => (
+                <option key={scale.id} value={scale.id}>{scale.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {SLIDERS.map(({ key, label, step }) => {
+            const [min, max] = NUMBER_LIMITS[`spectrum.${key}`];
+            return (
+              <label key={key} className="block">
+                <span className="flex justify-between text-gray-500">
+                  {label} <span className="text-cyan-300">{spectrum[key]}</span>
+                </span>
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={spectrum[key]}
+                  onChange={(e) => setNumber(key, parseFloat(e.target.value))}
+                  className={sliderClass}
+                />
+              </label>
+            );
+          })}
+
+          {([
+            ['normalize', 'Per-Band Norm'],
+            ['autoGain', 'Auto Gain'],
+          ] as const).map(([key, label]) => (
+            <label key={key} className="flex items-center space-x-2 text-gray-500">
+              <input
+                type="checkbox"
+                checked={spectrum[key]}
+                onChange={(e) => onChange({ [key]: e.target.checked })}
+                className="accent-cyan-400"
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpectrumPanel;
@@ -1,202 +1,290 @@
 
-import React, { useRef, useMemo, useState } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
+import React, { useMemo, useRef, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars, PerspectiveCamera, Float } from '@react-three/drei';
-import { Physics, useSphere, useBox } from '@react-three/cannon';
-import * as THREE from 'three';
-
-// Define local aliases for R3F intrinsic elements to bypass JSX type errors in environments
-// where the global JSX.IntrinsicElements is not properly augmented by @react-three/fiber.
-// Using capitalized names ensures that TypeScript treats them as component variables rather than intrinsic HTML/SVG tags.
-const Mesh = 'mesh' as any;
-const BoxGeometry = 'boxGeometry' as any;
-const MeshStandardMaterial = 'meshStandardMaterial' as any;
-const SphereGeometry = 'sphereGeometry' as any;
-const PointLight = 'pointLight' as any;
-const Color = 'color' as any;
-const AmbientLight = 'ambientLight' as any;
-const SpotLight = 'spotLight' as any;
-const PlaneGeometry = 'planeGeometry' as any;
-const GridHelper = 'gridHelper' as any;
+import { Physics } from '@react-three/cannon';
+import { AudioDataProvider } from '../audio/AudioDataContext';
+import { AudioSampler, createAudioSampler } from '../audio/analysis';
+import { DeckBlend, withDeckBlend } from '../audio/decks';
+import { SceneDefinition, SceneParams, defaultSceneParams, getScene } from '../scenes';
+import { ModRoute } from '../modulation/matrix';
+import { useModulatedParams } from '../modulation/useModulatedParams';
+import OfflineDriver, { OfflineRender } from '../offline/OfflineDriver';
+import FixedStepLoop from '../offline/FixedStepLoop';
+import { Preset } from '../presets/schema';
+import { DEFAULT_SEED } from '../scenes/random';
+import { RandomProvider } from '../scenes/RandomContext';
+import { QualityProvider } from '../scenes/QualityContext';
+import { MotionProvider } from '../scenes/MotionContext';
+import { QualitySettings, TIER_SETTINGS } from '../quality/tiers';
+import SceneLayer from '../scenes/SceneLayer';
+import SessionProbe from '../session/SessionProbe';
+import { SessionRecorder } from '../session/recorder';
+import { SESSION_FPS } from '../session/format';
+import PerfProbe from '../perf/PerfProbe';
+import PostProcessing from '../postfx/PostProcessing';
+import { calmPostFx } from '../postfx/chain';
+import CameraDirector from '../camera/CameraDirector';
+import { CameraFocusProvider } from '../camera/CameraFocus';
+import { CameraHandle } from '../camera/handle';
+import LyricsText from '../lyrics/LyricsText';
+import { Lyrics } from '../lyrics/lrc';
+import { Playhead } from '../audio/playhead';
+import { SongStructure } from '../audio/structure';
+import { SectionProvider } from '../sections/SectionContext';
+import { PerfMonitor } from '../perf/monitor';
+import { PlaygroundProvider } from '../playground/PlaygroundContext';
+import { PlaygroundHandle } from '../playground/handle';
+import PlaygroundBodies from '../playground/PlaygroundBodies';
+import {
+  Mesh,
+  MeshStandardMaterial,
+  PointLight,
+  Color,
+  AmbientLight,
+  SpotLight,
+  PlaneGeometry,
+  GridHelper
+} from '../scenes/elements';
 
 interface VisualizerProps {
   analyzer: AnalyserNode | null;
   isPlaying: boolean;
+  preset: Preset;
+  /** Seed for every random stream in the scene. */
+  seed?: number;
+  /** Advance scene and physics by exactly 1/60 s per rendered frame. */
+  fixedStep?: boolean;
+  /** Records the session; implies fixedStep. */
+  recorder?: SessionRecorder | null;
+  /** Renders frame by frame from precomputed analysis (export, replay) instead of realtime. */
+  offline?: OfflineRender | null;
+  /** Called if a fixed-step or recorded frame fails; the loop stops there. */
+  onLockstepError?: (err: unknown) => void;
+  /** Receives frame timings for the perf HUD. */
+  perf?: PerfMonitor | null;
+  /** Extract audio features in a Web Worker instead of on the main thread. */
+  analysisWorker?: boolean;
+  /** Deck analysers to blend during crossfades. */
+  decks?: DeckBlend | null;
+  /** Settings of the active quality tier. */
+  quality?: QualitySettings;
+  /** Stop rendering (live mode only); the last frame stays on screen. */
+  paused?: boolean;
+  /** Tone down flashing post effects, scene flashes and impulses, and background movement. */
+  reducedMotion?: boolean;
+  /** Lets the UI save and recall viewpoints. */
+  camera?: CameraHandle | null;
+  /** Lyrics to show in the scene, timed by `playhead` (live mode only). */
+  lyrics?: Lyrics | null;
+  playhead?: Playhead | null;
+  /** Sections of the current track; scenes change palette and behaviour on boundaries. */
+  structure?: SongStructure | null;
+  /** Audio features streamed from elsewhere (the control window, in the projector output) instead of the analyser. */
+  remote?: AudioSampler | null;
+  /** Let the user grab, fling and spawn bodies (live mode only). */
+  interactive?: boolean;
+  /** Carries spawn requests in and collisions out of the playground. */
+  playground?: PlaygroundHandle | null;
 }
 
-// 單個音階柱組件
-const FrequencyBar = ({ index, total, analyzer }: { index: number, total: number, analyzer: AnalyserNode | null }) => {
-  const angle = (index / total) * Math.PI * 2;
-  const radius = 8;
-  const x = Math.cos(angle) * radius;
-  const z = Math.sin(angle) * radius;
-  
-  const meshRef = useRef<THREE.Mesh>(null);
-  const [hit, setHit] = useState(0);
-
-  // 物理實體（靜態）
-  const [ref] = useBox(() => ({
-    type: 'Static',
-    position: [x, 0, z],
-    rotation: [0, -angle, 0],
-    args: [0.5, 2, 0.5],
-    onCollide: () => setHit(1)
-  }));
-
-  useFrame(() => {
-    if (!analyzer || !meshRef.current) return;
-    
-    const dataArray = new Uint8Array(analyzer.frequencyBinCount);
-    analyzer.getByteFrequencyData(dataArray);
-    
-    // 對應頻段數據
-    const val = dataArray[index % 64] / 255;
-    const targetScaleY = 0.5 + val * 10;
-    
-    // 平滑高度變化
-    meshRef.current.scale.y = THREE.MathUtils.lerp(meshRef.current.scale.y, targetScaleY, 0.2);
-    meshRef.current.position.y = meshRef.current.scale.y / 2;
-
-    // 碰撞閃爍衰減
-    if (hit > 0) setHit(h => h * 0.9);
-  });
-
-  const hue = (index / total) * 360;
-  const colorVal = new THREE.Color(`hsl(${hue}, 80%, 50%)`);
+interface Layer {
+  key: number;
+  sceneId: string;
+}
 
-  return (
-    /* Use the capitalized alias to avoid JSX type errors */
-    <Mesh ref={mergeRefs(meshRef, ref)}>
-      <BoxGeometry args={[0.5, 1, 0.5]} />
-      <MeshStandardMaterial 
-        color={colorVal} 
-        emissive={colorVal}
-        emissiveIntensity={0.5 + hit * 5}
-        metalness={0.8}
-        roughness={0.2}
-      />
-    </Mesh>
-  );
+interface SceneHostProps {
+  scene: SceneDefinition;
+  params: SceneParams;
+  routes: ModRoute[];
+  isPlaying: boolean;
+}
+
+// 每個場景層各自維護調變狀態，淡出中的場景也持續被調變
+const SceneHost: React.FC<SceneHostProps> = ({ scene, params, routes, isPlaying }) => {
+  const live = useModulatedParams(scene, params, routes);
+  const SceneComponent = scene.component;
+  return <SceneComponent params={params} live={live} isPlaying={isPlaying} />;
 };
 
-// 中心物理球組件
-const PulseBall = ({ analyzer, isPlaying }: { analyzer: AnalyserNode | null, isPlaying: boolean }) => {
-  const [ref, api] = useSphere(() => ({
-    mass: 1,
-    position: [0, 5, 0],
-    args: [1.2],
-    linearDamping: 0.4,
-    angularDamping: 0.4,
-  }));
-
-  const lastBassRef = useRef(0);
-  const pos = useRef([0, 0, 0]);
-
-  // 訂閱物理位置
-  useMemo(() => api.position.subscribe(v => pos.current = v), [api]);
-
-  useFrame(() => {
-    if (!analyzer || !isPlaying) return;
-
-    const dataArray = new Uint8Array(analyzer.frequencyBinCount);
-    analyzer.getByteFrequencyData(dataArray);
-    
-    // 計算低音平均 (Bass 0-5)
-    let bassSum = 0;
-    for (let i = 0; i < 5; i++) bassSum += dataArray[i];
-    const avgBass = bassSum / 5 / 255;
-
-    // 向心引力：讓球體傾向回到中心
-    const strength = 1.5;
-    api.applyForce([
-      -pos.current[0] * strength,
-      (2 - pos.current[1]) * strength, // 懸浮在 Y=2
-      -pos.current[2] * strength
-    ], [0, 0, 0]);
-
-    // 節拍偵測 (Peak Detection)
-    const threshold = 0.15;
-    const delta = avgBass - lastBassRef.current;
-    
-    if (delta > threshold) {
-      // 爆炸彈射！隨機方向衝量
-      const force = 15 + delta * 20;
-      const phi = Math.random() * Math.PI * 2;
-      const theta = Math.random() * Math.PI;
-      
-      api.applyImpulse([
-        Math.sin(theta) * Math.cos(phi) * force,
-        Math.cos(theta) * force * 0.5,
-        Math.sin(theta) * Math.sin(phi) * force
-      ], [0, 0, 0]);
-    }
-    
-    lastBassRef.current = avgBass;
-  });
+const Visualizer: React.FC<VisualizerProps> = ({
+  analyzer,
+  isPlaying,
+  preset,
+  seed = DEFAULT_SEED,
+  fixedStep = false,
+  recorder = null,
+  offline = null,
+  onLockstepError,
+  perf = null,
+  analysisWorker = false,
+  decks = null,
+  quality = TIER_SETTINGS.high,
+  paused = false,
+  reducedMotion = false,
+  camera = null,
+  lyrics = null,
+  playhead = null,
+  structure = null,
+  remote = null,
+  interactive = false,
+  playground = null
+}) => {
+  const { sceneId, sceneParams, environment, beat, modulation, postfx, spectrum } = preset;
 
-  return (
-    /* Use capitalized aliases for R3F elements */
-    <Mesh ref={ref} castShadow>
-      <SphereGeometry args={[1.2, 32, 32]} />
-      <MeshStandardMaterial 
-        color="#ffffff" 
-        emissive="#00f2ff" 
-        emissiveIntensity={2}
-        metalness={1}
-        roughness={0}
-      />
-      <PointLight intensity={10} color="#00f2ff" distance={10} />
-    </Mesh>
+  // 目前場景在最後；之前的場景淡出完成後才移除
+  const [layers, setLayers] = useState<Layer[]>([{ key: 0, sceneId }]);
+  const layerSeq = useRef(1);
+
+  // 在 render 中直接更新，讓新場景與新 preset 在同一次 commit 進入場景
+  if (layers[layers.length - 1]?.sceneId !== sceneId) {
+    setLayers([...layers.filter(l => l.sceneId !== sceneId), { key: layerSeq.current++, sceneId }]);
+  }
+
+  const lockstep = !!offline || fixedStep || !!recorder;
+  // 錄製、回放與匯出的場景內容不能隨畫質變動，否則無法重現
+  const sceneQuality = useMemo(
+    () =>
+      lockstep
+        ? { ...quality, maxBars: TIER_SETTINGS.ultra.maxBars, maxParticles: TIER_SETTINGS.ultra.maxParticles }
+        : quality,
+    [lockstep, quality]
   );
-};
+  const inputs = useMemo(() => ({ preset, isPlaying }), [preset, isPlaying]);
+  const passes = useMemo(() => (reducedMotion ? calmPostFx(postfx) : postfx), [reducedMotion, postfx]);
+  // 物理衝量會改變模擬結果，錄製與回放時維持原樣
+  const motion = useMemo(() => ({ calm: reducedMotion, calmPhysics: reducedMotion && !lockstep }), [reducedMotion, lockstep]);
+  const sampler = useMemo(() => {
+    if (offline) return offline.sampler;
+    if (remote) return remote;
+    if (recorder && analyzer) return recorder.wrap(withDeckBlend(createAudioSampler(analyzer), decks), analyzer.context.sampleRate);
+    return null;
+  }, [offline, recorder, analyzer, decks, remote]);
 
-// 輔助函式：合併 Refs
-function mergeRefs<T>(...refs: Array<React.Ref<T> | undefined>): React.RefCallback<T> {
-  return (value) => {
-    refs.forEach((ref) => {
-      if (typeof ref === 'function') ref(value);
-      else if (ref) (ref as any).current = value;
-    });
-  };
-}
+  const removeLayer = (key: number) => setLayers(prev => prev.filter(l => l.key !== key));
 
-const Visualizer: React.FC<VisualizerProps> = ({ analyzer, isPlaying }) => {
   return (
     <div className="w-full h-full">
-      <Canvas shadows dpr={[1, 2]}>
+      <Canvas
+        shadows={quality.shadows}
+        dpr={offline ? 1 : quality.dpr}
+        frameloop={lockstep || paused ? 'never' : 'always'}
+        gl={{ preserveDrawingBuffer: !!offline }}
+      >
+        {perf && <PerfProbe monitor={perf} />}
         <PerspectiveCamera makeDefault position={[0, 15, 20]} fov={50} />
         {/* Use capitalized Color alias */}
         <Color attach="background" args={['#050505']} />
         
         {/* Use capitalized light and mesh aliases */}
-        <AmbientLight intensity={0.5} />
-        <PointLight position={[10, 10, 10]} intensity={1.5} castShadow />
-        <SpotLight position={[-10, 20, 10]} angle={0.15} penumbra={1} intensity={2} castShadow />
-
-        <Physics gravity={[0, -9.81, 0]}>
-          {/* 地面 */}
-          <Mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.5, 0]} receiveShadow>
-            <PlaneGeometry args={[100, 100]} />
-            <MeshStandardMaterial color="#0a0a0a" opacity={0.5} transparent />
-          </Mesh>
-
-          {/* 64 根音階柱 */}
-          {Array.from({ length: 64 }).map((_, i) => (
-            <FrequencyBar key={i} index={i} total={64} analyzer={analyzer} />
-          ))}
-
-          {/* 物理能量球 */}
-          <PulseBall analyzer={analyzer} isPlaying={isPlaying} />
-        </Physics>
+        <AmbientLight intensity={environment.ambientLight} />
+        {/* 陰影貼圖尺寸改變時需重建光源 */}
+        <PointLight
+          key={`point-${quality.shadowMapSize}`}
+          position={[10, 10, 10]}
+          intensity={environment.pointLight}
+          castShadow
+          shadow-mapSize={[quality.shadowMapSize, quality.shadowMapSize]}
+        />
+        <SpotLight
+          key={`spot-${quality.shadowMapSize}`}
+          position={[-10, 20, 10]}
+          angle={0.15}
+          penumbra={1}
+          intensity={environment.spotLight}
+          castShadow
+          shadow-mapSize={[quality.shadowMapSize, quality.shadowMapSize]}
+        />
+
+        <QualityProvider settings={sceneQuality}>
+          <MotionProvider settings={motion}>
+            <RandomProvider seed={seed}>
+              <AudioDataProvider
+                analyzer={analyzer}
+                sampler={sampler}
+                worker={analysisWorker}
+                decks={decks}
+                beatOptions={beat}
+                bands={spectrum}
+              >
+                {/* 錄製與回放不跟隨段落，否則無法重現 */}
+                <SectionProvider structure={lockstep ? null : structure} playhead={playhead}>
+                  <CameraFocusProvider>
+                    <CameraDirector
+                      settings={preset.camera}
+                      disabled={!!offline?.fixedCamera}
+                      handle={camera}
+                      calm={reducedMotion}
+                    />
+                    {/* 歌詞跟著播放器時間走，錄製與回放時無法重現，所以不顯示 */}
+                    {lyrics && playhead && !lockstep && <LyricsText lyrics={lyrics} playhead={playhead} calm={reducedMotion} />}
+                    {/* 固定步進模式下每幀只推進一個物理步；只有允許睡眠的物體 (遊樂場生成的) 會睡著 */}
+                    <Physics
+                      gravity={environment.gravity}
+                      stepSize={lockstep ? 1 / (offline?.fps ?? SESSION_FPS) : undefined}
+                      maxSubSteps={quality.physicsSubSteps}
+                      allowSleep
+                    >
+                      {offline ? (
+                        <OfflineDriver inputs={inputs} onReady={offline.onReady} onFrame={offline.onFrame} />
+                      ) : (
+                        lockstep && <FixedStepLoop fps={SESSION_FPS} inputs={inputs} onError={onLockstepError} />
+                      )}
+                      {recorder && <SessionProbe recorder={recorder} inputs={inputs} />}
+
+                      {/* 地面 */}
+                      <Mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -0.5, 0]} receiveShadow>
+                        <PlaneGeometry args={[100, 100]} />
+                        <MeshStandardMaterial color="#0a0a0a" opacity={0.5} transparent />
+                      </Mesh>
+
+                      {/* 錄製與回放不可互動，否則無法重現 */}
+                      <PlaygroundProvider enabled={interactive && !lockstep} settings={preset.playground} handle={playground}>
+                        {/* 場景層：切換時交叉淡化 */}
+                        {layers.map((layer, i) => {
+                          const scene = getScene(layer.sceneId);
+                          if (!scene) return null;
+                          return (
+                            <SceneLayer
+                              key={layer.key}
+                              visible={i === layers.length - 1}
+                              duration={environment.crossfade}
+                              onHidden={() => removeLayer(layer.key)}
+                            >
+                              <SceneHost
+                                scene={scene}
+                                params={sceneParams[layer.sceneId] ?? defaultSceneParams(scene)}
+                                routes={modulation.filter(route => route.sceneId === layer.sceneId)}
+                                isPlaying={isPlaying}
+                              />
+                            </SceneLayer>
+                          );
+                        })}
+
+                        {/* 互動模式：抓取、生成物體與力場 */}
+                        <PlaygroundBodies />
+                      </PlaygroundProvider>
+                    </Physics>
+                  </CameraFocusProvider>
+
+                  {/* 後製效果鏈；低畫質或全部停用時直接輸出 */}
+                  {quality.postProcessing && passes.some(pass => pass.enabled) && <PostProcessing passes={passes} />}
+                </SectionProvider>
+              </AudioDataProvider>
+            </RandomProvider>
+          </MotionProvider>
+        </QualityProvider>
 
         {/* 背景裝飾 */}
-        <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-        <Float speed={2} rotationIntensity={0.5} floatIntensity={0.5}>
+        <Stars radius={100} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={reducedMotion ? 0 : 1} />
+        <Float speed={reducedMotion ? 0 : 2} rotationIntensity={0.5} floatIntensity={0.5}>
             {/* Use capitalized GridHelper alias */}
             <GridHelper args={[100, 50, 0x111111, 0x050505]} position={[0, -0.4, 0]} />
         </Float>
 
         <OrbitControls 
+          makeDefault
+          enabled={!offline}
           enableDamping 
           dampingFactor={0.05} 
           maxPolarAngle={Math.PI / 2.1} 
@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { WaveformOverview as WaveformData } from '../audio/waveform';
+
+interface WaveformOverviewProps {
+  waveform: WaveformData;
+  /** Played fraction, 0..1. */
+  progress: number;
+  className?: string;
+}
+
+const WaveformOverview: React.FC<WaveformOverviewProps> = ({ waveform, progress, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sizeRef = useRef({ width: 0, height: 0 });
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { width, height } = sizeRef.current;
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+
+    const { peaks, rms } = waveform;
+    const mid = height / 2;
+    const playedX = progress * width;
+
+    // 每個像素欄取對應 bucket 的峰值 (淡) 與 RMS (亮)
+    for (let x = 0; x < width; x++) {
+      const bucket = Math.min(peaks.length - 1, Math.floor((x / width) * peaks.length));
+      const peak = peaks[bucket] * mid;
+      const body = rms[bucket] * mid * 1.5;
+      const played = x < playedX;
+
+      ctx.fillStyle = played ? 'rgba(236, 72, 153, 0.35)' : 'rgba(6, 182, 212, 0.15)';
+      ctx.fillRect(x, mid - peak, 1, peak * 2);
+      ctx.fillStyle = played ? 'rgba(236, 72, 153, 0.8)' : 'rgba(6, 182, 212, 0.45)';
+      ctx.fillRect(x, mid - body, 1, body * 2);
+    }
+  };
+
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      sizeRef.current = { width: entry.contentRect.width, height: entry.contentRect.height };
+      drawRef.current();
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(draw, [waveform, progress]);
+
+  return <canvas ref={canvasRef} className={className ?? 'w-full h-full'} />;
+};
+
+export default WaveformOverview;
@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import OutputApp from './output/OutputApp';
+import { isOutputWindow } from './output/protocol';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +13,7 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {/* The projector window opens the same page with ?output */}
+    {isOutputWindow() ? <OutputApp /> : <App />}
   </React.StrictMode>
 );
@@ -0,0 +1,114 @@
+import { ACTIONS, ActionId } from './shortcuts';
+
+/** A physical control: a knob/fader sending CC, or a pad/key sending notes. */
+export interface MidiControl {
+  kind: 'cc' | 'note';
+  /** 1..16 */
+  channel: number;
+  number: number;
+}
+
+export interface MidiMessage extends MidiControl {
+  /** 0..127; note-off arrives as 0. */
+  value: number;
+}
+
+export type MidiTarget = { type: 'action'; action: ActionId } | { type: 'param'; id: string };
+
+export interface MidiBinding {
+  control: MidiControl;
+  target: MidiTarget;
+}
+
+/** A continuous value a knob can drive, supplied by the app. */
+export interface MidiParam {
+  id: string;
+  label: string;
+  min: number;
+  max: number;
+  /** Snaps the scaled value; omit for continuous. */
+  step?: number;
+}
+
+/** Channel voice messages the mapper understands; everything else (clock, sysex…) is null. */
+export const parseMidiMessage = (data: Uint8Array | null): MidiMessage | null => {
+  if (!data || data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  const number = data[1] & 0x7f;
+  const value = data[2] & 0x7f;
+  switch (status) {
+    case 0xb0:
+      return { kind: 'cc', channel, number, value };
+    case 0x90:
+      return { kind: 'note', channel, number, value };
+    case 0x80:
+      return { kind: 'note', channel, number, value: 0 };
+    default:
+      return null;
+  }
+};
+
+export const controlKey = (control: MidiControl) => `${control.kind}:${control.channel}:${control.number}`;
+
+export const targetKey = (target: MidiTarget) => (target.type === 'action' ? `action:${target.action}` : `param:${target.id}`);
+
+export const describeControl = (control: MidiControl) =>
+  `${control.kind === 'cc' ? 'CC' : 'Note'} ${control.number} · Ch ${control.channel}`;
+
+/**
+ * Binds a control to a target. A control drives one target and a target
+ * listens to one control, so learning again replaces the old mapping.
+ */
+export const bindControl = (bindings: MidiBinding[], control: MidiControl, target: MidiTarget): MidiBinding[] => [
+  ...bindings.filter(b => controlKey(b.control) !== controlKey(control) && targetKey(b.target) !== targetKey(target)),
+  { control, target },
+];
+
+/** Maps 0..127 onto the parameter's range. */
+export const scaleMidiValue = (value: number, param: MidiParam) => {
+  const scaled = param.min + (Math.min(127, Math.max(0, value)) / 127) * (param.max - param.min);
+  if (!param.step) return scaled;
+  const snapped = param.min + Math.round((scaled - param.min) / param.step) * param.step;
+  return Math.min(param.max, Math.max(param.min, snapped));
+};
+
+// CC 當作按鈕時以 64 為門檻，只在越過門檻的那一下觸發
+const TRIGGER_THRESHOLD = 64;
+
+/**
+ * Whether a message presses a button: any note-on, or a CC crossing from
+ * below the half-way point to above it (momentary pads on many controllers
+ * send CC 127/0 instead of notes).
+ */
+export const isTrigger = (message: MidiMessage, previous: number | undefined) => {
+  if (message.kind === 'note') return message.value > 0;
+  return message.value >= TRIGGER_THRESHOLD && (previous === undefined || previous < TRIGGER_THRESHOLD);
+};
+
+const ACTION_IDS = new Set<string>(ACTIONS.map(a => a.id));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIntegerIn = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isControl = (value: unknown): value is MidiControl =>
+  isRecord(value) &&
+  (value.kind === 'cc' || value.kind === 'note') &&
+  isIntegerIn(value.channel, 1, 16) &&
+  isIntegerIn(value.number, 0, 127);
+
+const isTarget = (value: unknown): value is MidiTarget =>
+  isRecord(value) &&
+  ((value.type === 'action' && typeof value.action === 'string' && ACTION_IDS.has(value.action)) ||
+    (value.type === 'param' && typeof value.id === 'string'));
+
+/** Keeps the well-formed bindings of stored data; anything else is dropped. */
+export const sanitizeBindings = (value: unknown): MidiBinding[] =>
+  Array.isArray(value)
+    ? (value as unknown[])
+        .filter((b): b is MidiBinding => isRecord(b) && isControl(b.control) && isTarget(b.target))
+        .map(b => ({ control: b.control, target: b.target }))
+    : [];
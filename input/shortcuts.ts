@@ -0,0 +1,87 @@
+export type ActionId =
+  | 'togglePlay'
+  | 'seekBack'
+  | 'seekForward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'previousTrack'
+  | 'nextTrack'
+  | 'previousScene'
+  | 'nextScene'
+  | 'mixNext'
+  | 'togglePanels'
+  | 'toggleCleanMode'
+  | 'toggleReducedMotion';
+
+export interface ActionDef {
+  id: ActionId;
+  label: string;
+  /** KeyboardEvent.key values, letters in lower case. */
+  keys: string[];
+  /** Keeps firing while the key is held. */
+  repeat?: boolean;
+}
+
+/** Everything a key or a MIDI pad can trigger, in the order the help and MIDI lists show them. */
+export const ACTIONS: ActionDef[] = [
+  { id: 'togglePlay', label: 'Play / Pause', keys: [' ', 'k'] },
+  { id: 'seekBack', label: 'Seek -5s', keys: ['ArrowLeft', 'j'], repeat: true },
+  { id: 'seekForward', label: 'Seek +5s', keys: ['ArrowRight', 'l'], repeat: true },
+  { id: 'volumeUp', label: 'Volume Up', keys: ['ArrowUp'], repeat: true },
+  { id: 'volumeDown', label: 'Volume Down', keys: ['ArrowDown'], repeat: true },
+  { id: 'previousTrack', label: 'Previous Track', keys: ['p'] },
+  { id: 'nextTrack', label: 'Next Track', keys: ['n'] },
+  { id: 'previousScene', label: 'Previous Scene', keys: ['['] },
+  { id: 'nextScene', label: 'Next Scene', keys: [']'] },
+  { id: 'mixNext', label: 'Mix Next Deck', keys: ['x'] },
+  { id: 'togglePanels', label: 'Hide / Show Panels', keys: ['h'] },
+  { id: 'toggleCleanMode', label: 'Clean Full Screen', keys: ['f'] },
+  { id: 'toggleReducedMotion', label: 'Reduced Motion', keys: ['r'] },
+];
+
+export const SEEK_STEP = 5;
+export const VOLUME_STEP = 0.05;
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+};
+
+/** Human-readable keys of an action, e.g. "Space / K", for titles and help. */
+export const describeKeys = (id: ActionId) =>
+  (ACTIONS.find(a => a.id === id)?.keys ?? []).map(key => KEY_NAMES[key] ?? key.toUpperCase()).join(' / ');
+
+/** The same keys in `aria-keyshortcuts` syntax. */
+export const ariaKeys = (id: ActionId) =>
+  (ACTIONS.find(a => a.id === id)?.keys ?? []).map(key => (key === ' ' ? 'Space' : key.toUpperCase())).join(' ');
+
+const TEXT_INPUTS = new Set(['text', 'search', 'email', 'number', 'password', 'url', 'tel']);
+// 聚焦在這些元件上時，空白鍵與方向鍵交給元件本身
+const NATIVE_KEYS = new Set([' ', 'Enter', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown']);
+
+const isNativeTarget = (target: EventTarget | null, key: string) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  if (target instanceof HTMLInputElement) {
+    if (TEXT_INPUTS.has(target.type)) return true;
+    return NATIVE_KEYS.has(key);
+  }
+  return target instanceof HTMLButtonElement && NATIVE_KEYS.has(key);
+};
+
+/**
+ * The action bound to a key press, or null. Presses with Ctrl, Alt or Meta
+ * are left to the browser, and so is typing into text fields or using keys a
+ * focused control already handles (Space on a button, arrows on a slider).
+ */
+export const shortcutFor = (event: KeyboardEvent): ActionId | null => {
+  if (event.ctrlKey || event.altKey || event.metaKey) return null;
+  if (isNativeTarget(event.target, event.key)) return null;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const action = ACTIONS.find(a => a.keys.includes(key));
+  if (!action || (event.repeat && !action.repeat)) return null;
+  return action.id;
+};
@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ActionId } from './shortcuts';
+import {
+  MidiBinding,
+  MidiParam,
+  MidiTarget,
+  bindControl,
+  controlKey,
+  isTrigger,
+  parseMidiMessage,
+  sanitizeBindings,
+  scaleMidiValue,
+  targetKey
+} from './midi';
+
+const STORAGE_KEY = 'cyberpulse.midi';
+
+export type MidiStatus = 'off' | 'unsupported' | 'pending' | 'ready' | 'denied';
+
+const loadBindings = () => {
+  try {
+    return sanitizeBindings(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+  } catch {
+    return [];
+  }
+};
+
+const storeBindings = (bindings: MidiBinding[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (err) {
+    console.warn('Could not save the MIDI mapping', err);
+  }
+};
+
+interface UseMidiOptions {
+  params: MidiParam[];
+  onAction: (action: ActionId) => void;
+  onParam: (id: string, value: number) => void;
+}
+
+/**
+ * Web MIDI input with learn mode. Access is requested on `enable` (browsers
+ * only prompt from a user gesture); after that every connected input is
+ * listened to, including devices plugged in later. While learning, the next
+ * control that moves is bound to the pending target. Bindings are stored
+ * across sessions; bindings to parameters the app does not offer right now
+ * (another scene's) are kept and simply do nothing.
+ */
+export const useMidi = ({ params, onAction, onParam }: UseMidiOptions) => {
+  const [status, setStatus] = useState<MidiStatus>(() =>
+    typeof navigator.requestMIDIAccess === 'function' ? 'off' : 'unsupported'
+  );
+  const [inputs, setInputs] = useState<string[]>([]);
+  const [bindings, setBindings] = useState<MidiBinding[]>(loadBindings);
+  const [learning, setLearning] = useState<MidiTarget | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const accessRef = useRef<MIDIAccess | null>(null);
+  const latest = useRef({ params, onAction, onParam, bindings, learning });
+  latest.current = { params, onAction, onParam, bindings, learning };
+  // 每個控制器上次的數值，用來判斷 CC 是否越過觸發門檻
+  const lastValues = useRef(new Map<string, number>());
+
+  const updateBindings = useCallback((update: (prev: MidiBinding[]) => MidiBinding[]) => {
+    setBindings(prev => {
+      const next = update(prev);
+      storeBindings(next);
+      return next;
+    });
+  }, []);
+
+  const onMessage = useCallback(
+    (event: MIDIMessageEvent) => {
+      const message = parseMidiMessage(event.data);
+      if (!message) return;
+      const key = controlKey(message);
+      const previous = lastValues.current.get(key);
+      lastValues.current.set(key, message.value);
+      const { params, onAction, onParam, bindings, learning } = latest.current;
+
+      if (learning) {
+        // 放開按鍵的 note-off 不算學習
+        if (message.kind === 'note' && message.value === 0) return;
+        const control = { kind: message.kind, channel: message.channel, number: message.number };
+        updateBindings(prev => bindControl(prev, control, learning));
+        setLearning(null);
+        return;
+      }
+
+      const binding = bindings.find(b => controlKey(b.control) === key);
+      if (!binding) return;
+      if (binding.target.type === 'action') {
+        if (isTrigger(message, previous)) onAction(binding.target.action);
+        return;
+      }
+      const { id } = binding.target;
+      const param = params.find(p => p.id === id);
+      if (param) onParam(param.id, scaleMidiValue(message.value, param));
+    },
+    [updateBindings]
+  );
+
+  const attachInputs = useCallback(
+    (access: MIDIAccess) => {
+      const names: string[] = [];
+      access.inputs.forEach(input => {
+        input.onmidimessage = onMessage;
+        names.push(input.name || input.manufacturer || input.id);
+      });
+      setInputs(names);
+    },
+    [onMessage]
+  );
+
+  const enable = useCallback(async () => {
+    if (typeof navigator.requestMIDIAccess !== 'function' || accessRef.current) return;
+    setStatus('pending');
+    setError(null);
+    try {
+      const access = await navigator.requestMIDIAccess();
+      accessRef.current = access;
+      attachInputs(access);
+      access.onstatechange = () => attachInputs(access);
+      setStatus('ready');
+    } catch (err) {
+      setStatus('denied');
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [attachInputs]);
+
+  useEffect(() => {
+    return () => {
+      const access = accessRef.current;
+      if (!access) return;
+      access.onstatechange = null;
+      access.inputs.forEach(input => (input.onmidimessage = null));
+    };
+  }, []);
+
+  return {
+    status,
+    error,
+    inputs,
+    bindings,
+    learning,
+    enable,
+    /** Binds the next control that moves to `target`; calling it again with the same target cancels. */
+    learn: useCallback(
+      (target: MidiTarget | null) =>
+        setLearning(current => (target && current && targetKey(current) === targetKey(target) ? null : target)),
+      []
+    ),
+    unbind: useCallback(
+      (target: MidiTarget) => updateBindings(prev => prev.filter(b => targetKey(b.target) !== targetKey(target))),
+      [updateBindings]
+    ),
+    clear: useCallback(() => updateBindings(() => []), [updateBindings]),
+  };
+};
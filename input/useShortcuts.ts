@@ -0,0 +1,26 @@
+import { useEffect, useRef } from 'react';
+import { ActionId, shortcutFor } from './shortcuts';
+
+export type ActionHandlers = Partial<Record<ActionId, () => void>>;
+
+/**
+ * Global keyboard shortcuts. Handlers are read through a ref, so callers can
+ * pass a fresh object every render without re-binding the listener.
+ */
+export const useShortcuts = (handlers: ActionHandlers, enabled = true) => {
+  const latest = useRef(handlers);
+  latest.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      const action = shortcutFor(event);
+      const handler = action ? latest.current[action] : undefined;
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,128 @@
+export type StoreName = 'tracks' | 'files' | 'session';
+
+const STORES: StoreName[] = ['tracks', 'files', 'session'];
+const DB_NAME = 'cyberpulse';
+const DB_VERSION = 1;
+
+/** Every stored record is keyed by its `id`. */
+export interface StoredRecord {
+  id: string;
+}
+
+export interface StorageEstimate {
+  /** Bytes in use. */
+  usage: number;
+  /** Bytes the browser will let this origin use. */
+  quota: number;
+}
+
+/**
+ * The few object-store operations the library needs. The app uses IndexedDB;
+ * the in-memory backend stands in for it where there is no browser.
+ */
+export interface LibraryBackend {
+  get: <T extends StoredRecord>(store: StoreName, id: string) => Promise<T | undefined>;
+  getAll: <T extends StoredRecord>(store: StoreName) => Promise<T[]>;
+  put: <T extends StoredRecord>(store: StoreName, record: T) => Promise<void>;
+  delete: (store: StoreName, id: string) => Promise<void>;
+  clear: (stores: StoreName[]) => Promise<void>;
+  /** Storage in use and available, or null when the browser does not say. */
+  estimate: () => Promise<StorageEstimate | null>;
+}
+
+/** True for the error a write fails with once the origin is out of storage. */
+export const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.code === 22);
+
+const promised = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// 寫入要等整個交易完成才算數：配額不足是在交易中止時才回報
+const completed = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+const openDatabase = (factory: IDBFactory) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('The library is open in an older tab; close it and reload.'));
+  });
+
+/** IndexedDB backend. The database is opened on first use. */
+export const createIdbBackend = (factory: IDBFactory = indexedDB): LibraryBackend => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => (db ??= openDatabase(factory));
+
+  const write = async (stores: StoreName[], run: (tx: IDBTransaction) => void) => {
+    const tx = (await open()).transaction(stores, 'readwrite');
+    const done = completed(tx);
+    run(tx);
+    await done;
+  };
+
+  return {
+    get: async <T extends StoredRecord>(store: StoreName, id: string) =>
+      promised<T | undefined>((await open()).transaction(store).objectStore(store).get(id)),
+    getAll: async <T extends StoredRecord>(store: StoreName) =>
+      promised<T[]>((await open()).transaction(store).objectStore(store).getAll()),
+    put: (store, record) => write([store], tx => tx.objectStore(store).put(record)),
+    delete: (store, id) => write([store], tx => tx.objectStore(store).delete(id)),
+    clear: stores => write(stores, tx => stores.forEach(store => tx.objectStore(store).clear())),
+    estimate: async () => {
+      const estimate = await navigator.storage?.estimate?.();
+      return estimate?.quota ? { usage: estimate.usage ?? 0, quota: estimate.quota } : null;
+    },
+  };
+};
+
+// 記憶體後端只計算檔案大小，足以模擬配額
+const recordSize = (record: unknown) =>
+  Object.values(record as Record<string, unknown>).reduce<number>(
+    (sum, value) => sum + (value instanceof Blob ? value.size : 0),
+    0
+  );
+
+/**
+ * Keeps everything in maps. With a `quota` (in bytes of stored files) writes
+ * past it fail the way IndexedDB does, so quota handling can be exercised too.
+ */
+export const createMemoryBackend = (quota: number | null = null): LibraryBackend => {
+  const stores = new Map<StoreName, Map<string, StoredRecord>>(STORES.map(name => [name, new Map()]));
+
+  const usage = () => {
+    let total = 0;
+    stores.forEach(store => store.forEach(record => (total += recordSize(record))));
+    return total;
+  };
+
+  return {
+    get: async <T extends StoredRecord>(store: StoreName, id: string) => stores.get(store)!.get(id) as T | undefined,
+    getAll: async <T extends StoredRecord>(store: StoreName) => [...stores.get(store)!.values()] as T[],
+    put: async (store, record) => {
+      const previous = stores.get(store)!.get(record.id);
+      if (quota !== null && usage() - recordSize(previous ?? {}) + recordSize(record) > quota) {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      }
+      stores.get(store)!.set(record.id, { ...record });
+    },
+    delete: async (store, id) => {
+      stores.get(store)!.delete(id);
+    },
+    clear: async names => names.forEach(name => stores.get(name)!.clear()),
+    estimate: async () => (quota === null ? null : { usage: usage(), quota }),
+  };
+};
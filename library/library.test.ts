@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryBackend } from './backend';
+import { LibraryError, LibraryTrack, createLibrary, resumePosition, searchTracks, sortTracks } from './library';
+
+const audioFile = (name: string, size = 100) => new File([new Uint8Array(size)], name, { type: 'audio/mpeg' });
+
+/** A clock that ticks once per call, so records get distinct times. */
+const ticking = () => {
+  let time = 1000;
+  return () => time++;
+};
+
+const track = (values: Partial<LibraryTrack>): LibraryTrack => ({
+  id: values.fileName ?? 'x',
+  fileName: 'x.mp3',
+  size: 1,
+  metadata: {},
+  duration: null,
+  addedAt: 0,
+  lastPlayedAt: null,
+  playCount: 0,
+  position: 0,
+  ...values,
+});
+
+describe('memory backend', () => {
+  it('stores copies keyed by id', async () => {
+    const backend = createMemoryBackend();
+    const record = { id: 'a', value: 1 };
+    await backend.put('session', record);
+    record.value = 2;
+    expect(await backend.get('session', 'a')).toEqual({ id: 'a', value: 1 });
+    await backend.delete('session', 'a');
+    expect(await backend.getAll('session')).toEqual([]);
+  });
+
+  it('fails writes past the quota like IndexedDB does', async () => {
+    const backend = createMemoryBackend(150);
+    await backend.put('files', { id: 'a', file: audioFile('a', 100) });
+    await expect(backend.put('files', { id: 'b', file: audioFile('b', 100) })).rejects.toMatchObject({
+      name: 'QuotaExceededError',
+    });
+    // 覆寫同一筆只算差額
+    await backend.put('files', { id: 'a', file: audioFile('a', 140) });
+    expect(await backend.estimate()).toEqual({ usage: 140, quota: 150 });
+  });
+
+  it('clears only the named stores', async () => {
+    const backend = createMemoryBackend();
+    await backend.put('tracks', { id: 't' });
+    await backend.put('session', { id: 'last' });
+    await backend.clear(['tracks']);
+    expect(await backend.getAll('tracks')).toEqual([]);
+    expect(await backend.get('session', 'last')).toEqual({ id: 'last' });
+  });
+});
+
+describe('library', () => {
+  it('imports new files once, with their records and audio', async () => {
+    const library = createLibrary(createMemoryBackend(), ticking());
+    const added = await library.importFiles([audioFile('one.mp3'), audioFile('two.mp3'), audioFile('one.mp3')]);
+    expect(added.map(t => t.id)).toEqual(['one.mp3:100', 'two.mp3:100']);
+    expect(await library.importFiles([audioFile('two.mp3')])).toEqual([]);
+    expect((await library.file('one.mp3:100'))?.name).toBe('one.mp3');
+    expect(await library.tracks()).toHaveLength(2);
+  });
+
+  it('stops at the first file that does not fit and keeps the ones before it', async () => {
+    const library = createLibrary(createMemoryBackend(250), ticking());
+    const importing = library.importFiles([audioFile('a.mp3'), audioFile('b.mp3'), audioFile('c.mp3'), audioFile('d.mp3')]);
+    await expect(importing).rejects.toBeInstanceOf(LibraryError);
+    await expect(importing).rejects.toThrow(/2 file\(s\) starting with "c.mp3"/);
+    expect((await library.tracks()).map(t => t.fileName)).toEqual(['a.mp3', 'b.mp3']);
+    expect(await library.file('c.mp3:100')).toBeNull();
+  });
+
+  it('does not lose concurrent updates to the same track', async () => {
+    const library = createLibrary(createMemoryBackend(), ticking());
+    const [added] = await library.importFiles([audioFile('song.mp3')]);
+    await Promise.all([
+      library.notePlayed(added.id),
+      library.savePosition(added.id, 42),
+      library.notePlayed(added.id),
+      library.noteDuration(added.id, 180),
+      library.notePlayed(added.id),
+    ]);
+    expect(await library.track(added.id)).toMatchObject({ playCount: 3, position: 42, duration: 180 });
+  });
+
+  it('keeps updating a track after an update fails', async () => {
+    const backend = createMemoryBackend();
+    const library = createLibrary(backend, ticking());
+    const [added] = await library.importFiles([audioFile('song.mp3')]);
+    const put = backend.put;
+    backend.put = async () => {
+      throw new Error('disk on fire');
+    };
+    await expect(library.notePlayed(added.id)).rejects.toThrow('disk on fire');
+    backend.put = put;
+    await library.notePlayed(added.id);
+    expect((await library.track(added.id))?.playCount).toBe(1);
+  });
+
+  it('ignores updates to removed tracks', async () => {
+    const library = createLibrary(createMemoryBackend(), ticking());
+    const [added] = await library.importFiles([audioFile('gone.mp3')]);
+    await library.remove(added.id);
+    await library.notePlayed(added.id);
+    expect(await library.track(added.id)).toBeUndefined();
+    expect(await library.file(added.id)).toBeNull();
+  });
+
+  it('forgets the last session when cleared', async () => {
+    const library = createLibrary(createMemoryBackend(), ticking());
+    await library.importFiles([audioFile('a.mp3')]);
+    await library.saveSession({ queue: ['a.mp3:100'], currentId: 'a.mp3:100', position: 12, volume: 0.5, preset: null });
+    expect((await library.lastSession())?.position).toBe(12);
+    await library.clear();
+    expect(await library.lastSession()).toBeUndefined();
+    expect(await library.tracks()).toEqual([]);
+  });
+});
+
+describe('track helpers', () => {
+  const tracks = [
+    track({ id: '1', fileName: 'b-side.mp3', metadata: { title: 'Zebra', artist: 'Alpha' }, addedAt: 1, playCount: 5 }),
+    track({ id: '2', fileName: 'track 10.mp3', addedAt: 3, lastPlayedAt: 50 }),
+    track({ id: '3', fileName: 'track 2.mp3', metadata: { artist: 'Beta', album: 'Night Drive' }, addedAt: 2, lastPlayedAt: 90 }),
+  ];
+
+  it('matches every word of the query', () => {
+    expect(searchTracks(tracks, 'night beta').map(t => t.id)).toEqual(['3']);
+    expect(searchTracks(tracks, 'ZEB').map(t => t.id)).toEqual(['1']);
+    expect(searchTracks(tracks, '  ')).toBe(tracks);
+  });
+
+  it('sorts titles naturally and untagged artists last', () => {
+    expect(sortTracks(tracks, 'title').map(t => t.id)).toEqual(['3', '2', '1']);
+    expect(sortTracks(tracks, 'artist').map(t => t.id)).toEqual(['1', '3', '2']);
+    expect(sortTracks(tracks, 'added').map(t => t.id)).toEqual(['2', '3', '1']);
+    expect(sortTracks(tracks, 'played').map(t => t.id)).toEqual(['3', '2', '1']);
+    expect(sortTracks(tracks, 'plays')[0].id).toBe('1');
+  });
+
+  it('resumes only from the middle of a track', () => {
+    expect(resumePosition(track({ position: 3 }))).toBe(0);
+    expect(resumePosition(track({ position: 60, duration: 200 }))).toBe(60);
+    expect(resumePosition(track({ position: 195, duration: 200 }))).toBe(0);
+    expect(resumePosition(track({ position: 60 }))).toBe(60);
+  });
+});
@@ -0,0 +1,227 @@
+import { TrackMetadata } from '../types';
+import { parseTags } from '../tags';
+import { fxTrackKey } from '../audio/useAudioFx';
+import { LibraryBackend, StorageEstimate, isQuotaError } from './backend';
+
+/** Thrown when an import does not (fully) fit in the browser's storage. */
+export class LibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryError';
+  }
+}
+
+export interface LibraryTrack {
+  /** `name:size` of the file, the same key the per-track audio effects are saved under. */
+  id: string;
+  fileName: string;
+  size: number;
+  /** Tags without the cover, so listing the library stays light. */
+  metadata: Omit<TrackMetadata, 'cover'>;
+  /** Seconds; known once the track has been played. */
+  duration: number | null;
+  addedAt: number;
+  lastPlayedAt: number | null;
+  playCount: number;
+  /** Where playback was last, in seconds. */
+  position: number;
+}
+
+interface StoredFile {
+  id: string;
+  file: File;
+}
+
+/** What is brought back on startup: the queue, where it was, and the visuals. */
+export interface LastSession {
+  id: 'last';
+  /** Track ids in queue order. */
+  queue: string[];
+  currentId: string | null;
+  position: number;
+  volume: number;
+  /** Preset document as saved; validated again on restore. */
+  preset: unknown;
+  savedAt: number;
+}
+
+export type LibrarySort = 'added' | 'title' | 'artist' | 'played' | 'plays';
+
+export const LIBRARY_SORTS: { id: LibrarySort; label: string }[] = [
+  { id: 'added', label: 'Recently Added' },
+  { id: 'title', label: 'Title' },
+  { id: 'artist', label: 'Artist' },
+  { id: 'played', label: 'Recently Played' },
+  { id: 'plays', label: 'Most Played' },
+];
+
+// 寫入前保留的配額比例，估計值並不精確
+const QUOTA_HEADROOM = 0.9;
+// 開頭幾秒或只剩結尾時不值得續播
+const RESUME_MIN = 5;
+const RESUME_TAIL = 10;
+
+export const trackTitle = (track: LibraryTrack) => track.metadata.title || track.fileName.replace(/\.[^.]+$/, '');
+
+/** Tracks matching every word of the query in their title, artist, album or file name. */
+export const searchTracks = (tracks: LibraryTrack[], query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return tracks;
+  return tracks.filter(track => {
+    const text = [trackTitle(track), track.metadata.artist, track.metadata.album, track.fileName]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
+
+const compareText = (a: string | undefined, b: string | undefined) => {
+  // 沒有標籤的排在最後
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+export const sortTracks = (tracks: LibraryTrack[], sort: LibrarySort) => {
+  const sorted = [...tracks];
+  switch (sort) {
+    case 'title':
+      return sorted.sort((a, b) => compareText(trackTitle(a), trackTitle(b)));
+    case 'artist':
+      return sorted.sort(
+        (a, b) => compareText(a.metadata.artist, b.metadata.artist) || compareText(trackTitle(a), trackTitle(b))
+      );
+    case 'played':
+      return sorted.sort((a, b) => (b.lastPlayedAt ?? 0) - (a.lastPlayedAt ?? 0) || b.addedAt - a.addedAt);
+    case 'plays':
+      return sorted.sort((a, b) => b.playCount - a.playCount || (b.lastPlayedAt ?? 0) - (a.lastPlayedAt ?? 0));
+    default:
+      return sorted.sort((a, b) => b.addedAt - a.addedAt);
+  }
+};
+
+/** Where to pick the track up again, or 0 to start from the top. */
+export const resumePosition = (track: LibraryTrack) => {
+  if (track.position < RESUME_MIN) return 0;
+  if (track.duration !== null && track.position > track.duration - RESUME_TAIL) return 0;
+  return track.position;
+};
+
+/** Whether `bytes` more still fit, leaving some headroom. Unknown quotas are assumed to fit. */
+export const fitsQuota = (estimate: StorageEstimate | null, bytes: number) =>
+  !estimate || estimate.usage + bytes <= estimate.quota * QUOTA_HEADROOM;
+
+const readMetadata = async (file: File): Promise<LibraryTrack['metadata']> => {
+  try {
+    const { cover, ...tags } = parseTags(new Uint8Array(await file.arrayBuffer()));
+    return tags;
+  } catch (err) {
+    console.warn(`Could not read tags from ${file.name}`, err);
+    return {};
+  }
+};
+
+/**
+ * Imported audio files with their tags and play history, plus the last
+ * session. Files and track records live in separate stores so listing the
+ * library never loads audio.
+ */
+export const createLibrary = (backend: LibraryBackend, now: () => number = Date.now) => {
+  // 同一首曲目的讀改寫依序執行，避免並行的更新互相覆蓋
+  const pending = new Map<string, Promise<void>>();
+
+  const update = (id: string, change: (track: LibraryTrack) => Partial<LibraryTrack> | null) => {
+    const run = (pending.get(id) ?? Promise.resolve()).then(async () => {
+      const track = await backend.get<LibraryTrack>('tracks', id);
+      const values = track && change(track);
+      if (values) await backend.put('tracks', { ...track, ...values });
+    });
+    // 前一次失敗不影響下一次更新
+    const settled = run.catch(() => {});
+    pending.set(id, settled);
+    settled.then(() => {
+      if (pending.get(id) === settled) pending.delete(id);
+    });
+    return run;
+  };
+
+  return {
+    tracks: () => backend.getAll<LibraryTrack>('tracks'),
+    estimate: () => backend.estimate(),
+
+    /**
+     * Stores the files that are not in the library yet and returns their
+     * records. Stops at the first file that does not fit and throws a
+     * LibraryError once the ones before it are stored.
+     */
+    importFiles: async (files: File[]) => {
+      const known = new Set((await backend.getAll<LibraryTrack>('tracks')).map(t => t.id));
+      const added: LibraryTrack[] = [];
+      const fresh = files.filter(file => {
+        const id = fxTrackKey(file);
+        if (known.has(id)) return false;
+        known.add(id);
+        return true;
+      });
+
+      for (let i = 0; i < fresh.length; i++) {
+        const file = fresh[i];
+        const full = () =>
+          new LibraryError(
+            `Library storage is full: ${fresh.length - i} file(s) starting with "${file.name}" were not saved. ` +
+              'They still play this session; remove tracks or clear the library to make room.'
+          );
+        if (!fitsQuota(await backend.estimate(), file.size)) throw full();
+
+        const track: LibraryTrack = {
+          id: fxTrackKey(file),
+          fileName: file.name,
+          size: file.size,
+          metadata: await readMetadata(file),
+          duration: null,
+          addedAt: now() + i,
+          lastPlayedAt: null,
+          playCount: 0,
+          position: 0,
+        };
+        try {
+          // 先存檔案：只有檔案存成功的曲目才會出現在清單裡
+          await backend.put<StoredFile>('files', { id: track.id, file });
+          await backend.put('tracks', track);
+        } catch (err) {
+          await backend.delete('files', track.id).catch(() => {});
+          throw isQuotaError(err) ? full() : err;
+        }
+        added.push(track);
+      }
+      return added;
+    },
+
+    track: (id: string) => backend.get<LibraryTrack>('tracks', id),
+
+    file: async (id: string) => (await backend.get<StoredFile>('files', id))?.file ?? null,
+
+    remove: async (id: string) => {
+      await backend.delete('tracks', id);
+      await backend.delete('files', id);
+    },
+
+    /** Empties the library, including the last session that refers to it. */
+    clear: () => backend.clear(['tracks', 'files', 'session']),
+
+    notePlayed: (id: string) => update(id, track => ({ playCount: track.playCount + 1, lastPlayedAt: now() })),
+
+    noteDuration: (id: string, duration: number) =>
+      update(id, track => (track.duration === duration ? null : { duration })),
+
+    savePosition: (id: string, position: number) =>
+      update(id, track => (track.position === position ? null : { position })),
+
+    lastSession: () => backend.get<LastSession>('session', 'last'),
+
+    saveSession: (session: Omit<LastSession, 'id' | 'savedAt'>) =>
+      backend.put<LastSession>('session', { ...session, id: 'last', savedAt: now() }),
+  };
+};
+
+export type Library = ReturnType<typeof createLibrary>;
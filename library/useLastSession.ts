@@ -0,0 +1,96 @@
+import { useEffect, useRef } from 'react';
+import { Preset, parsePreset } from '../presets';
+import { LastSession, Library } from './library';
+
+export type SessionSnapshot = Omit<LastSession, 'id' | 'savedAt'>;
+
+export interface RestoredSession {
+  /** Queued files still in the library, in queue order, with their track ids. */
+  queue: Array<{ id: string; file: File }>;
+  currentId: string | null;
+  position: number;
+  volume: number;
+  /** Null when there was none or it no longer loads. */
+  preset: Preset | null;
+}
+
+// 定期寫入的間隔；關閉或切到背景時另外立即寫入
+const SAVE_INTERVAL_MS = 5000;
+
+const readLastSession = async (library: Library): Promise<RestoredSession | null> => {
+  const session = await library.lastSession();
+  if (!session) return null;
+
+  const files = await Promise.all(session.queue.map(id => library.file(id)));
+  const queue = session.queue.flatMap((id, i) => (files[i] ? [{ id, file: files[i] }] : []));
+
+  let preset: Preset | null = null;
+  if (session.preset) {
+    try {
+      preset = parsePreset(JSON.stringify(session.preset));
+    } catch (err) {
+      console.warn('Skipping the saved visuals that no longer load', err);
+    }
+  }
+  return { queue, currentId: session.currentId, position: session.position, volume: session.volume, preset };
+};
+
+/**
+ * Restores the last session once on startup, then keeps it saved: every few
+ * seconds when something changed and whenever the page is hidden or closed.
+ * The current track's position is saved with it. Nothing is written before
+ * the restore has run, so an empty startup never overwrites the saved session.
+ */
+export const useLastSession = (
+  library: Library,
+  snapshot: SessionSnapshot,
+  onRestore: (session: RestoredSession) => void
+) => {
+  const latest = useRef(snapshot);
+  latest.current = snapshot;
+  const restore = useRef(onRestore);
+  restore.current = onRestore;
+  const ready = useRef(false);
+  const saved = useRef('');
+
+  useEffect(() => {
+    let cancelled = false;
+    readLastSession(library)
+      .then(session => {
+        if (!cancelled && session) restore.current(session);
+      })
+      .catch(err => console.warn('Could not restore the last session', err))
+      .finally(() => {
+        if (!cancelled) ready.current = true;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [library]);
+
+  useEffect(() => {
+    const flush = () => {
+      if (!ready.current) return;
+      const session = latest.current;
+      const json = JSON.stringify(session);
+      if (json === saved.current) return;
+      saved.current = json;
+      library.saveSession(session).catch(err => console.warn('Could not save the session', err));
+      if (session.currentId) {
+        library.savePosition(session.currentId, session.position).catch(err => console.warn('Could not save the position', err));
+      }
+    };
+    const onVisibility = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    const timer = window.setInterval(flush, SAVE_INTERVAL_MS);
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', onVisibility);
+    };
+  }, [library]);
+};
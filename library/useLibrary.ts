@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from 'react';
+import { StorageEstimate } from './backend';
+import { Library, LibraryTrack } from './library';
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/** Library contents and storage use for the panel, refreshed after every change made through it. */
+export const useLibrary = (library: Library) => {
+  const [tracks, setTracks] = useState<LibraryTrack[]>([]);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTracks(await library.tracks());
+      setStorage(await library.estimate());
+    } catch (err) {
+      setError(`Library unavailable: ${errorMessage(err)}`);
+    }
+  }, [library]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // 寫入失敗時顯示錯誤，並重新整理以反映實際存下的內容
+  const run = useCallback(
+    async (task: () => Promise<unknown>) => {
+      try {
+        await task();
+      } catch (err) {
+        setError(errorMessage(err));
+      }
+      await refresh();
+    },
+    [refresh]
+  );
+
+  return {
+    tracks,
+    storage,
+    importing,
+    error,
+    refresh,
+    importFiles: useCallback(
+      async (files: File[]) => {
+        if (files.length === 0) return;
+        setImporting(true);
+        // 申請持久儲存，避免瀏覽器在空間不足時清掉資料庫
+        navigator.storage?.persist?.().catch(() => {});
+        await run(() => library.importFiles(files));
+        setImporting(false);
+      },
+      [library, run]
+    ),
+    remove: useCallback((id: string) => run(() => library.remove(id)), [library, run]),
+    clear: useCallback(() => run(() => library.clear()), [library, run]),
+    dismissError: useCallback(() => setError(null), []),
+  };
+};
@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { useAudioData, useBeat } from '../audio/AudioDataContext';
+import { Playhead } from '../audio/playhead';
+import { Group } from '../scenes/elements';
+import { Lyrics, lyricPosition } from './lrc';
+
+interface LyricsTextProps {
+  lyrics: Lyrics;
+  playhead: Playhead;
+  /** Reduced motion: no beat bounce or glow pulse. */
+  calm?: boolean;
+}
+
+/** The troika text mesh fields used here. */
+interface TroikaText extends THREE.Mesh {
+  text: string;
+  clipRect: [number, number, number, number] | null;
+  outlineBlur: number;
+  outlineOpacity: number;
+  textRenderInfo: { blockBounds: number[]; caretPositions: Float32Array | null } | null;
+}
+
+// 歌詞懸在場景中央上方，永遠面向鏡頭
+const ANCHOR = new THREE.Vector3(0, 7, 0);
+const FONT_SIZE = 1.2;
+// 超過此寬度的行整體縮小，保持單行好讓刷色的位置計算簡單
+const MAX_WIDTH = 24;
+const BOUNCE = 0.35;
+const PULSE_DECAY = 6;
+const CLIP_PAD = 1;
+
+/** X of the sung point: `sung` characters in, interpolated inside the current glyph. */
+const caretX = (info: NonNullable<TroikaText['textRenderInfo']>, sung: number, length: number) => {
+  const carets = info.caretPositions;
+  if (!carets || sung >= length) return info.blockBounds[2] + CLIP_PAD;
+  const index = Math.floor(sung);
+  const start = carets[index * 4];
+  return start + (carets[index * 4 + 1] - start) * (sung - index);
+};
+
+/**
+ * The current lyric line as 3D text. A dim copy shows the whole line and a
+ * bright copy on top is clipped up to the sung point, so words light up as
+ * they are sung. Beats bounce the line and flare its glow; bass keeps the
+ * glow breathing in between.
+ */
+const LyricsText: React.FC<LyricsTextProps> = ({ lyrics, playhead, calm = false }) => {
+  const camera = useThree(state => state.camera);
+  const audio = useAudioData();
+  const group = useRef<THREE.Group>(null);
+  const lit = useRef<TroikaText>(null);
+  // 字型排版在 worker 完成前，caret 位置仍屬於上一行
+  const syncedText = useRef('');
+  const pulse = useRef(0);
+  const [lineIndex, setLineIndex] = useState(-1);
+
+  const line = lyrics.lines[lineIndex] ?? null;
+
+  useBeat(beat => {
+    pulse.current = Math.max(pulse.current, 0.4 + 0.6 * beat.strength);
+  });
+
+  useFrame((_, delta) => {
+    const position = lyricPosition(lyrics, playhead.now());
+    if (position.line !== lineIndex) setLineIndex(position.line);
+
+    pulse.current *= Math.exp(-delta * PULSE_DECAY);
+    const p = calm ? 0 : pulse.current;
+    const text = lit.current;
+    const info = text?.textRenderInfo;
+
+    if (group.current) {
+      group.current.quaternion.copy(camera.quaternion);
+      group.current.position.copy(ANCHOR).y += p * BOUNCE;
+      const width = info ? info.blockBounds[2] - info.blockBounds[0] : 0;
+      group.current.scale.setScalar((width > MAX_WIDTH ? MAX_WIDTH / width : 1) * (1 + p * 0.06));
+    }
+
+    if (text && info) {
+      const ready = line !== null && syncedText.current === line.text && position.line === lineIndex;
+      const [minX, minY, , maxY] = info.blockBounds;
+      const x = ready ? caretX(info, position.sung, line.text.length) : minX - CLIP_PAD;
+      text.clipRect = [minX - CLIP_PAD, minY - CLIP_PAD, x, maxY + CLIP_PAD];
+      const glow = calm ? 0.3 : 0.3 + 0.4 * audio.current.bassIntensity + 0.3 * p;
+      text.outlineBlur = FONT_SIZE * (0.1 + 0.25 * glow);
+      text.outlineOpacity = Math.min(1, glow);
+    }
+  });
+
+  return (
+    <Group ref={group} visible={line !== null}>
+      <Text fontSize={FONT_SIZE} anchorX="center" anchorY="middle" whiteSpace="nowrap" color="#ffffff" fillOpacity={0.25}>
+        {line?.text ?? ''}
+      </Text>
+      <Text
+        ref={lit}
+        fontSize={FONT_SIZE}
+        anchorX="center"
+        anchorY="middle"
+        whiteSpace="nowrap"
+        color="#67e8f9"
+        outlineColor="#06b6d4"
+        outlineWidth={0}
+        outlineBlur={FONT_SIZE * 0.2}
+        outlineOpacity={0.6}
+        position={[0, 0, 0.01]}
+        onSync={(troika: TroikaText) => {
+          syncedText.current = troika.text;
+        }}
+      >
+        {line?.text ?? ''}
+      </Text>
+    </Group>
+  );
+};
+
+export default LyricsText;
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { formatLrcTime, lyricPosition, lyricsFromTags, parseLrc, serializeLrc, shiftLine, withOffset } from './lrc';
+
+const SONG = `[ti:Night Drive]
+[ar:Neon Arcade]
+[offset:+250]
+[00:12.00]First line
+[00:15.50][01:15.50]Chorus comes back
+not a lyric line
+[00:20.00]<00:20.00>Word <00:20.50>by <00:21.25>word<00:22.00>
+[00:30.125]Millisecond stamp
+`;
+
+describe('formatLrcTime', () => {
+  it('writes centiseconds, or milliseconds when needed', () => {
+    expect(formatLrcTime(0)).toBe('00:00.00');
+    expect(formatLrcTime(75.5)).toBe('01:15.50');
+    expect(formatLrcTime(30.125)).toBe('00:30.125');
+    expect(formatLrcTime(3599.99)).toBe('59:59.99');
+    expect(formatLrcTime(-3)).toBe('00:00.00');
+  });
+});
+
+describe('parseLrc', () => {
+  const lyrics = parseLrc(SONG);
+
+  it('reads ID tags and the offset', () => {
+    expect(lyrics.tags).toEqual([
+      ['ti', 'Night Drive'],
+      ['ar', 'Neon Arcade'],
+    ]);
+    expect(lyrics.offset).toBe(250);
+  });
+
+  it('repeats lines with several stamps and sorts by time', () => {
+    expect(lyrics.lines.map(l => [l.time, l.text])).toEqual([
+      [12, 'First line'],
+      [15.5, 'Chorus comes back'],
+      [20, 'Word by word'],
+      [30.125, 'Millisecond stamp'],
+      [75.5, 'Chorus comes back'],
+    ]);
+  });
+
+  it('reads enhanced word stamps and the closing stamp', () => {
+    const line = lyrics.lines[2];
+    expect(line.words).toEqual([
+      { time: 20, text: 'Word ' },
+      { time: 20.5, text: 'by ' },
+      { time: 21.25, text: 'word' },
+    ]);
+    expect(line.end).toBe(22);
+  });
+
+  it('accepts single-digit seconds, colon fractions and CRLF', () => {
+    const { lines } = parseLrc('[1:5:30]One\r\n[02:07]Two');
+    expect(lines.map(l => l.time)).toEqual([65.3, 127]);
+  });
+
+  it('shifts word stamps along with repeated line stamps', () => {
+    const { lines } = parseLrc('[00:10.00][00:40.00]<00:10.00>Hey <00:11.00>you');
+    expect(lines[1].words!.map(w => w.time)).toEqual([40, 41]);
+  });
+});
+
+describe('serializeLrc', () => {
+  it('round-trips parsed lyrics', () => {
+    const lyrics = parseLrc(SONG);
+    const written = serializeLrc(lyrics);
+    expect(parseLrc(written)).toEqual(lyrics);
+    expect(serializeLrc(parseLrc(written))).toBe(written);
+  });
+
+  it('writes negative offsets and omits a zero one', () => {
+    const lyrics = parseLrc('[00:01.00]Hi');
+    expect(serializeLrc(lyrics)).toBe('[00:01.00]Hi\n');
+    expect(serializeLrc(withOffset(lyrics, -120.4))).toBe('[offset:-120]\n[00:01.00]Hi\n');
+  });
+
+  it('round-trips edited lyrics', () => {
+    const edited = shiftLine(withOffset(parseLrc(SONG), 100), 2, 0.333);
+    expect(parseLrc(serializeLrc(edited))).toEqual(edited);
+  });
+});
+
+describe('shiftLine', () => {
+  it('moves the line and its words and keeps lines sorted', () => {
+    const lyrics = parseLrc(SONG);
+    const moved = shiftLine(lyrics, 2, 20);
+    expect(moved.lines.map(l => l.time)).toEqual([12, 15.5, 30.125, 40, 75.5]);
+    expect(moved.lines[3].words!.map(w => w.time)).toEqual([40, 40.5, 41.25]);
+    expect(moved.lines[3].end).toBe(42);
+  });
+
+  it('does not move a line before zero', () => {
+    expect(shiftLine(parseLrc('[00:02.00]Early'), 0, -5).lines[0].time).toBe(0);
+  });
+});
+
+describe('lyricPosition', () => {
+  const lyrics = withOffset(parseLrc(SONG), 0);
+
+  it('shows nothing before the first line', () => {
+    expect(lyricPosition(lyrics, 5)).toEqual({ line: -1, word: -1, sung: 0 });
+  });
+
+  it('shows a whole line without word stamps as sung', () => {
+    expect(lyricPosition(lyrics, 13)).toEqual({ line: 0, word: -1, sung: 'First line'.length });
+  });
+
+  it('follows the word being sung', () => {
+    expect(lyricPosition(lyrics, 20.25)).toEqual({ line: 2, word: 0, sung: 'Word '.length / 2 });
+    expect(lyricPosition(lyrics, 21.625)).toEqual({ line: 2, word: 2, sung: 'Word by '.length + 2 });
+  });
+
+  it('hides a closed line after it lingers', () => {
+    expect(lyricPosition(lyrics, 24).line).toBe(2);
+    expect(lyricPosition(lyrics, 26).line).toBe(-1);
+  });
+
+  it('applies the offset', () => {
+    expect(lyricPosition(withOffset(lyrics, 1000), 11).line).toBe(0);
+  });
+});
+
+describe('lyricsFromTags', () => {
+  it('groups SYLT entries into lines at line breaks', () => {
+    const lyrics = lyricsFromTags({
+      syncedLyrics: [
+        { time: 1, text: 'Hello ' },
+        { time: 1.5, text: 'there' },
+        { time: 3, text: '\nNew ' },
+        { time: 3.5, text: 'line' },
+      ],
+    });
+    expect(lyrics!.lines.map(l => [l.time, l.text])).toEqual([
+      [1, 'Hello there'],
+      [3, 'New line'],
+    ]);
+  });
+
+  it('falls back to LRC in the lyrics tag, and to nothing for plain text', () => {
+    expect(lyricsFromTags({ lyrics: '[00:01.00]Tagged' })!.lines[0].text).toBe('Tagged');
+    expect(lyricsFromTags({ lyrics: 'Just words' })).toBeNull();
+    expect(lyricsFromTags(null)).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+import { TimedText, TrackMetadata } from '../types';
+
+export interface LyricWord {
+  /** Seconds, before the offset is applied. */
+  time: number;
+  text: string;
+}
+
+export interface LyricLine {
+  /** Seconds, before the offset is applied. */
+  time: number;
+  text: string;
+  /** Word timings from enhanced LRC (`<mm:ss.xx>`), or null when only the line is timed. */
+  words: LyricWord[] | null;
+  /** When the last word ends, if an enhanced line closes with a bare timestamp. */
+  end: number | null;
+}
+
+export interface Lyrics {
+  /** ID tags other than the offset ([ti:], [ar:], [by:] …) in file order. */
+  tags: Array<[string, string]>;
+  /** The [offset:] tag in milliseconds; positive shows the lyrics earlier. */
+  offset: number;
+  /** Sorted by time. */
+  lines: LyricLine[];
+}
+
+/** Where playback is in the lyrics. */
+export interface LyricPosition {
+  /** Index of the line to show, or -1 before the first line and in long gaps. */
+  line: number;
+  /** Index of the word being sung, or -1. */
+  word: number;
+  /** How many characters of the line's text are sung, fractional while a word is being sung. */
+  sung: number;
+}
+
+const TIME = '(\\d+):(\\d{1,2})(?:[.:](\\d{1,3}))?';
+const LINE_TIME = new RegExp(`^\\[${TIME}\\]`);
+const WORD_TIME = new RegExp(`^<${TIME}>$`);
+const WORD_SPLIT = /(<\d+:\d{1,2}(?:[.:]\d{1,3})?>)/;
+const ID_TAG = /^\[([a-zA-Z#]+):(.*)\]$/;
+// 已知結尾的行唱完後多久隱藏，避免長間奏時停留在畫面上
+const LINE_LINGER = 3;
+// 無法得知下一個時間點時，最後一個字的預設長度
+const LAST_WORD_LENGTH = 1;
+
+export const isLrcFile = (file: File) => /\.lrc$/i.test(file.name);
+
+const toSeconds = (match: RegExpExecArray) =>
+  parseInt(match[1], 10) * 60 + parseInt(match[2], 10) + (match[3] ? parseFloat(`0.${match[3]}`) : 0);
+
+/** mm:ss.xx, or mm:ss.xxx when the time is not a whole number of centiseconds. */
+export const formatLrcTime = (seconds: number) => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const minutes = Math.floor(ms / 60000);
+  const rest = ms - minutes * 60000;
+  const secs = Math.floor(rest / 1000).toString().padStart(2, '0');
+  const fraction = rest % 1000;
+  const digits = fraction % 10 === 0 ? (fraction / 10).toString().padStart(2, '0') : fraction.toString().padStart(3, '0');
+  return `${minutes.toString().padStart(2, '0')}:${secs}.${digits}`;
+};
+
+const lineText = (words: LyricWord[]) => words.map(w => w.text).join('');
+
+// 行首行尾的空白不算進字裡，讓字的字元位置與行文字一致
+const trimWords = (words: LyricWord[]) => {
+  words[0].text = words[0].text.trimStart();
+  words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+  return words;
+};
+
+/** Splits an enhanced line body into timed words; text before the first stamp starts at the line time. */
+const parseWords = (body: string, lineTime: number) => {
+  const parts = body.split(WORD_SPLIT);
+  if (parts.length === 1) return { text: body.trim(), words: null, end: null };
+
+  const words: LyricWord[] = [];
+  let pending: number | null = null;
+  for (const part of parts) {
+    const stamp = WORD_TIME.exec(part);
+    if (stamp) {
+      pending = toSeconds(stamp);
+    } else if (part && /\S/.test(part)) {
+      words.push({ time: pending ?? lineTime, text: part });
+      pending = null;
+    } else if (part && words.length) {
+      // 只有空白的片段併入前一個字
+      words[words.length - 1].text += part;
+    }
+  }
+  if (words.length === 0) return { text: '', words: null, end: null };
+  return { text: lineText(trimWords(words)), words, end: pending };
+};
+
+/**
+ * Parses LRC: `[mm:ss.xx]` line stamps (several per line repeat it), enhanced
+ * `<mm:ss.xx>` word stamps, `[offset:±ms]` and other ID tags. Lines without
+ * a time stamp that are not ID tags are ignored.
+ */
+export const parseLrc = (text: string): Lyrics => {
+  const tags: Array<[string, string]> = [];
+  const lines: LyricLine[] = [];
+  let offset = 0;
+
+  for (const raw of text.split(/\r\n|\r|\n/)) {
+    let rest = raw.trim();
+    const times: number[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = LINE_TIME.exec(rest))) {
+      times.push(toSeconds(match));
+      rest = rest.slice(match[0].length);
+    }
+
+    if (times.length === 0) {
+      const id = ID_TAG.exec(rest);
+      if (!id) continue;
+      const key = id[1].toLowerCase();
+      const value = id[2].trim();
+      if (key === 'offset') offset = parseInt(value, 10) || 0;
+      else tags.push([key, value]);
+      continue;
+    }
+
+    const body = parseWords(rest, times[0]);
+    for (const time of times) {
+      // 重複的行時間：字的時間跟著平移
+      const shift = time - times[0];
+      lines.push({
+        time,
+        text: body.text,
+        words: body.words && body.words.map(w => ({ time: w.time + shift, text: w.text })),
+        end: body.end === null ? null : body.end + shift,
+      });
+    }
+  }
+
+  // 穩定排序，同一時間的行保持檔案中的順序
+  lines.sort((a, b) => a.time - b.time);
+  return { tags, offset, lines };
+};
+
+/** Writes LRC that parses back to the same lyrics: ID tags, the offset, then one line per stamp. */
+export const serializeLrc = (lyrics: Lyrics) => {
+  const header = lyrics.tags.map(([key, value]) => `[${key}:${value}]`);
+  if (lyrics.offset) header.push(`[offset:${lyrics.offset > 0 ? '+' : ''}${lyrics.offset}]`);
+
+  const body = lyrics.lines.map(line => {
+    const stamp = `[${formatLrcTime(line.time)}]`;
+    if (!line.words) return stamp + line.text;
+    const words = line.words.map(w => `<${formatLrcTime(w.time)}>${w.text}`).join('');
+    return stamp + words + (line.end === null ? '' : `<${formatLrcTime(line.end)}>`);
+  });
+
+  return [...header, ...body].join('\n') + '\n';
+};
+
+/** Builds lines from SYLT entries; entries starting with a line break begin a new line, as taggers write them. */
+const fromTimedText = (entries: TimedText[]): LyricLine[] => {
+  const sorted = [...entries].sort((a, b) => a.time - b.time);
+  if (!sorted.some(e => /^[\r\n]/.test(e.text))) {
+    return sorted
+      .map(e => ({ time: e.time, text: e.text.trim(), words: null, end: null }))
+      .filter(line => line.text);
+  }
+
+  const groups: LyricWord[][] = [];
+  for (const entry of sorted) {
+    const text = entry.text.replace(/^[\r\n]+/, '');
+    if (groups.length === 0 || text !== entry.text) groups.push([]);
+    if (text) groups[groups.length - 1].push({ time: entry.time, text });
+  }
+  return groups
+    .filter(words => words.length > 0)
+    .map(words => ({ time: words[0].time, text: lineText(trimWords(words)), words, end: null }));
+};
+
+/** Synchronised lyrics embedded in the tags (SYLT, or LRC in a lyrics tag), or null. */
+export const lyricsFromTags = (metadata: TrackMetadata | null): Lyrics | null => {
+  if (metadata?.syncedLyrics?.length) {
+    const lines = fromTimedText(metadata.syncedLyrics);
+    if (lines.length) return { tags: [], offset: 0, lines };
+  }
+  if (metadata?.lyrics) {
+    const parsed = parseLrc(metadata.lyrics);
+    if (parsed.lines.length) return parsed;
+  }
+  return null;
+};
+
+/** Lyrics with a different [offset:], in milliseconds. */
+export const withOffset = (lyrics: Lyrics, offset: number): Lyrics => ({ ...lyrics, offset: Math.round(offset) });
+
+/** Moves one line and its word stamps by `seconds`, keeping the lines sorted. */
+export const shiftLine = (lyrics: Lyrics, index: number, seconds: number): Lyrics => {
+  const line = lyrics.lines[index];
+  if (!line) return lyrics;
+  const delta = Math.max(-line.time, seconds);
+  const moved: LyricLine = {
+    ...line,
+    time: line.time + delta,
+    words: line.words && line.words.map(w => ({ ...w, time: Math.max(0, w.time + delta) })),
+    end: line.end === null ? null : line.end + delta,
+  };
+  const lines = lyrics.lines.map((l, i) => (i === index ? moved : l)).sort((a, b) => a.time - b.time);
+  return { ...lyrics, lines };
+};
+
+/** The line and word being sung at playback `time` (seconds), with the offset applied. */
+export const lyricPosition = (lyrics: Lyrics, time: number): LyricPosition => {
+  const t = time + lyrics.offset / 1000;
+  const { lines } = lyrics;
+  let index = -1;
+  // 二分搜尋最後一個已開始的行
+  let lo = 0;
+  let hi = lines.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (lines[mid].time <= t) {
+      index = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  if (index < 0) return { line: -1, word: -1, sung: 0 };
+
+  const line = lines[index];
+  const next = lines[index + 1]?.time ?? null;
+  if (line.end !== null && t > line.end + LINE_LINGER) return { line: -1, word: -1, sung: 0 };
+  if (!line.words) return { line: index, word: -1, sung: line.text.length };
+
+  let start = 0;
+  for (let i = 0; i < line.words.length; i++) {
+    const word = line.words[i];
+    const until = line.words[i + 1]?.time ?? line.end ?? next ?? word.time + LAST_WORD_LENGTH;
+    if (t < word.time) return { line: index, word: i - 1, sung: start };
+    if (t < until) {
+      const progress = until > word.time ? (t - word.time) / (until - word.time) : 1;
+      return { line: index, word: i, sung: start + word.text.length * progress };
+    }
+    start += word.text.length;
+  }
+  return { line: index, word: line.words.length - 1, sung: line.text.length };
+};
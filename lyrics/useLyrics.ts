@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { TrackMetadata } from '../types';
+import { Lyrics, lyricsFromTags, parseLrc, serializeLrc, shiftLine, withOffset } from './lrc';
+
+const STORAGE_KEY = 'cyberpulse.lyrics';
+// 最多記住的曲目數，超過時丟掉最久沒動過的
+const MAX_STORED_TRACKS = 100;
+
+/** Where the current lyrics came from: an imported or edited LRC, or the track's tags. */
+export type LyricsSource = 'file' | 'tags';
+
+const loadStore = (): Record<string, unknown> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return typeof stored === 'object' && stored !== null && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const loadTrackLyrics = (key: string | null): Lyrics | null => {
+  const stored = key ? loadStore()[key] : undefined;
+  if (typeof stored !== 'string') return null;
+  const lyrics = parseLrc(stored);
+  return lyrics.lines.length ? lyrics : null;
+};
+
+// 以 LRC 文字儲存，與匯出的檔案相同
+const storeTrackLyrics = (key: string, lyrics: Lyrics | null) => {
+  const store = loadStore();
+  delete store[key];
+  if (lyrics) store[key] = serializeLrc(lyrics);
+  const keys = Object.keys(store);
+  keys.slice(0, Math.max(0, keys.length - MAX_STORED_TRACKS)).forEach(k => delete store[k]);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (err) {
+    console.warn('Could not save the lyrics for this track', err);
+  }
+};
+
+export const downloadLrc = (lyrics: Lyrics, name: string) => {
+  const url = URL.createObjectURL(new Blob([serializeLrc(lyrics)], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.replace(/[^\w-]+/g, '_') || 'lyrics'}.lrc`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Lyrics for the current track: an imported LRC saved under the track, else
+ * synced lyrics from its tags. Timing edits to tag lyrics save them as the
+ * track's own, so the tags themselves are never needed again for that track.
+ */
+export const useLyrics = (trackKey: string | null, metadata: TrackMetadata | null) => {
+  const [stored, setStored] = useState<Lyrics | null>(() => loadTrackLyrics(trackKey));
+  const [shown, setShown] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStored(loadTrackLyrics(trackKey));
+    setError(null);
+  }, [trackKey]);
+
+  const embedded = useMemo(() => lyricsFromTags(metadata), [metadata]);
+  const lyrics = trackKey ? stored ?? embedded : null;
+
+  const update = useCallback(
+    (next: Lyrics | null) => {
+      setStored(next);
+      if (trackKey) storeTrackLyrics(trackKey, next);
+    },
+    [trackKey]
+  );
+
+  return {
+    lyrics,
+    source: (stored ? 'file' : lyrics ? 'tags' : null) as LyricsSource | null,
+    shown,
+    error,
+    importFile: useCallback(
+      async (file: File) => {
+        try {
+          const parsed = parseLrc(await file.text());
+          if (parsed.lines.length === 0) throw new Error('No timed lines found.');
+          update(parsed);
+          setError(null);
+        } catch (err) {
+          setError(`${file.name}: ${errorMessage(err)}`);
+        }
+      },
+      [update]
+    ),
+    setOffset: (offset: number) => lyrics && update(withOffset(lyrics, offset)),
+    shiftLine: (index: number, seconds: number) => lyrics && update(shiftLine(lyrics, index, seconds)),
+    /** Drops the saved LRC and falls back to the tags. */
+    reset: useCallback(() => update(null), [update]),
+    toggleShown: useCallback(() => setShown(s => !s), []),
+    dismissError: useCallback(() => setError(null), []),
+  };
+};
@@ -0,0 +1,175 @@
+import { AudioData } from '../types';
+import { SceneParamDef, SceneParams } from '../scenes/params';
+
+export type ModSource = 'bass' | 'mid' | 'treble' | 'rms' | 'beat' | 'section' | 'lfo' | 'envelope';
+/** Sources that are a plain function of the current frame, with no per-route state. */
+export type AudioFeature = Exclude<ModSource, 'lfo' | 'envelope'>;
+export type ModCurve = 'linear' | 'exp' | 'log' | 'smooth';
+
+/** One binding of a scene parameter to a modulation source. */
+export interface ModRoute {
+  sceneId: string;
+  param: string;
+  source: ModSource;
+  /** Fraction of the parameter's range added at full source level; negative inverts. */
+  depth: number;
+  /** 0 follows the source immediately, values near 1 glide slowly. */
+  smoothing: number;
+  curve: ModCurve;
+  /** LFO frequency in Hz, or the envelope follower's release time in seconds. */
+  rate: number;
+}
+
+export const MOD_SOURCES: { id: ModSource; label: string }[] = [
+  { id: 'bass', label: 'Bass' },
+  { id: 'mid', label: 'Mid' },
+  { id: 'treble', label: 'Treble' },
+  { id: 'rms', label: 'Level' },
+  { id: 'beat', label: 'Beat Pulse' },
+  { id: 'section', label: 'Section Energy' },
+  { id: 'lfo', label: 'LFO' },
+  { id: 'envelope', label: 'Envelope' },
+];
+
+export const MOD_CURVES: ModCurve[] = ['linear', 'exp', 'log', 'smooth'];
+
+export const ROUTE_LIMITS = {
+  depth: [-1, 1],
+  smoothing: [0, 0.99],
+  rate: [0.01, 20],
+} as const;
+
+/** Seconds for a beat pulse to fall to 1/e. */
+const BEAT_DECAY = 0.15;
+const ENVELOPE_ATTACK = 0.01;
+// 時域 RMS 很少超過 0.5，放大到 0..1 方便與其他來源一致
+const RMS_GAIN = 2;
+
+export const createRoute = (sceneId: string, param: string, source: ModSource = 'bass'): ModRoute => ({
+  sceneId,
+  param,
+  source,
+  depth: 0.5,
+  smoothing: 0.5,
+  curve: 'linear',
+  rate: source === 'envelope' ? 0.3 : 1,
+});
+
+/** Only continuous, non-structural parameters can follow a source frame by frame. */
+export const isModulatable = (def: SceneParamDef) => def.type === 'number' && !def.structural;
+
+export const applyCurve = (x: number, curve: ModCurve) => {
+  switch (curve) {
+    case 'exp':
+      return x * x;
+    case 'log':
+      return Math.sqrt(x);
+    case 'smooth':
+      return x * x * (3 - 2 * x);
+    default:
+      return x;
+  }
+};
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+
+export interface ModInputs {
+  audio: AudioData;
+  /** 1 on a beat, decaying towards 0. */
+  beatPulse: number;
+  /** Energy of the song section playing now, eased across boundaries. */
+  section: number;
+  /** Seconds since the modulator started. */
+  time: number;
+}
+
+/** Level of a stateless source for this frame, roughly 0..1. */
+export const readFeature = (source: AudioFeature, inputs: ModInputs) => {
+  const { audio } = inputs;
+  switch (source) {
+    case 'bass':
+      return audio.bassIntensity;
+    case 'mid':
+      return audio.midIntensity;
+    case 'treble':
+      return audio.trebleIntensity;
+    case 'rms':
+      return audio.rms * RMS_GAIN;
+    case 'beat':
+      return inputs.beatPulse;
+    case 'section':
+      return inputs.section;
+  }
+};
+
+interface RouteState {
+  value: number;
+  envelope: number;
+}
+
+/** Decays the beat pulse over `dt` seconds, or restarts it when a beat arrived. */
+export const decayBeatPulse = (pulse: number, dt: number, beat?: { strength: number }) =>
+  beat ? Math.max(pulse, clamp01(0.5 + beat.strength * 0.5)) : pulse * Math.exp(-dt / BEAT_DECAY);
+
+/**
+ * Evaluates a modulation matrix once per frame. Each route keeps its own
+ * smoothing and envelope state, keyed by parameter, so routes can be added
+ * or removed between frames without disturbing the others.
+ */
+export const createModulator = () => {
+  const states = new Map<string, RouteState>();
+
+  const readSource = (route: ModRoute, inputs: ModInputs, state: RouteState, dt: number) => {
+    switch (route.source) {
+      case 'lfo':
+        return 0.5 + 0.5 * Math.sin(inputs.time * route.rate * Math.PI * 2);
+      case 'envelope': {
+        // 快攻慢放的包絡跟隨器
+        const level = clamp01(inputs.audio.rms * RMS_GAIN);
+        const time = level > state.envelope ? ENVELOPE_ATTACK : Math.max(route.rate, ENVELOPE_ATTACK);
+        state.envelope = level + (state.envelope - level) * Math.exp(-dt / time);
+        return state.envelope;
+      }
+      default:
+        return readFeature(route.source, inputs);
+    }
+  };
+
+  return {
+    /**
+     * Writes `base` plus every route's contribution into `out` and returns it.
+     * Values stay inside each parameter's declared range.
+     */
+    evaluate(
+      routes: ModRoute[],
+      defs: SceneParamDef[],
+      base: SceneParams,
+      inputs: ModInputs,
+      dt: number,
+      out: SceneParams
+    ) {
+      Object.assign(out, base);
+
+      for (const route of routes) {
+        const def = defs.find(d => d.key === route.param);
+        if (!def || def.type !== 'number' || !isModulatable(def)) continue;
+
+        let state = states.get(route.param);
+        if (!state) states.set(route.param, (state = { value: 0, envelope: 0 }));
+
+        const target = applyCurve(clamp01(readSource(route, inputs, state, dt)), route.curve);
+        // 以 60fps 為基準換算平滑係數，避免幀率影響手感
+        state.value += (target - state.value) * (1 - Math.pow(route.smoothing, dt * 60));
+
+        const baseValue = typeof base[def.key] === 'number' ? (base[def.key] as number) : def.default;
+        const value = baseValue + route.depth * (def.max - def.min) * state.value;
+        out[def.key] = Math.min(def.max, Math.max(def.min, value));
+      }
+      return out;
+    },
+
+    reset() {
+      states.clear();
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useAudioData, useBeat } from '../audio/AudioDataContext';
+import { SceneDefinition, SceneParams } from '../scenes/registry';
+import { useSection } from '../sections/SectionContext';
+import { ModRoute, createModulator, decayBeatPulse } from './matrix';
+
+/**
+ * Runs a scene's modulation routes once per frame, right after the audio
+ * sample, and returns a ref holding the resulting parameter values. Scenes
+ * read it inside useFrame so modulation never causes a React render.
+ */
+export const useModulatedParams = (scene: SceneDefinition, params: SceneParams, routes: ModRoute[]) => {
+  const audio = useAudioData();
+  const section = useSection();
+  const live = useRef<SceneParams>({ ...params });
+  const modulator = useMemo(createModulator, []);
+  const pendingBeat = useRef<{ strength: number } | null>(null);
+  const pulse = useRef(0);
+  const time = useRef(0);
+
+  // 最新的 props 透過 ref 傳入幀迴圈
+  const inputs = useRef({ params, routes });
+  inputs.current = { params, routes };
+
+  useBeat(beat => (pendingBeat.current = beat));
+
+  useFrame((_, delta) => {
+    time.current += delta;
+    pulse.current = decayBeatPulse(pulse.current, delta, pendingBeat.current ?? undefined);
+    pendingBeat.current = null;
+
+    modulator.evaluate(
+      inputs.current.routes,
+      scene.params,
+      inputs.current.params,
+      { audio: audio.current, beatPulse: pulse.current, section: section.current.energy, time: time.current },
+      delta,
+      live.current
+    );
+  }, -1);
+
+  return live;
+};
@@ -0,0 +1,59 @@
+import React, { useEffect, useRef } from 'react';
+import OfflineDriver, { FrameDriver } from './OfflineDriver';
+import { SceneInputs } from '../session/recorder';
+
+interface FixedStepLoopProps {
+  fps: number;
+  inputs: SceneInputs;
+  /** Called once if a frame fails; the loop stops there. */
+  onError?: (err: unknown) => void;
+}
+
+/** Frames rendered to catch up after a stall, before time is simply dropped. */
+const MAX_CATCH_UP = 4;
+
+/**
+ * Realtime loop on top of OfflineDriver: every frame advances the scene and
+ * physics by exactly 1/fps, paced by wall-clock time. If rendering falls
+ * behind, the scene slows down rather than taking bigger steps, so the same
+ * inputs always produce the same animation.
+ */
+const FixedStepLoop: React.FC<FixedStepLoopProps> = ({ fps, inputs, onError }) => {
+  const driver = useRef<FrameDriver | null>(null);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    const step = 1 / fps;
+    let frame = 0;
+    let pending = 0;
+    let busy = false;
+    let last = performance.now();
+    let raf = requestAnimationFrame(function tick(now) {
+      raf = requestAnimationFrame(tick);
+      pending = Math.min(pending + (now - last) / 1000, step * MAX_CATCH_UP);
+      last = now;
+      if (busy || !driver.current || pending < step) return;
+
+      pending -= step;
+      busy = true;
+      driver.current
+        .renderFrame(frame * step, () => null)
+        .then(() => {
+          frame++;
+          busy = false;
+        })
+        .catch(err => {
+          // 失敗後繼續會與錄製內容不同步，停在這一幀
+          cancelAnimationFrame(raf);
+          busy = false;
+          onErrorRef.current?.(err);
+        });
+    });
+    return () => cancelAnimationFrame(raf);
+  }, [fps]);
+
+  return <OfflineDriver inputs={inputs} onReady={d => (driver.current = d)} />;
+};
+
+export default FixedStepLoop;
@@ -0,0 +1,114 @@
+import React, { useEffect, useLayoutEffect, useRef } from 'react';
+import { RootState, useThree } from '@react-three/fiber';
+import { useSphere } from '@react-three/cannon';
+import { AudioSampler } from '../audio/analysis';
+import { SceneInputs } from '../session/recorder';
+
+/** Drives the scene one exact frame at a time instead of on requestAnimationFrame. */
+export interface FrameDriver {
+  /** Renders one frame at `time` seconds and hands the canvas to `capture` before the next draw. */
+  renderFrame: <T>(time: number, capture: (canvas: HTMLCanvasElement) => T) => Promise<T>;
+  /** Resolves once props satisfying `test` have been committed to the scene. */
+  whenCommitted: (test: (inputs: SceneInputs) => boolean) => Promise<void>;
+}
+
+/** What the Visualizer needs to render frame by frame instead of in realtime. */
+export interface OfflineRender {
+  sampler: AudioSampler;
+  fps: number;
+  onReady: (driver: FrameDriver) => void;
+  /** Runs before each frame is advanced, e.g. to pose the camera during replay. */
+  onFrame?: (state: RootState) => void;
+  /** The camera is posed by onFrame, so the camera director stays off. */
+  fixedCamera?: boolean;
+}
+
+/** How long to wait for the physics worker; a frame it never steps fails rather than render out of step. */
+const STEP_TIMEOUT = 2000;
+
+interface OfflineDriverProps {
+  inputs: SceneInputs;
+  onReady: (driver: FrameDriver) => void;
+  onFrame?: (state: RootState) => void;
+}
+
+/**
+ * Lives inside <Physics> with frameloop="never". Each renderFrame advances
+ * the R3F clock to an exact time, captures the canvas, then waits until the
+ * cannon worker has returned that frame's step before resolving, so physics
+ * advances exactly one fixed step per frame. It rejects if the frame throws or
+ * the step never comes back.
+ */
+const OfflineDriver: React.FC<OfflineDriverProps> = ({ inputs, onReady, onFrame }) => {
+  const advance = useThree(state => state.advance);
+  const get = useThree(state => state.get);
+  const stepped = useRef<(() => void) | null>(null);
+  const committed = useRef(inputs);
+  const waiters = useRef<{ test: (inputs: SceneInputs) => boolean; resolve: () => void }[]>([]);
+  const onFrameRef = useRef(onFrame);
+  onFrameRef.current = onFrame;
+
+  // 遠離場景、不參與碰撞的感測體：worker 每回傳一次步進，位置訂閱就觸發一次
+  const [, api] = useSphere(() => ({
+    type: 'Static',
+    args: [0.01],
+    position: [0, -1000, 0],
+    collisionResponse: false,
+  }));
+
+  useEffect(
+    () =>
+      api.position.subscribe(() => {
+        const resolve = stepped.current;
+        stepped.current = null;
+        resolve?.();
+      }),
+    [api]
+  );
+
+  // 新的 props 已進入場景樹
+  useLayoutEffect(() => {
+    committed.current = inputs;
+    waiters.current = waiters.current.filter(waiter => {
+      if (!waiter.test(inputs)) return true;
+      waiter.resolve();
+      return false;
+    });
+  }, [inputs]);
+
+  useEffect(() => {
+    onReady({
+      renderFrame: (time, capture) =>
+        new Promise((resolve, reject) => {
+          let result: ReturnType<typeof capture>;
+          const timeout = setTimeout(() => {
+            stepped.current = null;
+            reject(new Error(`Physics did not step the frame at ${time.toFixed(3)} s, so the scene is out of sync.`));
+          }, STEP_TIMEOUT);
+          stepped.current = () => {
+            clearTimeout(timeout);
+            resolve(result);
+          };
+
+          try {
+            onFrameRef.current?.(get());
+            advance(time);
+            result = capture(get().gl.domElement);
+          } catch (err) {
+            clearTimeout(timeout);
+            stepped.current = null;
+            reject(err);
+          }
+        }),
+      whenCommitted: (test) =>
+        test(committed.current)
+          ? Promise.resolve()
+          : new Promise(resolve => waiters.current.push({ test, resolve })),
+    });
+    // onReady 只在掛載時呼叫一次
+  }, []);
+
+  return null;
+};
+
+export default OfflineDriver;
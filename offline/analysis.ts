@@ -0,0 +1,123 @@
+import { AnalyserSettings, AudioSampler, analyzeSpectrum, configureAnalyser } from '../audio/analysis';
+import { frameCount, frameTime } from './schedule';
+
+/** Analyser output for every video frame of a track, computed ahead of rendering. */
+export interface AnalysisTrack {
+  fps: number;
+  sampleRate: number;
+  frameCount: number;
+  fftSize: number;
+  binCount: number;
+  /** frameCount × binCount bytes, as AnalyserNode.getByteFrequencyData returns them. */
+  frequency: Uint8Array;
+  /** frameCount × fftSize bytes, as AnalyserNode.getByteTimeDomainData returns them. */
+  timeDomain: Uint8Array;
+  /** Audio clock per frame when it is not simply frame / fps, as in recorded sessions. */
+  times?: Float64Array;
+}
+
+export type AnalysisOptions = AnalyserSettings;
+
+/** Render quantum of the Web Audio API; suspend() times are rounded to it. */
+const RENDER_QUANTUM = 128;
+
+/**
+ * Render quantum whose start frame `index` reads the analyser at. Frames
+ * past the last quantum that starts inside the buffer reuse that one, so the
+ * tail of an export repeats the final reading instead of going silent.
+ */
+export const frameQuantum = (index: number, fps: number, sampleRate: number, length: number) =>
+  Math.min(
+    Math.floor((frameTime(index, fps) * sampleRate) / RENDER_QUANTUM),
+    Math.max(0, Math.ceil(length / RENDER_QUANTUM) - 1)
+  );
+
+export const createAnalysisTrack = (frames: number, fps: number, sampleRate: number, fftSize: number): AnalysisTrack => ({
+  fps,
+  sampleRate,
+  frameCount: frames,
+  fftSize,
+  binCount: fftSize / 2,
+  frequency: new Uint8Array(frames * (fftSize / 2)),
+  timeDomain: new Uint8Array(frames * fftSize).fill(128),
+});
+
+/**
+ * Plays the buffer through an AnalyserNode inside an OfflineAudioContext and
+ * suspends at each frame time to read it, so exported frames see exactly what
+ * the live analyser would have shown at that moment, only faster than realtime.
+ */
+export const precomputeAnalysis = async (
+  buffer: AudioBuffer,
+  fps: number,
+  options: AnalysisOptions,
+  onProgress?: (fraction: number) => void
+): Promise<AnalysisTrack> => {
+  const frames = frameCount(buffer.duration, fps);
+  const track = createAnalysisTrack(frames, fps, buffer.sampleRate, options.fftSize);
+
+  const ctx = new OfflineAudioContext(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const analyser = ctx.createAnalyser();
+  configureAnalyser(analyser, options);
+  source.connect(analyser);
+  analyser.connect(ctx.destination);
+
+  const read = (frame: number) => {
+    analyser.getByteFrequencyData(track.frequency.subarray(frame * track.binCount, (frame + 1) * track.binCount));
+    analyser.getByteTimeDomainData(track.timeDomain.subarray(frame * track.fftSize, (frame + 1) * track.fftSize));
+  };
+
+  // 第 0 幀分析器尚無資料，保持靜音；同一個 render quantum 內的幀共用一次讀取
+  const duplicates: number[] = [];
+  let lastQuantum = 0;
+  for (let i = 1; i < frames; i++) {
+    const quantum = frameQuantum(i, fps, buffer.sampleRate, buffer.length);
+    if (quantum === lastQuantum) {
+      duplicates.push(i);
+      continue;
+    }
+    lastQuantum = quantum;
+    ctx.suspend((quantum * RENDER_QUANTUM) / buffer.sampleRate).then(() => {
+      read(i);
+      onProgress?.(i / frames);
+      ctx.resume();
+    });
+  }
+
+  source.start();
+  await ctx.startRendering();
+
+  for (const i of duplicates) {
+    track.frequency.copyWithin(i * track.binCount, (i - 1) * track.binCount, i * track.binCount);
+    track.timeDomain.copyWithin(i * track.fftSize, (i - 1) * track.fftSize, i * track.fftSize);
+  }
+  onProgress?.(1);
+  return track;
+};
+
+export interface TrackSampler extends AudioSampler {
+  /** Selects the frame that the next sample() returns. */
+  seek: (frame: number) => void;
+}
+
+/** Serves a precomputed track through the same interface as the live analyser. */
+export const createTrackSampler = (track: AnalysisTrack): TrackSampler => {
+  let frame = 0;
+  const bins = (i: number) => track.frequency.subarray(i * track.binCount, (i + 1) * track.binCount);
+
+  return {
+    seek: (index) => {
+      frame = Math.min(track.frameCount - 1, Math.max(0, Math.floor(index)));
+    },
+    sample: () =>
+      analyzeSpectrum(
+        bins(frame),
+        frame > 0 ? bins(frame - 1) : null,
+        track.sampleRate,
+        track.timeDomain.subarray(frame * track.fftSize, (frame + 1) * track.fftSize)
+      ),
+    currentTime: () => (track.times ? track.times[frame] : frameTime(frame, track.fps)),
+  };
+};
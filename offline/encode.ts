@@ -0,0 +1,154 @@
+import { ExportSettings, frameTime, frameTimestamp } from './schedule';
+import { createWebmMuxer, opusHead } from './webm';
+import { FrameDriver } from './OfflineDriver';
+
+export interface EncodeJob {
+  audio: AudioBuffer;
+  settings: ExportSettings;
+  frames: number;
+  driver: FrameDriver;
+  /** Called before each frame is rendered, e.g. to seek the analysis track. */
+  prepareFrame: (index: number) => void;
+  onProgress?: (frame: number) => void;
+  signal?: AbortSignal;
+}
+
+const VIDEO_CODECS = [
+  { config: 'vp09.00.10.08', webm: 'V_VP9' },
+  { config: 'vp8', webm: 'V_VP8' },
+];
+/** Opus only runs at 48 kHz, so export audio is decoded at that rate. */
+export const EXPORT_SAMPLE_RATE = 48000;
+const AUDIO_CHUNK = 4800;
+/** A keyframe every two seconds keeps seeking in the exported file responsive. */
+const KEYFRAME_INTERVAL = 2;
+const MAX_QUEUED_FRAMES = 8;
+
+export const isExportSupported = () =>
+  typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+const pickVideoCodec = async (settings: ExportSettings) => {
+  for (const codec of VIDEO_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec: codec.config,
+      width: settings.width,
+      height: settings.height,
+      bitrate: settings.videoBitrate,
+      framerate: settings.fps,
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, webm: codec.webm };
+  }
+  throw new Error(`This browser cannot encode ${settings.width}×${settings.height} WebM video.`);
+};
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+/** Feeds the whole (48 kHz) buffer to an Opus encoder and collects the packets. */
+const encodeAudio = async (buffer: AudioBuffer, onChunk: (data: Uint8Array, timestamp: number) => void) => {
+  const channels = Math.min(2, buffer.numberOfChannels);
+  let description: Uint8Array | undefined;
+  let failure: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => {
+      if (meta?.decoderConfig?.description) {
+        description = new Uint8Array(meta.decoderConfig.description as ArrayBuffer);
+      }
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      onChunk(data, chunk.timestamp);
+    },
+    error: (err) => (failure = err),
+  });
+  encoder.configure({ codec: 'opus', sampleRate: buffer.sampleRate, numberOfChannels: channels, bitrate: 192_000 });
+
+  for (let offset = 0; offset < buffer.length; offset += AUDIO_CHUNK) {
+    const length = Math.min(AUDIO_CHUNK, buffer.length - offset);
+    // planar 格式：各聲道依序排列
+    const planar = new Float32Array(length * channels);
+    for (let c = 0; c < channels; c++) {
+      planar.set(buffer.getChannelData(c).subarray(offset, offset + length), c * length);
+    }
+    const data = new globalThis.AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: length,
+      numberOfChannels: channels,
+      timestamp: Math.round((offset * 1_000_000) / buffer.sampleRate),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+  return description ?? opusHead(channels, buffer.sampleRate);
+};
+
+/**
+ * Renders every frame through the driver, encodes it with WebCodecs and
+ * muxes it with the Opus-encoded source audio into a WebM blob. Frames are
+ * timestamped from their index, so the result is in sync no matter how fast
+ * or slow rendering runs.
+ */
+export const encodeVideo = async ({ audio, settings, frames, driver, prepareFrame, onProgress, signal }: EncodeJob) => {
+  if (audio.sampleRate !== EXPORT_SAMPLE_RATE) {
+    throw new Error(`Export audio must be decoded at ${EXPORT_SAMPLE_RATE} Hz (got ${audio.sampleRate}).`);
+  }
+  const codec = await pickVideoCodec(settings);
+
+  const audioChunks: { data: Uint8Array; timestamp: number }[] = [];
+  const codecPrivate = await encodeAudio(audio, (data, timestamp) => audioChunks.push({ data, timestamp }));
+
+  const muxer = createWebmMuxer(
+    { codec: codec.webm, width: settings.width, height: settings.height, frameRate: settings.fps },
+    { codec: 'A_OPUS', sampleRate: audio.sampleRate, channels: Math.min(2, audio.numberOfChannels), codecPrivate }
+  );
+  audioChunks.forEach(chunk => muxer.addAudioChunk(chunk.data, chunk.timestamp));
+
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addVideoChunk(data, chunk.timestamp, chunk.type === 'key');
+    },
+    error: (err) => (failure = err),
+  });
+  encoder.configure(codec.config);
+
+  try {
+    const keyframeEvery = Math.max(1, Math.round(settings.fps * KEYFRAME_INTERVAL));
+    for (let i = 0; i < frames; i++) {
+      if (signal?.aborted) throw abortError();
+      if (failure) throw failure;
+
+      prepareFrame(i);
+      const frame = await driver.renderFrame(frameTime(i, settings.fps), canvas =>
+        new VideoFrame(canvas, {
+          timestamp: frameTimestamp(i, settings.fps),
+          duration: frameTimestamp(i + 1, settings.fps) - frameTimestamp(i, settings.fps),
+        })
+      );
+      encoder.encode(frame, { keyFrame: i % keyframeEvery === 0 });
+      frame.close();
+      onProgress?.(i + 1);
+
+      // 編碼器跟不上時等待，避免佔用過多記憶體
+      while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+        await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+    }
+
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  const parts = muxer.finalize(frameTimestamp(frames, settings.fps));
+  return new Blob(parts, { type: 'video/webm' });
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { frameCount, frameTime, frameTimestamp } from './schedule';
+import { frameQuantum } from './analysis';
+
+describe('frame schedule', () => {
+  it('covers the whole duration', () => {
+    expect(frameCount(10, 30)).toBe(300);
+    expect(frameCount(10.01, 30)).toBe(301);
+    expect(frameCount(0, 60)).toBe(1);
+  });
+
+  it('does not add a frame for floating-point noise', () => {
+    expect(frameCount(0.1 * 3, 10)).toBe(3);
+  });
+
+  it('computes times from the index so long exports do not drift', () => {
+    let accumulated = 0;
+    for (let i = 0; i < 60 * 60 * 30; i++) accumulated += 1 / 30;
+    expect(frameTime(60 * 60 * 30, 30)).toBe(3600);
+    expect(accumulated).not.toBe(3600);
+  });
+
+  it('rounds timestamps to whole microseconds', () => {
+    expect(frameTimestamp(1, 30)).toBe(33_333);
+    expect(frameTimestamp(2, 30)).toBe(66_667);
+    expect(frameTimestamp(30, 30)).toBe(1_000_000);
+  });
+});
+
+describe('frameQuantum', () => {
+  const SAMPLE_RATE = 48_000;
+
+  it('reads the render quantum that holds the frame time', () => {
+    expect(frameQuantum(0, 30, SAMPLE_RATE, SAMPLE_RATE * 10)).toBe(0);
+    // 1/30 s = 1600 samples = 12.5 quanta
+    expect(frameQuantum(1, 30, SAMPLE_RATE, SAMPLE_RATE * 10)).toBe(12);
+  });
+
+  it('clamps frames past the buffer to the final quantum', () => {
+    // 1000 samples: quanta 0..7 start inside the buffer
+    expect(frameQuantum(12, 600, SAMPLE_RATE, 1000)).toBe(7);
+    expect(frameQuantum(20, 600, SAMPLE_RATE, 1000)).toBe(7);
+    expect(frameQuantum(1000, 600, SAMPLE_RATE, 1000)).toBe(7);
+  });
+
+  it('handles a buffer that ends on a quantum boundary', () => {
+    expect(frameQuantum(100, 30, SAMPLE_RATE, 1024)).toBe(7);
+  });
+});
@@ -0,0 +1,26 @@
+export interface ExportSettings {
+  width: number;
+  height: number;
+  fps: number;
+  /** Target video bitrate in bits per second. */
+  videoBitrate: number;
+}
+
+export const EXPORT_PRESETS: { id: string; label: string; settings: ExportSettings }[] = [
+  { id: '720p30', label: '720p 30fps', settings: { width: 1280, height: 720, fps: 30, videoBitrate: 5_000_000 } },
+  { id: '1080p30', label: '1080p 30fps', settings: { width: 1920, height: 1080, fps: 30, videoBitrate: 8_000_000 } },
+  { id: '1080p60', label: '1080p 60fps', settings: { width: 1920, height: 1080, fps: 60, videoBitrate: 12_000_000 } },
+  { id: '2160p30', label: '4K 30fps', settings: { width: 3840, height: 2160, fps: 30, videoBitrate: 35_000_000 } },
+];
+
+/** Number of video frames needed to cover `duration` seconds. */
+export const frameCount = (duration: number, fps: number) => Math.max(1, Math.ceil(duration * fps - 1e-9));
+
+/**
+ * Time of frame `index` in seconds. Computed from the index rather than by
+ * accumulating 1/fps, so long exports do not drift against the audio.
+ */
+export const frameTime = (index: number, fps: number) => index / fps;
+
+/** Frame timestamp in microseconds, the unit used by WebCodecs. */
+export const frameTimestamp = (index: number, fps: number) => Math.round((index * 1_000_000) / fps);
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { createWebmMuxer, encodeElement, encodeSize, opusHead, opusPreSkip } from './webm';
+
+interface Element {
+  id: number;
+  /** Offset of the element's header within the buffer. */
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+// 最小的 EBML 讀取器，只用來檢查輸出結構
+const readVint = (b: Uint8Array, o: number, keepMarker: boolean) => {
+  let length = 1;
+  while (length <= 8 && !(b[o] & (0x80 >> (length - 1)))) length++;
+  let value = keepMarker ? b[o] : b[o] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + b[o + i];
+  return { value, length };
+};
+
+const readElements = (b: Uint8Array, start = 0, end = b.length) => {
+  const out: Element[] = [];
+  for (let o = start; o < end; ) {
+    const id = readVint(b, o, true);
+    const size = readVint(b, o + id.length, false);
+    const dataStart = o + id.length + size.length;
+    out.push({ id: id.value, start: o, dataStart, end: dataStart + size.value });
+    o = dataStart + size.value;
+  }
+  return out;
+};
+
+const uint = (b: Uint8Array, e: Element) => {
+  let value = 0;
+  for (let i = e.dataStart; i < e.end; i++) value = value * 256 + b[i];
+  return value;
+};
+
+const child = (b: Uint8Array, parent: Element, id: number) =>
+  readElements(b, parent.dataStart, parent.end).find(e => e.id === id)!;
+const children = (b: Uint8Array, parent: Element, id: number) =>
+  readElements(b, parent.dataStart, parent.end).filter(e => e.id === id);
+
+const SEGMENT = 0x18538067;
+const CLUSTER = 0x1f43b675;
+const CUES = 0x1c53bb6b;
+
+const join = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/** 4 s of 30 fps video with a keyframe every second, plus 20 ms Opus packets. */
+const mux = (preSkip = 312) => {
+  const muxer = createWebmMuxer(
+    { codec: 'V_VP9', width: 320, height: 180, frameRate: 30 },
+    { codec: 'A_OPUS', sampleRate: 48000, channels: 2, codecPrivate: opusHead(2, 48000, preSkip) }
+  );
+  for (let i = 0; i < 120; i++) muxer.addVideoChunk(new Uint8Array([i]), Math.round((i * 1e6) / 30), i % 30 === 0);
+  for (let t = 0; t < 4_000_000; t += 20_000) muxer.addAudioChunk(new Uint8Array([0xaa]), t);
+  const file = join(muxer.finalize(4_000_000));
+  const [header, segment] = readElements(file);
+  return { file, header, segment };
+};
+
+describe('EBML encoding', () => {
+  it('encodes sizes with the shortest marker length', () => {
+    expect(Array.from(encodeSize(0))).toEqual([0x80]);
+    expect(Array.from(encodeSize(126))).toEqual([0xfe]);
+    // 127 is reserved as "unknown size" in one byte
+    expect(Array.from(encodeSize(127))).toEqual([0x40, 0x7f]);
+    expect(Array.from(encodeSize(1000))).toEqual([0x43, 0xe8]);
+  });
+
+  it('nests elements', () => {
+    const bytes = encodeElement([0x1a45dfa3, [[0x4282, 'webm']]]);
+    expect(Array.from(bytes)).toEqual([0x1a, 0x45, 0xdf, 0xa3, 0x87, 0x42, 0x82, 0x84, 0x77, 0x65, 0x62, 0x6d]);
+  });
+});
+
+describe('WebM muxer', () => {
+  it('writes an EBML header followed by one segment spanning the file', () => {
+    const { file, header, segment } = mux();
+    expect(header.id).toBe(0x1a45dfa3);
+    expect(segment.id).toBe(SEGMENT);
+    expect(segment.end).toBe(file.length);
+  });
+
+  it('starts each cluster on a video keyframe', () => {
+    const { file, segment } = mux();
+    const clusters = children(file, segment, CLUSTER);
+    expect(clusters).toHaveLength(4);
+    clusters.forEach((cluster, i) => {
+      expect(uint(file, child(file, cluster, 0xe7))).toBe(i * 1000);
+      const [first] = children(file, cluster, 0xa3);
+      // track 1, relative timecode 0, keyframe flag
+      expect(Array.from(file.subarray(first.dataStart, first.dataStart + 4))).toEqual([0x81, 0, 0, 0x80]);
+    });
+  });
+
+  it('writes blocks in timestamp order with timecodes relative to their cluster', () => {
+    const { file, segment } = mux();
+    const cluster = children(file, segment, CLUSTER)[1];
+    const times = children(file, cluster, 0xa3).map(block =>
+      new DataView(file.buffer, block.dataStart + 1, 2).getInt16(0)
+    );
+    expect(times[0]).toBe(0);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(times[times.length - 1]).toBeLessThan(1000);
+  });
+
+  it('writes the Opus codec delay from the encoder pre-skip', () => {
+    const { file, segment } = mux(3840);
+    const tracks = child(file, segment, 0x1654ae6b);
+    const audio = children(file, tracks, 0xae)[1];
+    expect(uint(file, child(file, audio, 0x56aa))).toBe(80_000_000);
+    expect(uint(file, child(file, audio, 0x56bb))).toBe(80_000_000);
+  });
+
+  it('writes a cue for every cluster at its position in the segment', () => {
+    const { file, segment } = mux();
+    const clusters = children(file, segment, CLUSTER);
+    const points = children(file, child(file, segment, CUES), 0xbb);
+    expect(points).toHaveLength(clusters.length);
+    points.forEach((point, i) => {
+      const positions = child(file, point, 0xb7);
+      expect(uint(file, child(file, point, 0xb3))).toBe(i * 1000);
+      expect(uint(file, child(file, positions, 0xf7))).toBe(1);
+      expect(segment.dataStart + uint(file, child(file, positions, 0xf1))).toBe(clusters[i].start);
+    });
+  });
+
+  it('points the seek head at the info, tracks and cues', () => {
+    const { file, segment } = mux();
+    const [seekHead] = readElements(file, segment.dataStart, segment.end);
+    expect(seekHead.id).toBe(0x114d9b74);
+    for (const seek of children(file, seekHead, 0x4dbb)) {
+      const id = uint(file, child(file, seek, 0x53ab));
+      const target = readElements(file, segment.dataStart + uint(file, child(file, seek, 0x53ac)), segment.end)[0];
+      expect(target.id).toBe(id);
+    }
+    expect(children(file, seekHead, 0x4dbb)).toHaveLength(3);
+  });
+
+  it('drops audio when the file has no audio track', () => {
+    const muxer = createWebmMuxer({ codec: 'V_VP8', width: 2, height: 2, frameRate: 30 });
+    muxer.addVideoChunk(new Uint8Array([1]), 0, true);
+    muxer.addAudioChunk(new Uint8Array([2]), 0);
+    const file = join(muxer.finalize(1000));
+    const segment = readElements(file)[1];
+    const cluster = child(file, segment, CLUSTER);
+    expect(children(file, cluster, 0xa3)).toHaveLength(1);
+    expect(children(file, child(file, segment, 0x1654ae6b), 0xae)).toHaveLength(1);
+  });
+});
+
+describe('opusPreSkip', () => {
+  it('reads the pre-skip from an OpusHead and defaults without one', () => {
+    expect(opusPreSkip(opusHead(2, 48000, 3840))).toBe(3840);
+    expect(opusPreSkip(undefined)).toBe(312);
+    expect(opusPreSkip(new Uint8Array(19))).toBe(312);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Minimal WebM (Matroska) writer for one video and one optional audio track.
+ * Chunks are buffered and written out on finalize(), sorted by timestamp and
+ * grouped into clusters that start on video keyframes, with Cues for seeking.
+ */
+
+export interface WebmVideoTrack {
+  /** Matroska codec id, e.g. "V_VP9" or "V_VP8". */
+  codec: string;
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export interface WebmAudioTrack {
+  /** Matroska codec id, e.g. "A_OPUS". */
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  codecPrivate?: Uint8Array;
+}
+
+interface Chunk {
+  track: number;
+  /** Microseconds. */
+  timestamp: number;
+  keyframe: boolean;
+  data: Uint8Array;
+}
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+/** Block timecodes are signed 16-bit offsets (in ms) from the cluster timecode. */
+const MAX_CLUSTER_SPAN = 30_000;
+
+const INFO_ID = 0x1549a966;
+const TRACKS_ID = 0x1654ae6b;
+const CUES_ID = 0x1c53bb6b;
+
+// Opus 的 pre-skip 一律以 48 kHz 取樣數表示，與實際取樣率無關
+const OPUS_CLOCK = 48_000;
+const DEFAULT_PRE_SKIP = 312;
+
+type EbmlValue = number | string | Uint8Array | EbmlElement[] | { float: number };
+type EbmlElement = [id: number, value: EbmlValue];
+
+const idBytes = (id: number) => {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return bytes;
+};
+
+/** EBML variable-length size: the leading 1 bit marks the length. */
+export const encodeSize = (size: number) => {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let v = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = v & 0xff;
+    v = Math.floor(v / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const encodeUint = (value: number) => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return new Uint8Array(bytes.length ? bytes : [0]);
+};
+
+/** Big-endian unsigned integer in exactly `length` bytes. */
+const encodeFixedUint = (value: number, length: number) => {
+  const bytes = new Uint8Array(length);
+  let v = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = v & 0xff;
+    v = Math.floor(v / 256);
+  }
+  return bytes;
+};
+
+const encodeFloat = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+export const encodeElement = ([id, value]: EbmlElement): Uint8Array => {
+  let body: Uint8Array;
+  if (typeof value === 'number') body = encodeUint(value);
+  else if (typeof value === 'string') body = new TextEncoder().encode(value);
+  else if (value instanceof Uint8Array) body = value;
+  else if (Array.isArray(value)) body = concat(value.map(encodeElement));
+  else body = encodeFloat(value.float);
+  return concat([new Uint8Array(idBytes(id)), encodeSize(body.length), body]);
+};
+
+const simpleBlock = (chunk: Chunk, clusterTime: number) => {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | chunk.track;
+  new DataView(header.buffer).setInt16(1, Math.round(chunk.timestamp / 1000) - clusterTime);
+  header[3] = chunk.keyframe ? 0x80 : 0;
+  return encodeElement([0xa3, concat([header, chunk.data])]);
+};
+
+export const createWebmMuxer = (video: WebmVideoTrack, audio?: WebmAudioTrack) => {
+  const chunks: Chunk[] = [];
+
+  const trackEntries = (): EbmlElement[] => {
+    const entries: EbmlElement[] = [
+      [0xae, [
+        [0xd7, VIDEO_TRACK],
+        [0x73c5, VIDEO_TRACK],
+        [0x83, 1],
+        [0x86, video.codec],
+        [0x23e383, Math.round(1e9 / video.frameRate)],
+        [0xe0, [
+          [0xb0, video.width],
+          [0xba, video.height],
+        ]],
+      ]],
+    ];
+    if (audio) {
+      entries.push([0xae, [
+        [0xd7, AUDIO_TRACK],
+        [0x73c5, AUDIO_TRACK],
+        [0x83, 2],
+        [0x86, audio.codec],
+        ...(audio.codecPrivate ? [[0x63a2, audio.codecPrivate] as EbmlElement] : []),
+        // Opus 需要 CodecDelay 才能裁掉編碼器的起始延遲，並建議 80ms 的 seek pre-roll
+        ...(audio.codec === 'A_OPUS'
+          ? [
+              [0x56aa, Math.round((opusPreSkip(audio.codecPrivate) * 1e9) / OPUS_CLOCK)] as EbmlElement,
+              [0x56bb, 80_000_000] as EbmlElement,
+            ]
+          : []),
+        [0xe1, [
+          [0xb5, { float: audio.sampleRate }],
+          [0x9f, audio.channels],
+        ]],
+      ]]);
+    }
+    return entries;
+  };
+
+  /** Encoded clusters and the timecode (ms) each one starts at. */
+  const clusters = () => {
+    // 時間相同時影像排在音訊前，叢集才能從關鍵影格開始
+    const sorted = [...chunks].sort((a, b) => a.timestamp - b.timestamp || a.track - b.track);
+    const out: { time: number; data: Uint8Array }[] = [];
+    let clusterTime = -Infinity;
+    let blocks: Uint8Array[] = [];
+
+    const flush = () => {
+      if (blocks.length) {
+        const data = encodeElement([0x1f43b675, concat([encodeElement([0xe7, clusterTime]), ...blocks])]);
+        out.push({ time: clusterTime, data });
+      }
+      blocks = [];
+    };
+
+    for (const chunk of sorted) {
+      const time = Math.round(chunk.timestamp / 1000);
+      const startsCluster = chunk.track === VIDEO_TRACK && chunk.keyframe;
+      if (time - clusterTime > MAX_CLUSTER_SPAN || (startsCluster && blocks.length)) {
+        flush();
+        clusterTime = time;
+      }
+      blocks.push(simpleBlock(chunk, clusterTime));
+    }
+    flush();
+    return out;
+  };
+
+  return {
+    addVideoChunk(data: Uint8Array, timestamp: number, keyframe: boolean) {
+      chunks.push({ track: VIDEO_TRACK, timestamp, keyframe, data });
+    },
+
+    addAudioChunk(data: Uint8Array, timestamp: number) {
+      if (audio) chunks.push({ track: AUDIO_TRACK, timestamp, keyframe: true, data });
+    },
+
+    /** Returns the complete file as a list of parts, ready for a Blob. */
+    finalize(durationUs: number): Uint8Array[] {
+      const header = encodeElement([0x1a45dfa3, [
+        [0x4286, 1],
+        [0x42f7, 1],
+        [0x42f2, 4],
+        [0x42f3, 8],
+        [0x4282, 'webm'],
+        [0x4287, 4],
+        [0x4285, 2],
+      ]]);
+      const info = encodeElement([INFO_ID, [
+        [0x2ad7b1, 1_000_000],
+        [0x4d80, 'CyberPulse'],
+        [0x5741, 'CyberPulse'],
+        [0x4489, { float: durationUs / 1000 }],
+      ]]);
+      const tracks = encodeElement([TRACKS_ID, trackEntries()]);
+      const written = clusters();
+
+      // SeekHead 的位置欄位固定為 8 bytes，大小不受位置數值影響，可先算出
+      const seekHead = (entries: [id: number, position: number][]) =>
+        encodeElement([0x114d9b74, entries.map(([id, position]): EbmlElement => [0x4dbb, [
+          [0x53ab, new Uint8Array(idBytes(id))],
+          [0x53ac, encodeFixedUint(position, 8)],
+        ]])]);
+      const seekSize = seekHead([[INFO_ID, 0], [TRACKS_ID, 0], [CUES_ID, 0]]).length;
+
+      // 位置皆相對於 Segment 內容的起點
+      let position = seekSize + info.length + tracks.length;
+      const cuePoints = written.map(({ time, data }): EbmlElement => {
+        const point: EbmlElement = [0xbb, [
+          [0xb3, time],
+          [0xb7, [
+            [0xf7, VIDEO_TRACK],
+            [0xf1, position],
+          ]],
+        ]];
+        position += data.length;
+        return point;
+      });
+      const cues = encodeElement([CUES_ID, cuePoints]);
+
+      const body = [
+        seekHead([[INFO_ID, seekSize], [TRACKS_ID, seekSize + info.length], [CUES_ID, position]]),
+        info,
+        tracks,
+        ...written.map(cluster => cluster.data),
+        cues,
+      ];
+      const size = body.reduce((n, part) => n + part.length, 0);
+      return [header, new Uint8Array([0x18, 0x53, 0x80, 0x67]), encodeSize(size), ...body];
+    },
+  };
+};
+
+export type WebmMuxer = ReturnType<typeof createWebmMuxer>;
+
+/** OpusHead identification header, used when the encoder does not supply one. */
+export const opusHead = (channels: number, sampleRate: number, preSkip = DEFAULT_PRE_SKIP) => {
+  const head = new Uint8Array(19);
+  head.set(new TextEncoder().encode('OpusHead'));
+  const view = new DataView(head.buffer);
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  return head;
+};
+
+/** Pre-skip (in 48 kHz samples) from an OpusHead header, or the usual default without one. */
+export const opusPreSkip = (head?: Uint8Array) => {
+  if (!head || head.length < 12 || new TextDecoder().decode(head.subarray(0, 8)) !== 'OpusHead') return DEFAULT_PRE_SKIP;
+  return new DataView(head.buffer, head.byteOffset, head.byteLength).getUint16(10, true);
+};
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Visualizer from '../components/Visualizer';
+import { createPlayhead } from '../audio/playhead';
+import { createCameraHandle } from '../camera/handle';
+import { createPerfMonitor } from '../perf/monitor';
+import { useQuality } from '../quality/useQuality';
+import { useShortcuts } from '../input/useShortcuts';
+import { describeKeys } from '../input/shortcuts';
+import { ControlMessage, OutputMessage, OutputState, isOutputSupported, openOutputChannel } from './protocol';
+import { createRemoteSampler } from './remoteSampler';
+import { useCleanMode } from './useCleanMode';
+
+/**
+ * The projector window: only the canvas, drawn from the control window's
+ * feature stream and scene state. Quality is measured and chosen here, since
+ * this is the window that renders.
+ */
+const OutputApp: React.FC = () => {
+  const [state, setState] = useState<OutputState | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [remote] = useState(() => createRemoteSampler());
+  const [playhead] = useState(() => createPlayhead());
+  const [cameraHandle] = useState(() => createCameraHandle());
+  const [perfMonitor] = useState(() => createPerfMonitor());
+  const quality = useQuality(perfMonitor, state?.isPlaying ?? false);
+  const fullscreen = useCleanMode();
+  const playingRef = useRef(false);
+  playingRef.current = state?.isPlaying ?? false;
+
+  useEffect(() => {
+    document.title = 'CyberPulse · Output';
+    if (!isOutputSupported()) return;
+
+    const channel = openOutputChannel<OutputMessage, ControlMessage>(message => {
+      switch (message.type) {
+        case 'hello':
+          channel.post({ type: 'hello' });
+          break;
+        case 'state':
+          setState(message.state);
+          setConnected(true);
+          break;
+        case 'frame':
+          remote.push(message.data, message.clock);
+          playhead.update(message.time, playingRef.current);
+          break;
+        case 'camera':
+          cameraHandle.goTo(message.pose);
+          break;
+        case 'bye':
+          // 控制視窗離開或重新載入：保留畫面，音訊歸零等它回來
+          setConnected(false);
+          remote.reset();
+          break;
+        case 'close':
+          window.close();
+          break;
+      }
+    });
+    channel.post({ type: 'hello' });
+
+    const onPageHide = () => channel.post({ type: 'bye' });
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      window.removeEventListener('pagehide', onPageHide);
+      channel.close();
+    };
+  }, [remote, playhead, cameraHandle]);
+
+  useShortcuts({ toggleCleanMode: fullscreen.toggle });
+
+  return (
+    <div className={`fixed inset-0 bg-black ${fullscreen.clean ? 'cursor-none' : ''}`} onDoubleClick={fullscreen.toggle}>
+      {state && (
+        <Visualizer
+          analyzer={null}
+          remote={remote.sampler}
+          isPlaying={state.isPlaying}
+          preset={state.preset}
+          perf={perfMonitor}
+          quality={quality.settings}
+          paused={quality.paused}
+          reducedMotion={state.reducedMotion}
+          camera={cameraHandle}
+          lyrics={state.lyrics}
+          playhead={playhead}
+          structure={state.structure}
+        />
+      )}
+
+      <div className="absolute inset-0 flex items-end justify-center p-6 pointer-events-none font-mono text-[9px] uppercase tracking-widest">
+        {!isOutputSupported() ? (
+          <p className="text-pink-500">This browser cannot link windows (no BroadcastChannel).</p>
+        ) : !connected ? (
+          <p className="text-cyan-700 animate-pulse">Waiting for the control window…</p>
+        ) : (
+          !fullscreen.clean && (
+            <p className="text-gray-700">Double-click or press {describeKeys('toggleCleanMode')} for full screen</p>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutputApp;
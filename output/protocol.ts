@@ -0,0 +1,58 @@
+import { AudioData } from '../types';
+import { Preset } from '../presets/schema';
+import { Lyrics } from '../lyrics/lrc';
+import { SongStructure } from '../audio/structure';
+import { Viewpoint } from '../camera/director';
+
+/** Query parameter that turns a page into the projector output. */
+export const OUTPUT_PARAM = 'output';
+const CHANNEL_NAME = 'cyberpulse.output';
+const WINDOW_NAME = 'cyberpulse-output';
+
+/** Everything the output window needs to draw the same scene as the control window. */
+export interface OutputState {
+  preset: Preset;
+  isPlaying: boolean;
+  reducedMotion: boolean;
+  lyrics: Lyrics | null;
+  structure: SongStructure | null;
+}
+
+export type ControlMessage =
+  /** The control window (re)opened; any output answers with its own hello. */
+  | { type: 'hello' }
+  | { type: 'state'; state: OutputState }
+  /** One audio feature snapshot per control frame, with the audio clock and the track's playback time. */
+  | { type: 'frame'; data: AudioData; clock: number; time: number }
+  | { type: 'camera'; pose: Omit<Viewpoint, 'name'> }
+  /** Asks the output window to close itself. */
+  | { type: 'close' }
+  | { type: 'bye' };
+
+export type OutputMessage = { type: 'hello' } | { type: 'bye' };
+
+export const isOutputWindow = () => new URLSearchParams(window.location.search).has(OUTPUT_PARAM);
+
+export const isOutputSupported = () => typeof BroadcastChannel !== 'undefined';
+
+/** Opens (or focuses) the output window; null when a popup blocker stops it. */
+export const openOutputWindow = () => {
+  const url = new URL(window.location.href);
+  url.search = `?${OUTPUT_PARAM}`;
+  url.hash = '';
+  return window.open(url.toString(), WINDOW_NAME, 'popup,width=1280,height=720');
+};
+
+/**
+ * The channel between the control and output windows. A BroadcastChannel
+ * reaches every same-origin window by name, so either side can reload and
+ * find the other again without keeping a window reference.
+ */
+export const openOutputChannel = <Send, Receive>(onMessage: (message: Receive) => void) => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<Receive>) => onMessage(event.data);
+  return {
+    post: (message: Send) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
@@ -0,0 +1,39 @@
+import { AudioData } from '../types';
+import { AudioSampler, createEmptyAudioData } from '../audio/analysis';
+
+/**
+ * An AudioSampler fed from outside, e.g. by the control window's feature
+ * stream. Each frame returns the newest snapshot; when none arrived since the
+ * last frame the previous one is repeated without its spectral flux, so the
+ * beat tracker does not count the same onset twice.
+ */
+export const createRemoteSampler = () => {
+  let latest: AudioData = createEmptyAudioData();
+  let clock = 0;
+  let fresh = false;
+
+  const sampler: AudioSampler = {
+    sample: () => {
+      if (!fresh && latest.spectralFlux !== 0) latest = { ...latest, spectralFlux: 0 };
+      fresh = false;
+      return latest;
+    },
+    currentTime: () => clock,
+  };
+
+  return {
+    sampler,
+    push: (data: AudioData, time: number) => {
+      latest = data;
+      clock = time;
+      fresh = true;
+    },
+    /** Back to silence, e.g. when the stream stops. */
+    reset: () => {
+      latest = createEmptyAudioData(latest.frequencyData.length, latest.sampleRate);
+      fresh = false;
+    },
+  };
+};
+
+export type RemoteSampler = ReturnType<typeof createRemoteSampler>;
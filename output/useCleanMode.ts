@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Full screen with every overlay and the cursor hidden, for the projector.
+ * Leaving full screen (e.g. with Esc) ends clean mode too.
+ */
+export const useCleanMode = () => {
+  const [clean, setClean] = useState(false);
+
+  useEffect(() => {
+    const onChange = () => {
+      if (!document.fullscreenElement) setClean(false);
+    };
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  const toggle = useCallback(() => {
+    if (clean) {
+      setClean(false);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+      return;
+    }
+    setClean(true);
+    // 不支援全螢幕時 (例如 iOS Safari) 只隱藏介面
+    document.documentElement.requestFullscreen?.().catch(() => {});
+  }, [clean]);
+
+  return { clean, toggle };
+};
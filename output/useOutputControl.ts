@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react';
+import { AudioSampler, createAudioSampler } from '../audio/analysis';
+import { DeckBlend, withDeckBlend } from '../audio/decks';
+import { Playhead } from '../audio/playhead';
+import { Viewpoint } from '../camera/director';
+import {
+  ControlMessage,
+  OutputMessage,
+  OutputState,
+  isOutputSupported,
+  openOutputChannel,
+  openOutputWindow,
+} from './protocol';
+
+export type OutputStatus = 'closed' | 'waiting' | 'connected';
+
+interface OutputControlOptions {
+  state: OutputState;
+  analyzer: React.MutableRefObject<AnalyserNode | null>;
+  decks: React.MutableRefObject<DeckBlend | null>;
+  playhead: Playhead;
+}
+
+type Channel = ReturnType<typeof openOutputChannel<ControlMessage, OutputMessage>>;
+
+// 輸出視窗重新載入時等它回來的時間；逾時就當作已關閉
+const RECONNECT_TIMEOUT_MS = 10000;
+const POLL_MS = 1000;
+
+/**
+ * The control side of the projector output. While an output window is
+ * connected this samples the analyser every animation frame and streams the
+ * features to it, along with the scene state whenever that changes. Either
+ * window may reload: both say hello on load and the other answers.
+ * Frames only flow while this window is visible, as the browser stops
+ * animation frames in hidden tabs.
+ */
+export const useOutputControl = ({ state, analyzer, decks, playhead }: OutputControlOptions) => {
+  const [status, setStatus] = useState<OutputStatus>('closed');
+  const [error, setError] = useState<string | null>(null);
+  const channelRef = useRef<Channel | null>(null);
+  const windowRef = useRef<Window | null>(null);
+  const waitingSinceRef = useRef(0);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const wait = () => {
+    waitingSinceRef.current = Date.now();
+    setStatus('waiting');
+  };
+
+  useEffect(() => {
+    if (!isOutputSupported()) return;
+    const channel: Channel = openOutputChannel<ControlMessage, OutputMessage>(message => {
+      if (message.type === 'hello') {
+        setStatus('connected');
+        channel.post({ type: 'state', state: stateRef.current });
+      } else if (message.type === 'bye') {
+        wait();
+      }
+    });
+    channelRef.current = channel;
+    // 控制視窗重新載入後，找回仍開著的輸出視窗
+    channel.post({ type: 'hello' });
+
+    const onPageHide = () => channel.post({ type: 'bye' });
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      window.removeEventListener('pagehide', onPageHide);
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // 視窗被直接關掉時不一定來得及說 bye
+  useEffect(() => {
+    if (status === 'closed') return;
+    const id = setInterval(() => {
+      const win = windowRef.current;
+      if (win?.closed) {
+        windowRef.current = null;
+        setStatus('closed');
+      } else if (status === 'waiting' && !win && Date.now() - waitingSinceRef.current > RECONNECT_TIMEOUT_MS) {
+        setStatus('closed');
+      }
+    }, POLL_MS);
+    return () => clearInterval(id);
+  }, [status]);
+
+  useEffect(() => {
+    if (status === 'connected') channelRef.current?.post({ type: 'state', state });
+  }, [state, status]);
+
+  useEffect(() => {
+    if (status !== 'connected') return;
+    let sampler: AudioSampler | null = null;
+    let source: AnalyserNode | null = null;
+    let frame = 0;
+
+    const tick = () => {
+      frame = requestAnimationFrame(tick);
+      // 音訊圖在第一次播放時才建立
+      if (analyzer.current !== source) {
+        sampler?.dispose?.();
+        source = analyzer.current;
+        sampler = source ? withDeckBlend(createAudioSampler(source), decks.current) : null;
+      }
+      if (!sampler) return;
+      channelRef.current?.post({ type: 'frame', data: sampler.sample(), clock: sampler.currentTime(), time: playhead.now() });
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      sampler?.dispose?.();
+    };
+  }, [status, analyzer, decks, playhead]);
+
+  return {
+    supported: isOutputSupported(),
+    status,
+    error,
+    open: () => {
+      const win = openOutputWindow();
+      if (!win) {
+        setError('The browser blocked the output window. Allow pop-ups for this page and try again.');
+        return;
+      }
+      windowRef.current = win;
+      win.focus();
+      if (status !== 'connected') wait();
+    },
+    close: () => {
+      channelRef.current?.post({ type: 'close' });
+      windowRef.current?.close();
+      windowRef.current = null;
+      setStatus('closed');
+    },
+    /** Sends a camera move to the output, whose camera is the one on screen. */
+    goTo: (pose: Omit<Viewpoint, 'name'>) => {
+      if (status === 'connected') channelRef.current?.post({ type: 'camera', pose });
+    },
+    dismissError: () => setError(null),
+  };
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../scenes/random';
+import { DEFAULT_PARTICLE_SETTINGS, ParticleForces, createParticleSystem, sampleCurve, sampleRamp } from './system';
+
+const SETTINGS = { ...DEFAULT_PARTICLE_SETTINGS, lifetime: 1 };
+const FORCES: ParticleForces = { center: [0, 0, 0], radius: 1, spectrum: new Uint8Array(0) };
+
+describe('curves', () => {
+  it('interpolates between evenly spaced stops', () => {
+    expect(sampleCurve([0, 1, 0], 0.25)).toBe(0.5);
+    expect(sampleCurve([0, 1, 0], 0.5)).toBe(1);
+    expect(sampleCurve([2], 0.7)).toBe(2);
+    expect(sampleCurve([], 0.7)).toBe(0);
+  });
+
+  it('clamps t to the ends', () => {
+    expect(sampleCurve([1, 3], -1)).toBe(1);
+    expect(sampleCurve([1, 3], 2)).toBe(3);
+    expect(sampleRamp([[0, 0, 0], [1, 0.5, 0]], 2)).toEqual([1, 0.5, 0]);
+    expect(sampleRamp([[0.2, 0.4, 0.6]], 0.5)).toEqual([0.2, 0.4, 0.6]);
+  });
+});
+
+describe('particle pool', () => {
+  it('never grows past its budget and counts what it dropped', () => {
+    const system = createParticleSystem(100);
+    const random = createRandom(1);
+    expect(system.emit([0, 2, 0], 60, 5, SETTINGS, random)).toBe(60);
+    expect(system.emit([0, 2, 0], 60, 5, SETTINGS, random)).toBe(40);
+    expect(system.count()).toBe(100);
+    expect(system.dropped()).toBe(20);
+    expect(system.emit([0, 2, 0], 5, 5, SETTINGS, random)).toBe(0);
+    expect(system.dropped()).toBe(25);
+  });
+
+  it('spawns at the origin with the first colour and size stops', () => {
+    const system = createParticleSystem(10);
+    system.emit([1, 2, 3], 10, 5, SETTINGS, createRandom(7));
+    for (let i = 0; i < 10; i++) {
+      const p = system.particle(i);
+      expect([p.x, p.y, p.z]).toEqual([1, 2, 3]);
+      expect(Math.hypot(p.vx, p.vy, p.vz)).toBeGreaterThanOrEqual(5 * 0.6 - 1e-6);
+      expect(Math.hypot(p.vx, p.vy, p.vz)).toBeLessThanOrEqual(5);
+      expect(p.color).toBe('#ffffff');
+      expect(p.size).toBeCloseTo(SETTINGS.sizeCurve[0]);
+      expect(p.life).toBe(1);
+    }
+  });
+
+  it('retires expired particles and keeps the live ones packed at the front', () => {
+    const system = createParticleSystem(200);
+    system.emit([0, 3, 0], 200, 5, SETTINGS, createRandom(2));
+    // 壽命為 0.75..1.25 秒
+    system.update(0.5, SETTINGS, FORCES);
+    expect(system.count()).toBe(200);
+    system.update(0.5, SETTINGS, FORCES);
+    const alive = system.count();
+    expect(alive).toBeGreaterThan(0);
+    expect(alive).toBeLessThan(200);
+    for (let i = 0; i < alive; i++) expect(system.particle(i).life).toBeGreaterThan(0);
+    system.update(0.3, SETTINGS, FORCES);
+    expect(system.count()).toBe(0);
+  });
+
+  it('frees slots for the next burst', () => {
+    const system = createParticleSystem(50);
+    const random = createRandom(3);
+    system.emit([0, 3, 0], 50, 5, SETTINGS, random);
+    system.update(2, SETTINGS, FORCES);
+    expect(system.emit([0, 3, 0], 50, 5, SETTINGS, random)).toBe(50);
+  });
+
+  it('keeps particles outside the attractor', () => {
+    const system = createParticleSystem(100);
+    system.emit([0, 0, 0], 100, 20, { ...SETTINGS, lifetime: 100 }, createRandom(4));
+    const forces = { ...FORCES, radius: 2 };
+    let closest = Infinity;
+    for (let step = 0; step < 120; step++) {
+      system.update(1 / 60, { ...SETTINGS, lifetime: 100 }, forces);
+      for (let i = 0; i < system.count(); i++) {
+        const p = system.particle(i);
+        closest = Math.min(closest, Math.hypot(p.x, p.y, p.z));
+      }
+    }
+    expect(closest).toBeGreaterThanOrEqual(2 - 1e-4);
+  });
+
+  it('is deterministic for a given seed', () => {
+    const run = () => {
+      const system = createParticleSystem(20);
+      system.emit([0, 1, 0], 20, 6, SETTINGS, createRandom(99));
+      for (let step = 0; step < 30; step++) system.update(1 / 60, SETTINGS, { ...FORCES, spectrum: new Uint8Array([255, 0, 128, 64]) });
+      return Array.from(system.positions.subarray(0, system.count() * 3));
+    };
+    expect(run()).toEqual(run());
+  });
+
+  it('empties on clear', () => {
+    const system = createParticleSystem(10);
+    system.emit([0, 0, 0], 10, 1, SETTINGS, createRandom(5));
+    system.clear();
+    expect(system.count()).toBe(0);
+  });
+});
@@ -0,0 +1,234 @@
+import { Particle } from '../types';
+import { Random } from '../scenes/random';
+
+export type Rgb = [number, number, number];
+export type Point3 = [number, number, number];
+
+export interface ParticleSettings {
+  /** Seconds a particle lives; each particle gets ±25% around this. */
+  lifetime: number;
+  /** Colour over normalised life, evenly spaced stops (0..1 channels). */
+  colorRamp: Rgb[];
+  /** Size multiplier over normalised life, evenly spaced stops. */
+  sizeCurve: number[];
+  /** Outward acceleration per unit of spectrum energy in the particle's direction. */
+  spectrumForce: number;
+  /** Tangential acceleration around the attractor's vertical axis. */
+  orbitStrength: number;
+  /** Radius of the shell particles are pulled towards. */
+  orbitRadius: number;
+  /** Spring strength towards the orbit shell. */
+  attraction: number;
+  /** Velocity damping per second. */
+  drag: number;
+  /** Share of the normal velocity kept when bouncing off the attractor. */
+  restitution: number;
+}
+
+export interface ParticleForces {
+  /** Centre of the attractor (the pulse ball). */
+  center: Point3;
+  /** Particles cannot enter this sphere around the centre. */
+  radius: number;
+  /** Byte spectrum; bins are spread around the attractor by azimuth. */
+  spectrum: Uint8Array;
+}
+
+export const DEFAULT_PARTICLE_SETTINGS: ParticleSettings = {
+  lifetime: 2.5,
+  colorRamp: [[1, 1, 1], [0, 0.95, 1], [1, 0, 0.5]],
+  sizeCurve: [0.2, 1, 0],
+  spectrumForce: 12,
+  orbitStrength: 4,
+  orbitRadius: 4,
+  attraction: 1.5,
+  drag: 0.8,
+  restitution: 0.6,
+};
+
+/** Linear interpolation over evenly spaced stops; t is clamped to 0..1. */
+export const sampleCurve = (stops: number[], t: number) => {
+  if (stops.length === 0) return 0;
+  if (stops.length === 1) return stops[0];
+  const x = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(x));
+  return stops[i] + (stops[i + 1] - stops[i]) * (x - i);
+};
+
+export const sampleRamp = (stops: Rgb[], t: number, out: Rgb = [0, 0, 0]): Rgb => {
+  if (stops.length === 0) return out;
+  const x = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(x));
+  if (i < 0) {
+    out[0] = stops[0][0];
+    out[1] = stops[0][1];
+    out[2] = stops[0][2];
+    return out;
+  }
+  const f = x - i;
+  for (let c = 0; c < 3; c++) out[c] = stops[i][c] + (stops[i + 1][c] - stops[i][c]) * f;
+  return out;
+};
+
+const toHex = (rgb: Rgb) =>
+  `#${rgb.map(c => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * A fixed-size particle pool in flat typed arrays. Live particles are packed
+ * at the front, so `count()` is also the draw range; dead ones are swapped
+ * out. The pool never grows: a burst that does not fit is cut short.
+ * `positions`, `colors` and `sizes` are laid out for direct upload as
+ * buffer attributes; nothing here touches WebGL.
+ */
+export const createParticleSystem = (budget: number) => {
+  const positions = new Float32Array(budget * 3);
+  const velocities = new Float32Array(budget * 3);
+  const colors = new Float32Array(budget * 3);
+  const sizes = new Float32Array(budget);
+  const ages = new Float32Array(budget);
+  const lifetimes = new Float32Array(budget);
+  let count = 0;
+  let dropped = 0;
+  const rgb: Rgb = [0, 0, 0];
+
+  const move = (from: number, to: number) => {
+    positions.copyWithin(to * 3, from * 3, from * 3 + 3);
+    velocities.copyWithin(to * 3, from * 3, from * 3 + 3);
+    colors.copyWithin(to * 3, from * 3, from * 3 + 3);
+    sizes[to] = sizes[from];
+    ages[to] = ages[from];
+    lifetimes[to] = lifetimes[from];
+  };
+
+  return {
+    budget,
+    positions,
+    colors,
+    sizes,
+    count: () => count,
+    /** Particles that did not fit into the budget since creation. */
+    dropped: () => dropped,
+
+    /** Spawns up to `amount` particles at `origin`, flying out in random directions. Returns how many fit. */
+    emit: (origin: Point3, amount: number, speed: number, settings: ParticleSettings, random: Random) => {
+      const n = Math.max(0, Math.min(Math.floor(amount), budget - count));
+      dropped += Math.max(0, Math.floor(amount) - n);
+      for (let k = 0; k < n; k++) {
+        const i = count++;
+        // 球面上均勻分布的方向
+        const z = random.range(-1, 1);
+        const phi = random.range(0, Math.PI * 2);
+        const r = Math.sqrt(1 - z * z);
+        const v = speed * random.range(0.6, 1);
+        positions[i * 3] = origin[0];
+        positions[i * 3 + 1] = origin[1];
+        positions[i * 3 + 2] = origin[2];
+        velocities[i * 3] = r * Math.cos(phi) * v;
+        velocities[i * 3 + 1] = z * v;
+        velocities[i * 3 + 2] = r * Math.sin(phi) * v;
+        ages[i] = 0;
+        lifetimes[i] = settings.lifetime * random.range(0.75, 1.25);
+        sampleRamp(settings.colorRamp, 0, rgb);
+        colors.set(rgb, i * 3);
+        sizes[i] = sampleCurve(settings.sizeCurve, 0);
+      }
+      return n;
+    },
+
+    /** Ages, moves and collides every live particle, then refreshes colours and sizes. */
+    update: (dt: number, settings: ParticleSettings, forces: ParticleForces) => {
+      const [cx, cy, cz] = forces.center;
+      const { spectrum } = forces;
+      const damping = Math.exp(-settings.drag * dt);
+
+      for (let i = 0; i < count; i++) {
+        ages[i] += dt;
+        if (ages[i] >= lifetimes[i]) {
+          // 與最後一個交換，保持存活粒子連續
+          move(--count, i);
+          i--;
+          continue;
+        }
+
+        const p = i * 3;
+        let dx = positions[p] - cx;
+        let dy = positions[p + 1] - cy;
+        let dz = positions[p + 2] - cz;
+        const dist = Math.hypot(dx, dy, dz) || 1e-6;
+        const nx = dx / dist;
+        const ny = dy / dist;
+        const nz = dz / dist;
+
+        // 頻譜力：依方位角對應頻段，能量越高推得越遠
+        let energy = 0;
+        if (spectrum.length > 0) {
+          const azimuth = (Math.atan2(dz, dx) / (Math.PI * 2) + 1) % 1;
+          energy = spectrum[Math.min(spectrum.length - 1, Math.floor(azimuth * spectrum.length))] / 255;
+        }
+        const radial = energy * settings.spectrumForce - settings.attraction * (dist - settings.orbitRadius);
+        // 環繞：繞垂直軸的切線方向
+        const horizontal = Math.hypot(nx, nz) || 1e-6;
+        const tx = -nz / horizontal;
+        const tz = nx / horizontal;
+
+        velocities[p] = (velocities[p] + (nx * radial + tx * settings.orbitStrength) * dt) * damping;
+        velocities[p + 1] = (velocities[p + 1] + ny * radial * dt) * damping;
+        velocities[p + 2] = (velocities[p + 2] + (nz * radial + tz * settings.orbitStrength) * dt) * damping;
+
+        positions[p] += velocities[p] * dt;
+        positions[p + 1] += velocities[p + 1] * dt;
+        positions[p + 2] += velocities[p + 2] * dt;
+
+        // 與能量球碰撞：推回球面並反彈法向速度
+        dx = positions[p] - cx;
+        dy = positions[p + 1] - cy;
+        dz = positions[p + 2] - cz;
+        const after = Math.hypot(dx, dy, dz);
+        if (after < forces.radius && after > 0) {
+          const mx = dx / after;
+          const my = dy / after;
+          const mz = dz / after;
+          positions[p] = cx + mx * forces.radius;
+          positions[p + 1] = cy + my * forces.radius;
+          positions[p + 2] = cz + mz * forces.radius;
+          const vn = velocities[p] * mx + velocities[p + 1] * my + velocities[p + 2] * mz;
+          if (vn < 0) {
+            const bounce = (1 + settings.restitution) * vn;
+            velocities[p] -= bounce * mx;
+            velocities[p + 1] -= bounce * my;
+            velocities[p + 2] -= bounce * mz;
+          }
+        }
+
+        const t = ages[i] / lifetimes[i];
+        sampleRamp(settings.colorRamp, t, rgb);
+        colors[p] = rgb[0];
+        colors[p + 1] = rgb[1];
+        colors[p + 2] = rgb[2];
+        sizes[i] = sampleCurve(settings.sizeCurve, t);
+      }
+    },
+
+    /** Snapshot of one live particle, for inspection and tests. */
+    particle: (i: number): Particle => {
+      const p = i * 3;
+      return {
+        x: positions[p],
+        y: positions[p + 1],
+        z: positions[p + 2],
+        vx: velocities[p],
+        vy: velocities[p + 1],
+        vz: velocities[p + 2],
+        size: sizes[i],
+        color: toHex([colors[p], colors[p + 1], colors[p + 2]]),
+        life: 1 - ages[i] / lifetimes[i],
+      };
+    },
+
+    clear: () => {
+      count = 0;
+    },
+  };
+};
+
+export type ParticleSystem = ReturnType<typeof createParticleSystem>;
@@ -0,0 +1,45 @@
+import React, { useEffect, useRef } from 'react';
+import { addAfterEffect, useFrame, useThree } from '@react-three/fiber';
+import { PerfMonitor } from './monitor';
+
+const MAX_INTERVAL_MS = 1000;
+
+interface PerfProbeProps {
+  monitor: PerfMonitor;
+}
+
+/**
+ * Times every frame of the canvas it lives in: from the first useFrame
+ * callback to the end of the render, plus the interval between frames.
+ */
+const PerfProbe: React.FC<PerfProbeProps> = ({ monitor }) => {
+  const gl = useThree(state => state.gl);
+  const start = useRef(0);
+  const last = useRef(0);
+  // after effect 是全域的；只有這個 canvas 真的跑過一幀才記錄
+  const pending = useRef(false);
+
+  useFrame(() => {
+    start.current = performance.now();
+    pending.current = true;
+  }, -10);
+
+  useEffect(
+    () =>
+      addAfterEffect(() => {
+        if (!pending.current) return;
+        pending.current = false;
+        const now = performance.now();
+        // 超過一秒的間隔是暫停或背景分頁，不算卡頓
+        if (last.current && now - last.current < MAX_INTERVAL_MS) {
+          monitor.record(now - last.current, now - start.current, gl.info.render);
+        }
+        last.current = now;
+      }),
+    [gl, monitor]
+  );
+
+  return null;
+};
+
+export default PerfProbe;
@@ -0,0 +1,68 @@
+export interface PerfStats {
+  /** Frames per second over the sample window. */
+  fps: number;
+  /** Mean time between frames, ms. */
+  frameMs: number;
+  /** Longest time between frames in the window, ms: the stutter you notice. */
+  worstMs: number;
+  /** Mean main-thread time spent on scene updates and the render call, ms. */
+  cpuMs: number;
+  drawCalls: number;
+  triangles: number;
+}
+
+export interface RenderInfo {
+  calls: number;
+  triangles: number;
+}
+
+const EMPTY_STATS: PerfStats = { fps: 0, frameMs: 0, worstMs: 0, cpuMs: 0, drawCalls: 0, triangles: 0 };
+
+/**
+ * Rolling frame-time statistics. The canvas records one sample per rendered
+ * frame; the HUD reads `stats()` a few times per second, so nothing here
+ * triggers React renders from inside the frame loop.
+ */
+export const createPerfMonitor = (windowSize = 120) => {
+  const intervals = new Float32Array(windowSize);
+  const work = new Float32Array(windowSize);
+  let count = 0;
+  let next = 0;
+  let last: RenderInfo = { calls: 0, triangles: 0 };
+
+  return {
+    record: (intervalMs: number, cpuMs: number, info: RenderInfo) => {
+      intervals[next] = intervalMs;
+      work[next] = cpuMs;
+      next = (next + 1) % windowSize;
+      count = Math.min(count + 1, windowSize);
+      last = { calls: info.calls, triangles: info.triangles };
+    },
+    stats: (): PerfStats => {
+      if (count === 0) return EMPTY_STATS;
+      let total = 0;
+      let worst = 0;
+      let cpu = 0;
+      for (let i = 0; i < count; i++) {
+        total += intervals[i];
+        worst = Math.max(worst, intervals[i]);
+        cpu += work[i];
+      }
+      const frameMs = total / count;
+      return {
+        fps: frameMs > 0 ? 1000 / frameMs : 0,
+        frameMs,
+        worstMs: worst,
+        cpuMs: cpu / count,
+        drawCalls: last.calls,
+        triangles: last.triangles,
+      };
+    },
+    reset: () => {
+      count = 0;
+      next = 0;
+    },
+  };
+};
+
+export type PerfMonitor = ReturnType<typeof createPerfMonitor>;
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { PublicApi, useBox, usePlane, useSphere } from '@react-three/cannon';
+import * as THREE from 'three';
+import { useAudioData } from '../audio/AudioDataContext';
+import { useRandom } from '../scenes/RandomContext';
+import { BoxGeometry, Mesh, MeshBasicMaterial, MeshStandardMaterial, PlaneGeometry, SphereGeometry } from '../scenes/elements';
+import { usePlayground } from './PlaygroundContext';
+import { useGrab } from './useGrab';
+import { useHitEmitter } from './useHitEmitter';
+import {
+  BodyShape,
+  RestState,
+  SpawnedBody,
+  Triplet,
+  admitBodies,
+  createBodies,
+  fieldForce,
+  isExpired,
+  trackRest
+} from './playground';
+
+/** Bodies clicked into the scene drop from this height. */
+const SPAWN_HEIGHT = 8;
+/** Spawns from the panel land somewhere inside this radius around the centre. */
+const PANEL_SPREAD = 3;
+// 拖動超過此距離 (px) 視為轉動鏡頭，不算點擊
+const CLICK_TOLERANCE = 4;
+const FLOOR_Y = -0.5;
+const BODY_MASS = 0.5;
+const DEBRIS_MASS = 0.1;
+
+const BODY_COLORS: Record<BodyShape, string> = { sphere: '#ff0080', cube: '#00f2ff', debris: '#ffffff' };
+
+interface BodyProps {
+  body: SpawnedBody;
+  onExpire: (id: number) => void;
+}
+
+const force: Triplet = [0, 0, 0];
+const CENTER: Triplet = [0, 0, 0];
+
+const bodyProps = (body: SpawnedBody, onCollide: ReturnType<typeof useHitEmitter>) => ({
+  mass: body.debris ? DEBRIS_MASS : BODY_MASS,
+  position: body.position,
+  velocity: body.velocity,
+  linearDamping: 0.1,
+  angularDamping: 0.1,
+  // 靜止的物體進入睡眠，不再參與模擬
+  allowSleep: true,
+  sleepSpeedLimit: 0.2,
+  sleepTimeLimit: 1,
+  onCollide,
+});
+
+// 每個生成物體共用的行為：力場、靜止計時與清除
+const useBodyBehaviour = (api: PublicApi, body: SpawnedBody, onExpire: (id: number) => void) => {
+  const { settings } = usePlayground();
+  const audio = useAudioData();
+  const position = useRef<ArrayLike<number>>(body.position);
+  const rest = useRef<RestState | undefined>(undefined);
+  const expired = useRef(false);
+  const mass = body.debris ? DEBRIS_MASS : BODY_MASS;
+
+  useEffect(() => api.position.subscribe(v => (position.current = v)), [api]);
+
+  useFrame(({ clock }) => {
+    if (expired.current) return;
+    const time = clock.elapsedTime;
+    rest.current = trackRest(rest.current, position.current, time);
+    if (isExpired(rest.current, position.current, time)) {
+      expired.current = true;
+      onExpire(body.id);
+      return;
+    }
+
+    if (settings.field === 'off') return;
+    // 低音讓力場脈動
+    const strength = settings.fieldStrength * (1 + settings.fieldBass * audio.current.bassIntensity);
+    fieldForce(settings.field, strength, position.current, force);
+    api.applyForce([force[0] * mass, force[1] * mass, force[2] * mass], CENTER);
+  });
+
+  return useGrab(api, position);
+};
+
+const SpawnedSphere = ({ body, onExpire }: BodyProps) => {
+  const onCollide = useHitEmitter(body.debris ? 'debris' : 'sphere');
+  const [ref, api] = useSphere<THREE.Mesh>(() => ({ ...bodyProps(body, onCollide), args: [body.size] }));
+  const grab = useBodyBehaviour(api, body, onExpire);
+
+  return (
+    <Mesh ref={ref} castShadow {...grab}>
+      <SphereGeometry args={[body.size, 16, 16]} />
+      <MeshStandardMaterial color="#ffffff" emissive={BODY_COLORS[body.debris ? 'debris' : 'sphere']} emissiveIntensity={1.5} metalness={0.6} roughness={0.3} />
+    </Mesh>
+  );
+};
+
+const SpawnedCube = ({ body, onExpire }: BodyProps) => {
+  const onCollide = useHitEmitter(body.debris ? 'debris' : 'cube');
+  const size: Triplet = [body.size, body.size, body.size];
+  const [ref, api] = useBox<THREE.Mesh>(() => ({ ...bodyProps(body, onCollide), args: size }));
+  const grab = useBodyBehaviour(api, body, onExpire);
+
+  return (
+    <Mesh ref={ref} castShadow {...grab}>
+      <BoxGeometry args={size} />
+      <MeshStandardMaterial color="#ffffff" emissive={BODY_COLORS[body.debris ? 'debris' : 'cube']} emissiveIntensity={1.5} metalness={0.6} roughness={0.3} />
+    </Mesh>
+  );
+};
+
+interface FloorProps {
+  onSpawn: (at: Triplet) => void;
+}
+
+// 遊樂場模式的地面：接住生成的物體，點擊即在該處生成
+const Floor = ({ onSpawn }: FloorProps) => {
+  const [ref] = usePlane<THREE.Mesh>(() => ({ type: 'Static', rotation: [-Math.PI / 2, 0, 0], position: [0, FLOOR_Y, 0] }));
+
+  const onClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > CLICK_TOLERANCE) return;
+    e.stopPropagation();
+    onSpawn([e.point.x, SPAWN_HEIGHT, e.point.z]);
+  };
+
+  return (
+    <Mesh ref={ref} onClick={onClick}>
+      <PlaneGeometry args={[100, 100]} />
+      {/* 只用來接收點擊，實際地面由 Visualizer 繪製 */}
+      <MeshBasicMaterial transparent opacity={0} depthWrite={false} />
+    </Mesh>
+  );
+};
+
+/**
+ * User-spawned bodies for interactive mode. Bodies come from floor clicks and
+ * the playground panel, feel the preset's force field, and are removed once
+ * they have rested for a while or fallen off the world. Past the preset's
+ * body cap the oldest go first, so long sessions stay stable.
+ */
+const PlaygroundBodies: React.FC = () => {
+  const { enabled, settings, handle } = usePlayground();
+  const [bodies, setBodies] = useState<SpawnedBody[]>([]);
+  const random = useRandom('playground');
+  const nextId = useRef(0);
+  const maxBodies = useRef(settings.maxBodies);
+  maxBodies.current = settings.maxBodies;
+
+  const spawn = (shape: BodyShape, at: Triplet) => {
+    const added = createBodies(shape, at, random.range, () => nextId.current++);
+    setBodies(prev => admitBodies(prev, added, maxBodies.current));
+  };
+
+  const expire = useRef((id: number) => setBodies(prev => prev.filter(b => b.id !== id))).current;
+
+  useFrame(() => {
+    if (!handle) return;
+    const requests = handle.take();
+    if (!enabled) return;
+    if (requests.clear) setBodies([]);
+    for (const shape of requests.spawns) {
+      spawn(shape, [random.range(-PANEL_SPREAD, PANEL_SPREAD), SPAWN_HEIGHT, random.range(-PANEL_SPREAD, PANEL_SPREAD)]);
+    }
+  });
+
+  // 離開互動模式時清空；上限調低時移除最舊的物體
+  useEffect(() => {
+    if (!enabled) setBodies([]);
+  }, [enabled]);
+  useEffect(() => {
+    setBodies(prev => admitBodies(prev, [], settings.maxBodies));
+  }, [settings.maxBodies]);
+  useEffect(() => handle?.setCount(bodies.length), [handle, bodies.length]);
+
+  if (!enabled) return null;
+
+  return (
+    <>
+      <Floor onSpawn={at => spawn(settings.shape, at)} />
+      {bodies.map(body =>
+        body.shape === 'sphere' ? (
+          <SpawnedSphere key={body.id} body={body} onExpire={expire} />
+        ) : (
+          <SpawnedCube key={body.id} body={body} onExpire={expire} />
+        )
+      )}
+    </>
+  );
+};
+
+export default PlaygroundBodies;
@@ -0,0 +1,26 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { PlaygroundSettings, createDefaultPlayground } from './playground';
+import { PlaygroundHandle } from './handle';
+
+export interface PlaygroundState {
+  /** Interactive mode: bodies can be grabbed, flung and spawned. */
+  enabled: boolean;
+  settings: PlaygroundSettings;
+  handle: PlaygroundHandle | null;
+}
+
+// 沒有 provider 時 (例如匯出影片) 場景完全不可互動
+const PlaygroundContext = createContext<PlaygroundState>({ enabled: false, settings: createDefaultPlayground(), handle: null });
+
+export const PlaygroundProvider: React.FC<PlaygroundState & { children: React.ReactNode }> = ({
+  enabled,
+  settings,
+  handle,
+  children
+}) => {
+  const value = useMemo(() => ({ enabled, settings, handle }), [enabled, settings, handle]);
+  return <PlaygroundContext.Provider value={value}>{children}</PlaygroundContext.Provider>;
+};
+
+/** Whether the scene is interactive, and the playground settings of the preset. */
+export const usePlayground = () => useContext(PlaygroundContext);
@@ -0,0 +1,55 @@
+import { BodyShape, HitEvent } from './playground';
+
+type HitListener = (hit: HitEvent) => void;
+type CountListener = (count: number) => void;
+
+/**
+ * Connects the playground panel and the hit sounds outside the canvas with
+ * the bodies inside it. The UI queues spawns and clears, which the playground
+ * picks up on its next frame; collisions and the body count flow back out.
+ */
+export const createPlaygroundHandle = () => {
+  let spawns: BodyShape[] = [];
+  let clear = false;
+  let count = 0;
+  const hitListeners = new Set<HitListener>();
+  const countListeners = new Set<CountListener>();
+
+  return {
+    /** Drops one spawn of `shape` above the ring. */
+    spawn: (shape: BodyShape) => {
+      spawns.push(shape);
+    },
+    clear: () => {
+      clear = true;
+      spawns = [];
+    },
+    take: () => {
+      const next = { spawns, clear };
+      spawns = [];
+      clear = false;
+      return next;
+    },
+    onHit: (listener: HitListener) => {
+      hitListeners.add(listener);
+      return () => {
+        hitListeners.delete(listener);
+      };
+    },
+    hit: (event: HitEvent) => hitListeners.forEach(listener => listener(event)),
+    onCount: (listener: CountListener) => {
+      countListeners.add(listener);
+      listener(count);
+      return () => {
+        countListeners.delete(listener);
+      };
+    },
+    setCount: (next: number) => {
+      if (next === count) return;
+      count = next;
+      countListeners.forEach(listener => listener(count));
+    },
+  };
+};
+
+export type PlaygroundHandle = ReturnType<typeof createPlaygroundHandle>;
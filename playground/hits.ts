@@ -0,0 +1,116 @@
+import { HitEvent } from './playground';
+
+/** How a hit is voiced: synthesized, or the user's sample. */
+export interface HitVoiceOptions {
+  sample: AudioBuffer | null;
+  volume: number;
+}
+
+// 同時發聲上限；大量物體同時落地時丟掉多出的撞擊
+const MAX_VOICES = 16;
+// 量化到同一格的同類撞擊只發一次聲，避免疊在一起爆音
+const SLOT_TOLERANCE = 0.005;
+/** Impact speed (m/s) at which a hit plays at full volume. */
+const FULL_SPEED = 12;
+
+/** Sample playback rate per kind of body: heavy things sound lower. */
+const SAMPLE_RATES: Record<HitEvent['shape'], number> = { ball: 0.6, sphere: 1, cube: 1.3, debris: 1.8 };
+
+/**
+ * Plays playground collisions straight to the speakers, bypassing the
+ * analyser so the hits do not feed back into the visuals.
+ */
+export const createHitPlayer = (ctx: AudioContext) => {
+  const output = ctx.createGain();
+  output.connect(ctx.destination);
+  let voices = 0;
+  const lastSlot: Partial<Record<HitEvent['shape'], number>> = {};
+
+  const noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const samples = noise.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+  // 包絡：極短的起音後指數衰減
+  const envelope = (when: number, level: number, decay: number) => {
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, when);
+    gain.gain.linearRampToValueAtTime(level, when + 0.002);
+    gain.gain.exponentialRampToValueAtTime(0.0001, when + decay);
+    return gain;
+  };
+
+  const tone = (when: number, level: number, from: number, to: number, decay: number) => {
+    const osc = ctx.createOscillator();
+    osc.frequency.setValueAtTime(from, when);
+    osc.frequency.exponentialRampToValueAtTime(to, when + decay);
+    const gain = envelope(when, level, decay);
+    osc.connect(gain);
+    osc.start(when);
+    osc.stop(when + decay);
+    return { source: osc as AudioScheduledSourceNode, gain };
+  };
+
+  const burst = (when: number, level: number, type: BiquadFilterType, frequency: number, decay: number) => {
+    const source = ctx.createBufferSource();
+    source.buffer = noise;
+    const filter = ctx.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.Q.value = 2;
+    const gain = envelope(when, level, decay);
+    source.connect(filter).connect(gain);
+    source.start(when, Math.random() * 0.5);
+    source.stop(when + decay);
+    return { source: source as AudioScheduledSourceNode, gain };
+  };
+
+  const synth = (hit: HitEvent, when: number, level: number) => {
+    switch (hit.shape) {
+      case 'ball':
+        return tone(when, level, 90, 40, 0.3);
+      case 'sphere':
+        // 撞得越快音越高
+        return tone(when, level * 0.7, 330 + hit.speed * 20, 220, 0.18);
+      case 'cube':
+        return burst(when, level, 'bandpass', 1200, 0.08);
+      case 'debris':
+        return burst(when, level * 0.6, 'highpass', 4000, 0.03);
+    }
+  };
+
+  const sampled = (hit: HitEvent, when: number, level: number, buffer: AudioBuffer) => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = SAMPLE_RATES[hit.shape];
+    const gain = ctx.createGain();
+    gain.gain.value = level;
+    source.connect(gain);
+    source.start(when);
+    return { source: source as AudioScheduledSourceNode, gain };
+  };
+
+  return {
+    /** Plays `hit` after `delay` seconds, e.g. to land on the next beat. */
+    play: (hit: HitEvent, delay: number, { sample, volume }: HitVoiceOptions) => {
+      const when = ctx.currentTime + delay;
+      const previous = lastSlot[hit.shape];
+      if (voices >= MAX_VOICES || (previous !== undefined && Math.abs(when - previous) < SLOT_TOLERANCE)) return;
+      lastSlot[hit.shape] = when;
+
+      const level = volume * Math.min(1, hit.speed / FULL_SPEED);
+      const voice = sample ? sampled(hit, when, level, sample) : synth(hit, when, level);
+      const panner = ctx.createStereoPanner();
+      panner.pan.value = hit.pan;
+      voice.gain.connect(panner).connect(output);
+
+      voices++;
+      voice.source.onended = () => {
+        voices--;
+        panner.disconnect();
+      };
+    },
+    dispose: () => output.disconnect(),
+  };
+};
+
+export type HitPlayer = ReturnType<typeof createHitPlayer>;
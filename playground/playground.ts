@@ -0,0 +1,201 @@
+import { BeatState } from '../types';
+
+export type BodyShape = 'sphere' | 'cube' | 'debris';
+/** A force field every spawned body feels, centred above the ring. */
+export type FieldKind = 'off' | 'attract' | 'repel' | 'vortex';
+export type HitSound = 'off' | 'synth' | 'sample';
+/** Grid that collision sounds snap to, in beats of the detected tempo. */
+export type HitQuantize = 'off' | 'beat' | 'half' | 'quarter';
+
+export interface PlaygroundSettings {
+  /** What a click on the floor spawns. */
+  shape: BodyShape;
+  /** Oldest bodies are removed beyond this count. */
+  maxBodies: number;
+  /** The ring's colliders rise with the bars, carrying bodies with them. */
+  rideBars: boolean;
+  field: FieldKind;
+  fieldStrength: number;
+  /** Bass adds up to this fraction of the strength on top. */
+  fieldBass: number;
+  sound: HitSound;
+  volume: number;
+  quantize: HitQuantize;
+}
+
+export type Triplet = [number, number, number];
+
+/** One body added by the user. */
+export interface SpawnedBody {
+  id: number;
+  shape: 'sphere' | 'cube';
+  /** Radius for spheres, edge length for cubes. */
+  size: number;
+  /** Part of a debris burst: lighter, and sounds like it. */
+  debris: boolean;
+  position: Triplet;
+  velocity: Triplet;
+}
+
+/** A collision loud enough to be heard. */
+export interface HitEvent {
+  shape: BodyShape | 'ball';
+  /** Impact speed in m/s. */
+  speed: number;
+  /** -1 (left) .. 1 (right), from where it happened. */
+  pan: number;
+  /** The beat tracker's tempo when it happened, in the audio clock. */
+  beat: Pick<BeatState, 'bpm' | 'confidence' | 'lastBeatTime'>;
+}
+
+export const BODY_SHAPES: { id: BodyShape; label: string }[] = [
+  { id: 'sphere', label: 'Sphere' },
+  { id: 'cube', label: 'Cube' },
+  { id: 'debris', label: 'Debris' },
+];
+
+export const FIELD_KINDS: { id: FieldKind; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'attract', label: 'Attract' },
+  { id: 'repel', label: 'Repel' },
+  { id: 'vortex', label: 'Vortex' },
+];
+
+export const HIT_SOUNDS: { id: HitSound; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'synth', label: 'Synth' },
+  { id: 'sample', label: 'Sample' },
+];
+
+export const HIT_QUANTIZE: { id: HitQuantize; label: string }[] = [
+  { id: 'off', label: 'Free' },
+  { id: 'beat', label: '1 Beat' },
+  { id: 'half', label: '1/2 Beat' },
+  { id: 'quarter', label: '1/4 Beat' },
+];
+
+export const createDefaultPlayground = (): PlaygroundSettings => ({
+  shape: 'sphere',
+  maxBodies: 40,
+  rideBars: true,
+  field: 'off',
+  fieldStrength: 10,
+  fieldBass: 0.5,
+  sound: 'off',
+  volume: 0.6,
+  quantize: 'half',
+});
+
+/** Where attract, repel and vortex fields are centred: just above the ring's centre. */
+export const FIELD_CENTER: Triplet = [0, 3, 0];
+// 排斥場超過此距離就不再作用，避免把物體推出世界
+const FIELD_RADIUS = 20;
+// 吸引場中心附近不施力，避免物體在中心抖動
+const FIELD_CORE = 0.5;
+/** Inward pull of the vortex, relative to its swirl, so bodies orbit instead of flying off. */
+const VORTEX_PULL = 0.3;
+
+/**
+ * Force per unit mass the field puts on a body at `position`. Attract pulls
+ * towards the centre with a constant strength, repel pushes away and fades
+ * out with distance, vortex swirls around the vertical axis.
+ */
+export const fieldForce = (kind: FieldKind, strength: number, position: ArrayLike<number>, out: Triplet): Triplet => {
+  const dx = FIELD_CENTER[0] - position[0];
+  const dy = FIELD_CENTER[1] - position[1];
+  const dz = FIELD_CENTER[2] - position[2];
+  const distance = Math.hypot(dx, dy, dz);
+  out[0] = out[1] = out[2] = 0;
+  if (kind === 'off' || strength === 0 || distance < FIELD_CORE) return out;
+
+  if (kind === 'attract' || kind === 'repel') {
+    const scale = kind === 'attract' ? strength / distance : (-strength * Math.max(0, 1 - distance / FIELD_RADIUS)) / distance;
+    out[0] = dx * scale;
+    out[1] = dy * scale;
+    out[2] = dz * scale;
+    return out;
+  }
+
+  // 漩渦：繞 Y 軸的切線方向，加上少許水平向心力
+  const flat = Math.hypot(dx, dz);
+  if (flat < FIELD_CORE) return out;
+  out[0] = ((dz + dx * VORTEX_PULL) / flat) * strength;
+  out[2] = ((-dx + dz * VORTEX_PULL) / flat) * strength;
+  return out;
+};
+
+const QUANTIZE_BEATS: Record<HitQuantize, number> = { off: 0, beat: 1, half: 0.5, quarter: 0.25 };
+/** Below this tempo confidence hits play straight away. */
+const MIN_CONFIDENCE = 0.3;
+/** Hits this soon after a grid line still count as on it. */
+const LATE_TOLERANCE = 0.03;
+
+/**
+ * Seconds to wait from `now` (audio clock) until the next grid line of the
+ * detected tempo, or 0 when there is no confident tempo or quantizing is off.
+ */
+export const quantizeDelay = (now: number, beat: HitEvent['beat'], quantize: HitQuantize) => {
+  const beats = QUANTIZE_BEATS[quantize];
+  if (!beats || beat.bpm <= 0 || beat.confidence < MIN_CONFIDENCE || !isFinite(beat.lastBeatTime)) return 0;
+  const grid = (60 / beat.bpm) * beats;
+  const since = (((now - beat.lastBeatTime) % grid) + grid) % grid;
+  return since <= LATE_TOLERANCE ? 0 : grid - since;
+};
+
+/** Appends `added` and drops the oldest bodies past `max`. */
+export const admitBodies = (bodies: SpawnedBody[], added: SpawnedBody[], max: number) => {
+  const next = [...bodies, ...added];
+  return next.length > max ? next.slice(next.length - max) : next;
+};
+
+const DEBRIS_COUNT = 8;
+
+/** Bodies for one spawn of `shape` at `at`; debris is a burst of small mixed pieces. */
+export const createBodies = (
+  shape: BodyShape,
+  at: Triplet,
+  range: (min: number, max: number) => number,
+  nextId: () => number
+): SpawnedBody[] => {
+  if (shape !== 'debris') {
+    return [{ id: nextId(), shape, size: shape === 'sphere' ? 0.5 : 0.8, debris: false, position: [...at], velocity: [0, 0, 0] }];
+  }
+  return Array.from({ length: DEBRIS_COUNT }, () => ({
+    id: nextId(),
+    shape: range(0, 1) < 0.5 ? 'sphere' : 'cube',
+    size: range(0.15, 0.35),
+    debris: true,
+    position: [at[0] + range(-0.5, 0.5), at[1] + range(0, 1), at[2] + range(-0.5, 0.5)],
+    velocity: [range(-4, 4), range(2, 6), range(-4, 4)],
+  }));
+};
+
+/** Where a body last started resting, and since when. */
+export interface RestState {
+  anchor: Triplet;
+  since: number;
+}
+
+/** Moving less than this (m) from the anchor counts as resting. */
+const REST_DISTANCE = 0.05;
+/** Seconds a body may rest before it is cleaned up. */
+export const REST_TIMEOUT = 8;
+/** Bodies that fell off the world are removed below this height. */
+export const FALL_LIMIT = -20;
+
+/** Moves the anchor when the body has moved away from it; returns the (possibly new) state. */
+export const trackRest = (rest: RestState | undefined, position: ArrayLike<number>, time: number): RestState => {
+  if (
+    rest &&
+    Math.abs(position[0] - rest.anchor[0]) < REST_DISTANCE &&
+    Math.abs(position[1] - rest.anchor[1]) < REST_DISTANCE &&
+    Math.abs(position[2] - rest.anchor[2]) < REST_DISTANCE
+  ) {
+    return rest;
+  }
+  return { anchor: [position[0], position[1], position[2]], since: time };
+};
+
+/** True once a body has rested past the timeout or fallen out of the world. */
+export const isExpired = (rest: RestState, position: ArrayLike<number>, time: number) =>
+  position[1] < FALL_LIMIT || time - rest.since > REST_TIMEOUT;
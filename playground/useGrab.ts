@@ -0,0 +1,79 @@
+import { useRef } from 'react';
+import { ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { usePlayground } from './PlaygroundContext';
+
+/** The part of a cannon body api the grab needs. */
+interface GrabbableApi {
+  velocity: { set: (x: number, y: number, z: number) => void };
+  wakeUp: () => void;
+}
+
+// 抓取時以速度追向游標：係數越大越黏手，上限避免甩出世界
+const GRAB_STIFFNESS = 12;
+const MAX_FLING = 40;
+
+const goal = new THREE.Vector3();
+const hit = new THREE.Vector3();
+const facing = new THREE.Vector3();
+
+/**
+ * Pointer handlers that let the user grab a physics body and fling it. While
+ * held, the body is steered towards the pointer on a plane facing the camera;
+ * on release it keeps the velocity it had, so a quick drag throws it. Orbit
+ * controls pause during the drag. Does nothing outside interactive mode.
+ */
+export const useGrab = (api: GrabbableApi, position: React.MutableRefObject<ArrayLike<number>>) => {
+  const { enabled } = usePlayground();
+  const controls = useThree(state => state.controls) as (THREE.EventDispatcher & { enabled: boolean }) | null;
+  const drag = useRef<{ plane: THREE.Plane; offset: THREE.Vector3; target: THREE.Vector3 } | null>(null);
+
+  const release = (e?: ThreeEvent<PointerEvent>) => {
+    if (!drag.current) return;
+    drag.current = null;
+    if (controls) controls.enabled = true;
+    if (e) (e.target as Element).releasePointerCapture(e.pointerId);
+  };
+
+  useFrame(() => {
+    const current = drag.current;
+    if (!current) return;
+    if (!enabled) {
+      release();
+      return;
+    }
+    const p = position.current;
+    goal.set(current.target.x - p[0], current.target.y - p[1], current.target.z - p[2]).multiplyScalar(GRAB_STIFFNESS);
+    goal.clampLength(0, MAX_FLING);
+    api.velocity.set(goal.x, goal.y, goal.z);
+  });
+
+  return {
+    onPointerDown: (e: ThreeEvent<PointerEvent>) => {
+      if (!enabled) return;
+      e.stopPropagation();
+      (e.target as Element).setPointerCapture(e.pointerId);
+      // 拖曳平面通過抓取點並面向鏡頭
+      e.camera.getWorldDirection(facing);
+      const p = position.current;
+      drag.current = {
+        plane: new THREE.Plane().setFromNormalAndCoplanarPoint(facing, e.point),
+        offset: new THREE.Vector3(p[0], p[1], p[2]).sub(e.point),
+        target: new THREE.Vector3(p[0], p[1], p[2]),
+      };
+      if (controls) controls.enabled = false;
+      api.wakeUp();
+    },
+    onPointerMove: (e: ThreeEvent<PointerEvent>) => {
+      const current = drag.current;
+      if (!current || !e.ray.intersectPlane(current.plane, hit)) return;
+      current.target.copy(hit).add(current.offset);
+    },
+    onPointerUp: release,
+    onPointerCancel: release,
+    // 點擊物體不應在地面上生成新物體
+    onClick: (e: ThreeEvent<MouseEvent>) => {
+      if (enabled) e.stopPropagation();
+    },
+  };
+};
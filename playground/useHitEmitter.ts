@@ -0,0 +1,44 @@
+import { useRef } from 'react';
+import { CollideEvent } from '@react-three/cannon';
+import { useBeatTracker } from '../audio/AudioDataContext';
+import { usePlayground } from './PlaygroundContext';
+import { HitEvent } from './playground';
+
+// 低於此撞擊速度 (m/s) 的接觸不出聲，例如靜止時的滾動
+const MIN_HIT_SPEED = 2;
+// 同一物體的連續碰撞至少間隔這麼久 (ms)
+const HIT_COOLDOWN_MS = 80;
+/** Contact x at which a hit pans fully left or right. */
+const PAN_WIDTH = 12;
+
+/**
+ * An onCollide handler for one body that turns audible impacts into
+ * playground hit events. Stable across renders, since cannon keeps the
+ * handler it was created with.
+ */
+export const useHitEmitter = (shape: HitEvent['shape']) => {
+  const playground = usePlayground();
+  const beat = useBeatTracker();
+  const state = useRef({ playground, beat, last: 0 });
+  state.current.playground = playground;
+  state.current.beat = beat;
+
+  const emit = useRef((e: CollideEvent) => {
+    const { playground, beat, last } = state.current;
+    if (!playground.enabled || !playground.handle || playground.settings.sound === 'off') return;
+    const speed = Math.abs(e.contact.impactVelocity);
+    const now = performance.now();
+    if (speed < MIN_HIT_SPEED || now - last < HIT_COOLDOWN_MS) return;
+    state.current.last = now;
+
+    // 只需要節奏與最後一拍，不需要當下相位
+    const { bpm, confidence, lastBeatTime } = beat.getState(0);
+    playground.handle.hit({
+      shape,
+      speed,
+      pan: Math.max(-1, Math.min(1, e.contact.contactPoint[0] / PAN_WIDTH)),
+      beat: { bpm, confidence, lastBeatTime },
+    });
+  });
+  return emit.current;
+};
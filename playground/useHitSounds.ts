@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PlaygroundHandle } from './handle';
+import { HitPlayer, createHitPlayer } from './hits';
+import { PlaygroundSettings, quantizeDelay } from './playground';
+
+interface HitSoundOptions {
+  handle: PlaygroundHandle;
+  settings: PlaygroundSettings;
+  /** The app's audio context; hits are silent until it exists. */
+  context: React.MutableRefObject<AudioContext | null>;
+  /** Creates the audio context on demand, to decode a sample. */
+  ensureContext: () => AudioContext;
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Plays the playground's collisions, snapped to the detected tempo when the
+ * preset asks for it. The user's sample lives only for the session; without
+ * one, sample mode falls back to the synthesized hits.
+ */
+export const useHitSounds = ({ handle, settings, context, ensureContext }: HitSoundOptions) => {
+  const [sample, setSample] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const sampleRef = useRef(sample);
+  sampleRef.current = sample;
+
+  useEffect(() => {
+    let player: HitPlayer | null = null;
+    let playerContext: AudioContext | null = null;
+    const unsubscribe = handle.onHit(hit => {
+      const ctx = context.current;
+      const { sound, quantize, volume } = settingsRef.current;
+      if (!ctx || sound === 'off') return;
+      if (playerContext !== ctx) {
+        player?.dispose();
+        player = createHitPlayer(ctx);
+        playerContext = ctx;
+      }
+      const buffer = sound === 'sample' ? sampleRef.current?.buffer ?? null : null;
+      player!.play(hit, quantizeDelay(ctx.currentTime, hit.beat, quantize), { sample: buffer, volume });
+    });
+    return () => {
+      unsubscribe();
+      player?.dispose();
+    };
+  }, [handle, context]);
+
+  const loadSample = useCallback(
+    async (file: File) => {
+      try {
+        const buffer = await ensureContext().decodeAudioData(await file.arrayBuffer());
+        setSample({ name: file.name, buffer });
+        setError(null);
+      } catch (err) {
+        setError(`${file.name}: ${errorMessage(err)}`);
+      }
+    },
+    [ensureContext]
+  );
+
+  return {
+    sampleName: sample?.name ?? null,
+    error,
+    loadSample,
+    dismissError: useCallback(() => setError(null), []),
+  };
+};
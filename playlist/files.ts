@@ -0,0 +1,53 @@
+const AUDIO_EXTENSIONS = /\.(mp3|wav|ogg|oga|opus|flac|m4a|mp4|aac|webm|aiff?)$/i;
+
+export const isAudioFile = (file: File) => file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name);
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectory = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const all: FileSystemEntry[] = [];
+  // readEntries 每次只回傳一批，需要讀到空陣列為止
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return all;
+    all.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry): Promise<Array<{ path: string; file: File }>> => {
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    return [{ path: entry.fullPath, file }];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(collectEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+const byPath = (a: { path: string }, b: { path: string }) =>
+  a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: 'base' });
+
+/** Audio files from a file input, sorted by (relative) path so folders keep their track order. */
+export const filesFromList = (list: FileList | File[]) =>
+  Array.from(list)
+    .map(file => ({ path: file.webkitRelativePath || file.name, file }))
+    .sort(byPath)
+    .map(({ file }) => file)
+    .filter(isAudioFile);
+
+/** Audio files from a drop, walking into any dropped folders. */
+export const filesFromDataTransfer = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return filesFromList(dataTransfer.files);
+
+  const collected = (await Promise.all(entries.map(collectEntry))).flat();
+  return collected.sort(byPath).map(({ file }) => file).filter(isAudioFile);
+};
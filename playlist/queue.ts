@@ -0,0 +1,128 @@
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface QueueEntry {
+  id: string;
+  file: File;
+  /** Object URL owned by this entry; revoked only once the entry leaves the queue. */
+  url: string;
+  name: string;
+}
+
+export interface QueueState {
+  entries: QueueEntry[];
+  /** Play order as entry ids; equals entry order unless shuffle is on. */
+  order: string[];
+  currentId: string | null;
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+export type QueueAction =
+  | { type: 'add'; entries: QueueEntry[] }
+  | { type: 'remove'; id: string }
+  | { type: 'move'; from: number; to: number }
+  | { type: 'select'; id: string | null }
+  | { type: 'toggleShuffle' }
+  | { type: 'setRepeat'; repeat: RepeatMode }
+  | { type: 'clear' };
+
+export const initialQueueState: QueueState = {
+  entries: [],
+  order: [],
+  currentId: null,
+  shuffle: false,
+  repeat: 'off',
+};
+
+const REPEAT_CYCLE: RepeatMode[] = ['off', 'all', 'one'];
+
+export const nextRepeatMode = (mode: RepeatMode) =>
+  REPEAT_CYCLE[(REPEAT_CYCLE.indexOf(mode) + 1) % REPEAT_CYCLE.length];
+
+const shuffleIds = (ids: string[], random: () => number) => {
+  const result = [...ids];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/** Shuffled order with the current track first so toggling shuffle never skips it. */
+const buildShuffledOrder = (ids: string[], currentId: string | null, random: () => number) => {
+  const rest = shuffleIds(ids.filter(id => id !== currentId), random);
+  return currentId && ids.includes(currentId) ? [currentId, ...rest] : rest;
+};
+
+export const createQueueReducer = (random: () => number = Math.random) =>
+  (state: QueueState, action: QueueAction): QueueState => {
+    switch (action.type) {
+      case 'add': {
+        const entries = [...state.entries, ...action.entries];
+        const addedIds = action.entries.map(e => e.id);
+        const order = state.shuffle
+          ? [...state.order, ...shuffleIds(addedIds, random)]
+          : entries.map(e => e.id);
+        return { ...state, entries, order, currentId: state.currentId ?? addedIds[0] ?? null };
+      }
+      case 'remove': {
+        const entries = state.entries.filter(e => e.id !== action.id);
+        const order = state.order.filter(id => id !== action.id);
+        let currentId = state.currentId;
+        if (currentId === action.id) {
+          // 移除正在播放的曲目時，接續播放順序中的下一首
+          const position = state.order.indexOf(action.id);
+          currentId = order[Math.min(position, order.length - 1)] ?? null;
+        }
+        return { ...state, entries, order, currentId };
+      }
+      case 'move': {
+        const { from, to } = action;
+        if (from === to || from < 0 || to < 0 || from >= state.entries.length || to >= state.entries.length) {
+          return state;
+        }
+        const entries = [...state.entries];
+        const [moved] = entries.splice(from, 1);
+        entries.splice(to, 0, moved);
+        return { ...state, entries, order: state.shuffle ? state.order : entries.map(e => e.id) };
+      }
+      case 'select':
+        if (action.id !== null && !state.entries.some(e => e.id === action.id)) return state;
+        return { ...state, currentId: action.id };
+      case 'toggleShuffle': {
+        const shuffle = !state.shuffle;
+        const ids = state.entries.map(e => e.id);
+        return { ...state, shuffle, order: shuffle ? buildShuffledOrder(ids, state.currentId, random) : ids };
+      }
+      case 'setRepeat':
+        return { ...state, repeat: action.repeat };
+      case 'clear':
+        return { ...initialQueueState, shuffle: state.shuffle, repeat: state.repeat };
+      default:
+        return state;
+    }
+  };
+
+export const queueReducer = createQueueReducer();
+
+/**
+ * Id that should play after the current entry. `auto` is true when the track
+ * ended by itself, which is the only case where repeat-one applies.
+ * Returns null when playback should stop.
+ */
+export const getNextId = (state: QueueState, auto: boolean): string | null => {
+  if (!state.currentId || state.order.length === 0) return null;
+  if (auto && state.repeat === 'one') return state.currentId;
+
+  const position = state.order.indexOf(state.currentId);
+  if (position < state.order.length - 1) return state.order[position + 1];
+  return state.repeat === 'off' ? null : state.order[0];
+};
+
+export const getPreviousId = (state: QueueState): string | null => {
+  if (!state.currentId || state.order.length === 0) return null;
+
+  const position = state.order.indexOf(state.currentId);
+  if (position > 0) return state.order[position - 1];
+  return state.repeat === 'off' ? null : state.order[state.order.length - 1];
+};
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { TrackMetadata } from '../types';
+import { parseTags } from '../tags';
+import { WaveformOverview, channelsOf, computeWaveform, decodeAudioFile } from '../audio/waveform';
+import { SongStructure } from '../audio/structure';
+import { analyzeStructureOffThread } from '../audio/structureTask';
+import { QueueEntry } from './queue';
+
+export interface TrackInfo {
+  metadata: TrackMetadata;
+  waveform: WaveformOverview | null;
+  /** Sections found by the offline structure analysis. */
+  structure: SongStructure | null;
+}
+
+const WAVEFORM_BUCKETS = 1200;
+
+export const loadTrackInfo = async (file: File): Promise<TrackInfo> => {
+  const buffer = await file.arrayBuffer();
+  // 先解析標籤：decodeAudioData 會把 buffer detach 掉
+  let metadata: TrackMetadata = {};
+  try {
+    metadata = parseTags(new Uint8Array(buffer));
+  } catch (err) {
+    console.warn(`Could not read tags from ${file.name}`, err);
+  }
+
+  let waveform: WaveformOverview | null = null;
+  let structure: SongStructure | null = null;
+  try {
+    const decoded = await decodeAudioFile(buffer);
+    const channels = channelsOf(decoded);
+    waveform = computeWaveform(channels, decoded.sampleRate, WAVEFORM_BUCKETS);
+    try {
+      structure = await analyzeStructureOffThread(channels, decoded.sampleRate);
+    } catch (err) {
+      console.warn(`Could not find the sections of ${file.name}`, err);
+    }
+  } catch (err) {
+    console.warn(`Could not decode ${file.name} for the waveform overview`, err);
+  }
+
+  return { metadata, waveform, structure };
+};
+
+/** Loads tags, waveform and sections for the current entry on demand and caches them per queue entry. */
+export const useTrackInfo = (entries: QueueEntry[], current: QueueEntry | null) => {
+  const [info, setInfo] = useState<Record<string, TrackInfo>>({});
+  const requestedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!current || requestedRef.current.has(current.id)) return;
+    requestedRef.current.add(current.id);
+    loadTrackInfo(current.file)
+      .then(result => {
+        if (requestedRef.current.has(current.id)) setInfo(prev => ({ ...prev, [current.id]: result }));
+      })
+      .catch(() => {
+        // 讀檔失敗時顯示空資訊，下次選到這首再重試
+        if (!requestedRef.current.delete(current.id)) return;
+        setInfo(prev => ({ ...prev, [current.id]: { metadata: {}, waveform: null, structure: null } }));
+      });
+  }, [current]);
+
+  // 清除已離開佇列的項目
+  useEffect(() => {
+    const ids = new Set(entries.map(e => e.id));
+    requestedRef.current.forEach(id => {
+      if (!ids.has(id)) requestedRef.current.delete(id);
+    });
+    setInfo(prev => {
+      const kept = Object.entries(prev).filter(([id]) => ids.has(id));
+      return kept.length === Object.keys(prev).length ? prev : Object.fromEntries(kept);
+    });
+  }, [entries]);
+
+  return info;
+};
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
+import { QueueEntry, getNextId, getPreviousId, initialQueueState, nextRepeatMode, queueReducer } from './queue';
+
+let entrySeq = 0;
+
+const createEntry = (file: File): QueueEntry => ({
+  id: `${Date.now().toString(36)}-${entrySeq++}`,
+  file,
+  url: URL.createObjectURL(file),
+  name: file.name.replace(/\.[^.]+$/, ''),
+});
+
+/**
+ * Queue state plus object URL ownership: an entry's URL is created when it is
+ * added and revoked only after a render in which it is no longer queued, so the
+ * audio element has already moved on to another source.
+ */
+export const usePlaylist = () => {
+  const [state, dispatch] = useReducer(queueReducer, initialQueueState);
+  const liveUrlsRef = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    const queued = new Set(state.entries.map(e => e.id));
+    liveUrlsRef.current.forEach((url, id) => {
+      if (!queued.has(id)) {
+        URL.revokeObjectURL(url);
+        liveUrlsRef.current.delete(id);
+      }
+    });
+  }, [state.entries]);
+
+  useEffect(() => {
+    const urls = liveUrlsRef.current;
+    return () => {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  /** Queues the files and returns their new entries. */
+  const add = useCallback((files: File[]) => {
+    if (files.length === 0) return [];
+    const entries = files.map(createEntry);
+    entries.forEach(e => liveUrlsRef.current.set(e.id, e.url));
+    dispatch({ type: 'add', entries });
+    return entries;
+  }, []);
+
+  const current = useMemo(
+    () => state.entries.find(e => e.id === state.currentId) ?? null,
+    [state.entries, state.currentId]
+  );
+
+  return {
+    state,
+    current,
+    add,
+    remove: useCallback((id: string) => dispatch({ type: 'remove', id }), []),
+    move: useCallback((from: number, to: number) => dispatch({ type: 'move', from, to }), []),
+    select: useCallback((id: string | null) => dispatch({ type: 'select', id }), []),
+    toggleShuffle: useCallback(() => dispatch({ type: 'toggleShuffle' }), []),
+    cycleRepeat: useCallback(() => dispatch({ type: 'setRepeat', repeat: nextRepeatMode(state.repeat) }), [state.repeat]),
+    clear: useCallback(() => dispatch({ type: 'clear' }), []),
+    nextId: (auto: boolean) => getNextId(state, auto),
+    previousId: () => getPreviousId(state),
+  };
+};
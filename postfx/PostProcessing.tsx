@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { useAudioData, useBeat } from '../audio/AudioDataContext';
+import { decayBeatPulse } from '../modulation/matrix';
+import { useRandom } from '../scenes/RandomContext';
+import { useSection } from '../sections/SectionContext';
+import { PostFxId, PostFxPass, passLevel } from './chain';
+import { ChromaticAberrationShader, CrtShader, FilmGrainShader, GlitchShader } from './shaders';
+
+interface PostProcessingProps {
+  passes: PostFxPass[];
+}
+
+// Bloom 強度上限；其他 pass 直接用 0..1 的 amount
+const BLOOM_MAX = 3;
+
+const createPass = (id: PostFxId, size: THREE.Vector2): Pass => {
+  switch (id) {
+    case 'bloom':
+      return new UnrealBloomPass(size, 0, 0.4, 0.5);
+    case 'chromatic':
+      return new ShaderPass(ChromaticAberrationShader);
+    case 'glitch':
+      return new ShaderPass(GlitchShader);
+    case 'crt':
+      return new ShaderPass(CrtShader);
+    case 'grain':
+      return new ShaderPass(FilmGrainShader);
+  }
+};
+
+/**
+ * Renders the scene through the enabled passes, in chain order, instead of
+ * straight to the screen. The composer is rebuilt only when the order or the
+ * set of enabled passes changes; strengths are updated every frame from the
+ * audio features, so modulation never touches React.
+ */
+const PostProcessing: React.FC<PostProcessingProps> = ({ passes }) => {
+  const gl = useThree(state => state.gl);
+  const size = useThree(state => state.size);
+  const dpr = useThree(state => state.viewport.dpr);
+  const audio = useAudioData();
+  const section = useSection();
+  const random = useRandom('glitch');
+
+  const latest = useRef(passes);
+  latest.current = passes;
+  const pendingBeat = useRef<{ strength: number } | null>(null);
+  const pulse = useRef(0);
+  const levels = useRef<Partial<Record<PostFxId, number>>>({});
+
+  useBeat(beat => (pendingBeat.current = beat));
+
+  const order = passes.filter(p => p.enabled).map(p => p.id).join(',');
+
+  const chain = useMemo(() => {
+    const composer = new EffectComposer(gl);
+    const render = new RenderPass(new THREE.Scene(), new THREE.Camera());
+    composer.addPass(render);
+    const effects = new Map<PostFxId, Pass>();
+    for (const id of order.split(',').filter(Boolean) as PostFxId[]) {
+      const pass = createPass(id, new THREE.Vector2(256, 256));
+      composer.addPass(pass);
+      effects.set(id, pass);
+    }
+    // 色調映射與 sRGB 轉換放在最後
+    composer.addPass(new OutputPass());
+    return { composer, render, effects };
+  }, [gl, order]);
+
+  useEffect(() => {
+    chain.composer.setPixelRatio(dpr);
+    chain.composer.setSize(size.width, size.height);
+    const crt = chain.effects.get('crt') as ShaderPass | undefined;
+    crt?.uniforms.resolution.value.set(size.width * dpr, size.height * dpr);
+  }, [chain, size, dpr]);
+
+  useEffect(
+    () => () => {
+      chain.composer.passes.forEach(pass => pass.dispose());
+      chain.composer.dispose();
+    },
+    [chain]
+  );
+
+  useFrame((state, delta) => {
+    pulse.current = decayBeatPulse(pulse.current, delta, pendingBeat.current ?? undefined);
+    pendingBeat.current = null;
+    const inputs = { audio: audio.current, beatPulse: pulse.current, section: section.current.energy, time: state.clock.elapsedTime };
+
+    for (const pass of latest.current) {
+      const effect = chain.effects.get(pass.id);
+      if (!effect || !pass.enabled) continue;
+      // 輕微平滑，避免逐幀閃爍（節拍脈衝本身已有衰減）
+      const previous = levels.current[pass.id] ?? 0;
+      const level = previous + (passLevel(pass, inputs) - previous) * (1 - Math.pow(0.5, delta * 60));
+      levels.current[pass.id] = level;
+
+      if (effect instanceof UnrealBloomPass) {
+        effect.strength = level * BLOOM_MAX;
+      } else if (effect instanceof ShaderPass) {
+        effect.uniforms.amount.value = level;
+        if (pass.id === 'glitch') effect.uniforms.seed.value = random.next();
+        if (pass.id === 'grain') effect.uniforms.time.value = state.clock.elapsedTime;
+      }
+    }
+
+    // 每幀跟上目前的場景與預設相機
+    chain.render.scene = state.scene;
+    chain.render.camera = state.camera;
+    chain.composer.render(delta);
+  }, 1);
+
+  return null;
+};
+
+export default PostProcessing;
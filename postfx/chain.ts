@@ -0,0 +1,80 @@
+import { AudioFeature, ModInputs, readFeature } from '../modulation/matrix';
+
+export type PostFxId = 'bloom' | 'chromatic' | 'glitch' | 'crt' | 'grain';
+
+/** One pass of the post-processing chain; the array order is the render order. */
+export interface PostFxPass {
+  id: PostFxId;
+  enabled: boolean;
+  /** Base strength, 0..1. */
+  amount: number;
+  /** Audio feature added on top of the base strength, or null for a fixed strength. */
+  source: AudioFeature | null;
+  /** Strength added at full source level; negative subtracts. */
+  depth: number;
+}
+
+export const POSTFX_PASSES: { id: PostFxId; label: string }[] = [
+  { id: 'bloom', label: 'Bloom' },
+  { id: 'chromatic', label: 'Chromatic' },
+  { id: 'glitch', label: 'Glitch' },
+  { id: 'crt', label: 'CRT' },
+  { id: 'grain', label: 'Grain' },
+];
+
+export const POSTFX_SOURCES: { id: AudioFeature; label: string }[] = [
+  { id: 'bass', label: 'Bass' },
+  { id: 'mid', label: 'Mid' },
+  { id: 'treble', label: 'Treble' },
+  { id: 'rms', label: 'Level' },
+  { id: 'beat', label: 'Beat Pulse' },
+  { id: 'section', label: 'Section Energy' },
+];
+
+export const POSTFX_LIMITS = {
+  amount: [0, 1],
+  depth: [-1, 1],
+} as const;
+
+export const createDefaultPostFx = (): PostFxPass[] => [
+  { id: 'bloom', enabled: true, amount: 0.35, source: 'bass', depth: 0.4 },
+  { id: 'chromatic', enabled: true, amount: 0.1, source: 'treble', depth: 0.3 },
+  { id: 'glitch', enabled: true, amount: 0, source: 'beat', depth: 0.35 },
+  { id: 'crt', enabled: false, amount: 0.4, source: null, depth: 0 },
+  { id: 'grain', enabled: true, amount: 0.15, source: null, depth: 0 },
+];
+
+/** The pass's strength for this frame, clamped to 0..1. */
+export const passLevel = (pass: PostFxPass, inputs: ModInputs) => {
+  const level = pass.amount + (pass.source ? pass.depth * readFeature(pass.source, inputs) : 0);
+  return Math.min(1, Math.max(0, level));
+};
+
+/** Moves a pass one slot up (-1) or down (+1); out-of-range moves return the chain unchanged. */
+export const movePass = (passes: PostFxPass[], id: PostFxId, offset: -1 | 1) => {
+  const from = passes.findIndex(p => p.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= passes.length) return passes;
+  const next = [...passes];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
+
+// 減少動態時色差的上限
+const CALM_CHROMATIC = 0.1;
+
+/**
+ * The chain toned down for reduced motion: no glitch, beat-driven passes
+ * follow the smoother overall level instead, audio drive is halved and
+ * chromatic aberration is capped.
+ */
+export const calmPostFx = (passes: PostFxPass[]): PostFxPass[] =>
+  passes.map(pass => {
+    if (pass.id === 'glitch') return { ...pass, enabled: false };
+    return {
+      ...pass,
+      amount: pass.id === 'chromatic' ? Math.min(pass.amount, CALM_CHROMATIC) : pass.amount,
+      source: pass.source === 'beat' ? 'rms' : pass.source,
+      depth: pass.depth / 2,
+    };
+  });
@@ -0,0 +1,114 @@
+// Full-screen passes for ShaderPass. Every shader reads the previous pass
+// from tDiffuse and scales its effect by `amount` (0 leaves the image untouched).
+import { Vector2 } from 'three';
+
+const VERTEX = /* glsl */ `
+varying vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4( position, 1.0 );
+}`;
+
+const HASH = /* glsl */ `
+float hash( vec2 p ) {
+  return fract( sin( dot( p, vec2( 12.9898, 78.233 ) ) ) * 43758.5453 );
+}`;
+
+/** Radial colour fringing that grows towards the screen edges. */
+export const ChromaticAberrationShader = {
+  name: 'ChromaticAberrationShader',
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0 },
+  },
+  vertexShader: VERTEX,
+  fragmentShader: /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform float amount;
+varying vec2 vUv;
+void main() {
+  vec2 offset = ( vUv - 0.5 ) * amount * 0.02;
+  vec4 base = texture2D( tDiffuse, vUv );
+  gl_FragColor = vec4( texture2D( tDiffuse, vUv + offset ).r, base.g, texture2D( tDiffuse, vUv - offset ).b, base.a );
+}`,
+};
+
+/** Horizontal band displacement with an RGB split; `seed` changes the bands. */
+export const GlitchShader = {
+  name: 'GlitchShader',
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0 },
+    seed: { value: 0 },
+  },
+  vertexShader: VERTEX,
+  fragmentShader: /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform float amount;
+uniform float seed;
+varying vec2 vUv;
+${HASH}
+void main() {
+  vec2 uv = vUv;
+  float band = floor( uv.y * 24.0 );
+  // 只有部分橫帶會位移，數量隨強度增加
+  if ( hash( vec2( band, seed ) ) < amount ) {
+    uv.x += ( hash( vec2( seed, band ) ) - 0.5 ) * amount * 0.2;
+  }
+  vec2 split = vec2( amount * 0.015, 0.0 );
+  vec4 base = texture2D( tDiffuse, uv );
+  gl_FragColor = vec4( texture2D( tDiffuse, uv + split ).r, base.g, texture2D( tDiffuse, uv - split ).b, base.a );
+}`,
+};
+
+/** Scanlines, a slight barrel curve and a vignette. */
+export const CrtShader = {
+  name: 'CrtShader',
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0 },
+    resolution: { value: new Vector2(1, 1) },
+  },
+  vertexShader: VERTEX,
+  fragmentShader: /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform float amount;
+uniform vec2 resolution;
+varying vec2 vUv;
+void main() {
+  vec2 centered = vUv - 0.5;
+  vec2 uv = 0.5 + centered * ( 1.0 + dot( centered, centered ) * amount * 0.25 );
+  if ( uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0 ) {
+    gl_FragColor = vec4( 0.0, 0.0, 0.0, 1.0 );
+    return;
+  }
+  vec4 color = texture2D( tDiffuse, uv );
+  float scanline = 0.5 + 0.5 * sin( uv.y * resolution.y * 3.14159 );
+  color.rgb *= mix( 1.0, scanline, amount * 0.5 );
+  color.rgb *= mix( 1.0, smoothstep( 0.8, 0.2, length( centered ) ), amount );
+  gl_FragColor = color;
+}`,
+};
+
+/** Animated luminance noise. */
+export const FilmGrainShader = {
+  name: 'FilmGrainShader',
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0 },
+    time: { value: 0 },
+  },
+  vertexShader: VERTEX,
+  fragmentShader: /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform float amount;
+uniform float time;
+varying vec2 vUv;
+${HASH}
+void main() {
+  vec4 color = texture2D( tDiffuse, vUv );
+  float noise = hash( vUv * 1000.0 + fract( time ) * 100.0 ) - 0.5;
+  color.rgb += noise * amount * 0.25;
+  gl_FragColor = color;
+}`,
+};
@@ -0,0 +1,10 @@
+/** Thrown when a preset cannot be loaded; `issues` lists every problem found, one per line. */
+export class PresetError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length ? `${message}\n${issues.map(i => `• ${i}`).join('\n')}` : message);
+    this.name = 'PresetError';
+    this.issues = issues;
+  }
+}
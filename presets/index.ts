@@ -0,0 +1,5 @@
+export * from './schema';
+export * from './errors';
+export * from './migrations';
+export * from './validate';
+export * from './io';
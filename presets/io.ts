@@ -0,0 +1,83 @@
+import { Preset } from './schema';
+import { PresetError } from './errors';
+import { parsePreset } from './validate';
+import { encodeBase64 } from '../tags/binary';
+
+const STORAGE_KEY = 'cyberpulse.presets';
+const SHARE_PARAM = 'preset';
+
+export const serializePreset = (preset: Preset) => JSON.stringify(preset, null, 2);
+
+export const presetFileName = (preset: Preset) =>
+  `${preset.name.replace(/[^\w-]+/g, '_').toLowerCase() || 'preset'}.cyberpulse.json`;
+
+export const downloadPreset = (preset: Preset) => {
+  const url = URL.createObjectURL(new Blob([serializePreset(preset)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = presetFileName(preset);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const isPresetFile = (file: File) => file.type === 'application/json' || /\.json$/i.test(file.name);
+
+export const readPresetFile = async (file: File) => parsePreset(await file.text());
+
+// 分享連結：preset JSON 以 base64url 放在 hash 中，不會送到伺服器
+const toBase64Url = (text: string) =>
+  encodeBase64(new TextEncoder().encode(text))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const createShareUrl = (preset: Preset) => {
+  const url = new URL(window.location.href);
+  url.hash = `${SHARE_PARAM}=${toBase64Url(JSON.stringify(preset))}`;
+  return url.toString();
+};
+
+export const hasSharedPreset = () => window.location.hash.includes(`${SHARE_PARAM}=`);
+
+/** Preset embedded in the current URL hash, if any. Throws PresetError if it is there but broken. */
+export const readSharedPreset = (): Preset | null => {
+  const match = window.location.hash.match(new RegExp(`${SHARE_PARAM}=([\\w-]+)`));
+  if (!match) return null;
+  let json: string;
+  try {
+    json = fromBase64Url(match[1]);
+  } catch {
+    throw new PresetError('The shared preset link is damaged.');
+  }
+  return parsePreset(json);
+};
+
+/** Saved presets in localStorage. Entries that no longer validate are skipped. */
+export const loadSavedPresets = (): Preset[] => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+
+  const presets: Preset[] = [];
+  for (const item of stored) {
+    try {
+      presets.push(parsePreset(JSON.stringify(item)));
+    } catch (err) {
+      console.warn('Skipping saved preset that no longer loads', err);
+    }
+  }
+  return presets;
+};
+
+export const storeSavedPresets = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
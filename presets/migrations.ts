@@ -0,0 +1,47 @@
+import { DEFAULT_SPECTRUM, PRESET_VERSION } from './schema';
+import { PresetError } from './errors';
+import { createDefaultPostFx } from '../postfx/chain';
+import { createDefaultCamera } from '../camera/director';
+import { createDefaultPlayground } from '../playground/playground';
+
+export type PresetDocument = Record<string, unknown>;
+type Migration = (doc: PresetDocument) => PresetDocument;
+
+/** MIGRATIONS[n] upgrades a version-n document to version n + 1. */
+export const MIGRATIONS: Record<number, Migration> = {
+  // v2: 新增調變矩陣
+  1: doc => ({ ...doc, modulation: [] }),
+  // v3: 新增後製效果鏈
+  2: doc => ({ ...doc, postfx: createDefaultPostFx() }),
+  // v4: 新增頻譜設定；沿用舊版固定的 128 點 FFT 與線性對應，外觀不變
+  3: doc => ({
+    ...doc,
+    spectrum: { ...DEFAULT_SPECTRUM, fftSize: 128, scale: 'linear', normalize: false, autoGain: false },
+  }),
+  // v5: 新增鏡頭導演；預設為手動，舊預設檔的鏡頭行為不變
+  4: doc => ({ ...doc, camera: createDefaultCamera() }),
+  // v6: 新增物理遊樂場；音效預設關閉
+  5: doc => ({ ...doc, playground: createDefaultPlayground() }),
+};
+
+/** Runs every migration between the document's version and the current one. */
+export const migratePreset = (doc: PresetDocument): PresetDocument => {
+  let version = doc.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new PresetError(`Preset has no valid "version" (got ${JSON.stringify(version)}).`);
+  }
+  if (version > PRESET_VERSION) {
+    throw new PresetError(
+      `Preset was saved by a newer CyberPulse (version ${version}); this build reads up to version ${PRESET_VERSION}.`
+    );
+  }
+
+  let current = doc;
+  while (version < PRESET_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new PresetError(`No migration from preset version ${version}.`);
+    current = { ...migrate(current), version: version + 1 };
+    version++;
+  }
+  return current;
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { PRESET_FORMAT, PRESET_VERSION, createDefaultPreset } from './schema';
+import { PresetError } from './errors';
+import { MIGRATIONS, PresetDocument, migratePreset } from './migrations';
+import { parsePreset, validatePreset } from './validate';
+import { serializePreset } from './io';
+import { createDefaultPlayground } from '../playground/playground';
+
+// 各版本實際存檔的樣子：每一版只多出當版新增的欄位
+const V1: PresetDocument = {
+  format: PRESET_FORMAT,
+  version: 1,
+  name: 'Old Ring',
+  sceneId: 'ring',
+  sceneParams: { ring: { radius: 12, particleColorMid: '#ff00aa' }, tunnel: { speed: 2 } },
+  environment: { ambientLight: 1, pointLight: 2, spotLight: 3, gravity: [0, -5, 0], crossfade: 0.5 },
+  beat: { sensitivity: 1.4, minInterval: 0.3 },
+};
+
+const V2 = {
+  ...V1,
+  version: 2,
+  modulation: [{ sceneId: 'ring', param: 'radius', source: 'bass', depth: 0.3, smoothing: 0.2, curve: 'exp', rate: 1 }],
+};
+
+const V3 = {
+  ...V2,
+  version: 3,
+  postfx: [{ id: 'bloom', enabled: true, amount: 0.5, source: 'bass', depth: 0.2 }],
+};
+
+const V4 = {
+  ...V3,
+  version: 4,
+  spectrum: { fftSize: 4096, scale: 'log', minHz: 30, maxHz: 16000, normalize: true, autoGain: false },
+};
+
+const V5 = {
+  ...V4,
+  version: 5,
+  camera: {
+    mode: 'director',
+    viewpoints: [{ name: 'Wide', position: [0, 10, 20], target: [0, 0, 0], fov: 50 }],
+    shots: [{ viewpoint: 'Wide', move: 'cut', hold: 4 }],
+  },
+};
+
+const BY_VERSION: Record<number, PresetDocument> = { 1: V1, 2: V2, 3: V3, 4: V4, 5: V5 };
+
+const issuesOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (err) {
+    expect(err).toBeInstanceOf(PresetError);
+    return (err as PresetError).issues;
+  }
+  throw new Error('expected a PresetError');
+};
+
+describe('preset migrations', () => {
+  it('has a migration for every version below the current one', () => {
+    for (let version = 1; version < PRESET_VERSION; version++) {
+      expect(MIGRATIONS[version], `migration from v${version}`).toBeTypeOf('function');
+    }
+  });
+
+  it.each(Object.keys(BY_VERSION).map(Number))('upgrades a v%i document one step into a valid preset', version => {
+    const upgraded = { ...MIGRATIONS[version](BY_VERSION[version]), version: version + 1 };
+    const preset = validatePreset(upgraded);
+    expect(preset.version).toBe(PRESET_VERSION);
+    expect(preset.name).toBe('Old Ring');
+  });
+
+  it.each(Object.keys(BY_VERSION).map(Number))('loads a v%i document as the current version', version => {
+    const preset = validatePreset(BY_VERSION[version]);
+    expect(preset.version).toBe(PRESET_VERSION);
+    expect(preset.sceneId).toBe('ring');
+    expect(preset.sceneParams.ring).toMatchObject({ radius: 12, particleColorMid: '#ff00aa' });
+    expect(preset.environment.gravity).toEqual([0, -5, 0]);
+    expect(preset.beat).toEqual({ sensitivity: 1.4, minInterval: 0.3 });
+    expect(preset.playground).toEqual(createDefaultPlayground());
+  });
+
+  it('keeps the fields each version introduced', () => {
+    expect(validatePreset(V1).modulation).toEqual([]);
+    expect(validatePreset(V2).modulation[0]).toMatchObject({ param: 'radius', curve: 'exp', depth: 0.3 });
+    expect(validatePreset(V4).spectrum).toMatchObject({ fftSize: 4096, scale: 'log', normalize: true });
+    expect(validatePreset(V5).camera.mode).toBe('director');
+  });
+
+  it('keeps the fixed 128-point linear spectrum of presets saved before v4', () => {
+    const { spectrum } = validatePreset(V3);
+    expect(spectrum).toMatchObject({ fftSize: 128, scale: 'linear', normalize: false, autoGain: false });
+  });
+
+  it('leaves current documents untouched', () => {
+    const doc = { ...createDefaultPreset() } as unknown as PresetDocument;
+    expect(migratePreset(doc)).toBe(doc);
+  });
+
+  it('rejects missing and future versions', () => {
+    expect(() => migratePreset({ format: PRESET_FORMAT })).toThrow(/no valid "version"/);
+    expect(() => migratePreset({ format: PRESET_FORMAT, version: 1.5 })).toThrow(PresetError);
+    expect(() => migratePreset({ format: PRESET_FORMAT, version: PRESET_VERSION + 1 })).toThrow(/newer CyberPulse/);
+  });
+});
+
+describe('preset validation', () => {
+  it('round-trips the default preset through JSON', () => {
+    const preset = createDefaultPreset();
+    expect(parsePreset(serializePreset(preset))).toEqual(preset);
+  });
+
+  it('fills missing sections with defaults', () => {
+    const preset = validatePreset({ format: PRESET_FORMAT, version: PRESET_VERSION });
+    const defaults = createDefaultPreset();
+    expect(preset.name).toBe('Untitled');
+    expect(preset.environment).toEqual(defaults.environment);
+    expect(preset.camera).toEqual(defaults.camera);
+  });
+
+  it('rejects documents that are not presets', () => {
+    expect(() => validatePreset([])).toThrow('Preset must be a JSON object.');
+    expect(() => validatePreset({ version: 1 })).toThrow(/Not a CyberPulse preset/);
+    expect(() => parsePreset('{ "format": ')).toThrow(/not valid JSON/);
+  });
+
+  it('reports each invalid value with its path', () => {
+    const issues = issuesOf(() =>
+      validatePreset({
+        ...V1,
+        version: PRESET_VERSION,
+        sceneId: 'nowhere',
+        sceneParams: { ring: { radius: 99, particleColorMid: 'red' } },
+        environment: { gravity: [0, 'down', 0] },
+        spectrum: { fftSize: 1000 },
+        modulation: [{ sceneId: 'ring', param: 'radius', source: 'wind' }],
+        playground: { shape: 'teapot', maxBodies: -1 },
+      })
+    );
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^sceneId: unknown scene "nowhere"/),
+        'sceneParams.ring.radius: 99 is outside 4..16',
+        expect.stringMatching(/^sceneParams\.ring\.particleColorMid: expected a colour/),
+        'environment.gravity[1]: expected a number, got "down"',
+        expect.stringMatching(/^spectrum\.fftSize: expected one of .*, got 1000$/),
+        expect.stringMatching(/^modulation\[0\]\.source: expected one of .*, got "wind"$/),
+        expect.stringMatching(/^playground\.shape: expected one of .*, got "teapot"$/),
+        expect.stringMatching(/^playground\.maxBodies: -1 is outside/),
+      ])
+    );
+  });
+
+  it('lists every issue in the error message', () => {
+    const doc = { ...V1, environment: { ambientLight: 50 }, beat: { sensitivity: 'high' } };
+    expect(() => validatePreset(doc)).toThrow(
+      'Preset "Old Ring" has invalid values:\n' +
+        '• environment.ambientLight: 50 is outside 0..20\n' +
+        '• beat.sensitivity: expected a number, got "high"'
+    );
+  });
+
+  it('checks old documents after migrating them', () => {
+    const issues = issuesOf(() => validatePreset({ ...V2, modulation: [{ sceneId: 'ring', param: 'particleColorMid' }] }));
+    expect(issues).toEqual(['modulation[0].param: "particleColorMid" is not a modulatable parameter of "ring"']);
+  });
+});
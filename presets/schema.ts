@@ -0,0 +1,113 @@
+import { SCENE_SPECS, SceneParams, SceneSpec, defaultSceneParams } from '../scenes/params';
+import { DEFAULT_BEAT_OPTIONS } from '../audio/beat';
+import { ModRoute } from '../modulation/matrix';
+import { PostFxPass, createDefaultPostFx } from '../postfx/chain';
+import { AnalyserSettings } from '../audio/analysis';
+import { BandOptions, DEFAULT_BAND_OPTIONS } from '../audio/bands';
+import { CameraSettings, createDefaultCamera } from '../camera/director';
+import { PlaygroundSettings, createDefaultPlayground } from '../playground/playground';
+
+export const PRESET_FORMAT = 'cyberpulse-preset';
+export const PRESET_VERSION = 6;
+
+export type Vec3 = [number, number, number];
+
+export interface EnvironmentSettings {
+  ambientLight: number;
+  pointLight: number;
+  spotLight: number;
+  gravity: Vec3;
+  /** Scene crossfade length in seconds. */
+  crossfade: number;
+}
+
+export interface BeatSettings {
+  sensitivity: number;
+  minInterval: number;
+}
+
+/** Analyser resolution and how its bins are grouped into the bands scenes draw. */
+export interface SpectrumSettings extends AnalyserSettings, BandOptions {}
+
+export interface Preset {
+  format: typeof PRESET_FORMAT;
+  version: typeof PRESET_VERSION;
+  name: string;
+  sceneId: string;
+  /** Parameter values per scene id. */
+  sceneParams: Record<string, SceneParams>;
+  environment: EnvironmentSettings;
+  beat: BeatSettings;
+  /** Modulation matrix: at most one route per scene parameter. */
+  modulation: ModRoute[];
+  /** Post-processing passes in render order. */
+  postfx: PostFxPass[];
+  spectrum: SpectrumSettings;
+  /** Saved viewpoints and the director's shot sequence. */
+  camera: CameraSettings;
+  /** Spawned bodies, force field and collision sounds of the physics playground. */
+  playground: PlaygroundSettings;
+}
+
+export const DEFAULT_ENVIRONMENT: EnvironmentSettings = {
+  ambientLight: 0.5,
+  pointLight: 1.5,
+  spotLight: 2,
+  gravity: [0, -9.81, 0],
+  crossfade: 1.2,
+};
+
+export const DEFAULT_BEAT: BeatSettings = {
+  sensitivity: DEFAULT_BEAT_OPTIONS.sensitivity,
+  minInterval: DEFAULT_BEAT_OPTIONS.minInterval,
+};
+
+export const FFT_SIZES = [128, 256, 512, 1024, 2048, 4096, 8192, 16384];
+
+export const DEFAULT_SPECTRUM: SpectrumSettings = {
+  fftSize: 2048,
+  smoothingTimeConstant: 0.8,
+  minDecibels: -100,
+  maxDecibels: -30,
+  ...DEFAULT_BAND_OPTIONS,
+};
+
+/** Numeric bounds for the non-scene fields, used by the validator and the UI. */
+export const NUMBER_LIMITS = {
+  'environment.ambientLight': [0, 20],
+  'environment.pointLight': [0, 20],
+  'environment.spotLight': [0, 20],
+  'environment.gravity': [-50, 50],
+  'environment.crossfade': [0, 10],
+  'beat.sensitivity': [0.1, 5],
+  'beat.minInterval': [0.05, 2],
+  'spectrum.smoothingTimeConstant': [0, 0.99],
+  'spectrum.minDecibels': [-140, -20],
+  'spectrum.maxDecibels': [-100, 0],
+  'spectrum.minHz': [10, 1000],
+  'spectrum.maxHz': [2000, 24000],
+  'camera.position': [-200, 200],
+  'camera.fov': [10, 120],
+  'camera.hold': [1, 64],
+  'camera.dollyTime': [0, 20],
+  'camera.shake': [0, 1],
+  'playground.maxBodies': [1, 100],
+  'playground.fieldStrength': [0, 50],
+  'playground.fieldBass': [0, 1],
+  'playground.volume': [0, 1],
+} as const;
+
+export const createDefaultPreset = (scenes: SceneSpec[] = SCENE_SPECS): Preset => ({
+  format: PRESET_FORMAT,
+  version: PRESET_VERSION,
+  name: 'Default',
+  sceneId: scenes[0]?.id ?? 'ring',
+  sceneParams: Object.fromEntries(scenes.map(scene => [scene.id, defaultSceneParams(scene)])),
+  environment: { ...DEFAULT_ENVIRONMENT, gravity: [...DEFAULT_ENVIRONMENT.gravity] },
+  beat: { ...DEFAULT_BEAT },
+  modulation: [],
+  postfx: createDefaultPostFx(),
+  spectrum: { ...DEFAULT_SPECTRUM },
+  camera: createDefaultCamera(),
+  playground: createDefaultPlayground(),
+});
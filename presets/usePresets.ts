@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react';
+import { EnvironmentSettings, Preset, SpectrumSettings, createDefaultPreset } from './schema';
+import { SceneParamValue } from '../scenes';
+import { ModRoute } from '../modulation/matrix';
+import { PostFxPass } from '../postfx/chain';
+import { CameraSettings } from '../camera/director';
+import { PlaygroundSettings } from '../playground/playground';
+import { loadSavedPresets, readPresetFile, readSharedPreset, storeSavedPresets } from './io';
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/** Active preset, the saved bank in localStorage, and the last load error to show. */
+export const usePresets = () => {
+  const [preset, setPreset] = useState<Preset>(createDefaultPreset);
+  const [saved, setSaved] = useState<Preset[]>(loadSavedPresets);
+  const [error, setError] = useState<string | null>(null);
+  // 只有使用者動過存檔清單後才寫回 localStorage
+  const [dirty, setDirty] = useState(false);
+
+  // 開啟分享連結時套用其中的 preset
+  useEffect(() => {
+    try {
+      const shared = readSharedPreset();
+      if (shared) setPreset(shared);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (dirty) storeSavedPresets(saved);
+  }, [saved, dirty]);
+
+  const updateSaved = useCallback((update: (prev: Preset[]) => Preset[]) => {
+    setSaved(update);
+    setDirty(true);
+  }, []);
+
+  const importFile = useCallback(async (file: File) => {
+    try {
+      setPreset(await readPresetFile(file));
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${errorMessage(err)}`);
+    }
+  }, []);
+
+  return {
+    preset,
+    saved,
+    error,
+    setPreset,
+    load: useCallback((next: Preset) => {
+      setPreset(next);
+      setError(null);
+    }, []),
+    rename: useCallback((name: string) => setPreset(p => ({ ...p, name })), []),
+    selectScene: useCallback((sceneId: string) => setPreset(p => ({ ...p, sceneId })), []),
+    setSceneParam: useCallback((sceneId: string, key: string, value: SceneParamValue) => {
+      setPreset(p => ({
+        ...p,
+        sceneParams: { ...p.sceneParams, [sceneId]: { ...p.sceneParams[sceneId], [key]: value } },
+      }));
+    }, []),
+    /** Adds, replaces or (with null) removes the route for one scene parameter. */
+    setRoute: useCallback((sceneId: string, param: string, route: ModRoute | null) => {
+      setPreset(p => {
+        const others = p.modulation.filter(r => r.sceneId !== sceneId || r.param !== param);
+        return { ...p, modulation: route ? [...others, route] : others };
+      });
+    }, []),
+    setPostFx: useCallback((postfx: PostFxPass[]) => setPreset(p => ({ ...p, postfx })), []),
+    setSpectrum: useCallback(
+      (values: Partial<SpectrumSettings>) => setPreset(p => ({ ...p, spectrum: { ...p.spectrum, ...values } })),
+      []
+    ),
+    setCamera: useCallback(
+      (values: Partial<CameraSettings>) => setPreset(p => ({ ...p, camera: { ...p.camera, ...values } })),
+      []
+    ),
+    setEnvironment: useCallback(
+      (values: Partial<EnvironmentSettings>) => setPreset(p => ({ ...p, environment: { ...p.environment, ...values } })),
+      []
+    ),
+    setPlayground: useCallback(
+      (values: Partial<PlaygroundSettings>) => setPreset(p => ({ ...p, playground: { ...p.playground, ...values } })),
+      []
+    ),
+    save: useCallback(
+      () => updateSaved(prev => [...prev.filter(p => p.name !== preset.name), preset]),
+      [preset, updateSaved]
+    ),
+    remove: useCallback((name: string) => updateSaved(prev => prev.filter(p => p.name !== name)), [updateSaved]),
+    importFile,
+    dismissError: useCallback(() => setError(null), []),
+  };
+};
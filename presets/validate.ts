@@ -0,0 +1,448 @@
+import { SCENE_SPECS, SceneParams, SceneSpec, defaultSceneParams } from '../scenes/params';
+import {
+  BeatSettings,
+  DEFAULT_BEAT,
+  DEFAULT_ENVIRONMENT,
+  DEFAULT_SPECTRUM,
+  EnvironmentSettings,
+  FFT_SIZES,
+  NUMBER_LIMITS,
+  PRESET_FORMAT,
+  PRESET_VERSION,
+  Preset,
+  SpectrumSettings,
+  Vec3
+} from './schema';
+import { PresetError } from './errors';
+import { PresetDocument, migratePreset } from './migrations';
+import { MOD_CURVES, MOD_SOURCES, ModRoute, ROUTE_LIMITS, isModulatable } from '../modulation/matrix';
+import { BAND_SCALES } from '../audio/bands';
+import { POSTFX_LIMITS, POSTFX_PASSES, POSTFX_SOURCES, PostFxPass, createDefaultPostFx } from '../postfx/chain';
+import { CameraSettings, DEFAULT_VIEWPOINT, SHOT_MOVES, SHOT_SYNCS, Shot, createDefaultCamera } from '../camera/director';
+import {
+  BODY_SHAPES,
+  FIELD_KINDS,
+  HIT_QUANTIZE,
+  HIT_SOUNDS,
+  PlaygroundSettings,
+  createDefaultPlayground
+} from '../playground/playground';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => (typeof value === 'string' ? `"${value}"` : JSON.stringify(value));
+
+/** Collects issues instead of throwing on the first one so users see everything that is wrong. */
+class Checker {
+  issues: string[] = [];
+
+  number(path: string, value: unknown, fallback: number, [min, max]: readonly [number, number]) {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !isFinite(value)) {
+      this.issues.push(`${path}: expected a number, got ${describe(value)}`);
+      return fallback;
+    }
+    if (value < min || value > max) {
+      this.issues.push(`${path}: ${value} is outside ${min}..${max}`);
+      return fallback;
+    }
+    return value;
+  }
+
+  section(path: string, value: unknown) {
+    if (value === undefined) return {};
+    if (!isRecord(value)) {
+      this.issues.push(`${path}: expected an object, got ${describe(value)}`);
+      return {};
+    }
+    return value;
+  }
+}
+
+const validateSceneParams = (check: Checker, sceneId: string, scene: SceneSpec, raw: unknown): SceneParams => {
+  const params = defaultSceneParams(scene);
+  const values = check.section(`sceneParams.${sceneId}`, raw);
+
+  for (const def of scene.params) {
+    const path = `sceneParams.${sceneId}.${def.key}`;
+    const value = values[def.key];
+    if (value === undefined) continue;
+
+    if (def.type === 'number') {
+      params[def.key] = check.number(path, value, def.default, [def.min, def.max]);
+    } else if (def.type === 'boolean') {
+      if (typeof value === 'boolean') params[def.key] = value;
+      else check.issues.push(`${path}: expected true or false, got ${describe(value)}`);
+    } else if (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)) {
+      params[def.key] = value;
+    } else {
+      check.issues.push(`${path}: expected a colour like "#00f2ff", got ${describe(value)}`);
+    }
+  }
+  // 未知的參數直接忽略，讓舊版場景的預設檔仍可載入
+  return params;
+};
+
+const validateEnvironment = (check: Checker, raw: unknown): EnvironmentSettings => {
+  const env = check.section('environment', raw);
+  const n = (key: 'ambientLight' | 'pointLight' | 'spotLight' | 'crossfade') =>
+    check.number(`environment.${key}`, env[key], DEFAULT_ENVIRONMENT[key], NUMBER_LIMITS[`environment.${key}`]);
+
+  let gravity: Vec3 = [...DEFAULT_ENVIRONMENT.gravity];
+  if (env.gravity !== undefined) {
+    if (Array.isArray(env.gravity) && env.gravity.length === 3) {
+      gravity = env.gravity.map((v, i) =>
+        check.number(`environment.gravity[${i}]`, v, DEFAULT_ENVIRONMENT.gravity[i], NUMBER_LIMITS['environment.gravity'])
+      ) as Vec3;
+    } else {
+      check.issues.push(`environment.gravity: expected [x, y, z], got ${describe(env.gravity)}`);
+    }
+  }
+
+  return {
+    ambientLight: n('ambientLight'),
+    pointLight: n('pointLight'),
+    spotLight: n('spotLight'),
+    gravity,
+    crossfade: n('crossfade'),
+  };
+};
+
+const validateBeat = (check: Checker, raw: unknown): BeatSettings => {
+  const beat = check.section('beat', raw);
+  return {
+    sensitivity: check.number('beat.sensitivity', beat.sensitivity, DEFAULT_BEAT.sensitivity, NUMBER_LIMITS['beat.sensitivity']),
+    minInterval: check.number('beat.minInterval', beat.minInterval, DEFAULT_BEAT.minInterval, NUMBER_LIMITS['beat.minInterval']),
+  };
+};
+
+const validateSpectrum = (check: Checker, raw: unknown): SpectrumSettings => {
+  const spectrum = check.section('spectrum', raw);
+  const n = (key: 'smoothingTimeConstant' | 'minDecibels' | 'maxDecibels' | 'minHz' | 'maxHz') =>
+    check.number(`spectrum.${key}`, spectrum[key], DEFAULT_SPECTRUM[key], NUMBER_LIMITS[`spectrum.${key}`]);
+  const flag = (key: 'normalize' | 'autoGain') => {
+    const value = spectrum[key];
+    if (value === undefined) return DEFAULT_SPECTRUM[key];
+    if (typeof value === 'boolean') return value;
+    check.issues.push(`spectrum.${key}: expected true or false, got ${describe(value)}`);
+    return DEFAULT_SPECTRUM[key];
+  };
+
+  let fftSize = DEFAULT_SPECTRUM.fftSize;
+  if (spectrum.fftSize !== undefined) {
+    if (FFT_SIZES.includes(spectrum.fftSize as number)) fftSize = spectrum.fftSize as number;
+    else check.issues.push(`spectrum.fftSize: expected one of ${FFT_SIZES.join(', ')}, got ${describe(spectrum.fftSize)}`);
+  }
+  let scale = DEFAULT_SPECTRUM.scale;
+  if (spectrum.scale !== undefined) {
+    const known = BAND_SCALES.find(s => s.id === spectrum.scale);
+    if (known) scale = known.id;
+    else check.issues.push(`spectrum.scale: expected one of ${BAND_SCALES.map(s => s.id).join(', ')}, got ${describe(spectrum.scale)}`);
+  }
+
+  const result: SpectrumSettings = {
+    fftSize,
+    smoothingTimeConstant: n('smoothingTimeConstant'),
+    minDecibels: n('minDecibels'),
+    maxDecibels: n('maxDecibels'),
+    scale,
+    minHz: n('minHz'),
+    maxHz: n('maxHz'),
+    normalize: flag('normalize'),
+    autoGain: flag('autoGain'),
+  };
+  // AnalyserNode 拒絕 min >= max 的分貝範圍
+  if (result.minDecibels >= result.maxDecibels) {
+    check.issues.push(`spectrum: minDecibels (${result.minDecibels}) must be below maxDecibels (${result.maxDecibels})`);
+  }
+  if (result.minHz >= result.maxHz) {
+    check.issues.push(`spectrum: minHz (${result.minHz}) must be below maxHz (${result.maxHz})`);
+  }
+  return result;
+};
+
+const validateModulation = (check: Checker, raw: unknown, byId: Map<string, SceneSpec>): ModRoute[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    check.issues.push(`modulation: expected a list of routes, got ${describe(raw)}`);
+    return [];
+  }
+
+  const routes: ModRoute[] = [];
+  const seen = new Set<string>();
+  raw.forEach((item, i) => {
+    const path = `modulation[${i}]`;
+    const route = check.section(path, item);
+    const scene = typeof route.sceneId === 'string' ? byId.get(route.sceneId) : undefined;
+    if (!scene) {
+      check.issues.push(`${path}.sceneId: unknown scene ${describe(route.sceneId)}`);
+      return;
+    }
+    const def = scene.params.find(p => p.key === route.param);
+    if (!def || !isModulatable(def)) {
+      check.issues.push(`${path}.param: ${describe(route.param)} is not a modulatable parameter of "${scene.id}"`);
+      return;
+    }
+    const key = `${scene.id}.${def.key}`;
+    if (seen.has(key)) {
+      check.issues.push(`${path}: ${key} is already routed`);
+      return;
+    }
+    seen.add(key);
+
+    let source = route.source as ModRoute['source'];
+    if (!MOD_SOURCES.some(s => s.id === source)) {
+      check.issues.push(`${path}.source: expected one of ${MOD_SOURCES.map(s => s.id).join(', ')}, got ${describe(source)}`);
+      source = 'bass';
+    }
+    let curve = (route.curve ?? 'linear') as ModRoute['curve'];
+    if (!MOD_CURVES.includes(curve)) {
+      check.issues.push(`${path}.curve: expected one of ${MOD_CURVES.join(', ')}, got ${describe(curve)}`);
+      curve = 'linear';
+    }
+
+    routes.push({
+      sceneId: scene.id,
+      param: def.key,
+      source,
+      depth: check.number(`${path}.depth`, route.depth, 0.5, ROUTE_LIMITS.depth),
+      smoothing: check.number(`${path}.smoothing`, route.smoothing, 0.5, ROUTE_LIMITS.smoothing),
+      curve,
+      rate: check.number(`${path}.rate`, route.rate, 1, ROUTE_LIMITS.rate),
+    });
+  });
+  return routes;
+};
+
+const validatePostFx = (check: Checker, raw: unknown): PostFxPass[] => {
+  const defaults = createDefaultPostFx();
+  if (raw === undefined) return defaults;
+  if (!Array.isArray(raw)) {
+    check.issues.push(`postfx: expected a list of passes, got ${describe(raw)}`);
+    return defaults;
+  }
+
+  const passes: PostFxPass[] = [];
+  raw.forEach((item, i) => {
+    const path = `postfx[${i}]`;
+    const pass = check.section(path, item);
+    const known = POSTFX_PASSES.find(p => p.id === pass.id);
+    if (!known) {
+      check.issues.push(`${path}.id: expected one of ${POSTFX_PASSES.map(p => p.id).join(', ')}, got ${describe(pass.id)}`);
+      return;
+    }
+    if (passes.some(p => p.id === known.id)) {
+      check.issues.push(`${path}: "${known.id}" appears twice`);
+      return;
+    }
+    const fallback = defaults.find(p => p.id === known.id)!;
+
+    let source = pass.source === undefined ? fallback.source : (pass.source as PostFxPass['source']);
+    if (source !== null && !POSTFX_SOURCES.some(s => s.id === source)) {
+      check.issues.push(`${path}.source: expected null or one of ${POSTFX_SOURCES.map(s => s.id).join(', ')}, got ${describe(source)}`);
+      source = fallback.source;
+    }
+    let enabled = fallback.enabled;
+    if (typeof pass.enabled === 'boolean') enabled = pass.enabled;
+    else if (pass.enabled !== undefined) check.issues.push(`${path}.enabled: expected true or false, got ${describe(pass.enabled)}`);
+
+    passes.push({
+      id: known.id,
+      enabled,
+      amount: check.number(`${path}.amount`, pass.amount, fallback.amount, POSTFX_LIMITS.amount),
+      source,
+      depth: check.number(`${path}.depth`, pass.depth, fallback.depth, POSTFX_LIMITS.depth),
+    });
+  });
+
+  // 缺少的 pass 以停用狀態補在最後，保持效果鏈完整
+  for (const fallback of defaults) {
+    if (!passes.some(p => p.id === fallback.id)) passes.push({ ...fallback, enabled: false });
+  }
+  return passes;
+};
+
+const validateVec3 = (check: Checker, path: string, value: unknown, fallback: Vec3): Vec3 => {
+  if (value === undefined) return [...fallback];
+  if (!Array.isArray(value) || value.length !== 3) {
+    check.issues.push(`${path}: expected [x, y, z], got ${describe(value)}`);
+    return [...fallback];
+  }
+  return value.map((v, i) => check.number(`${path}[${i}]`, v, fallback[i], NUMBER_LIMITS['camera.position'])) as Vec3;
+};
+
+const validateCamera = (check: Checker, raw: unknown): CameraSettings => {
+  const defaults = createDefaultCamera();
+  const camera = check.section('camera', raw);
+  const pick = <T extends string>(key: 'mode' | 'sync', allowed: readonly T[], fallback: T): T => {
+    const value = camera[key];
+    if (value === undefined) return fallback;
+    if (allowed.includes(value as T)) return value as T;
+    check.issues.push(`camera.${key}: expected one of ${allowed.join(', ')}, got ${describe(value)}`);
+    return fallback;
+  };
+
+  let viewpoints = defaults.viewpoints;
+  if (camera.viewpoints !== undefined) {
+    if (!Array.isArray(camera.viewpoints)) {
+      check.issues.push(`camera.viewpoints: expected a list of viewpoints, got ${describe(camera.viewpoints)}`);
+    } else {
+      viewpoints = [];
+      camera.viewpoints.forEach((item, i) => {
+        const path = `camera.viewpoints[${i}]`;
+        const view = check.section(path, item);
+        const name = typeof view.name === 'string' ? view.name.trim() : '';
+        if (!name) {
+          check.issues.push(`${path}.name: expected a name, got ${describe(view.name)}`);
+          return;
+        }
+        if (viewpoints.some(v => v.name === name)) {
+          check.issues.push(`${path}: "${name}" appears twice`);
+          return;
+        }
+        viewpoints.push({
+          name,
+          position: validateVec3(check, `${path}.position`, view.position, DEFAULT_VIEWPOINT.position),
+          target: validateVec3(check, `${path}.target`, view.target, DEFAULT_VIEWPOINT.target),
+          fov: check.number(`${path}.fov`, view.fov, DEFAULT_VIEWPOINT.fov, NUMBER_LIMITS['camera.fov']),
+        });
+      });
+    }
+  }
+
+  let shots = camera.viewpoints === undefined ? defaults.shots : [];
+  if (camera.shots !== undefined) {
+    if (!Array.isArray(camera.shots)) {
+      check.issues.push(`camera.shots: expected a list of shots, got ${describe(camera.shots)}`);
+    } else {
+      shots = [];
+      camera.shots.forEach((item, i) => {
+        const path = `camera.shots[${i}]`;
+        const shot = check.section(path, item);
+        if (!viewpoints.some(v => v.name === shot.viewpoint)) {
+          check.issues.push(`${path}.viewpoint: unknown viewpoint ${describe(shot.viewpoint)}`);
+          return;
+        }
+        let move = (shot.move ?? 'cut') as Shot['move'];
+        if (!SHOT_MOVES.some(m => m.id === move)) {
+          check.issues.push(`${path}.move: expected one of ${SHOT_MOVES.map(m => m.id).join(', ')}, got ${describe(move)}`);
+          move = 'cut';
+        }
+        shots.push({
+          viewpoint: shot.viewpoint as string,
+          move,
+          hold: Math.round(check.number(`${path}.hold`, shot.hold, 1, NUMBER_LIMITS['camera.hold'])),
+        });
+      });
+    }
+  }
+
+  let follow = defaults.follow;
+  if (typeof camera.follow === 'boolean') follow = camera.follow;
+  else if (camera.follow !== undefined) check.issues.push(`camera.follow: expected true or false, got ${describe(camera.follow)}`);
+
+  return {
+    mode: pick('mode', ['manual', 'director'] as const, defaults.mode),
+    viewpoints,
+    shots,
+    sync: pick('sync', SHOT_SYNCS.map(s => s.id), defaults.sync),
+    dollyTime: check.number('camera.dollyTime', camera.dollyTime, defaults.dollyTime, NUMBER_LIMITS['camera.dollyTime']),
+    shake: check.number('camera.shake', camera.shake, defaults.shake, NUMBER_LIMITS['camera.shake']),
+    follow,
+  };
+};
+
+const validatePlayground = (check: Checker, raw: unknown): PlaygroundSettings => {
+  const defaults = createDefaultPlayground();
+  const playground = check.section('playground', raw);
+  const pick = <T extends string>(key: 'shape' | 'field' | 'sound' | 'quantize', options: { id: T }[], fallback: T): T => {
+    const value = playground[key];
+    if (value === undefined) return fallback;
+    const known = options.find(o => o.id === value);
+    if (known) return known.id;
+    check.issues.push(`playground.${key}: expected one of ${options.map(o => o.id).join(', ')}, got ${describe(value)}`);
+    return fallback;
+  };
+  const n = (key: 'maxBodies' | 'fieldStrength' | 'fieldBass' | 'volume') =>
+    check.number(`playground.${key}`, playground[key], defaults[key], NUMBER_LIMITS[`playground.${key}`]);
+
+  let rideBars = defaults.rideBars;
+  if (typeof playground.rideBars === 'boolean') rideBars = playground.rideBars;
+  else if (playground.rideBars !== undefined) {
+    check.issues.push(`playground.rideBars: expected true or false, got ${describe(playground.rideBars)}`);
+  }
+
+  return {
+    shape: pick('shape', BODY_SHAPES, defaults.shape),
+    maxBodies: Math.round(n('maxBodies')),
+    rideBars,
+    field: pick('field', FIELD_KINDS, defaults.field),
+    fieldStrength: n('fieldStrength'),
+    fieldBass: n('fieldBass'),
+    sound: pick('sound', HIT_SOUNDS, defaults.sound),
+    volume: n('volume'),
+    quantize: pick('quantize', HIT_QUANTIZE, defaults.quantize),
+  };
+};
+
+/**
+ * Validates (and migrates, if older) a preset document. Missing sections and
+ * parameters fall back to defaults; wrong types or out-of-range values are
+ * collected and reported together in one PresetError.
+ */
+export const validatePreset = (raw: unknown, scenes: SceneSpec[] = SCENE_SPECS): Preset => {
+  if (!isRecord(raw)) throw new PresetError('Preset must be a JSON object.');
+  if (raw.format !== PRESET_FORMAT) {
+    throw new PresetError(`Not a CyberPulse preset (expected "format": "${PRESET_FORMAT}").`);
+  }
+
+  const doc: PresetDocument = migratePreset(raw);
+  const check = new Checker();
+  const byId = new Map(scenes.map(scene => [scene.id, scene]));
+
+  const name = typeof doc.name === 'string' && doc.name.trim() ? doc.name.trim() : 'Untitled';
+
+  let sceneId = scenes[0]?.id ?? '';
+  if (typeof doc.sceneId === 'string' && byId.has(doc.sceneId)) {
+    sceneId = doc.sceneId;
+  } else if (doc.sceneId !== undefined) {
+    check.issues.push(
+      `sceneId: unknown scene ${describe(doc.sceneId)} (available: ${scenes.map(s => s.id).join(', ')})`
+    );
+  }
+
+  const rawParams = check.section('sceneParams', doc.sceneParams);
+  const sceneParams: Record<string, SceneParams> = {};
+  for (const scene of scenes) {
+    sceneParams[scene.id] = validateSceneParams(check, scene.id, scene, rawParams[scene.id]);
+  }
+
+  const preset: Preset = {
+    format: PRESET_FORMAT,
+    version: PRESET_VERSION,
+    name,
+    sceneId,
+    sceneParams,
+    environment: validateEnvironment(check, doc.environment),
+    beat: validateBeat(check, doc.beat),
+    modulation: validateModulation(check, doc.modulation, byId),
+    postfx: validatePostFx(check, doc.postfx),
+    spectrum: validateSpectrum(check, doc.spectrum),
+    camera: validateCamera(check, doc.camera),
+    playground: validatePlayground(check, doc.playground),
+  };
+
+  if (check.issues.length) throw new PresetError(`Preset "${name}" has invalid values:`, check.issues);
+  return preset;
+};
+
+export const parsePreset = (json: string, scenes?: SceneSpec[]): Preset => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new PresetError(`Preset is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validatePreset(raw, scenes);
+};
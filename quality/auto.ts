@@ -0,0 +1,80 @@
+import { PerfStats } from '../perf/monitor';
+import { DEFAULT_TIER, QUALITY_TIERS, QualityTier } from './tiers';
+
+export interface AutoQualityOptions {
+  /** Step down when the frame rate stays below this. */
+  minFps: number;
+  /** Step up only when the frame rate stays at or above this. */
+  targetFps: number;
+  /** Consecutive checks a condition must hold before acting. */
+  patience: number;
+  /** Seconds to wait after a change before stepping up again; doubles after each fallback. */
+  upgradeDelay: number;
+  maxUpgradeDelay: number;
+  /** A step down this many seconds after a step up counts as a failed upgrade. */
+  fallbackWindow: number;
+}
+
+const DEFAULT_OPTIONS: AutoQualityOptions = {
+  minFps: 50,
+  targetFps: 58,
+  patience: 3,
+  upgradeDelay: 10,
+  maxUpgradeDelay: 120,
+  fallbackWindow: 30,
+};
+
+/**
+ * Chooses a tier from periodic frame-time checks. Steps down quickly when
+ * frames are slow and up slowly when there is headroom. When a step up has
+ * to be undone, the next attempt waits twice as long, so a machine sitting
+ * between two tiers does not flip back and forth.
+ */
+export const createAutoQuality = (initial: QualityTier = DEFAULT_TIER, options: Partial<AutoQualityOptions> = {}) => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  let index = QUALITY_TIERS.indexOf(initial);
+  let slow = 0;
+  let fast = 0;
+  let lastChange = -Infinity;
+  let lastWasUpgrade = false;
+  let delay = opts.upgradeDelay;
+
+  const change = (step: number, now: number) => {
+    index += step;
+    slow = 0;
+    fast = 0;
+    lastChange = now;
+    lastWasUpgrade = step > 0;
+  };
+
+  return {
+    /** Feeds one check (`now` in seconds) and returns the tier to use. */
+    update: (stats: PerfStats, now: number): QualityTier => {
+      // 沒有新幀（暫停或切到背景）時不判斷
+      if (stats.fps <= 0) return QUALITY_TIERS[index];
+
+      if (stats.fps < opts.minFps) {
+        slow++;
+        fast = 0;
+      } else if (stats.fps >= opts.targetFps) {
+        fast++;
+        slow = 0;
+      } else {
+        slow = 0;
+        fast = 0;
+      }
+
+      if (slow >= opts.patience && index > 0) {
+        // 剛升級就撐不住：下次升級等更久
+        if (lastWasUpgrade && now - lastChange < opts.fallbackWindow) delay = Math.min(opts.maxUpgradeDelay, delay * 2);
+        change(-1, now);
+      } else if (fast >= opts.patience && index < QUALITY_TIERS.length - 1 && now - lastChange >= delay) {
+        change(1, now);
+      }
+      return QUALITY_TIERS[index];
+    },
+    tier: () => QUALITY_TIERS[index],
+  };
+};
+
+export type AutoQuality = ReturnType<typeof createAutoQuality>;
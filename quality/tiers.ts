@@ -0,0 +1,33 @@
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+/** A fixed tier, or 'auto' to pick one from measured frame times. */
+export type QualityMode = QualityTier | 'auto';
+
+export interface QualitySettings {
+  /** Canvas device-pixel-ratio: a fixed value or a [min, max] clamp of the screen's. */
+  dpr: number | [number, number];
+  shadows: boolean;
+  shadowMapSize: number;
+  stars: number;
+  /** Upper bound for bar-based scenes, whatever the preset asks for. */
+  maxBars: number;
+  /** Upper bound for particle budgets. */
+  maxParticles: number;
+  /** Physics steps allowed per frame to catch up after a slow one. */
+  physicsSubSteps: number;
+  /** Whether the preset's post-processing chain runs at all. */
+  postProcessing: boolean;
+}
+
+/** Lowest to highest; auto mode moves one step along this list at a time. */
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_MODES: QualityMode[] = ['auto', ...QUALITY_TIERS];
+
+export const TIER_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: { dpr: 0.75, shadows: false, shadowMapSize: 512, stars: 1000, maxBars: 64, maxParticles: 1000, physicsSubSteps: 1, postProcessing: false },
+  medium: { dpr: 1, shadows: true, shadowMapSize: 512, stars: 2500, maxBars: 128, maxParticles: 4000, physicsSubSteps: 3, postProcessing: true },
+  high: { dpr: [1, 1.5], shadows: true, shadowMapSize: 1024, stars: 5000, maxBars: 512, maxParticles: 10000, physicsSubSteps: 5, postProcessing: true },
+  ultra: { dpr: [1, 2], shadows: true, shadowMapSize: 2048, stars: 8000, maxBars: 1024, maxParticles: 20000, physicsSubSteps: 10, postProcessing: true },
+};
+
+export const DEFAULT_TIER: QualityTier = 'high';
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { PerfMonitor } from '../perf/monitor';
+import { createAutoQuality } from './auto';
+import { DEFAULT_TIER, QUALITY_MODES, QualityMode, QualityTier, TIER_SETTINGS } from './tiers';
+
+// How often auto mode looks at the frame times
+const AUTO_CHECK_MS = 1000;
+
+const usePageVisible = () => {
+  const [visible, setVisible] = useState(() => document.visibilityState !== 'hidden');
+  useEffect(() => {
+    const update = () => setVisible(document.visibilityState !== 'hidden');
+    document.addEventListener('visibilitychange', update);
+    return () => document.removeEventListener('visibilitychange', update);
+  }, []);
+  return visible;
+};
+
+/**
+ * Quality mode, the tier it resolves to, and whether rendering should pause.
+ * `drawnElsewhere` is set while another window (the projector output) draws the scene.
+ */
+export const useQuality = (monitor: PerfMonitor, isPlaying: boolean, drawnElsewhere = false) => {
+  const [mode, setMode] = useState<QualityMode>('auto');
+  const [autoTier, setAutoTier] = useState<QualityTier>(DEFAULT_TIER);
+  const [lowPower, setLowPower] = useState(false);
+  const visible = usePageVisible();
+
+  useEffect(() => {
+    if (mode !== 'auto') return;
+    // 從目前的等級開始調整，切回 auto 時不會跳回預設
+    const auto = createAutoQuality(autoTier);
+    monitor.reset();
+    const id = setInterval(() => {
+      const before = auto.tier();
+      const next = auto.update(monitor.stats(), performance.now() / 1000);
+      if (next === before) return;
+      // 舊等級的幀時間不能拿來評估新等級
+      monitor.reset();
+      setAutoTier(next);
+    }, AUTO_CHECK_MS);
+    return () => clearInterval(id);
+  }, [mode, monitor]);
+
+  const tier = mode === 'auto' ? autoTier : mode;
+  const paused = !visible || drawnElsewhere || (lowPower && !isPlaying);
+
+  // 暫停時沒有新幀，清掉舊數據免得 auto 依過時的幀時間降級
+  useEffect(() => {
+    if (paused) monitor.reset();
+  }, [paused, monitor]);
+
+  return {
+    mode,
+    tier,
+    settings: TIER_SETTINGS[tier],
+    cycleMode: () => setMode(m => QUALITY_MODES[(QUALITY_MODES.indexOf(m) + 1) % QUALITY_MODES.length]),
+    lowPower,
+    toggleLowPower: () => setLowPower(on => !on),
+    /** Nothing on screen would change: the tab is hidden, another window draws the scene, or low-power mode is on and playback stopped. */
+    paused,
+  };
+};
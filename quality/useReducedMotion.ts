@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'cyberpulse.reducedMotion';
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+const loadOverride = (): boolean | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored === null ? null : stored === 'true';
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether to tone down flashing and movement. Follows the OS setting until the
+ * user toggles it; the choice is then remembered and wins over the OS.
+ */
+export const useReducedMotion = () => {
+  const [system, setSystem] = useState(() => window.matchMedia?.(QUERY).matches ?? false);
+  const [override, setOverride] = useState<boolean | null>(loadOverride);
+
+  useEffect(() => {
+    const media = window.matchMedia?.(QUERY);
+    if (!media) return;
+    const update = () => setSystem(media.matches);
+    media.addEventListener('change', update);
+    return () => media.removeEventListener('change', update);
+  }, []);
+
+  const reduced = override ?? system;
+
+  return {
+    reduced,
+    /** True while the OS setting is in effect. */
+    fromSystem: override === null,
+    toggle: useCallback(() => {
+      const next = !reduced;
+      setOverride(next);
+      try {
+        localStorage.setItem(STORAGE_KEY, String(next));
+      } catch {
+        // 無法儲存時只在本次工作階段生效
+      }
+    }, [reduced]),
+  };
+};
@@ -0,0 +1,76 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useAudioData } from '../audio/AudioDataContext';
+import { Points, BufferGeometry, BufferAttribute, PointsMaterial } from './elements';
+import { SceneDefinition, SceneProps, numberParam } from './registry';
+import { GALAXY_SPEC } from './params';
+import { Random } from './random';
+import { useRandom } from './RandomContext';
+
+/** Spiral-arm point positions and colours for the galaxy. */
+const buildGalaxy = (count: number, arms: number, radius: number, random: Random) => {
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const color = new THREE.Color();
+
+  for (let i = 0; i < count; i++) {
+    const r = Math.pow(random.next(), 1.5) * radius;
+    const arm = (i % arms) / arms;
+    const angle = arm * Math.PI * 2 + r * 0.35;
+    // 離中心越遠散佈越大
+    const spread = 0.3 + r * 0.08;
+    positions[i * 3] = Math.cos(angle) * r + (random.next() - 0.5) * spread * 2;
+    positions[i * 3 + 1] = (random.next() - 0.5) * spread;
+    positions[i * 3 + 2] = Math.sin(angle) * r + (random.next() - 0.5) * spread * 2;
+
+    color.setHSL(0.5 + (r / radius) * 0.4, 0.9, 0.6);
+    colors[i * 3] = color.r;
+    colors[i * 3 + 1] = color.g;
+    colors[i * 3 + 2] = color.b;
+  }
+
+  return { positions, colors };
+};
+
+// 粒子星系：中頻驅動旋轉，低音放大粒子
+const GalaxyScene: React.FC<SceneProps> = ({ params, live }) => {
+  const count = Math.round(numberParam(params, 'particleCount', 6000));
+  const arms = Math.round(numberParam(params, 'arms', 4));
+  const radius = numberParam(params, 'radius', 14);
+
+  const audio = useAudioData();
+  const pointsRef = useRef<THREE.Points>(null);
+  // 形狀參數寫進標籤：同樣的參數與種子永遠產生同一個星系
+  const random = useRandom(`galaxy:${count}:${arms}:${radius}`);
+  const galaxy = useMemo(() => buildGalaxy(count, arms, radius, random), [count, arms, radius, random]);
+
+  useFrame((_, delta) => {
+    if (!pointsRef.current) return;
+    const { bassIntensity, midIntensity } = audio.current;
+    pointsRef.current.rotation.y += delta * numberParam(live.current, 'spin', 0.4) * (0.2 + midIntensity * 2);
+    pointsRef.current.scale.y = 1 + bassIntensity * 3;
+
+    const material = pointsRef.current.material as THREE.PointsMaterial;
+    material.size = 0.08 * (1 + bassIntensity * 2);
+  });
+
+  return (
+    <Points ref={pointsRef} position={[0, 2, 0]} key={`${count}-${arms}-${radius}`}>
+      <BufferGeometry>
+        <BufferAttribute attach="attributes-position" args={[galaxy.positions, 3]} />
+        <BufferAttribute attach="attributes-color" args={[galaxy.colors, 3]} />
+      </BufferGeometry>
+      <PointsMaterial
+        vertexColors
+        size={0.08}
+        sizeAttenuation
+        transparent
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+      />
+    </Points>
+  );
+};
+
+export const galaxyScene: SceneDefinition = { ...GALAXY_SPEC, component: GalaxyScene };
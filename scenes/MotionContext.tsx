@@ -0,0 +1,17 @@
+import React, { createContext, useContext } from 'react';
+
+export interface MotionSettings {
+  /** Reduced motion: flashing and bouncing visuals are toned down. */
+  calm: boolean;
+  /** Whether physics may be toned down too; off while recording or replaying, which must reproduce exactly. */
+  calmPhysics: boolean;
+}
+
+const MotionContext = createContext<MotionSettings>({ calm: false, calmPhysics: false });
+
+export const MotionProvider: React.FC<{ settings: MotionSettings; children: React.ReactNode }> = ({ settings, children }) => (
+  <MotionContext.Provider value={settings}>{children}</MotionContext.Provider>
+);
+
+/** The reduced-motion setting; scenes use it to tone down their own flashes and impulses. */
+export const useMotionSettings = () => useContext(MotionContext);
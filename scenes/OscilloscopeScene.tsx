@@ -0,0 +1,63 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useAudioData } from '../audio/AudioDataContext';
+import { Group, LineLoop, LineBasicMaterial } from './elements';
+import { SceneDefinition, SceneProps, numberParam } from './registry';
+import { OSCILLOSCOPE_SPEC } from './params';
+
+const POINTS = 256;
+// 多層略有大小差異的線圈模擬線寬與光暈 (WebGL 不支援 lineWidth)
+const LAYERS = [
+  { scale: 1, opacity: 1 },
+  { scale: 1.015, opacity: 0.4 },
+  { scale: 0.985, opacity: 0.4 },
+];
+
+// 放射狀示波器：時域波形繞成一圈
+const OscilloscopeScene: React.FC<SceneProps> = ({ params, live }) => {
+  const audio = useAudioData();
+  const groupRef = useRef<THREE.Group>(null);
+  const geometry = useMemo(() => {
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(POINTS * 3), 3));
+    return g;
+  }, []);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((state, delta) => {
+    const radius = numberParam(live.current, 'radius', 6);
+    const amplitude = numberParam(live.current, 'amplitude', 3);
+    const { timeDomainData, bassIntensity } = audio.current;
+    const positions = (geometry.attributes.position as THREE.BufferAttribute).array as Float32Array;
+
+    for (let i = 0; i < POINTS; i++) {
+      const angle = (i / POINTS) * Math.PI * 2;
+      const sampleIndex = Math.floor((i / POINTS) * timeDomainData.length);
+      const sample = timeDomainData.length ? (timeDomainData[sampleIndex] - 128) / 128 : 0;
+      const r = radius * (1 + bassIntensity * 0.2) + sample * amplitude;
+      positions[i * 3] = Math.cos(angle) * r;
+      positions[i * 3 + 1] = Math.sin(angle) * r;
+      positions[i * 3 + 2] = 0;
+    }
+    geometry.attributes.position.needsUpdate = true;
+
+    if (groupRef.current) {
+      groupRef.current.rotation.z += delta * numberParam(live.current, 'rotationSpeed', 0.3);
+      groupRef.current.position.y = radius + 2 + Math.sin(state.clock.elapsedTime) * 0.3;
+    }
+  });
+
+  return (
+    <Group ref={groupRef} position={[0, numberParam(params, 'radius', 6) + 2, 0]}>
+      {LAYERS.map((layer, i) => (
+        <LineLoop key={i} geometry={geometry} scale={layer.scale}>
+          <LineBasicMaterial color={i === 0 ? '#00f2ff' : '#ec4899'} transparent opacity={layer.opacity} />
+        </LineLoop>
+      ))}
+    </Group>
+  );
+};
+
+export const oscilloscopeScene: SceneDefinition = { ...OSCILLOSCOPE_SPEC, component: OscilloscopeScene };
@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useAudioData, useBeat } from '../audio/AudioDataContext';
+import { DEFAULT_PARTICLE_SETTINGS, ParticleSettings, Point3, Rgb, createParticleSystem } from '../particles/system';
+import { Primitive } from './elements';
+import { SceneParams, numberParam, stringParam } from './registry';
+import { useRandom } from './RandomContext';
+
+interface ParticleFieldProps {
+  /** Hard cap on live particles. */
+  budget: number;
+  live: React.MutableRefObject<SceneParams>;
+  isPlaying: boolean;
+  /** Centre of the pulse ball, updated by its physics subscription. */
+  center: React.MutableRefObject<number[]>;
+  /** Radius of the pulse ball; particles bounce off it. */
+  radius: number;
+}
+
+/** Attribute holding each particle's size multiplier. */
+const SIZE_ATTRIBUTE = 'particleSize';
+const UPLOADED_ATTRIBUTES = ['position', 'color', SIZE_ATTRIBUTE];
+
+// PointsMaterial 加上每顆粒子的大小，並把方形點裁成柔邊圓點
+const createParticleMaterial = () => {
+  const material = new THREE.PointsMaterial({
+    vertexColors: true,
+    sizeAttenuation: true,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  });
+  material.onBeforeCompile = shader => {
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\nattribute float ${SIZE_ATTRIBUTE};`)
+      .replace('gl_PointSize = size;', `gl_PointSize = size * ${SIZE_ATTRIBUTE};`);
+    shader.fragmentShader = shader.fragmentShader.replace(
+      '#include <alphatest_fragment>',
+      'diffuseColor.a *= smoothstep( 0.5, 0.2, length( gl_PointCoord - 0.5 ) );\n#include <alphatest_fragment>'
+    );
+  };
+  return material;
+};
+
+const rampColor = new THREE.Color();
+const setRgb = (out: Rgb, hex: string) => rampColor.set(hex).toArray(out);
+
+/** Reads the particle params of the ring scene into the system's settings. */
+const readSettings = (params: SceneParams, out: ParticleSettings) => {
+  out.lifetime = numberParam(params, 'particleLife', DEFAULT_PARTICLE_SETTINGS.lifetime);
+  out.spectrumForce = numberParam(params, 'particleSpectrum', DEFAULT_PARTICLE_SETTINGS.spectrumForce);
+  out.orbitStrength = numberParam(params, 'particleOrbit', DEFAULT_PARTICLE_SETTINGS.orbitStrength);
+  out.sizeCurve[0] = numberParam(params, 'particleSizeStart', 0.2);
+  out.sizeCurve[1] = numberParam(params, 'particleSizePeak', 1);
+  out.sizeCurve[2] = numberParam(params, 'particleSizeEnd', 0);
+  setRgb(out.colorRamp[0], stringParam(params, 'particleColorStart', '#ffffff'));
+  setRgb(out.colorRamp[1], stringParam(params, 'particleColorMid', '#00f2ff'));
+  setRgb(out.colorRamp[2], stringParam(params, 'particleColorEnd', '#ff0080'));
+  return out;
+};
+
+// 粒子場：節拍時從能量球噴發，受頻譜推力與環繞力影響，並在球面反彈
+const ParticleField = ({ budget, live, isPlaying, center, radius }: ParticleFieldProps) => {
+  const audio = useAudioData();
+  const random = useRandom('particles');
+  const playingRef = useRef(isPlaying);
+  playingRef.current = isPlaying;
+
+  const settings = useRef<ParticleSettings>({
+    ...DEFAULT_PARTICLE_SETTINGS,
+    colorRamp: DEFAULT_PARTICLE_SETTINGS.colorRamp.map(stop => [...stop] as Rgb),
+    sizeCurve: [...DEFAULT_PARTICLE_SETTINGS.sizeCurve],
+  });
+  const forces = useRef({ center: [0, 0, 0] as Point3, radius, spectrum: new Uint8Array(0) });
+
+  const field = useMemo(() => {
+    const system = createParticleSystem(budget);
+    const geometry = new THREE.BufferGeometry();
+    const attribute = (array: Float32Array, size: number) =>
+      new THREE.BufferAttribute(array, size).setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute('position', attribute(system.positions, 3));
+    geometry.setAttribute('color', attribute(system.colors, 3));
+    geometry.setAttribute(SIZE_ATTRIBUTE, attribute(system.sizes, 1));
+    geometry.setDrawRange(0, 0);
+    const points = new THREE.Points(geometry, createParticleMaterial());
+    // 粒子散佈範圍每幀都在變，不做視錐剔除
+    points.frustumCulled = false;
+    return { system, points };
+  }, [budget]);
+
+  useEffect(
+    () => () => {
+      field.points.geometry.dispose();
+      (field.points.material as THREE.Material).dispose();
+    },
+    [field]
+  );
+
+  // 節拍：依強度與信心度決定噴發量
+  useBeat((beat) => {
+    if (!playingRef.current) return;
+    const params = live.current;
+    const amount = numberParam(params, 'particleBurst', 150) * (0.5 + beat.strength) * (0.4 + 0.6 * beat.confidence);
+    field.system.emit(center.current as Point3, amount, numberParam(params, 'particleSpeed', 8), readSettings(params, settings.current), random);
+  });
+
+  useFrame((_, delta) => {
+    const { system, points } = field;
+    const params = live.current;
+    const f = forces.current;
+    f.center[0] = center.current[0];
+    f.center[1] = center.current[1];
+    f.center[2] = center.current[2];
+    f.radius = radius;
+    f.spectrum = audio.current.frequencyData;
+
+    // 大幅掉幀時限制步長，避免粒子被一次甩飛
+    system.update(Math.min(delta, 0.1), readSettings(params, settings.current), f);
+
+    const material = points.material as THREE.PointsMaterial;
+    material.size = numberParam(params, 'particleSize', 0.25);
+
+    const geometry = points.geometry;
+    geometry.setDrawRange(0, system.count());
+    for (const name of UPLOADED_ATTRIBUTES) {
+      const attr = geometry.getAttribute(name) as THREE.BufferAttribute;
+      attr.clearUpdateRanges();
+      attr.addUpdateRange(0, system.count() * attr.itemSize);
+      attr.needsUpdate = true;
+    }
+  });
+
+  return <Primitive object={field.points} />;
+};
+
+export default ParticleField;
@@ -0,0 +1,11 @@
+import React, { createContext, useContext } from 'react';
+import { DEFAULT_TIER, QualitySettings, TIER_SETTINGS } from '../quality/tiers';
+
+const QualityContext = createContext<QualitySettings>(TIER_SETTINGS[DEFAULT_TIER]);
+
+export const QualityProvider: React.FC<{ settings: QualitySettings; children: React.ReactNode }> = ({ settings, children }) => (
+  <QualityContext.Provider value={settings}>{children}</QualityContext.Provider>
+);
+
+/** Settings of the active quality tier; scenes use them to cap their own detail. */
+export const useQualitySettings = () => useContext(QualityContext);
@@ -0,0 +1,18 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { DEFAULT_SEED, Random, createRandom, hashSeed } from './random';
+
+const SeedContext = createContext(DEFAULT_SEED);
+
+export const RandomProvider: React.FC<{ seed: number; children: React.ReactNode }> = ({ seed, children }) => (
+  <SeedContext.Provider value={seed}>{children}</SeedContext.Provider>
+);
+
+/**
+ * A random stream for one consumer, derived from the scene seed and `label`.
+ * Streams are independent of mount order, so the same seed always produces
+ * the same scene. Scene code must use this instead of Math.random().
+ */
+export const useRandom = (label: string): Random => {
+  const seed = useContext(SeedContext);
+  return useMemo(() => createRandom(hashSeed(seed, label)), [seed, label]);
+};
@@ -0,0 +1,334 @@
+import React, { useEffect, useRef, useMemo } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useSphere, useBox } from '@react-three/cannon';
+import * as THREE from 'three';
+import { useAudioData, useBands, useBeat } from '../audio/AudioDataContext';
+import { Mesh, InstancedMesh, Primitive, MeshStandardMaterial, SphereGeometry, PointLight } from './elements';
+import { GLOW_ATTRIBUTE, createGlowInstances, disposeInstances } from './instancing';
+import { SceneDefinition, SceneParams, SceneProps, numberParam } from './registry';
+import { RING_SPEC } from './params';
+import { useRandom } from './RandomContext';
+import { useQualitySettings } from './QualityContext';
+import { useMotionSettings } from './MotionContext';
+import ParticleField from './ParticleField';
+import { usePublishFocus } from '../camera/CameraFocus';
+import { useSection, useSectionChange } from '../sections/SectionContext';
+import { usePlayground } from '../playground/PlaygroundContext';
+import { useGrab } from '../playground/useGrab';
+import { useHitEmitter } from '../playground/useHitEmitter';
+
+/** Bars beyond this share colliders: each collider covers a sector of neighbouring bars. */
+const MAX_COLLIDERS = 64;
+
+interface BarRingProps {
+  total: number;
+  live: React.MutableRefObject<SceneParams>;
+  /** Collision flash per bar, written by the colliders and decayed here. */
+  hits: Float32Array;
+  /** Smoothed bar heights, written here and followed by riding colliders. */
+  heights: Float32Array;
+}
+
+const barMatrix = new THREE.Matrix4();
+const barPosition = new THREE.Vector3();
+const barScale = new THREE.Vector3();
+const barColor = new THREE.Color();
+const UP = new THREE.Vector3(0, 1, 0);
+// 碰撞閃爍的亮度倍率；減少動態時壓低到不再閃爍的程度
+const HIT_GLOW = 5;
+const CALM_HIT_GLOW = 0.5;
+// 減少動態時節拍衝量的倍率
+const CALM_IMPULSE = 0.3;
+
+// 音階柱環：全部柱子合成一個 InstancedMesh，每幀只寫矩陣、顏色與光暈陣列
+const BarRing = ({ total, live, hits, heights }: BarRingProps) => {
+  const audio = useAudioData();
+  const bands = useBands(total);
+  const section = useSection();
+  const { calm } = useMotionSettings();
+
+  const bars = useMemo(() => {
+    // 柱數很多時縮窄柱寬，避免互相重疊
+    const width = Math.min(0.5, ((Math.PI * 2 * 8) / total) * 0.8);
+    const instances = createGlowInstances(new THREE.BoxGeometry(0.5, 1, width), total, { metalness: 0.8, roughness: 0.2 });
+    const cos = new Float32Array(total);
+    const sin = new Float32Array(total);
+    const rotations = Array.from({ length: total }, (_, i) => {
+      const angle = (i / total) * Math.PI * 2;
+      cos[i] = Math.cos(angle);
+      sin[i] = Math.sin(angle);
+      return new THREE.Quaternion().setFromAxisAngle(UP, -angle);
+    });
+    return { ...instances, cos, sin, rotations };
+  }, [total]);
+
+  useEffect(() => () => disposeInstances(bars), [bars]);
+
+  // 上次寫入顏色時的參數；沒變就不重算
+  const colorKey = useRef('');
+
+  useFrame((_, delta) => {
+    const params = live.current;
+    const { mesh, glow, colors, cos, sin, rotations } = bars;
+
+    const hueStart = numberParam(params, 'hueStart', 0);
+    const hueRange = numberParam(params, 'hueRange', 360);
+    const saturation = numberParam(params, 'saturation', 80) / 100;
+    const lightness = numberParam(params, 'lightness', 50) / 100;
+    // 段落色相以整數度變化，緩動期間才需要重算
+    const hueShift = Math.round(section.current.hueShift);
+    const key = `${hueStart}:${hueRange}:${saturation}:${lightness}:${hueShift}`;
+    if (key !== colorKey.current) {
+      colorKey.current = key;
+      for (let i = 0; i < total; i++) {
+        const hue = hueStart + hueShift + (i / total) * hueRange;
+        barColor.setHSL((hue % 360) / 360, saturation, lightness);
+        barColor.toArray(colors, i * 3);
+      }
+      mesh.instanceColor!.needsUpdate = true;
+    }
+
+    // 碰撞閃爍衰減
+    const baseGlow = numberParam(params, 'glow', 0.5);
+    const hitGlow = calm ? CALM_HIT_GLOW : HIT_GLOW;
+    for (let i = 0; i < total; i++) {
+      glow[i] = baseGlow + hits[i] * hitGlow;
+      hits[i] *= 0.9;
+    }
+    mesh.geometry.getAttribute(GLOW_ATTRIBUTE).needsUpdate = true;
+
+    if (audio.current.frequencyData.length === 0) return;
+    // 每根柱子一個頻帶，依 preset 的頻譜刻度分組
+    const levels = bands.read(delta);
+
+    const radius = numberParam(params, 'radius', 8);
+    const heightScale = numberParam(params, 'heightScale', 10);
+    const smoothing = numberParam(params, 'smoothing', 0.2);
+
+    for (let i = 0; i < total; i++) {
+      const val = levels[i];
+      // 平滑高度變化
+      heights[i] = THREE.MathUtils.lerp(heights[i], 0.5 + val * heightScale, smoothing);
+
+      barPosition.set(cos[i] * radius, heights[i] / 2, sin[i] * radius);
+      barScale.set(1, heights[i], 1);
+      mesh.setMatrixAt(i, barMatrix.compose(barPosition, rotations[i], barScale));
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return <Primitive object={bars.mesh} />;
+};
+
+interface RingCollidersProps {
+  total: number;
+  live: React.MutableRefObject<SceneParams>;
+  hits: Float32Array;
+  heights: Float32Array;
+  /** Follow the bar tops as kinematic bodies, lifting whatever rests on them. */
+  riding: boolean;
+}
+
+/** Collider height; its top sits at the bar top while riding, at 1 otherwise. */
+const COLLIDER_HEIGHT = 2;
+
+// 碰撞體：讓能量球反彈與觸發閃爍，數量上限 MAX_COLLIDERS；遊樂場模式下隨柱高升降
+const RingColliders = ({ total, live, hits, heights, riding }: RingCollidersProps) => {
+  const count = Math.min(total, MAX_COLLIDERS);
+  const perCollider = total / count;
+  const placedRadius = useRef(numberParam(live.current, 'radius', 8));
+  const placedY = useMemo(() => new Float32Array(count), [count]);
+  const rising = useMemo(() => new Uint8Array(count), [count]);
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  const angleOf = (i: number) => (((i + 0.5) * perCollider - 0.5) / total) * Math.PI * 2;
+  const width = Math.max(0.5, ((Math.PI * 2 * placedRadius.current) / count) * 0.9);
+
+  const [, api] = useBox(
+    (i) => ({
+      type: riding ? 'Kinematic' : 'Static',
+      position: [Math.cos(angleOf(i)) * placedRadius.current, 0, Math.sin(angleOf(i)) * placedRadius.current],
+      rotation: [0, -angleOf(i), 0],
+      args: [0.5, COLLIDER_HEIGHT, count === total ? 0.5 : width],
+      onCollide: () => {
+        for (let bar = Math.floor(i * perCollider); bar < Math.floor((i + 1) * perCollider); bar++) hits[bar] = 1;
+      },
+    }),
+    meshRef
+  );
+
+  useFrame((_, delta) => {
+    // 半徑被調變或拖動時移動實體，不重建
+    const radius = numberParam(live.current, 'radius', 8);
+    const moved = Math.abs(radius - placedRadius.current) >= 0.01;
+    if (moved) placedRadius.current = radius;
+    if (!moved && !riding) return;
+
+    for (let i = 0; i < count; i++) {
+      let y = 0;
+      if (riding) {
+        // 涵蓋多根柱子時跟隨最高的一根
+        let top = 0;
+        for (let bar = Math.floor(i * perCollider); bar < Math.floor((i + 1) * perCollider); bar++) top = Math.max(top, heights[bar]);
+        y = top - COLLIDER_HEIGHT / 2;
+      }
+      const rise = y - placedY[i];
+      const still = Math.abs(rise) < 0.005;
+      if (!moved && still && !rising[i]) continue;
+      placedY[i] = y;
+      const body = api.at(i);
+      body.position.set(Math.cos(angleOf(i)) * radius, y, Math.sin(angleOf(i)) * radius);
+      if (!riding) continue;
+      // 運動學實體的速度讓上面的物體被一起帶動；停下時歸零一次
+      rising[i] = still ? 0 : 1;
+      body.velocity.set(0, still || delta <= 0 ? 0 : rise / delta, 0);
+    }
+  });
+
+  return <InstancedMesh ref={meshRef} args={[undefined, undefined, count]} visible={false} />;
+};
+
+// 中心物理球組件
+const BALL_RADIUS = 1.2;
+/** Hue of the ball's cyan glow, in degrees, before the section palette turns it. */
+const BALL_HUE = 183;
+const BALL_HOVER = 2;
+/** How far the hover height moves between the quietest and loudest sections. */
+const HOVER_RANGE = 2;
+// 段落邊界的向上衝量；進入 drop 時把球整個拋起
+const SECTION_NUDGE = 12;
+const DROP_LAUNCH = 40;
+
+interface PulseBallProps {
+  isPlaying: boolean;
+  live: React.MutableRefObject<SceneParams>;
+  /** Physics position of the ball, shared with the particle field. */
+  pos: React.MutableRefObject<number[]>;
+}
+
+const PulseBall = ({ isPlaying, live, pos }: PulseBallProps) => {
+  const onCollide = useHitEmitter('ball');
+  const [ref, api] = useSphere(() => ({
+    mass: 1,
+    position: [0, 5, 0],
+    args: [BALL_RADIUS],
+    linearDamping: 0.4,
+    angularDamping: 0.4,
+    // 能量球由節拍驅動，不能睡著
+    allowSleep: false,
+    onCollide,
+  }));
+
+  const random = useRandom('pulse-ball');
+  const section = useSection();
+  const { calmPhysics } = useMotionSettings();
+  const lightRef = useRef<THREE.PointLight>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const playingRef = useRef(isPlaying);
+  playingRef.current = isPlaying;
+
+  // 訂閱物理位置
+  useMemo(() => api.position.subscribe(v => pos.current = v), [api, pos]);
+  // 鏡頭跟隨的焦點
+  usePublishFocus(pos);
+  // 互動模式下可抓起甩出
+  const grab = useGrab(api, pos);
+
+  useFrame(() => {
+    const { energy, hueShift } = section.current;
+    if (materialRef.current) materialRef.current.emissive.setHSL((BALL_HUE + hueShift) / 360, 1, 0.5);
+    if (lightRef.current) {
+      lightRef.current.intensity = numberParam(live.current, 'ballLight', 10);
+      if (materialRef.current) lightRef.current.color.copy(materialRef.current.emissive);
+    }
+    if (!isPlaying) return;
+
+    // 向心引力：讓球體傾向回到中心，懸浮高度隨段落能量升降
+    const strength = 1.5;
+    const hover = BALL_HOVER + (energy - 0.5) * HOVER_RANGE;
+    api.applyForce([
+      -pos.current[0] * strength,
+      (hover - pos.current[1]) * strength,
+      -pos.current[2] * strength
+    ], [0, 0, 0]);
+  });
+
+  // 節拍事件：爆炸彈射！隨機方向衝量，力道隨節拍信心度縮放
+  useBeat((beat) => {
+    if (!playingRef.current) return;
+
+    const impulseBase = numberParam(live.current, 'impulseBase', 15);
+    const impulseScale = numberParam(live.current, 'impulseScale', 20);
+    // 安靜的段落彈得輕，激烈的段落彈得重
+    const drive = (0.5 + section.current.energy) * (calmPhysics ? CALM_IMPULSE : 1);
+    const force = (impulseBase + beat.strength * impulseScale) * (0.4 + 0.6 * beat.confidence) * (beat.isDownbeat ? 1.25 : 1) * drive;
+    const phi = random.range(0, Math.PI * 2);
+    const theta = random.range(0, Math.PI);
+
+    api.applyImpulse([
+      Math.sin(theta) * Math.cos(phi) * force,
+      Math.cos(theta) * force * 0.5,
+      Math.sin(theta) * Math.sin(phi) * force
+    ], [0, 0, 0]);
+  });
+
+  useSectionChange(entered => {
+    if (!playingRef.current) return;
+    const lift = entered.kind === 'drop' ? DROP_LAUNCH : SECTION_NUDGE;
+    api.applyImpulse([0, lift * (0.5 + entered.energy), 0], [0, 0, 0]);
+  });
+
+  return (
+    /* Use capitalized aliases for R3F elements */
+    <Mesh ref={ref} castShadow {...grab}>
+      <SphereGeometry args={[BALL_RADIUS, 32, 32]} />
+      <MeshStandardMaterial 
+        ref={materialRef}
+        color="#ffffff" 
+        emissive="#00f2ff" 
+        emissiveIntensity={2}
+        metalness={1}
+        roughness={0}
+      />
+      <PointLight ref={lightRef} color="#00f2ff" distance={10} />
+    </Mesh>
+  );
+};
+
+// 能量環場景：環狀音階柱 + 中心物理球
+const RingScene: React.FC<SceneProps> = ({ params, live, isPlaying }) => {
+  // 畫質等級限制柱數上限
+  const quality = useQualitySettings();
+  const barCount = Math.min(Math.round(numberParam(params, 'barCount', 64)), quality.maxBars);
+  const particleBudget = Math.min(Math.round(numberParam(params, 'particleBudget', 4000)), quality.maxParticles);
+  const hits = useMemo(() => new Float32Array(barCount), [barCount]);
+  const heights = useMemo(() => new Float32Array(barCount).fill(1), [barCount]);
+  const ballPos = useRef([0, 5, 0]);
+  const playground = usePlayground();
+  const riding = playground.enabled && playground.settings.rideBars;
+
+  return (
+    <>
+      <BarRing total={barCount} live={live} hits={hits} heights={heights} />
+      {/* 數量或實體類型改變時重建物理實體 */}
+      <RingColliders
+        key={`${barCount}-${riding}`}
+        total={barCount}
+        live={live}
+        hits={hits}
+        heights={heights}
+        riding={riding}
+      />
+
+      {/* 物理能量球 */}
+      <PulseBall isPlaying={isPlaying} live={live} pos={ballPos} />
+
+      {/* 節拍粒子：預算為 0 時關閉 */}
+      {particleBudget > 0 && (
+        <ParticleField budget={particleBudget} live={live} isPlaying={isPlaying} center={ballPos} radius={BALL_RADIUS} />
+      )}
+    </>
+  );
+};
+
+export const ringScene: SceneDefinition = { ...RING_SPEC, component: RingScene };
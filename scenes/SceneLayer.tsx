@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Group } from './elements';
+
+interface SceneLayerProps {
+  /** true while this layer should fade in (or stay), false to fade out. */
+  visible: boolean;
+  /** Crossfade length in seconds. */
+  duration: number;
+  /** Called once the layer has fully faded out. */
+  onHidden?: () => void;
+  children: React.ReactNode;
+}
+
+interface FadeState {
+  baseOpacity: number;
+  baseTransparent: boolean;
+}
+
+/**
+ * Fades every material under it by scaling its opacity. The original opacity
+ * and transparency are kept in material.userData and restored at full visibility,
+ * so scenes do not need to know they are being crossfaded.
+ */
+const SceneLayer: React.FC<SceneLayerProps> = ({ visible, duration, onHidden, children }) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const fade = useRef(0);
+  const settled = useRef(false);
+  const hiddenNotified = useRef(false);
+
+  useFrame((_, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    const target = visible ? 1 : 0;
+    if (fade.current === target && settled.current) return;
+
+    const step = duration > 0 ? delta / duration : 1;
+    fade.current = visible ? Math.min(1, fade.current + step) : Math.max(0, fade.current - step);
+    const opaque = fade.current === 1;
+
+    group.traverse(object => {
+      const material = (object as THREE.Mesh).material as THREE.Material | THREE.Material[] | undefined;
+      if (!material) return;
+      (Array.isArray(material) ? material : [material]).forEach(m => {
+        const state = (m.userData.fade ??= { baseOpacity: m.opacity, baseTransparent: m.transparent }) as FadeState;
+        m.opacity = state.baseOpacity * fade.current;
+        if (m.transparent !== (opaque ? state.baseTransparent : true)) {
+          m.transparent = opaque ? state.baseTransparent : true;
+          m.needsUpdate = true;
+        }
+      });
+    });
+
+    // 遠離時同時縮小，讓切換有景深感
+    group.scale.setScalar(0.9 + fade.current * 0.1);
+    group.visible = fade.current > 0;
+    settled.current = fade.current === target;
+
+    if (settled.current && !visible && !hiddenNotified.current) {
+      hiddenNotified.current = true;
+      onHidden?.();
+    }
+  });
+
+  return <Group ref={groupRef}>{children}</Group>;
+};
+
+export default SceneLayer;
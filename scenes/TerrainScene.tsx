@@ -0,0 +1,70 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useBands } from '../audio/AudioDataContext';
+import { Mesh, MeshStandardMaterial } from './elements';
+import { SceneDefinition, SceneProps, numberParam } from './registry';
+import { TERRAIN_SPEC } from './params';
+
+// 波形地形：每一列是一個時間點的頻譜，像瀑布一樣朝鏡頭推進
+const TerrainScene: React.FC<SceneProps> = ({ params, live }) => {
+  const rows = Math.round(numberParam(params, 'rows', 48));
+  const cols = Math.round(numberParam(params, 'cols', 64));
+
+  // 左右對稱，半邊 (含中央) 的欄數即頻帶數
+  const bands = useBands(Math.floor(cols / 2) + 1);
+  const accumulator = useRef(0);
+
+  const geometry = useMemo(() => {
+    const plane = new THREE.PlaneGeometry(40, 40, cols - 1, rows - 1);
+    plane.rotateX(-Math.PI / 2);
+    return plane;
+  }, [rows, cols]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((_, delta) => {
+    accumulator.current += delta;
+    const step = 1 / numberParam(live.current, 'rate', 30);
+    if (accumulator.current < step) return;
+    const elapsed = accumulator.current;
+    accumulator.current %= step;
+
+    const position = geometry.attributes.position as THREE.BufferAttribute;
+    const heights = position.array as Float32Array;
+    const levels = bands.read(elapsed);
+    const height = numberParam(live.current, 'height', 6);
+
+    // 整張地形往前移一列 (y 分量位於索引 +1)
+    for (let r = rows - 1; r > 0; r--) {
+      for (let c = 0; c < cols; c++) {
+        heights[(r * cols + c) * 3 + 1] = heights[((r - 1) * cols + c) * 3 + 1];
+      }
+    }
+
+    // 第一列寫入目前頻譜，左右對稱：中央是低音
+    const half = (cols - 1) / 2;
+    for (let c = 0; c < cols; c++) {
+      const distance = Math.abs(c - half) / half;
+      heights[c * 3 + 1] = levels[Math.round(distance * (levels.length - 1))] * height;
+    }
+
+    position.needsUpdate = true;
+    geometry.computeVertexNormals();
+  });
+
+  return (
+    <Mesh geometry={geometry} position={[0, -0.3, 0]}>
+      <MeshStandardMaterial
+        color="#050505"
+        emissive="#ec4899"
+        emissiveIntensity={0.6}
+        wireframe
+        metalness={0.5}
+        roughness={0.5}
+      />
+    </Mesh>
+  );
+};
+
+export const terrainScene: SceneDefinition = { ...TERRAIN_SPEC, component: TerrainScene };
@@ -0,0 +1,60 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useAudioData, useBands } from '../audio/AudioDataContext';
+import { Group, Mesh, TorusGeometry, MeshStandardMaterial } from './elements';
+import { SceneDefinition, SceneProps, numberParam } from './registry';
+import { TUNNEL_SPEC } from './params';
+import { useSection } from '../sections/SectionContext';
+
+// 頻譜隧道：一圈圈光環朝鏡頭推進，低音越強速度越快
+const TunnelScene: React.FC<SceneProps> = ({ params, live }) => {
+  const ringCount = Math.round(numberParam(params, 'ringCount', 24));
+  const radius = numberParam(params, 'radius', 6);
+
+  const audio = useAudioData();
+  const bands = useBands(ringCount);
+  const section = useSection();
+  const rings = useRef<Array<THREE.Mesh | null>>([]);
+  const travel = useRef(0);
+
+  useFrame((state, delta) => {
+    const speed = numberParam(live.current, 'speed', 8);
+    const depth = numberParam(live.current, 'depth', 60);
+    const spacing = depth / ringCount;
+    const { bassIntensity } = audio.current;
+    const levels = bands.read(delta);
+    travel.current = (travel.current + delta * speed * (0.3 + bassIntensity * 1.7)) % depth;
+
+    rings.current.forEach((ring, i) => {
+      if (!ring) return;
+      const z = ((i * spacing + travel.current) % depth) - depth + 10;
+      ring.position.z = z;
+
+      // 每個環對應一個頻帶
+      const val = levels[i];
+      const scale = 1 + val * 0.6;
+      ring.scale.set(scale, scale, 1);
+
+      const material = ring.material as THREE.MeshStandardMaterial;
+      // 段落改變時整體色相跟著旋轉
+      const hue = ((i / ringCount) * 0.5 + state.clock.elapsedTime * 0.05 + section.current.hueShift / 360) % 1;
+      material.emissive.setHSL(hue, 0.9, 0.5);
+      // 遠處淡出
+      material.emissiveIntensity = (0.3 + val * 3) * THREE.MathUtils.smoothstep(z, -depth + 10, -depth * 0.4);
+    });
+  });
+
+  return (
+    <Group position={[0, radius + 1, 0]}>
+      {Array.from({ length: ringCount }).map((_, i) => (
+        <Mesh key={`${ringCount}-${i}`} ref={(el: THREE.Mesh | null) => (rings.current[i] = el)}>
+          <TorusGeometry args={[radius, 0.08, 8, 64]} />
+          <MeshStandardMaterial color="#050505" emissive="#00f2ff" metalness={0.6} roughness={0.3} />
+        </Mesh>
+      ))}
+    </Group>
+  );
+};
+
+export const tunnelScene: SceneDefinition = { ...TUNNEL_SPEC, component: TunnelScene };
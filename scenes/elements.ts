@@ -0,0 +1,24 @@
+// Define local aliases for R3F intrinsic elements to bypass JSX type errors in environments
+// where the global JSX.IntrinsicElements is not properly augmented by @react-three/fiber.
+// Using capitalized names ensures that TypeScript treats them as component variables rather than intrinsic HTML/SVG tags.
+export const Mesh = 'mesh' as any;
+export const Group = 'group' as any;
+export const InstancedMesh = 'instancedMesh' as any;
+export const Primitive = 'primitive' as any;
+export const Points = 'points' as any;
+export const LineLoop = 'lineLoop' as any;
+export const BoxGeometry = 'boxGeometry' as any;
+export const SphereGeometry = 'sphereGeometry' as any;
+export const PlaneGeometry = 'planeGeometry' as any;
+export const TorusGeometry = 'torusGeometry' as any;
+export const BufferGeometry = 'bufferGeometry' as any;
+export const BufferAttribute = 'bufferAttribute' as any;
+export const MeshStandardMaterial = 'meshStandardMaterial' as any;
+export const MeshBasicMaterial = 'meshBasicMaterial' as any;
+export const PointsMaterial = 'pointsMaterial' as any;
+export const LineBasicMaterial = 'lineBasicMaterial' as any;
+export const PointLight = 'pointLight' as any;
+export const AmbientLight = 'ambientLight' as any;
+export const SpotLight = 'spotLight' as any;
+export const Color = 'color' as any;
+export const GridHelper = 'gridHelper' as any;
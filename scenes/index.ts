@@ -0,0 +1,13 @@
+import { registerScene } from './registry';
+import { ringScene } from './RingScene';
+import { tunnelScene } from './TunnelScene';
+import { galaxyScene } from './GalaxyScene';
+import { terrainScene } from './TerrainScene';
+import { oscilloscopeScene } from './OscilloscopeScene';
+
+// 內建場景；註冊順序即 UI 中的順序
+[ringScene, tunnelScene, galaxyScene, terrainScene, oscilloscopeScene].forEach(registerScene);
+
+export const DEFAULT_SCENE_ID = ringScene.id;
+
+export * from './registry';
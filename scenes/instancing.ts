@@ -0,0 +1,47 @@
+import * as THREE from 'three';
+
+/** Per-instance emissive strength, multiplied with the instance colour. */
+export const GLOW_ATTRIBUTE = 'instanceGlow';
+
+/**
+ * An InstancedMesh whose instances each carry a colour (instanceColor) and a
+ * glow strength (the `instanceGlow` attribute), so hundreds of differently lit
+ * objects render in a single draw call. Matrices change every frame, so the
+ * mesh is never frustum culled against stale instance bounds.
+ */
+export const createGlowInstances = (
+  geometry: THREE.BufferGeometry,
+  count: number,
+  materialParams: THREE.MeshStandardMaterialParameters = {}
+) => {
+  const glow = new THREE.InstancedBufferAttribute(new Float32Array(count), 1);
+  glow.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute(GLOW_ATTRIBUTE, glow);
+
+  const material = new THREE.MeshStandardMaterial(materialParams);
+  material.onBeforeCompile = shader => {
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\nattribute float ${GLOW_ATTRIBUTE};\nvarying float vGlow;`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>\nvGlow = ${GLOW_ATTRIBUTE};`);
+    // 自發光 = 實例顏色 × 實例光暈
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nvarying float vGlow;')
+      .replace('#include <emissivemap_fragment>', '#include <emissivemap_fragment>\ntotalEmissiveRadiance = vColor * vGlow;');
+  };
+
+  const mesh = new THREE.InstancedMesh(geometry, material, count);
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(count * 3), 3);
+  mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+  mesh.frustumCulled = false;
+
+  return { mesh, glow: glow.array as Float32Array, colors: mesh.instanceColor.array as Float32Array };
+};
+
+export type GlowInstances = ReturnType<typeof createGlowInstances>;
+
+export const disposeInstances = ({ mesh }: GlowInstances) => {
+  mesh.geometry.dispose();
+  (mesh.material as THREE.Material).dispose();
+  mesh.dispose();
+};
@@ -0,0 +1,123 @@
+// 場景參數定義與預設值；不依賴 React，預設檔驗證可在瀏覽器以外執行
+
+export type SceneParamValue = number | boolean | string;
+export type SceneParams = Record<string, SceneParamValue>;
+
+export type SceneParamDef =
+  | {
+      key: string;
+      label: string;
+      type: 'number';
+      min: number;
+      max: number;
+      step: number;
+      default: number;
+      /** Rebuilds geometry or physics bodies when changed, so it cannot be modulated per frame. */
+      structural?: boolean;
+    }
+  | { key: string; label: string; type: 'boolean'; default: boolean }
+  | { key: string; label: string; type: 'color'; default: string };
+
+/** What presets know about a scene: its id, name and parameters, without the component. */
+export interface SceneSpec {
+  id: string;
+  name: string;
+  params: SceneParamDef[];
+}
+
+export const RING_SPEC: SceneSpec = {
+  id: 'ring',
+  name: 'Energy Ring',
+  params: [
+    { key: 'barCount', label: 'Bars', type: 'number', min: 8, max: 1024, step: 1, default: 64, structural: true },
+    { key: 'radius', label: 'Radius', type: 'number', min: 4, max: 16, step: 0.1, default: 8 },
+    { key: 'smoothing', label: 'Smoothing', type: 'number', min: 0.02, max: 1, step: 0.01, default: 0.2 },
+    { key: 'heightScale', label: 'Height', type: 'number', min: 1, max: 20, step: 0.5, default: 10 },
+    { key: 'hueStart', label: 'Hue Start', type: 'number', min: 0, max: 360, step: 1, default: 0 },
+    { key: 'hueRange', label: 'Hue Range', type: 'number', min: 0, max: 720, step: 1, default: 360 },
+    { key: 'saturation', label: 'Saturation', type: 'number', min: 0, max: 100, step: 1, default: 80 },
+    { key: 'lightness', label: 'Lightness', type: 'number', min: 0, max: 100, step: 1, default: 50 },
+    { key: 'glow', label: 'Glow', type: 'number', min: 0, max: 5, step: 0.05, default: 0.5 },
+    { key: 'impulseBase', label: 'Impulse', type: 'number', min: 0, max: 50, step: 0.5, default: 15 },
+    { key: 'impulseScale', label: 'Impulse/Beat', type: 'number', min: 0, max: 60, step: 0.5, default: 20 },
+    { key: 'ballLight', label: 'Core Light', type: 'number', min: 0, max: 30, step: 0.5, default: 10 },
+    { key: 'particleBudget', label: 'Particles', type: 'number', min: 0, max: 20000, step: 500, default: 4000, structural: true },
+    { key: 'particleBurst', label: 'Burst', type: 'number', min: 0, max: 1000, step: 10, default: 150 },
+    { key: 'particleSpeed', label: 'Burst Speed', type: 'number', min: 0, max: 30, step: 0.5, default: 8 },
+    { key: 'particleLife', label: 'Lifetime', type: 'number', min: 0.2, max: 8, step: 0.1, default: 2.5 },
+    { key: 'particleSpectrum', label: 'Spectrum Push', type: 'number', min: 0, max: 40, step: 0.5, default: 12 },
+    { key: 'particleOrbit', label: 'Orbit', type: 'number', min: -10, max: 10, step: 0.1, default: 4 },
+    { key: 'particleSize', label: 'Particle Size', type: 'number', min: 0.02, max: 1, step: 0.01, default: 0.25 },
+    { key: 'particleSizeStart', label: 'Size @ Birth', type: 'number', min: 0, max: 2, step: 0.05, default: 0.2 },
+    { key: 'particleSizePeak', label: 'Size @ Mid', type: 'number', min: 0, max: 2, step: 0.05, default: 1 },
+    { key: 'particleSizeEnd', label: 'Size @ Death', type: 'number', min: 0, max: 2, step: 0.05, default: 0 },
+    { key: 'particleColorStart', label: 'Colour @ Birth', type: 'color', default: '#ffffff' },
+    { key: 'particleColorMid', label: 'Colour @ Mid', type: 'color', default: '#00f2ff' },
+    { key: 'particleColorEnd', label: 'Colour @ Death', type: 'color', default: '#ff0080' },
+  ],
+};
+
+export const TUNNEL_SPEC: SceneSpec = {
+  id: 'tunnel',
+  name: 'Spectrum Tunnel',
+  params: [
+    { key: 'ringCount', label: 'Rings', type: 'number', min: 8, max: 64, step: 1, default: 24, structural: true },
+    { key: 'radius', label: 'Radius', type: 'number', min: 2, max: 12, step: 0.1, default: 6, structural: true },
+    { key: 'speed', label: 'Speed', type: 'number', min: 0, max: 30, step: 0.5, default: 8 },
+    { key: 'depth', label: 'Depth', type: 'number', min: 20, max: 120, step: 1, default: 60 },
+  ],
+};
+
+export const GALAXY_SPEC: SceneSpec = {
+  id: 'galaxy',
+  name: 'Particle Galaxy',
+  params: [
+    { key: 'particleCount', label: 'Particles', type: 'number', min: 500, max: 20000, step: 500, default: 6000, structural: true },
+    { key: 'arms', label: 'Arms', type: 'number', min: 1, max: 8, step: 1, default: 4, structural: true },
+    { key: 'radius', label: 'Radius', type: 'number', min: 4, max: 30, step: 0.5, default: 14, structural: true },
+    { key: 'spin', label: 'Spin', type: 'number', min: 0, max: 2, step: 0.05, default: 0.4 },
+  ],
+};
+
+export const TERRAIN_SPEC: SceneSpec = {
+  id: 'terrain',
+  name: 'Terrain Waveform',
+  params: [
+    { key: 'rows', label: 'Rows', type: 'number', min: 16, max: 128, step: 1, default: 48, structural: true },
+    { key: 'cols', label: 'Columns', type: 'number', min: 16, max: 128, step: 1, default: 64, structural: true },
+    { key: 'height', label: 'Height', type: 'number', min: 1, max: 15, step: 0.5, default: 6 },
+    { key: 'rate', label: 'Scroll Rate', type: 'number', min: 5, max: 60, step: 1, default: 30 },
+  ],
+};
+
+export const OSCILLOSCOPE_SPEC: SceneSpec = {
+  id: 'oscilloscope',
+  name: 'Radial Oscilloscope',
+  params: [
+    { key: 'radius', label: 'Radius', type: 'number', min: 2, max: 12, step: 0.1, default: 6 },
+    { key: 'amplitude', label: 'Amplitude', type: 'number', min: 0.5, max: 8, step: 0.1, default: 3 },
+    { key: 'rotationSpeed', label: 'Rotation', type: 'number', min: -2, max: 2, step: 0.05, default: 0.3 },
+  ],
+};
+
+/** The built-in scenes, in the order the registry lists them. */
+export const SCENE_SPECS: SceneSpec[] = [RING_SPEC, TUNNEL_SPEC, GALAXY_SPEC, TERRAIN_SPEC, OSCILLOSCOPE_SPEC];
+
+export const defaultSceneParams = (scene: SceneSpec): SceneParams =>
+  Object.fromEntries(scene.params.map(p => [p.key, p.default]));
+
+/** Typed accessors so scene components can read params without casting everywhere. */
+export const numberParam = (params: SceneParams, key: string, fallback: number) => {
+  const value = params[key];
+  return typeof value === 'number' && isFinite(value) ? value : fallback;
+};
+
+export const stringParam = (params: SceneParams, key: string, fallback: string) => {
+  const value = params[key];
+  return typeof value === 'string' ? value : fallback;
+};
+
+export const booleanParam = (params: SceneParams, key: string, fallback: boolean) => {
+  const value = params[key];
+  return typeof value === 'boolean' ? value : fallback;
+};
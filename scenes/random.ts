@@ -0,0 +1,33 @@
+export interface Random {
+  /** Uniform float in [0, 1). */
+  next: () => number;
+  /** Uniform float in [min, max). */
+  range: (min: number, max: number) => number;
+}
+
+/** FNV-1a hash, used to derive independent streams from one seed and a label. */
+export const hashSeed = (seed: number, label: string) => {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < label.length; i++) {
+    h ^= label.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+};
+
+/** mulberry32: small, fast and identical on every JS engine. */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return { next, range: (min, max) => min + next() * (max - min) };
+};
+
+export const DEFAULT_SEED = 1;
+
+export const randomSeed = () => Math.floor(Math.random() * 0xffffffff);
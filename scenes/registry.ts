@@ -0,0 +1,29 @@
+import React from 'react';
+import { SceneParams, SceneSpec } from './params';
+
+export * from './params';
+
+export interface SceneProps {
+  params: SceneParams;
+  /** Parameter values after modulation, updated every frame; read inside useFrame. */
+  live: React.MutableRefObject<SceneParams>;
+  isPlaying: boolean;
+}
+
+export interface SceneDefinition extends SceneSpec {
+  component: React.FC<SceneProps>;
+}
+
+const scenes = new Map<string, SceneDefinition>();
+
+export const registerScene = (scene: SceneDefinition) => {
+  if (scenes.has(scene.id)) {
+    throw new Error(`Scene "${scene.id}" is already registered`);
+  }
+  scenes.set(scene.id, scene);
+};
+
+export const getScene = (id: string) => scenes.get(id);
+
+/** Scenes in registration order. */
+export const listScenes = () => Array.from(scenes.values());
@@ -0,0 +1,107 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Section, SectionKind, SongStructure, sectionAt } from '../audio/structure';
+import { Playhead } from '../audio/playhead';
+
+/** Where playback is in the song structure, updated every frame. */
+export interface SectionState {
+  /** The section playing now, or null without a structure. */
+  section: Section | null;
+  index: number;
+  /** The section's energy (0..1), eased across boundaries; 0.5 without a structure. */
+  energy: number;
+  /** Palette hue rotation in degrees, eased towards the current section's. */
+  hueShift: number;
+}
+
+export type SectionListener = (section: Section, index: number) => void;
+
+interface SectionEngine {
+  state: React.MutableRefObject<SectionState>;
+  subscribe: (listener: SectionListener) => () => void;
+}
+
+/** Hue rotation (degrees) each kind of section gives the scene palettes. */
+export const SECTION_HUES: Record<SectionKind, number> = {
+  intro: -40,
+  build: 30,
+  drop: 150,
+  breakdown: -90,
+  main: 0,
+  outro: -40,
+};
+
+// 跨段落時的緩動時間常數 (秒)
+const ENERGY_GLIDE = 1;
+const HUE_GLIDE = 2;
+const NEUTRAL_ENERGY = 0.5;
+
+const neutralState = (): SectionState => ({ section: null, index: -1, energy: NEUTRAL_ENERGY, hueShift: 0 });
+
+// 沒有 provider (例如匯出影片) 時場景維持中性狀態，也不會收到段落事件
+const SectionContext = createContext<SectionEngine>({ state: { current: neutralState() }, subscribe: () => () => {} });
+
+interface SectionProviderProps {
+  /** Sections of the current track, or null to leave the scenes as they are. */
+  structure: SongStructure | null;
+  playhead: Playhead | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Follows the playhead through the track's sections. Scenes read the eased
+ * state inside useFrame and can subscribe to boundary crossings, the way
+ * they subscribe to beats.
+ */
+export const SectionProvider: React.FC<SectionProviderProps> = ({ structure, playhead, children }) => {
+  const state = useRef<SectionState>(neutralState());
+  const listeners = useMemo(() => new Set<SectionListener>(), []);
+  const engine = useMemo<SectionEngine>(
+    () => ({
+      state,
+      subscribe: listener => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    }),
+    [listeners]
+  );
+
+  useFrame((_, delta) => {
+    const current = state.current;
+    const index = structure && playhead ? sectionAt(structure, playhead.now()) : -1;
+    const section = index >= 0 ? structure!.sections[index] : null;
+
+    if (index !== current.index) {
+      const crossed = current.index >= 0 && section !== null;
+      current.index = index;
+      current.section = section;
+      // 換曲或剛載入時不算跨過邊界
+      if (crossed) listeners.forEach(listener => listener(section!, index));
+    }
+
+    const energy = section ? section.energy : NEUTRAL_ENERGY;
+    const hue = section ? SECTION_HUES[section.kind] : 0;
+    current.energy += (energy - current.energy) * (1 - Math.exp(-delta / ENERGY_GLIDE));
+    current.hueShift += (hue - current.hueShift) * (1 - Math.exp(-delta / HUE_GLIDE));
+  }, -2);
+
+  // 換曲時舊段落不再有效
+  useEffect(() => {
+    state.current.index = -1;
+    state.current.section = null;
+  }, [structure]);
+
+  return <SectionContext.Provider value={engine}>{children}</SectionContext.Provider>;
+};
+
+export const useSection = () => useContext(SectionContext).state;
+
+/** Subscribes to section boundary crossings for the lifetime of the component. */
+export const useSectionChange = (listener: SectionListener) => {
+  const { subscribe } = useContext(SectionContext);
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribe((section, index) => listenerRef.current(section, index)), [subscribe]);
+};
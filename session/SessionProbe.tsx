@@ -0,0 +1,27 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { SceneInputs, SessionRecorder } from './recorder';
+
+interface SessionProbeProps {
+  recorder: SessionRecorder;
+  inputs: SceneInputs;
+}
+
+const ORIGIN = new THREE.Vector3();
+
+/** Feeds the recorder the scene inputs and camera pose at the start of every frame. */
+const SessionProbe: React.FC<SessionProbeProps> = ({ recorder, inputs }) => {
+  const inputsRef = useRef(inputs);
+  inputsRef.current = inputs;
+
+  // 在取樣 (-2) 之前執行，記錄的是這一幀將使用的輸入
+  useFrame(({ camera, controls }) => {
+    const target = (controls as unknown as { target?: THREE.Vector3 } | null)?.target ?? ORIGIN;
+    recorder.observe(inputsRef.current, camera.position, target);
+  }, -3);
+
+  return null;
+};
+
+export default SessionProbe;
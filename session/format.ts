@@ -0,0 +1,139 @@
+import { Preset, Vec3, validatePreset } from '../presets';
+import { AnalysisTrack } from '../offline/analysis';
+import { decodeBase64, encodeBase64 } from '../tags/binary';
+
+export const SESSION_FORMAT = 'cyberpulse-session';
+export const SESSION_VERSION = 1;
+/** Sessions are recorded and replayed at this fixed step. */
+export const SESSION_FPS = 60;
+
+/** Everything outside the audio stream that changes what the scene does. */
+export type SessionEvent =
+  | { frame: number; type: 'preset'; preset: Preset }
+  | { frame: number; type: 'playing'; playing: boolean }
+  | { frame: number; type: 'camera'; position: Vec3; target: Vec3 }
+  | { frame: number; type: 'seek'; time: number };
+
+export interface Session {
+  seed: number;
+  fps: number;
+  createdAt: string;
+  /** Preset and play state in effect at frame 0. */
+  preset: Preset;
+  playing: boolean;
+  /** Per-frame analyser output and audio clock, exactly as the scene saw it. */
+  audio: AnalysisTrack;
+  /** Sorted by frame. */
+  events: SessionEvent[];
+}
+
+export const serializeSession = (session: Session) =>
+  JSON.stringify({
+    format: SESSION_FORMAT,
+    version: SESSION_VERSION,
+    createdAt: session.createdAt,
+    seed: session.seed,
+    fps: session.fps,
+    preset: session.preset,
+    playing: session.playing,
+    audio: {
+      sampleRate: session.audio.sampleRate,
+      fftSize: session.audio.fftSize,
+      frameCount: session.audio.frameCount,
+      times: Array.from(session.audio.times ?? []),
+      frequency: encodeBase64(session.audio.frequency),
+      timeDomain: encodeBase64(session.audio.timeDomain),
+    },
+    events: session.events,
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number' && isFinite(v));
+
+const parseEvent = (raw: unknown, i: number): SessionEvent => {
+  const fail = (reason: string): never => {
+    throw new Error(`Session event ${i} ${reason}.`);
+  };
+  if (!isRecord(raw)) return fail('is not an object');
+  const frame = raw.frame;
+  if (typeof frame !== 'number' || !Number.isInteger(frame) || frame < 0) return fail('has no valid frame');
+
+  switch (raw.type) {
+    case 'preset':
+      return { frame, type: 'preset', preset: validatePreset(raw.preset) };
+    case 'playing':
+      if (typeof raw.playing !== 'boolean') return fail('has no playing flag');
+      return { frame, type: 'playing', playing: raw.playing };
+    case 'camera':
+      if (!isVec3(raw.position) || !isVec3(raw.target)) return fail('has an invalid camera pose');
+      return { frame, type: 'camera', position: raw.position, target: raw.target };
+    case 'seek':
+      if (typeof raw.time !== 'number' || !isFinite(raw.time)) return fail('has an invalid seek time');
+      return { frame, type: 'seek', time: raw.time };
+    default:
+      return fail(`has unknown type ${JSON.stringify(raw.type)}`);
+  }
+};
+
+export const parseSession = (json: string): Session => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new Error(`Session is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (!isRecord(raw) || raw.format !== SESSION_FORMAT) {
+    throw new Error(`Not a CyberPulse session (expected "format": "${SESSION_FORMAT}").`);
+  }
+  if (raw.version !== SESSION_VERSION) {
+    throw new Error(`Unsupported session version ${JSON.stringify(raw.version)}; this build reads version ${SESSION_VERSION}.`);
+  }
+
+  const audio = isRecord(raw.audio) ? raw.audio : {};
+  const { sampleRate, fftSize, frameCount } = audio;
+  if (
+    typeof sampleRate !== 'number' ||
+    typeof fftSize !== 'number' ||
+    typeof frameCount !== 'number' ||
+    typeof audio.frequency !== 'string' ||
+    typeof audio.timeDomain !== 'string' ||
+    !Array.isArray(audio.times)
+  ) {
+    throw new Error('Session audio stream is missing or incomplete.');
+  }
+
+  const frequency = decodeBase64(audio.frequency);
+  const timeDomain = decodeBase64(audio.timeDomain);
+  const binCount = fftSize / 2;
+  if (frequency.length !== frameCount * binCount || timeDomain.length !== frameCount * fftSize || audio.times.length !== frameCount) {
+    throw new Error(`Session audio stream does not contain ${frameCount} frames.`);
+  }
+
+  const fps = typeof raw.fps === 'number' && raw.fps > 0 ? raw.fps : SESSION_FPS;
+  const events = Array.isArray(raw.events) ? raw.events.map(parseEvent) : [];
+
+  return {
+    seed: typeof raw.seed === 'number' ? raw.seed >>> 0 : 0,
+    fps,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : '',
+    preset: validatePreset(raw.preset),
+    playing: raw.playing !== false,
+    audio: {
+      fps,
+      sampleRate,
+      frameCount,
+      fftSize,
+      binCount,
+      frequency,
+      timeDomain,
+      times: Float64Array.from(audio.times as number[]),
+    },
+    events: [...events].sort((a, b) => a.frame - b.frame),
+  };
+};
+
+export const sessionFileName = (session: Session) =>
+  `cyberpulse-session-${(session.createdAt || new Date().toISOString()).replace(/[:.]/g, '-')}.json`;
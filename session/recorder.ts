@@ -0,0 +1,105 @@
+import { AudioSampler } from '../audio/analysis';
+import { Preset, Vec3 } from '../presets';
+import { Session, SessionEvent } from './format';
+
+/** What the scene was given for a frame; recorded whenever it changes. */
+export interface SceneInputs {
+  preset: Preset;
+  isPlaying: boolean;
+}
+
+interface Pose {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const toVec3 = (p: Pose): Vec3 => [p.x, p.y, p.z];
+const sameVec3 = (a: Vec3, b: Vec3) => a.every((v, i) => Math.abs(v - b[i]) < 1e-6);
+
+/**
+ * Captures a session: every analyser frame the scene consumes (through a
+ * wrapped sampler) plus the inputs that changed between frames.
+ */
+export const createSessionRecorder = (seed: number, fps: number, initial: SceneInputs) => {
+  const frequency: Uint8Array[] = [];
+  const timeDomain: Uint8Array[] = [];
+  const times: number[] = [];
+  const events: SessionEvent[] = [];
+  let sampleRate = 44100;
+  let last = initial;
+  let lastCamera: { position: Vec3; target: Vec3 } | null = null;
+
+  return {
+    /** Frames recorded so far; also the index of the frame about to be sampled. */
+    frames: () => times.length,
+
+    wrap(inner: AudioSampler, rate: number): AudioSampler {
+      sampleRate = rate;
+      return {
+        sample: () => {
+          const data = inner.sample();
+          frequency.push(data.frequencyData.slice());
+          timeDomain.push(data.timeDomainData.slice());
+          times.push(inner.currentTime());
+          return data;
+        },
+        currentTime: inner.currentTime,
+      };
+    },
+
+    /**
+     * Called at the start of each frame, before sampling. Input changes apply
+     * from the coming frame; the camera pose is the one the previous frame
+     * was rendered with, since the controls move it during the frame.
+     */
+    observe(inputs: SceneInputs, camera: Pose, target: Pose) {
+      const frame = times.length;
+      if (inputs.preset !== last.preset) events.push({ frame, type: 'preset', preset: inputs.preset });
+      if (inputs.isPlaying !== last.isPlaying) events.push({ frame, type: 'playing', playing: inputs.isPlaying });
+      last = inputs;
+
+      const pose = { position: toVec3(camera), target: toVec3(target) };
+      if (!lastCamera || !sameVec3(pose.position, lastCamera.position) || !sameVec3(pose.target, lastCamera.target)) {
+        events.push({ frame: Math.max(0, frame - 1), type: 'camera', ...pose });
+        lastCamera = pose;
+      }
+    },
+
+    seek(time: number) {
+      events.push({ frame: times.length, type: 'seek', time });
+    },
+
+    finish(): Session {
+      const frameCount = times.length;
+      const binCount = frequency[0]?.length ?? 0;
+      const fftSize = timeDomain[0]?.length ?? 0;
+      const join = (frames: Uint8Array[], size: number) => {
+        const out = new Uint8Array(frames.length * size);
+        frames.forEach((frame, i) => out.set(frame.subarray(0, size), i * size));
+        return out;
+      };
+
+      return {
+        seed,
+        fps,
+        createdAt: new Date().toISOString(),
+        preset: initial.preset,
+        playing: initial.isPlaying,
+        audio: {
+          fps,
+          sampleRate,
+          frameCount,
+          fftSize,
+          binCount,
+          frequency: join(frequency, binCount),
+          timeDomain: join(timeDomain, fftSize),
+          times: Float64Array.from(times),
+        },
+        events: [...events].sort((a, b) => a.frame - b.frame),
+      };
+    },
+  };
+};
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
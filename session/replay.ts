@@ -0,0 +1,33 @@
+import { createTrackSampler } from '../offline/analysis';
+import { Vec3 } from '../presets';
+import { Session, SessionEvent } from './format';
+
+export interface CameraPose {
+  position: Vec3;
+  target: Vec3;
+}
+
+/**
+ * Walks a session frame by frame: a sampler that serves the recorded audio
+ * stream and the input events that take effect at each frame. Nothing here
+ * touches React or WebGL, so replays can also be checked headless.
+ */
+export const createReplay = (session: Session) => {
+  const sampler = createTrackSampler(session.audio);
+  const byFrame = new Map<number, SessionEvent[]>();
+  for (const event of session.events) {
+    const list = byFrame.get(event.frame);
+    if (list) list.push(event);
+    else byFrame.set(event.frame, [event]);
+  }
+
+  return {
+    session,
+    sampler,
+    frames: session.audio.frameCount,
+    /** Events for `frame`, in recording order; the last of each type wins. */
+    eventsAt: (frame: number) => byFrame.get(frame) ?? [],
+  };
+};
+
+export type Replay = ReturnType<typeof createReplay>;
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AudioSampler, analyzeSpectrum } from '../audio/analysis';
+import { createDefaultPreset } from '../presets';
+import { SESSION_FPS, parseSession, serializeSession } from './format';
+import { createSessionRecorder } from './recorder';
+import { createReplay } from './replay';
+
+const BINS = 32;
+const SAMPLE_RATE = 48000;
+
+/** A live analyser stand-in whose spectrum and clock move every frame. */
+const createFakeSampler = (): AudioSampler => {
+  let frame = 0;
+  return {
+    sample: () => {
+      frame++;
+      const frequency = Uint8Array.from({ length: BINS }, (_, i) => (frame * 7 + i * 13) % 256);
+      const waveform = Uint8Array.from({ length: BINS * 2 }, (_, i) => 128 + Math.round(100 * Math.sin(frame + i / 4)));
+      return analyzeSpectrum(frequency, null, SAMPLE_RATE, waveform);
+    },
+    currentTime: () => 0.5 + frame / SESSION_FPS,
+  };
+};
+
+const pose = (x: number) => ({ x, y: 2, z: 10 });
+const ORIGIN = { x: 0, y: 0, z: 0 };
+
+/** Records 30 frames with a preset change, a pause, a seek and a camera move. */
+const recordSession = () => {
+  const preset = createDefaultPreset();
+  const brighter = { ...preset, environment: { ...preset.environment, ambientLight: 3 } };
+  const recorder = createSessionRecorder(1234, SESSION_FPS, { preset, isPlaying: true });
+  const sampler = recorder.wrap(createFakeSampler(), SAMPLE_RATE);
+
+  const samples = [];
+  for (let frame = 0; frame < 30; frame++) {
+    recorder.observe(
+      { preset: frame >= 10 ? brighter : preset, isPlaying: frame < 20 },
+      pose(frame >= 15 ? 5 : 0),
+      ORIGIN
+    );
+    if (frame === 25) recorder.seek(42);
+    samples.push(sampler.sample());
+  }
+  return { session: recorder.finish(), samples };
+};
+
+describe('session recording', () => {
+  it('records every sampled frame and the input changes', () => {
+    const { session } = recordSession();
+    expect(session.audio.frameCount).toBe(30);
+    expect(session.audio.binCount).toBe(BINS);
+    expect(session.events.map(e => [e.frame, e.type])).toEqual([
+      [0, 'camera'],
+      [10, 'preset'],
+      [14, 'camera'],
+      [20, 'playing'],
+      [25, 'seek'],
+    ]);
+  });
+
+  it('round-trips through JSON and replays the same frames and events', () => {
+    const { session, samples } = recordSession();
+    const parsed = parseSession(serializeSession(session));
+    expect(parsed.seed).toBe(1234);
+    expect(parsed.preset).toEqual(session.preset);
+    expect(parsed.events).toEqual(session.events);
+
+    const original = createReplay(session);
+    const replay = createReplay(parsed);
+    expect(replay.frames).toBe(original.frames);
+
+    for (let frame = 0; frame < replay.frames; frame++) {
+      replay.sampler.seek(frame);
+      original.sampler.seek(frame);
+      const data = replay.sampler.sample();
+      expect(Array.from(data.frequencyData)).toEqual(Array.from(samples[frame].frequencyData));
+      expect(Array.from(data.timeDomainData)).toEqual(Array.from(samples[frame].timeDomainData));
+      expect(data).toEqual(original.sampler.sample());
+      expect(replay.sampler.currentTime()).toBe(original.sampler.currentTime());
+      expect(replay.eventsAt(frame)).toEqual(original.eventsAt(frame));
+    }
+    expect(replay.eventsAt(20)).toEqual([{ frame: 20, type: 'playing', playing: false }]);
+  });
+
+  it('rejects sessions whose audio stream is truncated', () => {
+    const { session } = recordSession();
+    const json = JSON.parse(serializeSession(session));
+    json.audio.frameCount = 31;
+    expect(() => parseSession(JSON.stringify(json))).toThrow('Session audio stream does not contain 31 frames.');
+  });
+
+  it('rejects unknown event types with their index', () => {
+    const { session } = recordSession();
+    const json = JSON.parse(serializeSession(session));
+    json.events.push({ frame: 3, type: 'teleport' });
+    expect(() => parseSession(JSON.stringify(json))).toThrow('Session event 5 has unknown type "teleport".');
+  });
+});
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { RootState } from '@react-three/fiber';
+import { Preset } from '../presets';
+import { DEFAULT_SEED, randomSeed } from '../scenes/random';
+import { FrameDriver, OfflineRender } from '../offline/OfflineDriver';
+import { frameTime } from '../offline/schedule';
+import { SESSION_FPS, Session, parseSession, serializeSession, sessionFileName } from './format';
+import { SessionRecorder, createSessionRecorder } from './recorder';
+import { CameraPose, Replay, createReplay } from './replay';
+
+export type SessionMode = 'live' | 'recording' | 'replaying';
+
+interface UseSessionOptions {
+  preset: Preset;
+  setPreset: (preset: Preset) => void;
+  /** Play state the scene currently receives. */
+  isPlaying: boolean;
+}
+
+const downloadSession = (session: Session) => {
+  const url = URL.createObjectURL(new Blob([serializeSession(session)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = sessionFileName(session);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const nextAnimationFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve));
+
+interface PendingCamera {
+  pose: CameraPose | null;
+}
+
+const cameraTarget = new THREE.Vector3();
+
+/** Puts the camera where it was when the frame was recorded (controls are disabled during replay). */
+const applyCamera = (state: RootState, camera: PendingCamera) => {
+  if (!camera.pose) return;
+  state.camera.position.set(...camera.pose.position);
+  cameraTarget.set(...camera.pose.target);
+  (state.controls as unknown as { target?: THREE.Vector3 } | null)?.target?.copy(cameraTarget);
+  state.camera.lookAt(cameraTarget);
+  camera.pose = null;
+};
+
+/**
+ * Seed, fixed-step mode, recording and replay for the visualizer. Every mode
+ * change remounts the scene (via `mountKey`) so each run starts from a fresh
+ * physics world, beat tracker and random streams.
+ */
+export const useSession = ({ preset, setPreset, isPlaying }: UseSessionOptions) => {
+  const [mode, setMode] = useState<SessionMode>('live');
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  const [fixedStep, setFixedStep] = useState(false);
+  const [mountKey, setMountKey] = useState(0);
+  const [recorder, setRecorder] = useState<SessionRecorder | null>(null);
+  const [offline, setOffline] = useState<OfflineRender | null>(null);
+  const [replayPlaying, setReplayPlaying] = useState(true);
+  const [progress, setProgress] = useState({ frame: 0, frames: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const replayRun = useRef(0);
+
+  const remount = () => setMountKey(k => k + 1);
+
+  const startRecording = useCallback(() => {
+    const next = randomSeed();
+    setSeed(next);
+    setRecorder(createSessionRecorder(next, SESSION_FPS, { preset, isPlaying }));
+    setMode('recording');
+    setError(null);
+    setMountKey(k => k + 1);
+  }, [preset, isPlaying]);
+
+  const stopRecording = useCallback(() => {
+    if (recorder && recorder.frames() > 0) downloadSession(recorder.finish());
+    setRecorder(null);
+    setMode('live');
+    remount();
+  }, [recorder]);
+
+  const stopReplay = useCallback(() => {
+    replayRun.current++;
+    setOffline(null);
+    setMode('live');
+    remount();
+  }, []);
+
+  // 某一幀失敗後畫面已與錄製內容不同步：放棄這次錄製並回到即時模式
+  const failLockstep = useCallback((err: unknown) => {
+    setError(`Fixed-step frame failed: ${err instanceof Error ? err.message : String(err)}`);
+    setRecorder(null);
+    setMode(current => (current === 'recording' ? 'live' : current));
+    remount();
+  }, []);
+
+  const runReplay = async (replay: Replay, driver: FrameDriver, run: number, camera: PendingCamera) => {
+    const { session } = replay;
+    let current = { preset: session.preset, playing: session.playing };
+    const start = performance.now();
+
+    for (let frame = 0; frame < replay.frames; frame++) {
+      // 依錄製時的速度播放
+      while (performance.now() < start + (frame * 1000) / session.fps) await nextAnimationFrame();
+      if (replayRun.current !== run) return;
+
+      const next = { ...current };
+      for (const event of replay.eventsAt(frame)) {
+        if (event.type === 'preset') next.preset = event.preset;
+        else if (event.type === 'playing') next.playing = event.playing;
+        else if (event.type === 'camera') camera.pose = event;
+      }
+      if (next.preset !== current.preset || next.playing !== current.playing) {
+        current = next;
+        setPreset(next.preset);
+        setReplayPlaying(next.playing);
+        await driver.whenCommitted(inputs => inputs.preset === next.preset && inputs.isPlaying === next.playing);
+      }
+
+      replay.sampler.seek(frame);
+      await driver.renderFrame(frameTime(frame, session.fps), () => null);
+      if (frame % 10 === 0) setProgress({ frame, frames: replay.frames });
+    }
+    if (replayRun.current === run) stopReplay();
+  };
+
+  const loadReplay = useCallback(async (file: File) => {
+    let session: Session;
+    try {
+      session = parseSession(await file.text());
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    const run = ++replayRun.current;
+    const replay = createReplay(session);
+    const camera: PendingCamera = { pose: null };
+    setError(null);
+    setRecorder(null);
+    setSeed(session.seed);
+    setPreset(session.preset);
+    setReplayPlaying(session.playing);
+    setProgress({ frame: 0, frames: session.audio.frameCount });
+    setOffline({
+      sampler: replay.sampler,
+      fps: session.fps,
+      onReady: driver =>
+        runReplay(replay, driver, run, camera).catch(err => {
+          if (replayRun.current !== run) return;
+          stopReplay();
+          setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+        }),
+      onFrame: state => applyCamera(state, camera),
+      fixedCamera: true,
+    });
+    setMode('replaying');
+    remount();
+  }, [setPreset, stopReplay]);
+
+  // 離開頁面時停止回放迴圈
+  useEffect(() => () => void replayRun.current++, []);
+
+  return {
+    mode,
+    seed,
+    changeSeed: (next: number) => {
+      setSeed(next);
+      remount();
+    },
+    fixedStep,
+    toggleFixedStep: () => {
+      setFixedStep(on => !on);
+      remount();
+    },
+    progress,
+    error,
+    dismissError: () => setError(null),
+    startRecording,
+    stopRecording,
+    loadReplay,
+    stopReplay,
+    /** Inputs a seek to the recorder so it shows up in the session file. */
+    noteSeek: (time: number) => recorder?.seek(time),
+    /** Changes whenever the Visualizer must remount with a fresh world. */
+    mountKey,
+    /** Props to spread onto the Visualizer. */
+    visualizer: {
+      seed,
+      fixedStep,
+      recorder,
+      offline,
+      onLockstepError: failLockstep,
+      isPlaying: mode === 'replaying' ? replayPlaying : isPlaying,
+    },
+  };
+};
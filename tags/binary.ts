@@ -0,0 +1,83 @@
+// Small byte helpers shared by the tag parsers
+
+export const readU16BE = (b: Uint8Array, o: number) => (b[o] << 8) | b[o + 1];
+
+export const readU24BE = (b: Uint8Array, o: number) => (b[o] << 16) | (b[o + 1] << 8) | b[o + 2];
+
+export const readU32BE = (b: Uint8Array, o: number) =>
+  ((b[o] << 24) >>> 0) + ((b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]);
+
+export const readU32LE = (b: Uint8Array, o: number) =>
+  ((b[o + 3] << 24) >>> 0) + ((b[o + 2] << 16) | (b[o + 1] << 8) | b[o]);
+
+/** 28-bit integer stored as four 7-bit bytes (ID3v2 sizes). */
+export const readSyncsafe = (b: Uint8Array, o: number) =>
+  ((b[o] & 0x7f) << 21) | ((b[o + 1] & 0x7f) << 14) | ((b[o + 2] & 0x7f) << 7) | (b[o + 3] & 0x7f);
+
+export const readAscii = (b: Uint8Array, o: number, length: number) => {
+  let s = '';
+  for (let i = o; i < o + length && i < b.length; i++) s += String.fromCharCode(b[i]);
+  return s;
+};
+
+export type TextEncoding = 'latin1' | 'utf-16' | 'utf-16be' | 'utf-8';
+
+const decoders = new Map<string, TextDecoder>();
+
+export const decodeText = (bytes: Uint8Array, encoding: TextEncoding) => {
+  let label: string = encoding;
+  let data = bytes;
+
+  if (encoding === 'utf-16') {
+    // 依 BOM 決定位元組順序，無 BOM 時預設 little-endian
+    if (data[0] === 0xfe && data[1] === 0xff) {
+      label = 'utf-16be';
+      data = data.subarray(2);
+    } else {
+      label = 'utf-16le';
+      if (data[0] === 0xff && data[1] === 0xfe) data = data.subarray(2);
+    }
+  }
+
+  let decoder = decoders.get(label);
+  if (!decoder) {
+    decoder = new TextDecoder(label);
+    decoders.set(label, decoder);
+  }
+  return decoder.decode(data);
+};
+
+/** Index of the first string terminator (one zero byte, or a 2-byte aligned zero pair for UTF-16). */
+export const findTerminator = (b: Uint8Array, start: number, wide: boolean) => {
+  if (!wide) {
+    const i = b.indexOf(0, start);
+    return i === -1 ? b.length : i;
+  }
+  for (let i = start; i + 1 < b.length; i += 2) {
+    if (b[i] === 0 && b[i + 1] === 0) return i;
+  }
+  return b.length;
+};
+
+export const decodeBase64 = (value: string) => {
+  const binary = atob(value.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const encodeBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // 分段轉換，避免大型陣列展開時超出參數數量上限
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/** Parses a BPM tag value ("128", "127.5", "128 BPM"); returns undefined for anything unusable. */
+export const parseBpm = (value: string | undefined) => {
+  if (!value) return undefined;
+  const bpm = parseFloat(value);
+  return isFinite(bpm) && bpm > 0 ? bpm : undefined;
+};
@@ -0,0 +1,190 @@
+import { TimedText, TrackMetadata } from '../types';
+import {
+  TextEncoding,
+  decodeText,
+  findTerminator,
+  parseBpm,
+  readAscii,
+  readSyncsafe,
+  readU24BE,
+  readU32BE
+} from './binary';
+
+export interface Id3Frame {
+  id: string;
+  data: Uint8Array;
+}
+
+const ENCODINGS: TextEncoding[] = ['latin1', 'utf-16', 'utf-16be', 'utf-8'];
+
+// ID3v2.2 使用三字元的 frame id
+const V22_IDS: Record<string, string> = {
+  TT2: 'TIT2',
+  TP1: 'TPE1',
+  TAL: 'TALB',
+  TBP: 'TBPM',
+  PIC: 'APIC',
+  ULT: 'USLT',
+  SLT: 'SYLT',
+};
+
+const IMAGE_FORMATS: Record<string, string> = { JPG: 'image/jpeg', PNG: 'image/png' };
+
+/** Reverses ID3 unsynchronisation: every 0xFF 0x00 pair becomes 0xFF. */
+export const removeUnsync = (data: Uint8Array) => {
+  const out = new Uint8Array(data.length);
+  let j = 0;
+  for (let i = 0; i < data.length; i++) {
+    out[j++] = data[i];
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, j);
+};
+
+export const hasId3v2 = (bytes: Uint8Array) => readAscii(bytes, 0, 3) === 'ID3' && bytes.length >= 10;
+
+/** Total tag length including the 10-byte header (and footer when present). */
+export const id3v2Size = (bytes: Uint8Array) => {
+  if (!hasId3v2(bytes)) return 0;
+  const footer = bytes[3] === 4 && (bytes[5] & 0x10) ? 10 : 0;
+  return 10 + readSyncsafe(bytes, 6) + footer;
+};
+
+/** Splits an ID3v2.2/2.3/2.4 tag into frames, with v2.2 ids mapped to their v2.3 names. */
+export const readId3v2Frames = (bytes: Uint8Array): Id3Frame[] => {
+  if (!hasId3v2(bytes)) return [];
+
+  const version = bytes[3];
+  const flags = bytes[5];
+  const end = Math.min(bytes.length, 10 + readSyncsafe(bytes, 6));
+  let tag = bytes.subarray(10, end);
+  if (version < 4 && flags & 0x80) tag = removeUnsync(tag);
+
+  let offset = 0;
+  if (flags & 0x40 && version >= 3) {
+    offset = version === 4 ? readSyncsafe(tag, 0) : readU32BE(tag, 0) + 4;
+  }
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const frames: Id3Frame[] = [];
+
+  while (offset + headerLength <= tag.length) {
+    const rawId = readAscii(tag, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(rawId)) break; // 進入 padding
+
+    const size =
+      version === 2 ? readU24BE(tag, offset + 3) : version === 4 ? readSyncsafe(tag, offset + 4) : readU32BE(tag, offset + 4);
+    const formatFlags = version === 2 ? 0 : tag[offset + 9];
+    const start = offset + headerLength;
+    if (size <= 0 || start + size > tag.length) break;
+
+    let data = tag.subarray(start, start + size);
+    if (version === 4) {
+      if (formatFlags & 0x01) data = data.subarray(4); // data length indicator
+      if (formatFlags & 0x02) data = removeUnsync(data);
+    }
+
+    frames.push({ id: version === 2 ? V22_IDS[rawId] ?? rawId : rawId, data });
+    offset = start + size;
+  }
+
+  return frames;
+};
+
+/** First string of a text frame (T***). Multiple v2.4 values are joined with " / ". */
+export const readTextFrame = (data: Uint8Array) => {
+  const encoding = ENCODINGS[data[0]] ?? 'latin1';
+  const text = decodeText(data.subarray(1), encoding);
+  return text.split('\0').filter(Boolean).join(' / ').trim();
+};
+
+/** Reads an encoded, null-terminated string. Returns the text and the offset after the terminator. */
+export const readEncodedString = (data: Uint8Array, start: number, encoding: TextEncoding) => {
+  const wide = encoding === 'utf-16' || encoding === 'utf-16be';
+  const end = findTerminator(data, start, wide);
+  return { text: decodeText(data.subarray(start, end), encoding), next: end + (wide ? 2 : 1) };
+};
+
+const readPicture = (data: Uint8Array, v22: boolean) => {
+  const encoding = ENCODINGS[data[0]] ?? 'latin1';
+  let offset = 1;
+  let mimeType: string;
+
+  if (v22) {
+    const format = readAscii(data, 1, 3).toUpperCase();
+    mimeType = IMAGE_FORMATS[format] ?? `image/${format.toLowerCase()}`;
+    offset = 4;
+  } else {
+    const mime = readEncodedString(data, 1, 'latin1');
+    mimeType = mime.text || 'image/jpeg';
+    offset = mime.next;
+  }
+
+  const pictureType = data[offset];
+  const description = readEncodedString(data, offset + 1, encoding);
+  return { pictureType, mimeType: mimeType.includes('/') ? mimeType : `image/${mimeType}`, data: data.slice(description.next) };
+};
+
+/** USLT: encoding, language, descriptor, then the lyrics text. */
+const readUnsyncedLyrics = (data: Uint8Array) => {
+  const encoding = ENCODINGS[data[0]] ?? 'latin1';
+  const descriptor = readEncodedString(data, 4, encoding);
+  return decodeText(data.subarray(descriptor.next), encoding).replace(/\0+$/, '').trim();
+};
+
+// SYLT 時間格式 2 為毫秒；1 為 MPEG 影格，沒有影格率無法換算
+const SYLT_MILLISECONDS = 2;
+
+/** SYLT: encoding, language, time format, content type, descriptor, then text + 32-bit time pairs. */
+const readSyncedLyrics = (data: Uint8Array): TimedText[] | null => {
+  if (data.length < 6 || data[4] !== SYLT_MILLISECONDS) return null;
+  const encoding = ENCODINGS[data[0]] ?? 'latin1';
+  let offset = readEncodedString(data, 6, encoding).next;
+  const entries: TimedText[] = [];
+  while (offset < data.length) {
+    const entry = readEncodedString(data, offset, encoding);
+    if (entry.next + 4 > data.length) break;
+    entries.push({ time: readU32BE(data, entry.next) / 1000, text: entry.text });
+    offset = entry.next + 4;
+  }
+  return entries.length ? entries : null;
+};
+
+export const parseId3v2 = (bytes: Uint8Array): TrackMetadata => {
+  const metadata: TrackMetadata = {};
+  const v22 = bytes[3] === 2;
+
+  for (const frame of readId3v2Frames(bytes)) {
+    switch (frame.id) {
+      case 'TIT2':
+        metadata.title = readTextFrame(frame.data) || metadata.title;
+        break;
+      case 'TPE1':
+        metadata.artist = readTextFrame(frame.data) || metadata.artist;
+        break;
+      case 'TALB':
+        metadata.album = readTextFrame(frame.data) || metadata.album;
+        break;
+      case 'TBPM':
+        metadata.bpm = parseBpm(readTextFrame(frame.data)) ?? metadata.bpm;
+        break;
+      case 'USLT':
+        metadata.lyrics = metadata.lyrics || readUnsyncedLyrics(frame.data) || undefined;
+        break;
+      case 'SYLT':
+        metadata.syncedLyrics = metadata.syncedLyrics ?? readSyncedLyrics(frame.data) ?? undefined;
+        break;
+      case 'APIC': {
+        const picture = readPicture(frame.data, v22);
+        // 優先使用封面 (type 3)，否則取第一張
+        if (!metadata.cover || picture.pictureType === 3) {
+          metadata.cover = { mimeType: picture.mimeType, data: picture.data };
+        }
+        break;
+      }
+    }
+  }
+
+  return metadata;
+};
@@ -0,0 +1,22 @@
+import { TrackMetadata } from '../types';
+import { readAscii } from './binary';
+import { hasId3v2, id3v2Size, parseId3v2 } from './id3';
+import { isMp4, parseMp4 } from './mp4';
+import { parseFlac, parseOgg } from './vorbis';
+
+const stripEmpty = (metadata: TrackMetadata) =>
+  Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as TrackMetadata;
+
+/** Detects the container from its magic bytes and returns whatever tags it carries. */
+export const parseTags = (bytes: Uint8Array): TrackMetadata => {
+  if (hasId3v2(bytes)) {
+    const id3 = parseId3v2(bytes);
+    // 部分 FLAC 檔案前面會多一段 ID3，其後仍有原生註解
+    const rest = bytes.subarray(id3v2Size(bytes));
+    return readAscii(rest, 0, 4) === 'fLaC' ? { ...id3, ...stripEmpty(parseFlac(rest)) } : id3;
+  }
+  if (readAscii(bytes, 0, 4) === 'fLaC') return parseFlac(bytes);
+  if (readAscii(bytes, 0, 4) === 'OggS') return parseOgg(bytes);
+  if (isMp4(bytes)) return parseMp4(bytes);
+  return {};
+};
@@ -0,0 +1,99 @@
+import { TrackMetadata } from '../types';
+import { decodeText, readAscii, readU16BE, readU32BE } from './binary';
+
+interface Atom {
+  type: string;
+  start: number;
+  /** Offset of the payload (after the size/type header). */
+  dataStart: number;
+  end: number;
+}
+
+// iTunes 的 data atom 類型標記
+const DATA_UTF8 = 1;
+const DATA_PNG = 14;
+
+/** Lists the child atoms between `start` and `end`. */
+export const readAtoms = (bytes: Uint8Array, start = 0, end = bytes.length): Atom[] => {
+  const atoms: Atom[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = readU32BE(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      // 64 位元長度；超過 2^53 的檔案不可能在記憶體中
+      size = readU32BE(bytes, offset + 8) * 2 ** 32 + readU32BE(bytes, offset + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+
+    atoms.push({ type, start: offset, dataStart: offset + header, end: offset + size });
+    offset += size;
+  }
+
+  return atoms;
+};
+
+const findPath = (bytes: Uint8Array, path: string[]) => {
+  let atoms = readAtoms(bytes);
+  let found: Atom | undefined;
+  for (const type of path) {
+    found = atoms.find(a => a.type === type);
+    if (!found) return undefined;
+    // meta 是 full box，payload 前有 4 bytes 的 version/flags
+    const childStart = found.type === 'meta' ? found.dataStart + 4 : found.dataStart;
+    atoms = readAtoms(bytes, childStart, found.end);
+  }
+  return found;
+};
+
+export const isMp4 = (bytes: Uint8Array) => readAscii(bytes, 4, 4) === 'ftyp';
+
+/** iTunes-style metadata from moov/udta/meta/ilst (M4A, AAC in MP4, ALAC). */
+export const parseMp4 = (bytes: Uint8Array): TrackMetadata => {
+  const ilst = findPath(bytes, ['moov', 'udta', 'meta', 'ilst']);
+  if (!ilst) return {};
+
+  const metadata: TrackMetadata = {};
+  for (const item of readAtoms(bytes, ilst.dataStart, ilst.end)) {
+    const data = readAtoms(bytes, item.dataStart, item.end).find(a => a.type === 'data');
+    if (!data || data.end - data.dataStart < 8) continue;
+
+    const dataType = readU32BE(bytes, data.dataStart) & 0xffffff;
+    const payload = bytes.subarray(data.dataStart + 8, data.end);
+    const text = () => (dataType === DATA_UTF8 ? decodeText(payload, 'utf-8').trim() : undefined);
+
+    switch (item.type) {
+      case '©nam':
+        metadata.title = text() || metadata.title;
+        break;
+      case '©ART':
+        metadata.artist = text() || metadata.artist;
+        break;
+      case 'aART':
+        metadata.artist = metadata.artist || text();
+        break;
+      case '©alb':
+        metadata.album = text() || metadata.album;
+        break;
+      case '©lyr':
+        metadata.lyrics = text() || metadata.lyrics;
+        break;
+      case 'tmpo':
+        if (payload.length >= 2) metadata.bpm = readU16BE(payload, 0) || undefined;
+        break;
+      case 'covr':
+        if (!metadata.cover) {
+          const mimeType = dataType === DATA_PNG ? 'image/png' : 'image/jpeg';
+          metadata.cover = { mimeType, data: payload.slice() };
+        }
+        break;
+    }
+  }
+
+  return metadata;
+};
@@ -0,0 +1,268 @@
+import { describe, expect, it } from 'vitest';
+import { parseTags } from './index';
+import { encodeBase64 } from './binary';
+import { id3v2Size, parseId3v2, removeUnsync } from './id3';
+import { parseMp4 } from './mp4';
+import { parseFlac, parseOgg, readOggPackets } from './vorbis';
+
+// 測試用的標籤都在這裡組出來，不依賴二進位檔案
+type Part = Uint8Array | number[] | string;
+
+/** Strings are written one byte per char, so "©nam" keeps its 0xA9. */
+const concat = (...parts: Part[]) => {
+  const arrays = parts.map(part =>
+    typeof part === 'string' ? Uint8Array.from(part, c => c.charCodeAt(0)) : Uint8Array.from(part)
+  );
+  const out = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    out.set(a, offset);
+    offset += a.length;
+  }
+  return out;
+};
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const u32be = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const u32le = (n: number) => u32be(n).reverse();
+const u24be = (n: number) => u32be(n).slice(1);
+const syncsafe = (n: number) => [(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f];
+
+const PNG = [0x89, 0x50, 0x4e, 0x47, 1, 2, 3];
+const JPEG = [0xff, 0xd8, 0xff, 9, 8, 7];
+
+// ---- ID3v2 ----
+
+const id3 = (version: 2 | 3 | 4, frames: [string, Uint8Array][], flags = 0) => {
+  const body = concat(
+    ...frames.map(([id, data]) =>
+      version === 2
+        ? concat(id, u24be(data.length), data)
+        : concat(id, version === 4 ? syncsafe(data.length) : u32be(data.length), [0, 0], data)
+    ),
+    new Array(16).fill(0) // padding
+  );
+  return concat('ID3', [version, 0, flags], syncsafe(body.length), body);
+};
+
+const latin1Text = (text: string) => concat([0], text);
+const utf16Text = (text: string) =>
+  concat([1, 0xff, 0xfe], Array.from(text).flatMap(c => [c.charCodeAt(0) & 0xff, c.charCodeAt(0) >> 8]));
+const utf8Text = (text: string) => concat([3], utf8(text));
+
+describe('ID3v2', () => {
+  it('reads v2.3 text frames, BPM and the front cover', () => {
+    const tag = id3(3, [
+      ['TIT2', utf16Text('Nightcall')],
+      ['TPE1', latin1Text('Kavinsky')],
+      ['TALB', latin1Text('OutRun')],
+      ['TBPM', latin1Text('91')],
+      ['APIC', concat([0], 'image/jpeg', [0, 0], 'back', [0], JPEG)],
+      ['APIC', concat([0], 'image/png', [0, 3], 'front', [0], PNG)],
+    ]);
+    const metadata = parseId3v2(tag);
+    expect(metadata).toMatchObject({ title: 'Nightcall', artist: 'Kavinsky', album: 'OutRun', bpm: 91 });
+    expect(metadata.cover?.mimeType).toBe('image/png');
+    expect(Array.from(metadata.cover!.data)).toEqual(PNG);
+  });
+
+  it('reads v2.4 syncsafe frame sizes, UTF-8 text and multiple values', () => {
+    const long = 'x'.repeat(200);
+    const tag = id3(4, [
+      ['TIT2', utf8Text(`Ünïcødé ${long}`)],
+      ['TPE1', utf8Text('One\0Two')],
+    ]);
+    const metadata = parseId3v2(tag);
+    expect(metadata.title).toBe(`Ünïcødé ${long}`);
+    expect(metadata.artist).toBe('One / Two');
+  });
+
+  it('maps v2.2 three-letter frames', () => {
+    const tag = id3(2, [
+      ['TT2', latin1Text('Old Tag')],
+      ['TP1', latin1Text('Someone')],
+      ['PIC', concat([0], 'JPG', [3], 'cover', [0], JPEG)],
+    ]);
+    const metadata = parseId3v2(tag);
+    expect(metadata).toMatchObject({ title: 'Old Tag', artist: 'Someone' });
+    expect(metadata.cover?.mimeType).toBe('image/jpeg');
+    expect(Array.from(metadata.cover!.data)).toEqual(JPEG);
+  });
+
+  it('reads unsynced and millisecond-synced lyrics', () => {
+    const tag = id3(3, [
+      ['USLT', concat([0], 'eng', [0], 'Plain words')],
+      ['SYLT', concat([0], 'eng', [2, 1], [0], 'Hello', [0], u32be(1500), 'World', [0], u32be(3250))],
+    ]);
+    const metadata = parseId3v2(tag);
+    expect(metadata.lyrics).toBe('Plain words');
+    expect(metadata.syncedLyrics).toEqual([
+      { time: 1.5, text: 'Hello' },
+      { time: 3.25, text: 'World' },
+    ]);
+  });
+
+  it('ignores SYLT timed in MPEG frames', () => {
+    const tag = id3(3, [['SYLT', concat([0], 'eng', [1, 1], [0], 'Hello', [0], u32be(10))]]);
+    expect(parseId3v2(tag).syncedLyrics).toBeUndefined();
+  });
+
+  it('undoes unsynchronisation', () => {
+    expect(Array.from(removeUnsync(Uint8Array.from([0xff, 0x00, 0xe0, 0x01, 0xff, 0x00])))).toEqual([0xff, 0xe0, 0x01, 0xff]);
+    const tag = id3(3, [['TIT2', latin1Text('Sync\xff\x00ed')]], 0x80);
+    expect(parseId3v2(tag).title).toBe('Sync\xffed');
+  });
+
+  it('stops at a frame that runs past the tag', () => {
+    const tag = id3(3, [['TIT2', latin1Text('Kept')]]);
+    const broken = concat(tag.subarray(0, 10), 'TPE1', u32be(9999), [0, 0], tag.subarray(10));
+    expect(parseId3v2(broken)).toEqual({});
+  });
+
+  it('measures the tag including its header', () => {
+    const tag = id3(3, [['TIT2', latin1Text('Size')]]);
+    expect(id3v2Size(concat(tag, [1, 2, 3]))).toBe(tag.length);
+    expect(id3v2Size(Uint8Array.from([1, 2, 3]))).toBe(0);
+  });
+});
+
+// ---- MP4 ----
+
+const atom = (type: string, ...children: Part[]) => {
+  const payload = concat(...children);
+  return concat(u32be(8 + payload.length), type, payload);
+};
+const dataAtom = (dataType: number, payload: Part) => atom('data', u32be(dataType), u32be(0), payload);
+const mp4 = (...items: Uint8Array[]) =>
+  concat(
+    atom('ftyp', 'M4A ', u32be(0)),
+    atom('moov', atom('mvhd', new Array(20).fill(0)), atom('udta', atom('meta', u32be(0), atom('hdlr', u32be(0)), atom('ilst', ...items))))
+  );
+
+describe('MP4', () => {
+  it('reads iTunes metadata atoms', () => {
+    const file = mp4(
+      atom('©nam', dataAtom(1, utf8('Midnight City'))),
+      atom('©ART', dataAtom(1, utf8('M83'))),
+      atom('aART', dataAtom(1, utf8('Various'))),
+      atom('©alb', dataAtom(1, utf8('Hurry Up'))),
+      atom('©lyr', dataAtom(1, utf8('[00:01.00]Waiting'))),
+      atom('tmpo', dataAtom(21, [0, 105])),
+      atom('covr', dataAtom(14, PNG))
+    );
+    const metadata = parseTags(file);
+    expect(metadata).toMatchObject({
+      title: 'Midnight City',
+      artist: 'M83',
+      album: 'Hurry Up',
+      lyrics: '[00:01.00]Waiting',
+      bpm: 105,
+    });
+    expect(metadata.cover?.mimeType).toBe('image/png');
+    expect(Array.from(metadata.cover!.data)).toEqual(PNG);
+  });
+
+  it('falls back to the album artist and JPEG covers', () => {
+    const metadata = parseMp4(mp4(atom('aART', dataAtom(1, utf8('Band'))), atom('covr', dataAtom(13, JPEG))));
+    expect(metadata.artist).toBe('Band');
+    expect(metadata.cover?.mimeType).toBe('image/jpeg');
+  });
+
+  it('reads 64-bit atom sizes', () => {
+    const title = dataAtom(1, utf8('Large'));
+    const large = concat(u32be(1), '©nam', u32be(0), u32be(16 + title.length), title);
+    expect(parseMp4(mp4(large)).title).toBe('Large');
+  });
+
+  it('returns nothing without an ilst', () => {
+    expect(parseMp4(concat(atom('ftyp', 'M4A '), atom('moov')))).toEqual({});
+  });
+});
+
+// ---- Vorbis comments: FLAC and Ogg ----
+
+const comments = (entries: string[]) =>
+  concat(
+    u32le(9),
+    'test 1.0\0',
+    u32le(entries.length),
+    ...entries.map(entry => concat(u32le(utf8(entry).length), utf8(entry)))
+  );
+
+const flacPicture = (type: number, mimeType: string, data: number[]) =>
+  concat(u32be(type), u32be(mimeType.length), mimeType, u32be(0), new Array(16).fill(0), u32be(data.length), data);
+
+const flac = (...blocks: [number, Uint8Array][]) =>
+  concat(
+    'fLaC',
+    ...blocks.map(([type, block], i) => concat([type | (i === blocks.length - 1 ? 0x80 : 0)], u24be(block.length), block))
+  );
+
+/** One Ogg page per packet, laced into 255-byte segments. */
+const ogg = (...packets: Uint8Array[]) =>
+  concat(
+    ...packets.map((packet, seq) => {
+      const lacing = new Array(Math.floor(packet.length / 255)).fill(255).concat(packet.length % 255);
+      return concat('OggS', [0, seq === 0 ? 2 : 0], new Array(8).fill(0), u32le(0x1234), u32le(seq), u32le(0), [lacing.length], lacing, packet);
+    })
+  );
+
+describe('FLAC', () => {
+  it('reads the comment block and prefers the PICTURE block', () => {
+    const embedded = encodeBase64(flacPicture(3, 'image/jpeg', JPEG));
+    const file = flac(
+      [0, new Uint8Array(34)],
+      [4, comments(['title=Strobe', 'ARTIST=deadmau5', 'Artist=Someone', 'ALBUM=For Lack', 'BPM=128', `METADATA_BLOCK_PICTURE=${embedded}`])],
+      [6, flacPicture(3, 'image/png', PNG)]
+    );
+    const metadata = parseFlac(file);
+    expect(metadata).toMatchObject({ title: 'Strobe', artist: 'deadmau5 / Someone', album: 'For Lack', bpm: 128 });
+    expect(metadata.cover?.mimeType).toBe('image/png');
+  });
+
+  it('uses a base64 picture comment when there is no PICTURE block', () => {
+    const embedded = encodeBase64(flacPicture(3, 'image/jpeg', JPEG));
+    const metadata = parseFlac(flac([4, comments([`METADATA_BLOCK_PICTURE=${embedded}`, 'METADATA_BLOCK_PICTURE=!!'])]));
+    expect(Array.from(metadata.cover!.data)).toEqual(JPEG);
+  });
+
+  it('merges native comments over a leading ID3 tag', () => {
+    const file = concat(
+      id3(3, [
+        ['TIT2', latin1Text('From ID3')],
+        ['TALB', latin1Text('ID3 Album')],
+      ]),
+      flac([4, comments(['TITLE=From FLAC'])])
+    );
+    expect(parseTags(file)).toMatchObject({ title: 'From FLAC', album: 'ID3 Album' });
+  });
+});
+
+describe('Ogg', () => {
+  it('reads Vorbis comments from the second packet', () => {
+    const lyrics = 'la '.repeat(200).trim();
+    const file = ogg(
+      concat([1], 'vorbis', new Array(23).fill(0)),
+      concat([3], 'vorbis', comments(['TITLE=Ogg Song', 'TEMPO=99.5', `UNSYNCEDLYRICS=${lyrics}`]), [1])
+    );
+    expect(parseTags(file)).toMatchObject({ title: 'Ogg Song', bpm: 99.5, lyrics });
+  });
+
+  it('reads Opus tags', () => {
+    const file = ogg(concat('OpusHead', [1, 2], new Array(10).fill(0)), concat('OpusTags', comments(['ARTIST=Opus Band'])));
+    expect(parseOgg(file).artist).toBe('Opus Band');
+  });
+
+  it('joins packets that span several segments', () => {
+    const big = new Uint8Array(600).fill(7);
+    const [first, second] = readOggPackets(ogg(Uint8Array.from([1, 2, 3]), big), 2);
+    expect(Array.from(first)).toEqual([1, 2, 3]);
+    expect(second.length).toBe(600);
+  });
+});
+
+describe('parseTags', () => {
+  it('returns nothing for unknown containers', () => {
+    expect(parseTags(concat('RIFF', new Array(40).fill(0)))).toEqual({});
+  });
+});
@@ -0,0 +1,155 @@
+import { CoverArt, TrackMetadata } from '../types';
+import { decodeBase64, decodeText, parseBpm, readAscii, readU24BE, readU32BE, readU32LE } from './binary';
+
+/** Parses a Vorbis comment block (vendor string + KEY=value list) into upper-cased keys. */
+export const readVorbisComments = (block: Uint8Array) => {
+  const comments = new Map<string, string[]>();
+  let offset = 0;
+  const vendorLength = readU32LE(block, offset);
+  offset += 4 + vendorLength;
+  const count = readU32LE(block, offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= block.length; i++) {
+    const length = readU32LE(block, offset);
+    offset += 4;
+    if (offset + length > block.length) break;
+    const entry = decodeText(block.subarray(offset, offset + length), 'utf-8');
+    offset += length;
+
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator).toUpperCase();
+    comments.set(key, [...(comments.get(key) ?? []), entry.slice(separator + 1)]);
+  }
+
+  return comments;
+};
+
+type Picture = CoverArt & { pictureType: number };
+
+/** FLAC PICTURE block layout, also used base64-encoded in METADATA_BLOCK_PICTURE comments. */
+export const readFlacPicture = (block: Uint8Array): Picture | null => {
+  if (block.length < 32) return null;
+  let offset = 0;
+  const pictureType = readU32BE(block, offset);
+  const mimeLength = readU32BE(block, offset + 4);
+  const mimeType = readAscii(block, offset + 8, mimeLength);
+  offset += 8 + mimeLength;
+  const descriptionLength = readU32BE(block, offset);
+  offset += 4 + descriptionLength + 16; // 略過描述與寬、高、色深、色數
+  const dataLength = readU32BE(block, offset);
+  offset += 4;
+  if (offset + dataLength > block.length) return null;
+  return { pictureType, mimeType: mimeType || 'image/jpeg', data: block.slice(offset, offset + dataLength) };
+};
+
+// 優先使用封面 (type 3)，否則取第一張
+const pickCover = (current: Picture | null, next: Picture | null) => {
+  if (!next) return current;
+  if (!current || (next.pictureType === 3 && current.pictureType !== 3)) return next;
+  return current;
+};
+
+export const metadataFromComments = (comments: Map<string, string[]>): TrackMetadata => {
+  const first = (key: string) => comments.get(key)?.[0]?.trim() || undefined;
+  const metadata: TrackMetadata = {
+    title: first('TITLE'),
+    artist: comments.get('ARTIST')?.join(' / ') || undefined,
+    album: first('ALBUM'),
+    bpm: parseBpm(first('BPM') ?? first('TEMPO')),
+    lyrics: first('LYRICS') ?? first('UNSYNCEDLYRICS'),
+  };
+
+  let cover: Picture | null = null;
+  for (const encoded of comments.get('METADATA_BLOCK_PICTURE') ?? []) {
+    try {
+      cover = pickCover(cover, readFlacPicture(decodeBase64(encoded)));
+    } catch {
+      // 忽略損壞的 base64
+    }
+  }
+  if (cover) metadata.cover = { mimeType: cover.mimeType, data: cover.data };
+
+  return metadata;
+};
+
+/** Native FLAC: walks the metadata blocks after the "fLaC" marker. */
+export const parseFlac = (bytes: Uint8Array): TrackMetadata => {
+  if (readAscii(bytes, 0, 4) !== 'fLaC') return {};
+
+  let offset = 4;
+  let metadata: TrackMetadata = {};
+  let cover: Picture | null = null;
+
+  while (offset + 4 <= bytes.length) {
+    const header = bytes[offset];
+    const type = header & 0x7f;
+    const length = readU24BE(bytes, offset + 1);
+    const block = bytes.subarray(offset + 4, offset + 4 + length);
+
+    if (type === 4) metadata = metadataFromComments(readVorbisComments(block));
+    if (type === 6) cover = pickCover(cover, readFlacPicture(block));
+
+    offset += 4 + length;
+    if (header & 0x80) break;
+  }
+
+  // PICTURE 區塊優先於註解中的 METADATA_BLOCK_PICTURE
+  if (cover) metadata.cover = { mimeType: cover.mimeType, data: cover.data };
+  return metadata;
+};
+
+/** Reassembles the first few packets of the first logical stream in an Ogg file. */
+export const readOggPackets = (bytes: Uint8Array, maxPackets: number) => {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let serial: number | null = null;
+  let offset = 0;
+
+  while (offset + 27 <= bytes.length && packets.length < maxPackets) {
+    if (readAscii(bytes, offset, 4) !== 'OggS') break;
+    const pageSerial = readU32LE(bytes, offset + 14);
+    const segmentCount = bytes[offset + 26];
+    const table = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    let dataOffset = offset + 27 + segmentCount;
+
+    for (const segment of table) {
+      if (serial === null || pageSerial === serial) {
+        serial = pageSerial;
+        pending.push(bytes.subarray(dataOffset, dataOffset + segment));
+        // 長度小於 255 的 segment 代表封包結束
+        if (segment < 255) {
+          const total = pending.reduce((sum, part) => sum + part.length, 0);
+          const packet = new Uint8Array(total);
+          let p = 0;
+          for (const part of pending) {
+            packet.set(part, p);
+            p += part.length;
+          }
+          packets.push(packet);
+          pending = [];
+          if (packets.length >= maxPackets) break;
+        }
+      }
+      dataOffset += segment;
+    }
+    offset = dataOffset;
+  }
+
+  return packets;
+};
+
+/** Ogg Vorbis ("\x03vorbis") and Opus ("OpusTags") comment packets. */
+export const parseOgg = (bytes: Uint8Array): TrackMetadata => {
+  const [, comment] = readOggPackets(bytes, 2);
+  if (!comment) return {};
+
+  if (comment[0] === 3 && readAscii(comment, 1, 6) === 'vorbis') {
+    return metadataFromComments(readVorbisComments(comment.subarray(7)));
+  }
+  if (readAscii(comment, 0, 8) === 'OpusTags') {
+    return metadataFromComments(readVorbisComments(comment.subarray(8)));
+  }
+  return {};
+};
@@ -1,18 +1,70 @@
 
 export interface AudioData {
   frequencyData: Uint8Array;
+  timeDomainData: Uint8Array;
   averageFrequency: number;
   bassIntensity: number;
   midIntensity: number;
   trebleIntensity: number;
+  rms: number;
+  spectralCentroid: number;
+  spectralFlux: number;
+  /** Sample rate of the analysed signal, to place frequencyData bins in Hz. */
+  sampleRate: number;
+}
+
+export interface BeatState {
+  bpm: number;
+  confidence: number;
+  /** Position inside the current beat, 0..1. */
+  phase: number;
+  beatCount: number;
+  lastBeatTime: number;
+}
+
+export interface BeatEvent {
+  time: number;
+  /** How far the onset exceeded the adaptive threshold, 0..1. */
+  strength: number;
+  confidence: number;
+  bpm: number;
+  beatIndex: number;
+  isDownbeat: boolean;
+}
+
+export interface CoverArt {
+  mimeType: string;
+  data: Uint8Array;
+}
+
+/** One entry of time-stamped text, e.g. from an ID3 SYLT frame. */
+export interface TimedText {
+  /** Seconds from the start of the track. */
+  time: number;
+  text: string;
+}
+
+export interface TrackMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  bpm?: number;
+  cover?: CoverArt;
+  /** Lyrics text as tagged; often LRC with timestamps, otherwise plain. */
+  lyrics?: string;
+  /** Synchronised lyrics (ID3 SYLT) with millisecond timestamps. */
+  syncedLyrics?: TimedText[];
 }
 
 export interface Particle {
   x: number;
   y: number;
+  z: number;
   vx: number;
   vy: number;
+  vz: number;
   size: number;
   color: string;
+  /** Remaining life, 1 at birth and 0 at death. */
   life: number;
 }